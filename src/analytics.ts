@@ -0,0 +1,325 @@
+import { AnalyticsOptions, ElementId, GraphData, GraphStats, NodeDegree, NodeMetric } from "./canvas-types.js";
+import { findConnectedComponents } from "./component-packing.js";
+
+/** Probability of following a link rather than jumping to a random node */
+export const PAGERANK_DAMPING = 0.85;
+
+/** PageRank stops once the scores move less than this in total between iterations */
+const PAGERANK_TOLERANCE = 1e-9;
+
+const PAGERANK_MAX_ITERATIONS = 100;
+
+/**
+ * Centrality, component and summary statistics of the visible part of a
+ * graph. Each result is computed on first use and kept, so build a new
+ * instance after the graph changes.
+ *
+ * Link direction counts for in/out degree, PageRank and strongly connected
+ * components. Betweenness and closeness follow it only with `directed`.
+ * Parallel links count once except for degree and PageRank.
+ */
+export class GraphAnalytics {
+  private readonly ids: ElementId[];
+
+  /** Out-neighbors per node index, one entry per visible link */
+  private readonly outLinks: number[][];
+
+  /** In-neighbors per node index, one entry per visible link */
+  private readonly inLinks: number[][];
+
+  private readonly visible: GraphData;
+
+  private readonly directed: boolean;
+
+  private readonly cache = new Map<string, unknown>();
+
+  constructor(data: GraphData, options: AnalyticsOptions = {}) {
+    const nodes = data.nodes.filter(node => node.visible);
+    const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+    const links = data.links.filter(link => link.visible && indexById.has(link.source.id) && indexById.has(link.target.id));
+
+    this.visible = { nodes, links };
+    this.directed = options.directed ?? false;
+    this.ids = nodes.map(node => node.id);
+    this.outLinks = nodes.map(() => []);
+    this.inLinks = nodes.map(() => []);
+    for (const link of links) {
+      const source = indexById.get(link.source.id)!;
+      const target = indexById.get(link.target.id)!;
+      this.outLinks[source].push(target);
+      this.inLinks[target].push(source);
+    }
+  }
+
+  /** In, out and total links per node; a self-loop counts as both */
+  getDegree(): ReadonlyMap<ElementId, Readonly<NodeDegree>> {
+    return this.cached('degree', () => new Map(this.ids.map((id, i) => {
+      const degree = { in: this.inLinks[i].length, out: this.outLinks[i].length, total: 0 };
+      degree.total = degree.in + degree.out;
+      return [id, degree];
+    })));
+  }
+
+  /**
+   * Share of the shortest paths between other nodes that pass through each
+   * node (Brandes), normalized to [0, 1].
+   */
+  getBetweenness(): ReadonlyMap<ElementId, number> {
+    return this.cached('betweenness', () => {
+      const neighbors = this.getNeighbors(this.directed);
+      const n = neighbors.length;
+      const centrality = new Float64Array(n);
+
+      for (let s = 0; s < n; s++) {
+        const order: number[] = [];
+        const predecessors: number[][] = neighbors.map(() => []);
+        const paths = new Float64Array(n);
+        const distance = new Int32Array(n).fill(-1);
+        paths[s] = 1;
+        distance[s] = 0;
+        const queue = [s];
+        for (let head = 0; head < queue.length; head++) {
+          const v = queue[head];
+          order.push(v);
+          for (const w of neighbors[v]) {
+            if (distance[w] < 0) {
+              distance[w] = distance[v] + 1;
+              queue.push(w);
+            }
+            if (distance[w] === distance[v] + 1) {
+              paths[w] += paths[v];
+              predecessors[w].push(v);
+            }
+          }
+        }
+
+        const dependency = new Float64Array(n);
+        for (let i = order.length - 1; i > 0; i--) {
+          const w = order[i];
+          for (const v of predecessors[w]) {
+            dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+          }
+          centrality[w] += dependency[w];
+        }
+      }
+
+      // Every ordered pair was visited; undirected pairs are visited from both ends
+      const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+      return new Map(this.ids.map((id, i) => [id, centrality[i] * scale]));
+    });
+  }
+
+  /**
+   * Inverse average distance to the nodes each node reaches, scaled by the
+   * share of the graph it reaches (Wasserman and Faust), so nodes in small
+   * components score lower. Isolated nodes score 0.
+   */
+  getCloseness(): ReadonlyMap<ElementId, number> {
+    return this.cached('closeness', () => {
+      const neighbors = this.getNeighbors(this.directed);
+      const n = neighbors.length;
+      return new Map(this.ids.map((id, i) => {
+        const distances = breadthFirst(neighbors, i);
+        let reached = 0;
+        let total = 0;
+        for (const distance of distances) {
+          if (distance > 0) {
+            reached++;
+            total += distance;
+          }
+        }
+        return [id, total > 0 ? (reached / total) * (reached / (n - 1)) : 0];
+      }));
+    });
+  }
+
+  /**
+   * PageRank along link direction with damping `PAGERANK_DAMPING`. Nodes
+   * without outgoing links share their score with every node. Scores add up to 1.
+   */
+  getPageRank(): ReadonlyMap<ElementId, number> {
+    return this.cached('pageRank', () => {
+      const n = this.ids.length;
+      let rank = new Float64Array(n).fill(1 / n);
+      for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+        let dangling = 0;
+        for (let i = 0; i < n; i++) {
+          if (this.outLinks[i].length === 0) dangling += rank[i];
+        }
+        const next = new Float64Array(n).fill((1 - PAGERANK_DAMPING + PAGERANK_DAMPING * dangling) / n);
+        for (let i = 0; i < n; i++) {
+          const share = PAGERANK_DAMPING * rank[i] / this.outLinks[i].length;
+          for (const target of this.outLinks[i]) next[target] += share;
+        }
+
+        let change = 0;
+        for (let i = 0; i < n; i++) change += Math.abs(next[i] - rank[i]);
+        rank = next;
+        if (change < PAGERANK_TOLERANCE) break;
+      }
+      return new Map(this.ids.map((id, i) => [id, rank[i]]));
+    });
+  }
+
+  /** Connected components ignoring link direction, largest first */
+  getComponents(): readonly (readonly ElementId[])[] {
+    return this.cached('components', () =>
+      findConnectedComponents(this.visible).map(component => component.nodes.map(node => node.id)));
+  }
+
+  /** Strongly connected components (Tarjan), largest first; ties keep node order */
+  getStronglyConnectedComponents(): readonly (readonly ElementId[])[] {
+    return this.cached('stronglyConnectedComponents', () => {
+      const n = this.ids.length;
+      const index = new Int32Array(n).fill(-1);
+      const lowLink = new Int32Array(n);
+      const onStack = new Uint8Array(n);
+      const stack: number[] = [];
+      const components: number[][] = [];
+      let counter = 0;
+
+      for (let root = 0; root < n; root++) {
+        if (index[root] >= 0) continue;
+        // Iterative depth-first search: node and position in its neighbor list
+        const frames: [number, number][] = [[root, 0]];
+        index[root] = lowLink[root] = counter++;
+        stack.push(root);
+        onStack[root] = 1;
+
+        while (frames.length > 0) {
+          const frame = frames[frames.length - 1];
+          const [v, next] = frame;
+          if (next < this.outLinks[v].length) {
+            frame[1]++;
+            const w = this.outLinks[v][next];
+            if (index[w] < 0) {
+              index[w] = lowLink[w] = counter++;
+              stack.push(w);
+              onStack[w] = 1;
+              frames.push([w, 0]);
+            } else if (onStack[w]) {
+              lowLink[v] = Math.min(lowLink[v], index[w]);
+            }
+            continue;
+          }
+
+          frames.pop();
+          if (frames.length > 0) {
+            const parent = frames[frames.length - 1][0];
+            lowLink[parent] = Math.min(lowLink[parent], lowLink[v]);
+          }
+          if (lowLink[v] === index[v]) {
+            const component: number[] = [];
+            let w: number;
+            do {
+              w = stack.pop()!;
+              onStack[w] = 0;
+              component.push(w);
+            } while (w !== v);
+            components.push(component.sort((a, b) => a - b));
+          }
+        }
+      }
+
+      return components
+        .sort((a, b) => b.length - a.length || a[0] - b[0])
+        .map(component => component.map(i => this.ids[i]));
+    });
+  }
+
+  /** Summary statistics; see `GraphStats` */
+  getStats(): Readonly<GraphStats> {
+    return this.cached('stats', () => {
+      const n = this.ids.length;
+      const neighbors = this.getNeighbors(this.directed);
+      const pairs = neighbors.reduce((sum, list) => sum + list.length, 0) / (this.directed ? 1 : 2);
+      const possiblePairs = n * (n - 1) / (this.directed ? 1 : 2);
+      return {
+        nodeCount: n,
+        linkCount: this.visible.links.length,
+        density: possiblePairs > 0 ? pairs / possiblePairs : 0,
+        averageDegree: n > 0 ? 2 * this.visible.links.length / n : 0,
+        componentCount: this.getComponents().length,
+        diameter: this.estimateDiameter(),
+      };
+    });
+  }
+
+  /** Value of `metric` per node; component metrics give the component's index */
+  getNodeMetric(metric: NodeMetric): ReadonlyMap<ElementId, number> {
+    return this.cached(`metric:${metric}`, () => {
+      switch (metric) {
+        case 'degree':
+        case 'inDegree':
+        case 'outDegree': {
+          const key = metric === 'degree' ? 'total' : metric === 'inDegree' ? 'in' : 'out';
+          return new Map([...this.getDegree()].map(([id, degree]) => [id, degree[key]]));
+        }
+        case 'betweenness': return this.getBetweenness();
+        case 'closeness': return this.getCloseness();
+        case 'pageRank': return this.getPageRank();
+        case 'component': return componentIndex(this.getComponents());
+        case 'stronglyConnectedComponent': return componentIndex(this.getStronglyConnectedComponents());
+      }
+    });
+  }
+
+  private cached<T>(key: string, compute: () => T): T {
+    if (!this.cache.has(key)) this.cache.set(key, compute());
+    return this.cache.get(key) as T;
+  }
+
+  /** Distinct neighbors per node index without self-loops, both ways unless `directed` */
+  private getNeighbors(directed: boolean): number[][] {
+    return this.cached(`neighbors:${directed}`, () => this.outLinks.map((out, i) => {
+      const all = directed ? out : [...out, ...this.inLinks[i]];
+      return [...new Set(all)].filter(j => j !== i);
+    }));
+  }
+
+  /**
+   * Longest shortest path in links, ignoring direction. Two breadth-first
+   * sweeps per component: from any node, then from the farthest one found.
+   * Exact for trees, a lower bound otherwise.
+   */
+  private estimateDiameter(): number {
+    const neighbors = this.getNeighbors(false);
+    const indexById = new Map(this.ids.map((id, i) => [id, i]));
+    let diameter = 0;
+    for (const component of this.getComponents()) {
+      const [far] = farthest(breadthFirst(neighbors, indexById.get(component[0])!));
+      diameter = Math.max(diameter, farthest(breadthFirst(neighbors, far))[1]);
+    }
+    return diameter;
+  }
+}
+
+/** Index and distance of the farthest reached node */
+function farthest(distances: Int32Array): [number, number] {
+  let index = 0;
+  for (let i = 1; i < distances.length; i++) {
+    if (distances[i] > distances[index]) index = i;
+  }
+  return [index, distances[index]];
+}
+
+/** Links from `source` to every node; -1 for unreachable nodes */
+function breadthFirst(neighbors: number[][], source: number): Int32Array {
+  const distance = new Int32Array(neighbors.length).fill(-1);
+  distance[source] = 0;
+  const queue = [source];
+  for (let head = 0; head < queue.length; head++) {
+    const v = queue[head];
+    for (const w of neighbors[v]) {
+      if (distance[w] < 0) {
+        distance[w] = distance[v] + 1;
+        queue.push(w);
+      }
+    }
+  }
+  return distance;
+}
+
+function componentIndex(components: readonly (readonly ElementId[])[]): Map<ElementId, number> {
+  return new Map(components.flatMap((ids, index) => ids.map(id => [id, index] as const)));
+}
@@ -2,6 +2,24 @@ import { NodeObject } from "force-graph";
 
 // ─── Style & Behavior Sub-Configs ────────────────────────────────────────────
 
+/** Outline drawn for a node. `size` is the circle radius, or the half-side for squares. */
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'hexagon' | 'rounded-rect' | 'triangle';
+
+/** Icon-font glyph drawn inside a node */
+export interface NodeIconGlyph {
+  /** Character(s) to draw, e.g. '\uf007' */
+  glyph: string;
+  /** Icon font family, e.g. 'Font Awesome 6 Free' (load it with @font-face or a stylesheet) */
+  fontFamily: string;
+  /** Glyph color. Default: contrast color against the node fill */
+  color?: string;
+  /** Font weight some icon fonts need to select a style. Default: 400 */
+  fontWeight?: number;
+}
+
+/** Icon drawn inside a node: an image URL (SVG, PNG, data: URL…) or an icon-font glyph */
+export type NodeIcon = string | NodeIconGlyph;
+
 /** Visual style for nodes */
 export interface NodeStyleConfig {
   /** Font family for node labels. Default: 'SofiaSans' */
@@ -37,6 +55,27 @@ export interface NodeStyleConfig {
   glowColor?: [number, number, number];
   /** Glow maximum opacity (0–1). Default: 0.6 */
   glowMaxOpacity?: number;
+  /** Shape for nodes without `shape` or a matching `labelShapes` entry. Default: 'circle' */
+  shape?: NodeShape;
+  /**
+   * Shape per node label, e.g. `{ Person: 'circle', Company: 'square' }`.
+   * The first of a node's labels with an entry wins; `node.shape` overrides it. Default: {}
+   */
+  labelShapes?: Record<string, NodeShape>;
+  /**
+   * Icon per node label, e.g. `{ Company: '/icons/building.svg' }`.
+   * The first of a node's labels with an entry wins; `node.icon` overrides it. Default: {}
+   */
+  labelIcons?: Record<string, NodeIcon>;
+  /** Icon size as a fraction of the largest square that fits inside the node. Default: 0.8 */
+  iconScale?: number;
+  /**
+   * CORS mode for remote node images and icons. 'anonymous' keeps the canvas
+   * exportable but requires CORS headers; null loads without CORS. Default: 'anonymous'
+   */
+  imageCrossOrigin?: 'anonymous' | 'use-credentials' | null;
+  /** Color of the ring around the keyboard-focused node. Default: '#3B82F6' */
+  focusRingColor?: string;
 }
 
 /** Visual style for links/edges */
@@ -69,6 +108,122 @@ export interface LinkStyleConfig {
   labelBackgroundPadding?: number;
   /** Gap between edge tip and visible node border (in px). Default: 2 */
   edgeGap?: number;
+  /**
+   * Draw visible parallel links with the same direction and relationship type
+   * as one link with a count badge: `true` for every type, or the types to
+   * merge. Default: false
+   */
+  aggregateParallelLinks?: boolean | string[];
+  /** Widest line of an aggregated link, which grows with its count (before dividing by globalScale). Default: 8 */
+  aggregateMaxWidth?: number;
+}
+
+/**
+ * Elements a style rule applies to; every condition given must match.
+ * A rule with `label` only matches nodes, one with `relationship` only links.
+ */
+export interface StyleSelector {
+  /** Kind of element to match. Default: implied by `label` or `relationship`, else both */
+  element?: 'node' | 'link';
+  /** Nodes with this label */
+  label?: string;
+  /** Links with this relationship type */
+  relationship?: string;
+  /** Elements whose `data` has this property (neither null nor undefined) */
+  property?: string;
+  /** With `property`: the value the property must equal */
+  value?: unknown;
+  /** Custom predicate on the element's `data`, e.g. `data => data.age > 30` */
+  where?: (data: Record<string, any>) => boolean;
+}
+
+/** Visual attributes set by a style rule. Node-only and link-only attributes are ignored on the other kind. */
+export interface ElementStyle {
+  /** Node fill or link stroke color */
+  color?: string;
+  /** Node radius (world units) */
+  size?: number;
+  /** Node border color */
+  borderColor?: string;
+  /** Node outline shape */
+  shape?: NodeShape;
+  /** Link dash pattern, e.g. `[4, 2]` */
+  dash?: number[];
+  /** Link line width, replacing `linkStyle.lineWidthUnselected`; selected links use the wider of this and `lineWidthSelected` */
+  width?: number;
+  /** `data` property shown as the node caption (instead of `captionsKeys`) or the link label (instead of the relationship) */
+  caption?: string;
+}
+
+/** Stylesheet-style rule: elements matching `selector` get `style`. Later rules override earlier ones. */
+export interface StyleRule {
+  selector: StyleSelector;
+  style: ElementStyle;
+}
+
+/** How a scale maps property values: continuous for numbers, or one step per distinct value */
+export type ScaleType = 'linear' | 'log' | 'sqrt' | 'ordinal';
+
+/** Visual attribute driven by a scale */
+export type ScaleChannel = 'nodeSize' | 'nodeColor' | 'linkWidth' | 'linkColor';
+
+/** Maps a `data` property of every node or link onto sizes, widths or colors */
+export interface ScaleMapping<T> {
+  /**
+   * `data` property to read; required unless `metric` is set. Elements
+   * without a usable value keep their other styling
+   */
+  property?: string;
+  /** Node scales only: read this `getAnalytics()` metric of each node instead of a property */
+  metric?: NodeMetric;
+  /** Default: 'linear' */
+  type?: ScaleType;
+  /**
+   * Input values. Default: derived from the data on every update — `[min, max]`
+   * of the numeric values (positive ones for 'log'), or the distinct values,
+   * sorted, for 'ordinal'
+   */
+  domain?: unknown[];
+  /**
+   * Output values. Continuous scales interpolate between the first and last
+   * (colors through every stop); ordinal colors cycle and ordinal sizes spread
+   * evenly between the first and last
+   */
+  range?: T[];
+}
+
+/** Data-driven sizes and colors. Style rules and values set on an element win over scales. */
+export interface ScalesConfig {
+  /** Node radius (world units). Default range: [4, 20] */
+  nodeSize?: ScaleMapping<number>;
+  /** Node fill. Default range: light to dark blue, or the label palette for 'ordinal' */
+  nodeColor?: ScaleMapping<string>;
+  /** Link line width; arrowheads grow with it. Default range: [1, 6] */
+  linkWidth?: ScaleMapping<number>;
+  /** Link stroke. Default range: as `nodeColor` */
+  linkColor?: ScaleMapping<string>;
+  /** Show a legend of the active scales in the bottom-left corner. Default: false */
+  legend?: boolean;
+}
+
+/** One sample of a scale for legends */
+export interface ScaleLegendEntry {
+  value: unknown;
+  /** Formatted value */
+  label: string;
+  /** Size or width at this value, for size channels */
+  size?: number;
+  /** Color at this value, for color channels */
+  color?: string;
+}
+
+/** Legend of one active scale, as returned by `getScaleLegend()` */
+export interface ScaleLegend {
+  channel: ScaleChannel;
+  /** `data` property or metric the scale reads */
+  property: string;
+  type: ScaleType;
+  entries: ScaleLegendEntry[];
 }
 
 /** Force simulation parameters */
@@ -98,6 +253,23 @@ export interface SimulationConfig {
    * Default: disabled (0).
    */
   disableCollisionAbove?: number;
+  /**
+   * Run the force warmup in a Web Worker instead of blocking the main thread.
+   * Positions stream back while it runs (see `onSimulationProgress`), and nodes
+   * are pinned when it finishes. Falls back to the main thread where workers
+   * are unavailable. Default: false
+   */
+  useWorker?: boolean;
+  /** Ticks between position updates streamed from the worker. Default: 10 */
+  workerBatchTicks?: number;
+}
+
+/** Progress of a force warmup running in a worker */
+export interface SimulationProgress {
+  /** Ticks computed so far */
+  tick: number;
+  /** Ticks in the whole warmup */
+  totalTicks: number;
 }
 
 /** Interaction / UX parameters */
@@ -120,6 +292,31 @@ export interface InteractionConfig {
   linkHitWidth?: number;
   /** Luminance threshold for switching to dark text on light nodes. Default: 0.5 */
   contrastThreshold?: number;
+  /** Zoom factor applied by the + and - keys. Default: 1.25 */
+  keyboardZoomStep?: number;
+}
+
+/** Modifier key used by selection gestures */
+export type SelectionModifier = 'shift' | 'alt' | 'ctrl' | 'meta';
+
+/**
+ * Built-in selection by pointer. The selection API (`setSelection` etc.)
+ * works regardless of `enabled`.
+ */
+export interface SelectionConfig {
+  /**
+   * Select by clicking elements and by dragging a box or lasso over the background.
+   * Plain clicks replace the selection; background clicks clear it. Default: false
+   */
+  enabled?: boolean;
+  /** Modifier that toggles clicked elements and makes box/lasso selections add to the selection. Default: 'shift' */
+  multiSelectModifier?: SelectionModifier;
+  /** Modifier that drags a rectangle selection from the background instead of panning. Default: 'shift' */
+  boxSelectModifier?: SelectionModifier;
+  /** Modifier that drags a freehand lasso selection from the background instead of panning. Default: 'alt' */
+  lassoSelectModifier?: SelectionModifier;
+  /** Outline color of the selection box/lasso; its fill uses the same color at low opacity. Default: '#3B82F6' */
+  marqueeColor?: string;
 }
 
 
@@ -172,24 +369,45 @@ export interface LargeGraphConfig {
   skipLinkLabelsAtLowZoom?: boolean;
 }
 
+/** Easing curve for layout transitions: a named preset or a custom `t → progress` function (both in 0–1) */
+export type TransitionEasing = 'linear' | 'quadInOut' | 'cubicInOut' | 'sinInOut' | 'expInOut' | ((t: number) => number);
+
+/**
+ * Animated transitions between layout positions.
+ * When enabled, switching to a deterministic layout (any mode but force) or
+ * re-laying-out after `setGraphData` moves nodes smoothly from their current
+ * positions to the new targets instead of snapping.
+ */
+export interface LayoutTransitionConfig {
+  /** Master switch. Default: `false` (nodes snap to their new positions). */
+  enabled?: boolean;
+  /** Transition duration in ms. `0` snaps immediately. Default: 600 */
+  duration?: number;
+  /** Easing curve applied to the interpolation. Default: 'cubicInOut' */
+  easing?: TransitionEasing;
+}
+
 /** Event handler callbacks for user interactions with the graph */
 export interface EventHandlers {
   /** Fired when a node is left-clicked */
   onNodeClick?: (node: GraphNode, event: MouseEvent) => void;
-  /** Fired when a link/edge is left-clicked */
-  onLinkClick?: (link: GraphLink, event: MouseEvent) => void;
+  /** Fired when a link/edge is left-clicked; `links` holds the links an aggregated link stands for, else just `link` */
+  onLinkClick?: (link: GraphLink, event: MouseEvent, links: GraphLink[]) => void;
   /** Fired when a node is right-clicked */
   onNodeRightClick?: (node: GraphNode, event: MouseEvent) => void;
-  /** Fired when a link/edge is right-clicked */
-  onLinkRightClick?: (link: GraphLink, event: MouseEvent) => void;
+  /** Fired when a link/edge is right-clicked; `links` as for `onLinkClick` */
+  onLinkRightClick?: (link: GraphLink, event: MouseEvent, links: GraphLink[]) => void;
   /** Fired when a node is hovered (null when hover leaves) */
   onNodeHover?: (node: GraphNode | null) => void;
-  /** Fired when a node drag ends */
-  onNodeDragEnd?: (node: GraphNode) => void;
+  /**
+   * Fired once when a node drag ends. `nodes` holds every node that moved:
+   * the dragged node first, then the selected nodes dragged along with it.
+   */
+  onNodeDragEnd?: (node: GraphNode, nodes: GraphNode[]) => void;
   /** Fired when pin state changes (nodes pinned/unpinned) */
   onPinChange?: (pinned: boolean) => void;
-  /** Fired when a link is hovered (null when hover leaves) */
-  onLinkHover?: (link: GraphLink | null) => void;
+  /** Fired when a link is hovered (null and no `links` when hover leaves); `links` as for `onLinkClick` */
+  onLinkHover?: (link: GraphLink | null, links: GraphLink[]) => void;
   /** Fired when the canvas background is left-clicked */
   onBackgroundClick?: (event: MouseEvent) => void;
   /** Fired when the canvas background is right-clicked */
@@ -200,8 +418,62 @@ export interface EventHandlers {
   onEngineStop?: () => void;
   /** Fired when the layout mode changes */
   onLayoutChange?: (layout: LayoutMode) => void;
+  /** Fired when an animated layout transition finishes (see `layoutTransition`) */
+  onLayoutTransitionEnd?: (layout: LayoutMode) => void;
+  /** Fired when the selected nodes or links change */
+  onSelectionChange?: (selection: GraphSelection) => void;
+  /** Fired after each batch of worker warmup ticks (see `simulation.useWorker`) */
+  onSimulationProgress?: (progress: SimulationProgress) => void;
+  /** Fired when `setFilter` or a data change alters the visible counts */
+  onFilterChange?: (counts: FilterCounts) => void;
+}
+
+/**
+ * `detail` payloads of the DOM events dispatched by `<falkordb-canvas>`.
+ * Every event mirrors an `EventHandlers` callback and fires right after it.
+ */
+export interface FalkorDBCanvasEventDetailMap {
+  /** Mirrors `onNodeClick` */
+  'node-click': { node: GraphNode; event: MouseEvent };
+  /** Mirrors `onNodeRightClick` */
+  'node-right-click': { node: GraphNode; event: MouseEvent };
+  /** Mirrors `onLinkClick` */
+  'link-click': { link: GraphLink; event: MouseEvent; links: GraphLink[] };
+  /** Mirrors `onLinkRightClick` */
+  'link-right-click': { link: GraphLink; event: MouseEvent; links: GraphLink[] };
+  /** Mirrors `onNodeHover` (node is null when hover leaves) */
+  'node-hover': { node: GraphNode | null };
+  /** Mirrors `onLinkHover` (link is null when hover leaves) */
+  'link-hover': { link: GraphLink | null; links: GraphLink[] };
+  /** Mirrors `onNodeDragEnd` */
+  'node-drag-end': { node: GraphNode; nodes: GraphNode[] };
+  /** Mirrors `onBackgroundClick` */
+  'background-click': { event: MouseEvent };
+  /** Mirrors `onBackgroundRightClick` */
+  'background-right-click': { event: MouseEvent };
+  /** Mirrors `onZoom` */
+  'zoom': { transform: Transform };
+  /** Mirrors `onEngineStop` */
+  'engine-stop': Record<string, never>;
+  /** Mirrors `onLayoutChange` */
+  'layout-change': { layout: LayoutMode };
+  /** Mirrors `onLayoutTransitionEnd` */
+  'layout-transition-end': { layout: LayoutMode };
+  /** Mirrors `onPinChange` */
+  'pin-change': { pinned: boolean };
+  /** Mirrors `onSelectionChange` */
+  'selection-change': { selection: GraphSelection };
+  /** Mirrors `onSimulationProgress` */
+  'simulation-progress': { progress: SimulationProgress };
+  /** Mirrors `onFilterChange` */
+  'filter-change': { counts: FilterCounts };
 }
 
+/** DOM events dispatched by `<falkordb-canvas>`, keyed by event type */
+export type FalkorDBCanvasEventMap = {
+  [K in keyof FalkorDBCanvasEventDetailMap]: CustomEvent<FalkorDBCanvasEventDetailMap[K]>;
+};
+
 /**
  * Main configuration object for the FalkorDB Canvas graph visualization.
  * All properties are optional — unset values use sensible defaults.
@@ -218,10 +490,12 @@ export interface ForceGraphConfig {
   foregroundColor?: string;
 
   // ─── Layout ──────────────────────────────────────────────────────────────────
-  /** Active layout algorithm: 'force' (physics), 'tree' (hierarchical), or 'radial' (circular rings). Default: 'force' */
+  /** Active layout algorithm: 'force' (physics), 'tree' (hierarchical), 'radial' (circular rings), 'layered' (Sugiyama layers), 'grid', 'circle' or 'concentric'. Default: 'force' */
   layoutMode?: LayoutMode;
-  /** Per-layout-mode options (tree direction/spacing, radial direction/spacing, force link distance). */
+  /** Per-layout-mode options (tree, radial and layered direction/spacing, grid order, circle and concentric spacing, force link distance). */
   layoutOptions?: LayoutOptions;
+  /** Animated interpolation between old and new layout positions. */
+  layoutTransition?: LayoutTransitionConfig;
 
   // ─── Style Sub-Configs ───────────────────────────────────────────────────────
   /** Node visual style configuration */
@@ -234,6 +508,25 @@ export interface ForceGraphConfig {
   interaction?: InteractionConfig;
   /** Large-graph rendering optimisations (viewport culling and low-zoom draw skipping). */
   largeGraph?: LargeGraphConfig;
+  /** Built-in click, box and lasso selection */
+  selection?: SelectionConfig;
+  /**
+   * Drawing backend. 'webgl' draws circular nodes, links and arrowheads with
+   * instanced WebGL2 underneath the 2D canvas, which keeps labels, self-loops,
+   * dashed links, other shapes, images, icons and custom renderers. Falls back
+   * to 'canvas' where WebGL2 is unavailable. Default: 'canvas'
+   */
+  renderer?: GraphRenderer;
+
+  // ─── Style Rules ─────────────────────────────────────────────────────────────
+  /**
+   * Rules mapping labels, relationship types and properties to colors, sizes,
+   * shapes, dashes, widths and captions. Values set on a node or link itself win.
+   * Changing the rules restyles the current data in place. Default: []
+   */
+  styleRules?: StyleRule[];
+  /** Node size and color, link width and color mapped from `data` properties. Deep-merged; set a channel to undefined to remove it. */
+  scales?: ScalesConfig;
 
   // ─── Display Options ─────────────────────────────────────────────────────────
   /** Enable/disable force simulation animation. When false, nodes are pinned in place. */
@@ -253,9 +546,15 @@ export interface ForceGraphConfig {
   pinOnDragEnd?: boolean;
 
   // ─── Selection & Custom Rendering ────────────────────────────────────────────
-  /** Predicate that returns true if a link should be rendered in its "selected" style */
+  /**
+   * Predicate that returns true if a link should be rendered in its "selected" style.
+   * Links in the built-in selection are always rendered selected.
+   */
   isLinkSelected?: (link: GraphLink) => boolean;
-  /** Predicate that returns true if a node should be rendered in its "selected" style */
+  /**
+   * Predicate that returns true if a node should be rendered in its "selected" style.
+   * Nodes in the built-in selection are always rendered selected.
+   */
   isNodeSelected?: (node: GraphNode) => boolean;
   /**
    * Predicate that returns true if a node should be rendered dimmed (reduced opacity).
@@ -299,25 +598,33 @@ export interface ForceGraphConfig {
   eventHandlers?: EventHandlers;
 }
 
-export interface InternalForceGraphConfig extends Omit<ForceGraphConfig, 'backgroundColor' | 'foregroundColor' | 'captionsKeys' | 'showPropertyKeyPrefix' | 'layoutMode' | 'layoutOptions' | 'pinOnDragEnd' | 'nodeStyle' | 'linkStyle' | 'simulation' | 'interaction' | 'largeGraph'> {
+export interface InternalForceGraphConfig extends Omit<ForceGraphConfig, 'backgroundColor' | 'foregroundColor' | 'captionsKeys' | 'showPropertyKeyPrefix' | 'layoutMode' | 'layoutOptions' | 'layoutTransition' | 'pinOnDragEnd' | 'nodeStyle' | 'linkStyle' | 'simulation' | 'interaction' | 'largeGraph' | 'selection' | 'styleRules' | 'scales'> {
   backgroundColor: string;
   foregroundColor: string;
   captionsKeys: [string, boolean][];
   showPropertyKeyPrefix: boolean;
   layoutMode: LayoutMode;
   layoutOptions: LayoutOptions;
+  layoutTransition: Required<LayoutTransitionConfig>;
   pinOnDragEnd: boolean;
   nodeStyle: Required<NodeStyleConfig>;
   linkStyle: Required<LinkStyleConfig>;
   simulation: Required<SimulationConfig>;
   interaction: Required<InteractionConfig>;
   largeGraph: Required<LargeGraphConfig>;
+  selection: Required<SelectionConfig>;
+  styleRules: StyleRule[];
+  scales: ScalesConfig;
 }
 
-/** Layout algorithm mode: 'force' (physics-based), 'tree' (hierarchical DAG), or 'radial' (concentric rings) */
-export type LayoutMode = 'force' | 'tree' | 'radial';
+/**
+ * Layout algorithm mode: 'force' (physics-based), 'tree' (hierarchical DAG),
+ * 'radial' (concentric rings), 'layered' (Sugiyama-style layers with crossing reduction),
+ * 'grid' (rows and columns), 'circle' (one ring) or 'concentric' (rings by degree or a property)
+ */
+export type LayoutMode = 'force' | 'tree' | 'radial' | 'layered' | 'grid' | 'circle' | 'concentric';
 
-/** Directions for tree layout */
+/** Directions for tree and layered layouts */
 export type HierarchyDirection = 'td' | 'bu' | 'lr' | 'rl';
 
 /** Directions for radial layout */
@@ -326,8 +633,20 @@ export type RadialDirection = 'out' | 'in';
 /** All possible layout directions */
 export type LayoutDirection = HierarchyDirection | RadialDirection;
 
+/** Options every layout mode has for graphs made of disconnected parts */
+export interface ComponentPackingOptions {
+  /**
+   * Lay out each connected component on its own, then pack the components
+   * into a compact rectangle, largest first. The force layout packs them once
+   * its warmup settles. Default: false
+   */
+  packComponents?: boolean;
+  /** Gap between packed components (world-space units). Default: 40 */
+  componentSpacing?: number;
+}
+
 /** Options for tree layout */
-export interface HierarchyLayoutOptions {
+export interface HierarchyLayoutOptions extends ComponentPackingOptions {
   /** Direction of the hierarchy. Default: 'td' */
   direction?: HierarchyDirection;
   /** Distance between levels (inter-layer spacing). Default: 80 */
@@ -336,8 +655,14 @@ export interface HierarchyLayoutOptions {
   nodeSpacing?: number;
 }
 
+/** Options for layered layout */
+export interface LayeredLayoutOptions extends HierarchyLayoutOptions {
+  /** Barycenter sweeps used to reduce edge crossings; the order with the fewest crossings is kept. Default: 24 */
+  crossingSweeps?: number;
+}
+
 /** Options specific to radial layout */
-export interface RadialLayoutOptions {
+export interface RadialLayoutOptions extends ComponentPackingOptions {
   /** Direction of the radial expansion. Default: 'out' */
   direction?: RadialDirection;
   /** Minimum distance between rings (inter-level spacing). Default: 80 */
@@ -350,28 +675,92 @@ export interface RadialLayoutOptions {
   innerGapMultiplier?: number;
 }
 
+/**
+ * Node order key for the grid layout: the first label, or a value from the
+ * node's `data`. Numbers sort numerically, other values as text.
+ */
+export type NodeSortKey = 'label' | { property: string };
+
+/** Options for grid layout */
+export interface GridLayoutOptions extends ComponentPackingOptions {
+  /** Order of the nodes, row by row; nodes missing the property go last. Default: input order */
+  sortBy?: NodeSortKey;
+  /** Sort direction. Default: 'asc' */
+  sortOrder?: 'asc' | 'desc';
+  /** Number of columns. Default: the square root of the node count, rounded up */
+  columns?: number;
+  /** Gap between the largest nodes in adjacent cells (world-space units). Default: 40 */
+  nodeSpacing?: number;
+}
+
+/** Options for circle layout */
+export interface CircleLayoutOptions extends ComponentPackingOptions {
+  /** Minimum gap between neighboring nodes on the circle (world-space units). Default: 20 */
+  nodeSpacing?: number;
+  /** Circular barycenter sweeps used to shorten links; the order with the shortest links is kept. Default: 8 */
+  crossingSweeps?: number;
+}
+
+/** Options for concentric layout */
+export interface ConcentricLayoutOptions extends ComponentPackingOptions {
+  /** Value placing nodes on rings, highest in the center: link count or a numeric `data` property. Default: 'degree' */
+  by?: 'degree' | { property: string };
+  /** Range of values sharing a ring. Default: each distinct value gets its own ring */
+  levelWidth?: number;
+  /** Minimum distance between rings. Default: 80 */
+  levelDistance?: number;
+  /** Minimum gap between neighboring nodes on the same ring (world-space units). Default: 10 */
+  nodeSpacing?: number;
+}
+
 /** Options specific to force layout */
-export interface ForceLayoutOptions {
+export interface ForceLayoutOptions extends ComponentPackingOptions {
   /** Base link distance (added to node sizes). Default: 45 */
   linkDistance?: number;
   /** Extra padding around nodes for collision detection. Default: 25 */
   collisionPadding?: number;
+  /**
+   * Cluster the layout by community: pull nodes towards the rest of their
+   * community and push communities apart. Communities are detected with
+   * Louvain modularity optimization, ignoring link direction. Default: false
+   */
+  communities?: boolean;
+  /** Louvain resolution; higher values find more, smaller communities. Default: 1 */
+  communityResolution?: number;
+  /** Pull of each node towards its community's center (0–1). Default: 0.1 */
+  communityStrength?: number;
+  /** Minimum gap between the extents of two communities (world units). Default: 60 */
+  communitySeparation?: number;
+  /** Fill nodes without an explicit `color` with their community's color, in every layout mode. Default: false */
+  colorByCommunity?: boolean;
 }
 
 /** Combined layout options with per-layout sections */
 export interface LayoutOptions {
   tree?: HierarchyLayoutOptions;
   radial?: RadialLayoutOptions;
+  layered?: LayeredLayoutOptions;
+  grid?: GridLayoutOptions;
+  circle?: CircleLayoutOptions;
+  concentric?: ConcentricLayoutOptions;
   force?: ForceLayoutOptions;
 }
 
+/**
+ * Identifier of a node or link. Numeric ids are used as-is; use strings for
+ * UUIDs, composite keys, or FalkorDB ids beyond `Number.MAX_SAFE_INTEGER`
+ * (which cannot be represented exactly as a JS number).
+ * Ids are compared by value, so `1` and `"1"` are different elements.
+ */
+export type ElementId = string | number;
+
 /**
  * Internal graph node representation used by the canvas during rendering.
  * Extends force-graph's NodeObject with graph-specific properties.
  */
 export type GraphNode = NodeObject & {
-  /** Unique numeric identifier for the node */
-  id: number;
+  /** Unique identifier for the node */
+  id: ElementId;
   /** Node labels/categories (e.g. ['Person', 'Employee']) */
   labels: string[];
   /** Whether this node is currently visible on the canvas */
@@ -380,12 +769,25 @@ export type GraphNode = NodeObject & {
   expand: [boolean, Date];
   /** Cached two-line display text computed from captionsKeys */
   displayName: [string, string];
-  /** Fill color for the node circle (CSS color string) */
-  color: string;
+  /**
+   * Fill color for the node circle (CSS color string). When unset the node is
+   * filled with its community color (`layoutOptions.force.colorByCommunity`) or gray.
+   */
+  color?: string;
   /** Border stroke color for the node (CSS color string, optional — overrides config.foregroundColor if set) */
   borderColor?: string;
-  /** Radius of the node circle in world units */
+  /** Attributes from the matching `styleRules` and `scales`; the node's own fields win over them */
+  style?: ElementStyle;
+  /** Radius of the node circle in world units, from `ownSize`, the style rules and scales, or NODE_SIZE */
   size: number;
+  /** Radius set on the node itself; only this one is returned by `getData` */
+  ownSize?: number;
+  /** Outline shape (optional — overrides config.nodeStyle.labelShapes and nodeStyle.shape) */
+  shape?: NodeShape;
+  /** Image URL drawn filling the node, clipped to its shape (e.g. an avatar). Caption moves below the node. */
+  image?: string;
+  /** Icon drawn inside the node (optional — overrides config.nodeStyle.labelIcons). Caption moves below the node. */
+  icon?: NodeIcon;
   /** Arbitrary key-value properties on the node (used for label resolution via captionsKeys) */
   data: {
     [key: string]: any;
@@ -414,8 +816,8 @@ export type GraphNode = NodeObject & {
  * Internal graph link/edge representation used by the canvas during rendering.
  */
 export type GraphLink = {
-  /** Unique numeric identifier for the link */
-  id: number;
+  /** Unique identifier for the link */
+  id: ElementId;
   /** Relationship type label (e.g. 'CALLS', 'DEFINES') */
   relationship: string;
   /** Source node (resolved reference) */
@@ -424,10 +826,23 @@ export type GraphLink = {
   target: GraphNode;
   /** Whether this link is currently visible on the canvas */
   visible: boolean;
-  /** Stroke color for the link line (CSS color string) */
-  color: string;
+  /** Stroke color for the link line (CSS color string). Default: the `styleRules` color, else gray */
+  color?: string;
+  /** Attributes from the matching `styleRules` and `scales`; the link's own fields win over them */
+  style?: ElementStyle;
   /** Curvature value for parallel edges and self-loops */
   curve: number;
+  /**
+   * Bend points (world coordinates, source to target) of a link that the layered
+   * layout routes across intermediate layers. Replaces the curve while set.
+   */
+  route?: { x: number; y: number }[];
+  /**
+   * Set on the link drawn for a bundle of parallel links merged by
+   * `linkStyle.aggregateParallelLinks`: every link in the bundle, this one first.
+   * The other links of the bundle are not drawn.
+   */
+  aggregate?: GraphLink[];
   /** Arbitrary key-value properties on the link */
   data: {
     [key: string]: any;
@@ -440,13 +855,73 @@ export interface GraphData {
   links: GraphLink[];
 }
 
+/** Options for `findPath` */
+export interface FindPathOptions {
+  /** Follow links only from source to target. Default: false */
+  directed?: boolean;
+  /** Link `data` property holding the link's cost. Missing, non-numeric and negative values count as 1. Default: every link costs 1 */
+  weightKey?: string;
+  /** Number of paths to return. Default: 1 */
+  k?: number;
+}
+
+/** A path found by `findPath`: `links[i]` joins `nodes[i]` and `nodes[i + 1]` */
+export interface GraphPath {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  /** Sum of the link weights (the link count without `weightKey`) */
+  cost: number;
+}
+
+/** Options for `getAnalytics` */
+export interface AnalyticsOptions {
+  /** Follow link direction for betweenness and closeness. Default: false */
+  directed?: boolean;
+}
+
+/** Number of visible links at a node */
+export interface NodeDegree {
+  in: number;
+  out: number;
+  /** `in + out` */
+  total: number;
+}
+
+/** Summary of the visible graph */
+export interface GraphStats {
+  nodeCount: number;
+  linkCount: number;
+  /** Share of the possible node pairs that are linked, counting parallel links once */
+  density: number;
+  /** Links per node, counting each link at both ends */
+  averageDegree: number;
+  /** Connected components, ignoring link direction */
+  componentCount: number;
+  /** Longest shortest path in links, ignoring direction. Exact for trees, a lower bound otherwise */
+  diameter: number;
+}
+
+/**
+ * Per-node analytics value, usable as a scale input. Component metrics give
+ * the index of the node's component, largest first.
+ */
+export type NodeMetric =
+  | 'degree'
+  | 'inDegree'
+  | 'outDegree'
+  | 'betweenness'
+  | 'closeness'
+  | 'pageRank'
+  | 'component'
+  | 'stronglyConnectedComponent';
+
 /**
  * Public node type for input data. Contains user-supplied properties
  * without the internal rendering state (positions, velocities, etc.).
  */
 export type Node = Omit<
   GraphNode,
-  "x" | "y" | "layoutTargetX" | "layoutTargetY" | "vx" | "vy" | "fx" | "fy" | "initialPositionCalculated" | "displayName" | "size" | "expand"
+  "x" | "y" | "layoutTargetX" | "layoutTargetY" | "vx" | "vy" | "fx" | "fy" | "initialPositionCalculated" | "displayName" | "size" | "ownSize" | "expand" | "style"
 > & {
   /** Optional node radius override (defaults to built-in NODE_SIZE) */
   size?: number;
@@ -455,16 +930,25 @@ export type Node = Omit<
 }
 
 /**
- * Public link type for input data. References nodes by numeric ID
+ * Public link type for input data. References nodes by ID
  * rather than resolved object references.
  */
-export type Link = Omit<GraphLink, "curve" | "source" | "target"> & {
+export type Link = Omit<GraphLink, "curve" | "source" | "target" | "style"> & {
   /** Source node ID */
-  source: number;
+  source: ElementId;
   /** Target node ID */
-  target: number;
+  target: ElementId;
 };
 
+/** A group of densely linked nodes, as returned by `getCommunities()` */
+export interface Community {
+  /** Community index, ordered by size (0 = largest) */
+  id: number;
+  nodeIds: ElementId[];
+  /** Fill color used for the community's nodes by `colorByCommunity` */
+  color: string;
+}
+
 /** Public graph data structure passed to setData/setGraphData. Nodes reference each other by ID. */
 export interface Data {
   nodes: Node[];
@@ -481,12 +965,90 @@ export type ViewportState = {
   centerY: number;
 } | undefined;
 
+/** Selected elements, as returned by `getSelection()` */
+export interface GraphSelection {
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+/** Ids to select with `setSelection()`; omitted lists select nothing of that kind */
+export interface GraphSelectionIds {
+  nodes?: ElementId[];
+  links?: ElementId[];
+}
+
+/**
+ * Which elements `setFilter` shows. Every criterion must pass; an element
+ * hidden through its own `visible` flag stays hidden.
+ */
+export interface GraphFilter {
+  /** Show only nodes with at least one of these labels */
+  nodeLabels?: string[];
+  /** Show only links with one of these relationship types */
+  relationshipTypes?: string[];
+  nodePredicate?: (node: GraphNode) => boolean;
+  linkPredicate?: (link: GraphLink) => boolean;
+  /** Also hide nodes left without a visible link. Default: false */
+  hideOrphans?: boolean;
+  /**
+   * Lay out only the visible subgraph, re-running the current layout now and
+   * whenever the filter changes. Default: false
+   */
+  relayout?: boolean;
+}
+
+/** Nodes that `collapseGroup` merges: every given criterion must match */
+export interface GroupSelector {
+  /** Nodes with this label */
+  label?: string;
+  /** Nodes in this community (see `getCommunities()`) */
+  community?: number;
+  /** Nodes whose `data` has this property (neither null nor undefined) */
+  property?: string;
+  /** With `property`: the value the property must equal */
+  value?: unknown;
+}
+
+/** Options for `collapseGroup` */
+export interface CollapseGroupOptions {
+  /** Id of the meta-node. Default: `group:` followed by the selector, e.g. `group:Person` */
+  id?: ElementId;
+  /** Caption of the meta-node. Default: the selector and member count, e.g. `Person (12)` */
+  caption?: string;
+}
+
+/** Visible and total element counts, reported when the filter changes what is shown */
+export interface FilterCounts {
+  visibleNodes: number;
+  totalNodes: number;
+  visibleLinks: number;
+  totalLinks: number;
+}
+
+/** Options for `FalkorDBCanvas.exportImage()` */
+export interface ExportImageOptions {
+  /** Output format. Default: 'png' */
+  format?: 'png' | 'svg';
+  /** Output pixels per screen pixel (2 doubles the resolution). Default: window.devicePixelRatio */
+  scale?: number;
+  /** Background fill, or `null` for a transparent image. Default: the canvas backgroundColor */
+  background?: string | null;
+  /**
+   * Area to export: 'viewport' is what is currently on screen, 'fit' is the
+   * whole graph at the current zoom level. Default: 'viewport'
+   */
+  region?: 'viewport' | 'fit';
+}
+
 /** D3 zoom transform: k = zoom scale, x/y = translation offset */
 export type Transform = { k: number, x: number, y: number };
 
 /** Custom rendering mode relative to the built-in drawing: 'before' (draw under), 'after' (draw over), or 'replace' (skip built-in) */
 export type CanvasRenderMode = 'before' | 'after' | 'replace';
 
+/** Drawing backend: the 2D canvas, or instanced WebGL2 for nodes, links and arrowheads */
+export type GraphRenderer = 'canvas' | 'webgl';
+
 // Force graph instance type from force-graph library
 // The instance is created by calling ForceGraph as a function with a container element
 export type ForceGraphInstance = import("force-graph").default<GraphNode, GraphLink> | undefined;
@@ -5,7 +5,11 @@ import {
   Link,
   GraphNode,
   GraphLink,
+  ElementId,
+  ElementStyle,
+  StyleRule,
 } from "./canvas-types.js";
+import { resolveLinkStyle, resolveNodeStyle } from "./style-rules.js";
 
 /** Default canvas background color */
 export const DEFAULT_CANVAS_BACKGROUND = '#FFFFFF';
@@ -13,21 +17,55 @@ export const DEFAULT_CANVAS_BACKGROUND = '#FFFFFF';
 /** Default canvas foreground color (text, node labels, etc.) */
 export const DEFAULT_CANVAS_FOREGROUND = '#1A1A1A';
 
+/** Fill color of nodes without a color of their own */
+export const DEFAULT_NODE_COLOR = '#A8A8A8';
+
+/** Default color palette used to assign colors to node labels (in first-seen order) and communities. */
+export const DEFAULT_LABEL_PALETTE = [
+  '#7167F6',
+  '#ED70B1',
+  '#EF8759',
+  '#E8B739',
+  '#99E4E5',
+  '#F2EB47',
+  '#89D86D',
+  '#F85A5A',
+  '#5AB7F8',
+  '#B67EF5',
+  '#4CC9A5',
+  '#C9A54C',
+];
+
+/** Stroke color of links without a color of their own */
+export const DEFAULT_LINK_COLOR = '#A8A8A8';
+
 /** Default link distance between connected nodes (world units) */
 export const LINK_DISTANCE = 45;
 /** Default node circle radius (world units) */
 export const NODE_SIZE = 9;
 const DEFAULT_LINK_CURVE_MULTIPLIER = 0.4;
 
-type NodePair = [number, number];
+type NodePair = [ElementId, ElementId];
 
-function getPairIds(source: number, target: number): NodePair {
-  if (source <= target) {
+function getPairIds(source: ElementId, target: ElementId): NodePair {
+  // Numbers compare numerically; strings (or a string/number mix) by their string form
+  const inOrder = typeof source === 'number' && typeof target === 'number'
+    ? source <= target
+    : String(source) <= String(target);
+  if (inOrder) {
     return [source, target];
   }
   return [target, source];
 }
 
+/**
+ * Key identifying the unordered node pair a link connects. Parallel edges
+ * (including both directions) share the same key.
+ */
+export function getLinkPairKey(sourceId: ElementId, targetId: ElementId): string {
+  return JSON.stringify(getPairIds(sourceId, targetId));
+}
+
 /**
  * Calculates the curvature value for a link based on its position among parallel edges.
  * Parallel edges between the same node pair alternate above/below the straight line.
@@ -58,7 +96,7 @@ export function calculateLinkCurve(index: number, isSelfLoop: boolean, curveMult
  * Applies circular layout to nodes (neo4j-style)
  * Only positions nodes that haven't been positioned yet
  */
-function circularLayout(nodes: GraphNode[], center: { x: number; y: number }, radius: number): void {
+export function circularLayout(nodes: GraphNode[], center: { x: number; y: number }, radius: number): void {
   const unlocatedNodes = nodes.filter(node => !node.initialPositionCalculated);
 
   unlocatedNodes.forEach((node, i) => {
@@ -68,15 +106,65 @@ function circularLayout(nodes: GraphNode[], center: { x: number; y: number }, ra
   });
 }
 
+/**
+ * Creates a GraphNode with unset runtime state from a public Node.
+ * The node is left unpositioned until `circularLayout` (or a layout) places it.
+ * @param styleRules - Rules resolved into `style`; a rule size applies when the node has none
+ */
+export function createGraphNode(node: Node, position?: { x?: number, y?: number }, styleRules?: StyleRule[]): GraphNode {
+  const style = resolveNodeStyle(node, styleRules);
+  return {
+    ...node,
+    style,
+    size: node.size ?? style?.size ?? NODE_SIZE,
+    ownSize: node.size,
+    expand: [node.expand ?? false, new Date(0)],
+    displayName: ["", ""] as [string, string],
+    x: position?.x,
+    y: position?.y,
+    vx: undefined,
+    vy: undefined,
+    fx: undefined,
+    fy: undefined,
+    initialPositionCalculated: false,
+  };
+}
+
+/**
+ * Re-resolve a node's `style` after its labels, data or the rules changed.
+ * Rule sizes are stored in `size` so layouts see them; the node's `ownSize`
+ * wins, and a `size` changed in place since the last call becomes its `ownSize`.
+ * @param baseStyle - Style the rules are layered on, e.g. from data scales
+ */
+export function applyNodeStyleRules(node: GraphNode, styleRules: StyleRule[] | undefined, baseStyle?: ElementStyle) {
+  if (node.size !== (node.ownSize ?? node.style?.size ?? NODE_SIZE)) node.ownSize = node.size;
+  node.style = mergeStyles(baseStyle, resolveNodeStyle(node, styleRules));
+  node.size = node.ownSize ?? node.style?.size ?? NODE_SIZE;
+}
+
+/**
+ * Re-resolve a link's `style` after its relationship, data or the rules changed.
+ * @param baseStyle - Style the rules are layered on, e.g. from data scales
+ */
+export function applyLinkStyleRules(link: GraphLink, styleRules: StyleRule[] | undefined, baseStyle?: ElementStyle) {
+  link.style = mergeStyles(baseStyle, resolveLinkStyle(link, styleRules));
+}
+
+function mergeStyles(base: ElementStyle | undefined, style: ElementStyle | undefined): ElementStyle | undefined {
+  return base && style ? { ...base, ...style } : style ?? base;
+}
+
 /**
  * Converts Data format to GraphData format
- * Adds runtime properties (x, y, vx, vy, fx, fy, displayName, curve)
+ * Adds runtime properties (x, y, vx, vy, fx, fy, displayName, curve) and the
+ * `style` resolved from `styleRules`
  */
 export function dataToGraphData(
   data: Data,
   position?: { x?: number, y?: number },
-  oldNodesMap?: Map<number, GraphNode>,
-  curveMultiplier?: number
+  oldNodesMap?: Map<ElementId, GraphNode>,
+  curveMultiplier?: number,
+  styleRules?: StyleRule[]
 ): GraphData {
   const nodes: GraphNode[] = data.nodes.map((node) => {
     const oldNode = oldNodesMap?.get(node.id);
@@ -89,28 +177,20 @@ export function dataToGraphData(
       // Always sync mutable fields so callers can update color, visibility, borderColor,
       // size, labels, and arbitrary data (e.g. isPath / isPathSelected) without losing position.
       oldNode.labels = node.labels ?? oldNode.labels;
-      oldNode.size = node.size ?? oldNode.size;
+      if (node.size !== undefined) oldNode.size = oldNode.ownSize = node.size;
       oldNode.color = node.color ?? oldNode.color;
       oldNode.borderColor = node.borderColor ?? oldNode.borderColor;
+      oldNode.shape = node.shape ?? oldNode.shape;
+      oldNode.image = node.image ?? oldNode.image;
+      oldNode.icon = node.icon ?? oldNode.icon;
       oldNode.visible = node.visible ?? oldNode.visible;
       oldNode.data = node.data ?? oldNode.data;
+      applyNodeStyleRules(oldNode, styleRules);
 
       return oldNode;
     }
 
-    return {
-      ...node,
-      size: node.size ?? NODE_SIZE,
-      expand: [node.expand ?? false, new Date(0)],
-      displayName: ["", ""] as [string, string],
-      x: position?.x,
-      y: position?.y,
-      vx: undefined,
-      vy: undefined,
-      fx: undefined,
-      fy: undefined,
-      initialPositionCalculated: false,
-    };
+    return createGraphNode(node, position, styleRules);
   });
 
   // Apply circular layout to nodes that haven't been positioned yet
@@ -119,12 +199,12 @@ export function dataToGraphData(
   circularLayout(nodes, center, radius);
 
   // Create a Map for O(1) node lookups by id
-  const nodeMap = new Map<number, GraphNode>();
+  const nodeMap = new Map<ElementId, GraphNode>();
   nodes.forEach((node) => {
     nodeMap.set(node.id, node);
   });
 
-  const linksByPairCount = new Map<number, Map<number, number>>();
+  const linksByPairCount = new Map<ElementId, Map<ElementId, number>>();
 
   const links: GraphLink[] = data.links.map((link) => {
     const sourceNode = nodeMap.get(link.source) || oldNodesMap?.get(link.source);
@@ -144,7 +224,7 @@ export function dataToGraphData(
     let pairMap = linksByPairCount.get(pairMinId);
 
     if (!pairMap) {
-      pairMap = new Map<number, number>();
+      pairMap = new Map<ElementId, number>();
       linksByPairCount.set(pairMinId, pairMap);
     }
 
@@ -156,6 +236,7 @@ export function dataToGraphData(
       source: sourceNode,
       target: targetNode,
       curve: calculateLinkCurve(duplicateIndex, sourceNode.id === targetNode.id, curveMultiplier),
+      style: resolveLinkStyle(link, styleRules),
     };
   }).filter((link) => link !== undefined);
 
@@ -164,17 +245,20 @@ export function dataToGraphData(
 
 /**
  * Converts GraphData format to Data format
- * Removes runtime properties (x, y, layoutTargetX, layoutTargetY, vx, vy, fx, fy, displayName, curve)
+ * Removes runtime properties (x, y, layoutTargetX, layoutTargetY, vx, vy, fx, fy, displayName, curve, style)
  * Preserves the expand boolean so the state survives round-trips through dataToGraphData.
+ * Only a size set on the node itself is kept, so rule and scale sizes keep following their config.
  */
 export function graphDataToData(graphData: GraphData): Data {
   const nodes: Node[] = graphData.nodes.map((node) => {
-    const { x, y, layoutTargetX, layoutTargetY, vx, vy, fx, fy, displayName, expand, ...rest } = node;
-    return { ...rest, expand: expand[0] };
+    const { x, y, layoutTargetX, layoutTargetY, vx, vy, fx, fy, displayName, expand, style, size, ownSize, ...rest } = node;
+    const data: Node = { ...rest, expand: expand[0] };
+    if (ownSize !== undefined) data.size = ownSize;
+    return data;
   });
 
   const links: Link[] = graphData.links.map((link) => {
-    const { curve, source, target, ...rest } = link;
+    const { curve, route, source, target, style, aggregate, ...rest } = link;
     return {
       ...rest,
       source: source.id,
@@ -329,13 +413,24 @@ export const wrapTextForCircularNode = (
   text: string,
   maxRadius: number
 ): [string, string] => {
-  const ellipsis = "...";
-  const ellipsisWidth = ctx.measureText(ellipsis).width;
   const halfTextHeight = 1.125;
   const availableRadius = Math.sqrt(
     Math.max(0, maxRadius * maxRadius - halfTextHeight * halfTextHeight)
   );
-  const lineWidth = availableRadius * 2;
+  return wrapTextToWidth(ctx, text, availableRadius * 2);
+};
+
+/**
+ * Wraps text into two lines of at most `lineWidth` with ellipsis handling
+ * (used for non-circular node shapes)
+ */
+export const wrapTextToWidth = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  lineWidth: number
+): [string, string] => {
+  const ellipsis = "...";
+  const ellipsisWidth = ctx.measureText(ellipsis).width;
 
   const words = text.split(/\s+/);
   let line1 = "";
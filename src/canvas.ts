@@ -4,6 +4,8 @@ import {
   Data,
   ForceGraphInstance,
   GraphData,
+  Link,
+  Node,
   GraphLink,
   GraphNode,
   ForceGraphConfig,
@@ -16,23 +18,93 @@ import {
   NodeStyleConfig,
   LinkStyleConfig,
   SimulationConfig,
+  SimulationProgress,
   InteractionConfig,
   LargeGraphConfig,
+  SelectionConfig,
+  GraphSelection,
+  GraphSelectionIds,
+  LayoutTransitionConfig,
+  TransitionEasing,
+  FalkorDBCanvasEventDetailMap,
+  ElementId,
+  ExportImageOptions,
+  NodeIcon,
+  NodeShape,
+  Community,
+  ScaleChannel,
+  ScaleLegend,
+  FindPathOptions,
+  AnalyticsOptions,
+  GraphFilter,
+  FilterCounts,
+  GroupSelector,
+  CollapseGroupOptions,
+  GraphPath,
 } from "./canvas-types.js";
 import {
+  calculateLinkCurve,
+  circularLayout,
+  createGraphNode,
   dataToGraphData,
   DEFAULT_CANVAS_BACKGROUND,
   DEFAULT_CANVAS_FOREGROUND,
+  DEFAULT_LINK_COLOR,
+  DEFAULT_LABEL_PALETTE,
+  DEFAULT_NODE_COLOR,
+  applyLinkStyleRules,
+  applyNodeStyleRules,
   getContrastTextColor,
+  getLinkPairKey,
   getNodeDisplayText,
   graphDataToData,
   LINK_DISTANCE,
   wrapTextForCircularNode,
+  wrapTextToWidth,
 } from "./canvas-utils.js";
-import { isForceLayout, pinAllNodes, unpinAllNodes, computeTreePositions, computeRadialPositions } from "./layouts.js";
+import { ImageCache } from "./image-cache.js";
+import type { ForceParams, ForceWorkerRequest, ForceWorkerResponse } from "./force-simulation.js";
+import {
+  getNodeShapeBoundaryDistance,
+  getNodeShapeExtent,
+  getNodeShapeTextBox,
+  traceNodeShape,
+} from "./node-shapes.js";
+import { isModifierPressed, isPointInPolygon, SelectionManager } from "./selection.js";
+import { SvgRenderingContext } from "./svg-context.js";
+import { WebGLGraphRenderer } from "./webgl-renderer.js";
+import {
+  isForceLayout,
+  isLayoutMode,
+  pinAllNodes,
+  unpinAllNodes,
+  computeTreePositions,
+  computeRadialPositions,
+  computeGridPositions,
+  computeCirclePositions,
+  computeConcentricPositions,
+} from "./layouts.js";
+import { computeLayeredPositions } from "./layered-layout.js";
+import { DEFAULT_COMPONENT_SPACING, findConnectedComponents, packComponentLayouts } from "./component-packing.js";
+import { resolveLinkStyle } from "./style-rules.js";
+import { findShortestPaths } from "./paths.js";
+import { GraphAnalytics } from "./analytics.js";
+import { aggregateParallelLinks } from "./link-aggregation.js";
+import { CollapsedGroup, collapseGroups, describeGroupSelector, GROUP_CAPTION_KEY } from "./groups.js";
+import { createDataScales, DataScales, getLinkScaleStyle, getNodeScaleStyle, getScaleLegends } from "./scales.js";
+import { detectCommunities, forceCommunityAttraction, forceCommunitySeparation } from "./communities.js";
 
 const PADDING = 2;
 
+/** Largest exported image side in pixels; most browsers refuse bigger canvases */
+const MAX_EXPORT_DIMENSION = 16384;
+
+/** Margin around the graph bounds for `region: 'fit'` exports (screen pixels) */
+const EXPORT_FIT_MARGIN = 20;
+
+/** Duration (ms) of the pan that brings a keyboard-focused node into view */
+const KEYBOARD_PAN_DURATION = 300;
+
 // ─── Default Sub-Configs ───────────────────────────────────────────────────────
 
 const DEFAULT_NODE_STYLE: Required<NodeStyleConfig> = {
@@ -48,6 +120,12 @@ const DEFAULT_NODE_STYLE: Required<NodeStyleConfig> = {
   glowSteps: 16,
   glowColor: [59, 130, 246],
   glowMaxOpacity: 0.6,
+  shape: 'circle',
+  labelShapes: {},
+  labelIcons: {},
+  iconScale: 0.8,
+  imageCrossOrigin: 'anonymous',
+  focusRingColor: '#3B82F6',
 };
 
 const DEFAULT_LINK_STYLE: Required<LinkStyleConfig> = {
@@ -65,6 +143,8 @@ const DEFAULT_LINK_STYLE: Required<LinkStyleConfig> = {
   parallelEdgeCurveMultiplier: 0.4,
   labelBackgroundPadding: 0.3,
   edgeGap: PADDING,
+  aggregateParallelLinks: false,
+  aggregateMaxWidth: 8,
 };
 
 const DEFAULT_SIMULATION: Required<SimulationConfig> = {
@@ -75,6 +155,8 @@ const DEFAULT_SIMULATION: Required<SimulationConfig> = {
   warmupTicks: 300,
   chargeDistanceMax: Infinity,
   disableCollisionAbove: 0,
+  useWorker: false,
+  workerBatchTicks: 10,
 };
 
 const DEFAULT_INTERACTION: Required<InteractionConfig> = {
@@ -87,6 +169,7 @@ const DEFAULT_INTERACTION: Required<InteractionConfig> = {
   zoomToFitDelay: 50,
   linkHitWidth: 10,
   contrastThreshold: 0.5,
+  keyboardZoomStep: 1.25,
 };
 
 const DEFAULT_LARGE_GRAPH: Required<LargeGraphConfig> = {
@@ -98,6 +181,151 @@ const DEFAULT_LARGE_GRAPH: Required<LargeGraphConfig> = {
   skipLinkLabelsAtLowZoom: true,
 };
 
+const DEFAULT_SELECTION: Required<SelectionConfig> = {
+  enabled: false,
+  multiSelectModifier: 'shift',
+  boxSelectModifier: 'shift',
+  lassoSelectModifier: 'alt',
+  marqueeColor: '#3B82F6',
+};
+
+const DEFAULT_LAYOUT_TRANSITION: Required<LayoutTransitionConfig> = {
+  enabled: false,
+  duration: 600,
+  easing: 'cubicInOut',
+};
+
+const TRANSITION_EASINGS: Record<Exclude<TransitionEasing, (t: number) => number>, (t: number) => number> = {
+  linear: d3.easeLinear,
+  quadInOut: d3.easeQuadInOut,
+  cubicInOut: d3.easeCubicInOut,
+  sinInOut: d3.easeSinInOut,
+  expInOut: d3.easeExpInOut,
+};
+
+/** A node moving between two layouts, with its interpolation endpoints. */
+type TransitioningNode = {
+  node: GraphNode;
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+};
+
+/** Box or lasso selection being dragged, in container pixel coordinates. */
+type SelectionMarquee = {
+  mode: 'box' | 'lasso';
+  points: { x: number; y: number }[];
+  /** Add to the current selection instead of replacing it */
+  additive: boolean;
+  overlay: SVGSVGElement;
+};
+
+/** Selected nodes following a dragged node, with their state from before the drag. */
+type GroupDrag = {
+  node: GraphNode;
+  /** Dragged node position when the pointer was pressed on it */
+  startX: number;
+  startY: number;
+  companions: Map<GraphNode, { x: number; y: number; fx?: number; fy?: number }>;
+};
+
+/** Quadratic bezier as [x0, y0, controlX, controlY, x1, y1] */
+type QuadraticSegment = [number, number, number, number, number, number];
+
+/** A link's clipped quadratic curve, shared by the 2D and WebGL renderers. */
+type LinkCurve = {
+  /**
+   * Consecutive segments of the stroke, from just outside the source node to the
+   * arrowhead tip. One segment, or one per bend of a routed link.
+   */
+  segments: QuadraticSegment[];
+  /** End of the stroke and tip of the arrowhead, just outside the target node */
+  tipX: number;
+  tipY: number;
+  /** Unit direction of the arrowhead; null when the tangent vanishes */
+  arrowDirection: { x: number; y: number } | null;
+  /** Label centre and rotation */
+  textX: number;
+  textY: number;
+  angle: number;
+};
+
+/** Legend headings per scale channel */
+const SCALE_CHANNEL_TITLES: Record<ScaleChannel, string> = {
+  nodeSize: 'Node size',
+  nodeColor: 'Node color',
+  linkWidth: 'Link width',
+  linkColor: 'Link color',
+};
+
+/** Changes made through the mutation API that still await their layout pass. */
+type PendingMutation = {
+  newNodeIds: Set<ElementId>;
+  /** Links or nodes were removed, or links were added */
+  structureChanged: boolean;
+  /** Node sizes changed, which shifts deterministic layouts */
+  sizeChanged: boolean;
+};
+
+/**
+ * HTML attributes observed on `<falkordb-canvas>`. Each one has a camelCased
+ * property counterpart and is reflected back when the matching setter runs.
+ */
+const OBSERVED_ATTRIBUTES = [
+  'width',
+  'height',
+  'background-color',
+  'foreground-color',
+  'layout-mode',
+  'animation',
+  'pin-on-drag-end',
+  'captions-keys',
+  'show-property-key-prefix',
+  'dimmed',
+  'dim-opacity',
+  'node-mode',
+  'link-mode',
+] as const;
+
+type ObservedAttribute = typeof OBSERVED_ATTRIBUTES[number];
+
+function isCanvasRenderMode(value: string | null): value is CanvasRenderMode {
+  return value === 'before' || value === 'after' || value === 'replace';
+}
+
+/** Boolean attributes are true when present, unless explicitly set to "false". */
+function parseBooleanAttribute(value: string | null): boolean {
+  return value !== null && value !== 'false';
+}
+
+/**
+ * Parse the `captions-keys` attribute: either a JSON array in the
+ * `captionsKeys` config format or a comma-separated list of fuzzy-match keys.
+ */
+function parseCaptionsKeysAttribute(value: string | null): [string, boolean][] {
+  if (!value) return [];
+  if (value.trim().startsWith('[')) {
+    try {
+      return normalizeCaptionsKeys(JSON.parse(value));
+    } catch {
+      console.error(`[FalkorDBCanvas] Invalid captions-keys attribute: ${value}`);
+      return [];
+    }
+  }
+  return value.split(',').map(key => key.trim()).filter(Boolean).map(key => [key, false]);
+}
+
+/** Serialize caption keys back to the most compact attribute form. */
+function stringifyCaptionsKeys(keys: [string, boolean][]): string {
+  return keys.some(([, exact]) => exact) ? JSON.stringify(keys) : keys.map(([key]) => key).join(',');
+}
+
+/** Expand plain-string caption keys to `[key, false]` (fuzzy match) tuples. */
+function normalizeCaptionsKeys(keys: Array<string | [string, boolean]>): [string, boolean][] {
+  return keys.map(key => (typeof key === 'string' ? [key, false] : key));
+}
+
 /** Axis-aligned bounding box in world-space coordinates. */
 export type WorldBounds = {
   minX: number;
@@ -123,6 +351,71 @@ function createStyles(backgroundColor: string, foregroundColor: string, interact
         opacity: 0.5;
       }
     }
+    :host(:focus) {
+      outline: none;
+    }
+    /* Visually hidden, but read by screen readers */
+    .live-region {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      overflow: hidden;
+      clip: rect(0 0 0 0);
+      white-space: nowrap;
+    }
+    /* WebGL layer behind force-graph's transparent canvas, which is cleared over its nodes */
+    .webgl-layer {
+      position: absolute;
+      top: 0;
+      left: 0;
+      z-index: -1;
+      pointer-events: none;
+    }
+    /* Legend of the data scales */
+    .scale-legend {
+      position: absolute;
+      left: 8px;
+      bottom: 8px;
+      max-height: calc(100% - 16px);
+      overflow-y: auto;
+      padding: 6px 8px;
+      background-color: ${backgroundColor};
+      color: ${foregroundColor};
+      box-shadow: 0 1px 3px rgba(0, 0, 0, 0.2);
+      border-radius: 4px;
+      font: 11px sans-serif;
+      pointer-events: none;
+    }
+    .scale-legend-title {
+      font-weight: 600;
+      margin: 4px 0 2px;
+    }
+    .scale-legend-entry {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      min-height: 14px;
+    }
+    .scale-legend-swatch {
+      flex: none;
+      background-color: currentColor;
+    }
+    .scale-legend-nodeColor {
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+    }
+    .scale-legend-nodeSize {
+      border-radius: 50%;
+      background-color: transparent;
+      border: 1px solid currentColor;
+    }
+    .scale-legend-linkWidth, .scale-legend-linkColor {
+      width: 24px;
+    }
+    .scale-legend-linkColor {
+      height: 3px;
+    }
     /* Force-graph tooltip styling */
     .float-tooltip-kap {
       position: absolute;
@@ -143,7 +436,7 @@ function createStyles(backgroundColor: string, foregroundColor: string, interact
  * FalkorDB Canvas — a Web Component (`<falkordb-canvas>`) that renders an
  * interactive force-directed graph visualization.
  *
- * Supports force, tree, and radial layouts; viewport culling for large graphs;
+ * Supports force, tree, radial, layered, grid, circle and concentric layouts; viewport culling for large graphs;
  * custom node/link rendering; and configurable styling.
  *
  * @example
@@ -175,6 +468,7 @@ class FalkorDBCanvas extends HTMLElement {
     // ─── Layout ──────────────────────────────────────────────────────────────
     layoutMode: "force",
     layoutOptions: {},
+    layoutTransition: { ...DEFAULT_LAYOUT_TRANSITION },
 
     // ─── Style Sub-Configs ───────────────────────────────────────────────────
     nodeStyle: { ...DEFAULT_NODE_STYLE },
@@ -182,22 +476,52 @@ class FalkorDBCanvas extends HTMLElement {
     simulation: { ...DEFAULT_SIMULATION },
     interaction: { ...DEFAULT_INTERACTION },
     largeGraph: { ...DEFAULT_LARGE_GRAPH },
+    selection: { ...DEFAULT_SELECTION },
 
     // ─── Display Options ─────────────────────────────────────────────────────
     captionsKeys: [],
     showPropertyKeyPrefix: false,
     pinOnDragEnd: false,
     dimmed: false,
+    renderer: 'canvas',
+    styleRules: [],
+    scales: {},
   } as InternalForceGraphConfig;
 
-  private nodeMode: CanvasRenderMode = 'replace';
+  private nodeRenderMode: CanvasRenderMode = 'replace';
+
+  private linkRenderMode: CanvasRenderMode = 'replace';
+
+  private nodeDegreeMap: Map<ElementId, number> = new Map();
+
+  // Neighbour id -> number of links between the two, maintained alongside nodeDegreeMap.
+  private nodeNeighbors: Map<ElementId, Map<ElementId, number>> = new Map();
 
-  private linkMode: CanvasRenderMode = 'replace';
+  // Detected communities; computed on first use and dropped whenever nodes or links change.
+  private communityCache: { communities: Community[]; byNodeId: Map<ElementId, number> } | null = null;
 
-  private nodeDegreeMap: Map<number, number> = new Map();
+  // Analytics of the visible graph per `directed` option, cleared like the community cache and on visibility changes
+  private analyticsCache: Map<boolean, GraphAnalytics> = new Map();
+
+  // Lookups kept in sync with `data` so the mutation API avoids full scans.
+  private nodeById: Map<ElementId, GraphNode> = new Map();
+
+  private linkById: Map<ElementId, GraphLink> = new Map();
+
+  // Parallel edges per node pair, in curve-index order.
+  private linksByPair: Map<string, GraphLink[]> = new Map();
+
+  // Parallel links drawn through another link's `aggregate` (see `linkStyle.aggregateParallelLinks`).
+  private mergedLinkIds: Set<ElementId> = new Set();
+
+  /** Whether the running force warmup packs the components once it settles. */
+  private packComponentsOnStop = false;
+
+  /** Mutations awaiting their batched layout pass (flushed on the next microtask). */
+  private pendingMutation: PendingMutation | null = null;
 
   // Per-node font size cache: computed once per node, read every frame.
-  private nodeDisplayFontSize: Map<number, number> = new Map();
+  private nodeDisplayFontSize: Map<ElementId, number> = new Map();
 
   private relationshipsTextCache: Map<
     string,
@@ -220,6 +544,79 @@ class FalkorDBCanvas extends HTMLElement {
   /** Last d3-zoom transform, cached so bounds can be recomputed on resize. */
   private lastTransform: Transform | null = null;
 
+  /** In-flight animated layout transition, or `null` when nodes are at rest. */
+  private layoutTransition: { frame: number; nodes: TransitioningNode[] } | null = null;
+
+  /** Node images and icons; repaints once each one finishes loading. */
+  private imageCache = new ImageCache(() => this.triggerRender());
+
+  private selection = new SelectionManager(() => this.handleSelectionChange());
+
+  /** Node under the pointer; box/lasso drags only start from the background. */
+  private hoveredNode: GraphNode | null = null;
+
+  /** Link under the pointer, so a modifier-click on it toggles it instead of starting a box/lasso. */
+  private hoveredLink: GraphLink | null = null;
+
+  private marquee: SelectionMarquee | null = null;
+
+  private groupDrag: GroupDrag | null = null;
+
+  /** Node under the pointer when it was pressed, at its position from before force-graph moves it. */
+  private pressedNode: { node: GraphNode; x: number; y: number } | null = null;
+
+  /** Node with keyboard focus; its ring shows while the host element is focused. */
+  private focusedNodeId: ElementId | null = null;
+
+  /** Ids on the path passed to `highlightPath`; null when nothing is highlighted. */
+  private highlightedPath: { nodeIds: Set<ElementId>; linkIds: Set<ElementId> } | null = null;
+
+  /** Filter passed to `setFilter`; null shows everything. */
+  private filter: GraphFilter | null = null;
+
+  /** Elements the filter hid, made visible again once it no longer hides them. */
+  private filteredNodeIds: Set<ElementId> = new Set();
+
+  private filteredLinkIds: Set<ElementId> = new Set();
+
+  /** Counts last reported through `onFilterChange`. */
+  private filterCounts: FilterCounts | null = null;
+
+  /** Collapsed groups by meta-node id, in collapse order, with the members' last positions. */
+  private groups: Map<ElementId, { group: CollapsedGroup; positions: Map<ElementId, { x: number; y: number }> }> = new Map();
+
+  /** Members of the collapsed groups and the links hidden with them. */
+  private collapsedData: Data = { nodes: [], links: [] };
+
+  /** Aggregate link id -> ids of the links it merges. */
+  private aggregateLinks: Map<ElementId, ElementId[]> = new Map();
+
+  /** Offscreen ARIA live region announcing the focused node. */
+  private liveRegion: HTMLDivElement | null = null;
+
+  /** Overlay for `scales.legend`; null when off */
+  private legendElement: HTMLDivElement | null = null;
+
+  /** Configured scales fitted to the current data */
+  private dataScales: DataScales = {};
+
+  /** Layout worker, created on the first `simulation.useWorker` warmup. */
+  private forceWorker: Worker | null = null;
+
+  /** Set once the worker fails to start or crashes; later warmups stay on the main thread. */
+  private forceWorkerFailed = false;
+
+  /** Warmup running in the worker; responses for any other job id are stale. */
+  private workerJob: { id: number; nodes: GraphNode[]; freeNodeIds?: Set<ElementId> } | null = null;
+
+  private nextWorkerJobId = 1;
+
+  /** WebGL layer for `renderer: 'webgl'`; null when unused or unavailable. */
+  private glRenderer: WebGLGraphRenderer | null = null;
+
+  /** Nodes and links the WebGL layer drew this frame; their 2D callbacks only add labels. */
+  private glFrame: { nodes: Set<GraphNode>; links: Set<GraphLink> } | null = null;
+
   private onFontsLoadingDone = () => {
     this.relationshipsTextCache.clear();
     this.nodeDisplayFontSize.clear();
@@ -237,6 +634,9 @@ class FalkorDBCanvas extends HTMLElement {
   constructor() {
     super();
     this.attachShadow({ mode: "open" });
+    this.addEventListener("keydown", this.onKeyDown);
+    this.addEventListener("focus", this.onHostFocusChange);
+    this.addEventListener("blur", this.onHostFocusChange);
   }
 
   /**
@@ -259,21 +659,223 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
-  connectedCallback() {
-    // Read mode attributes when element is connected to DOM
-    const nodeModeAttr = this.getAttribute('node-mode');
-    if (nodeModeAttr === 'before' || nodeModeAttr === 'after' || nodeModeAttr === 'replace') {
-      this.nodeMode = nodeModeAttr;
-      this.log('Node render mode set to:', this.nodeMode);
+  /**
+   * Dispatch a DOM CustomEvent from the host element so consumers can use
+   * `addEventListener` alongside (or instead of) `eventHandlers`.
+   * Events bubble and are composed, so they cross shadow-root boundaries.
+   */
+  private dispatch<K extends keyof FalkorDBCanvasEventDetailMap>(type: K, detail: FalkorDBCanvasEventDetailMap[K]) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  static get observedAttributes(): readonly string[] {
+    return OBSERVED_ATTRIBUTES;
+  }
+
+  /**
+   * Route attribute changes through the same setters as the imperative API.
+   * Fires for attributes present in the initial markup too, before `connectedCallback`.
+   */
+  attributeChangedCallback(name: ObservedAttribute, oldValue: string | null, newValue: string | null) {
+    // Reflection from a setter re-enters here with an unchanged value
+    if (oldValue === newValue) return;
+    this.log('Attribute changed:', name, '=', newValue);
+
+    switch (name) {
+      case 'width':
+      case 'height': {
+        const size = Number(newValue);
+        if (newValue === null || !isFinite(size)) return;
+        if (name === 'width') this.setWidth(size);
+        else this.setHeight(size);
+        break;
+      }
+      case 'background-color':
+        this.setBackgroundColor(newValue ?? DEFAULT_CANVAS_BACKGROUND);
+        break;
+      case 'foreground-color':
+        this.setForegroundColor(newValue ?? DEFAULT_CANVAS_FOREGROUND);
+        break;
+      case 'layout-mode': {
+        const layoutMode = newValue ?? 'force';
+        if (isLayoutMode(layoutMode) && layoutMode !== this.config.layoutMode) this.setLayout(layoutMode);
+        break;
+      }
+      case 'animation':
+        this.setAnimation(parseBooleanAttribute(newValue));
+        break;
+      case 'pin-on-drag-end':
+        this.setPinOnDragEnd(parseBooleanAttribute(newValue));
+        break;
+      case 'captions-keys':
+        this.setConfig({ captionsKeys: parseCaptionsKeysAttribute(newValue) });
+        break;
+      case 'show-property-key-prefix':
+        this.setConfig({ showPropertyKeyPrefix: parseBooleanAttribute(newValue) });
+        break;
+      case 'dimmed':
+        this.setDimmed(parseBooleanAttribute(newValue));
+        break;
+      case 'dim-opacity': {
+        const opacity = Number(newValue);
+        this.setConfig({ dimOpacity: newValue !== null && isFinite(opacity) ? opacity : undefined });
+        break;
+      }
+      case 'node-mode':
+        if (isCanvasRenderMode(newValue)) this.nodeMode = newValue;
+        break;
+      case 'link-mode':
+        if (isCanvasRenderMode(newValue)) this.linkMode = newValue;
+        break;
     }
+  }
 
-    const linkModeAttr = this.getAttribute('link-mode');
-    if (linkModeAttr === 'before' || linkModeAttr === 'after' || linkModeAttr === 'replace') {
-      this.linkMode = linkModeAttr;
-      this.log('Link render mode set to:', this.linkMode);
+  /**
+   * Mirror a config value onto its attribute. Booleans use presence semantics,
+   * `undefined` removes the attribute.
+   */
+  private reflectAttribute(name: ObservedAttribute, value: string | number | boolean | undefined) {
+    if (value === undefined || value === false) {
+      if (this.hasAttribute(name)) this.removeAttribute(name);
+      return;
     }
+    const attrValue = value === true ? '' : String(value);
+    if (this.getAttribute(name) !== attrValue) this.setAttribute(name, attrValue);
+  }
+
+  // ─── Reflected Properties ────────────────────────────────────────────────────
+
+  /** Canvas width in pixels (`width` attribute). */
+  get width(): number | undefined {
+    return this.config.width;
+  }
+
+  set width(value: number) {
+    this.setWidth(value);
+  }
+
+  /** Canvas height in pixels (`height` attribute). */
+  get height(): number | undefined {
+    return this.config.height;
+  }
+
+  set height(value: number) {
+    this.setHeight(value);
+  }
+
+  /** Canvas background color (`background-color` attribute). */
+  get backgroundColor(): string {
+    return this.config.backgroundColor;
+  }
+
+  set backgroundColor(value: string) {
+    this.setBackgroundColor(value);
+  }
+
+  /** Foreground color for strokes and labels (`foreground-color` attribute). */
+  get foregroundColor(): string {
+    return this.config.foregroundColor;
+  }
 
+  set foregroundColor(value: string) {
+    this.setForegroundColor(value);
+  }
+
+  /** Active layout algorithm (`layout-mode` attribute). */
+  get layoutMode(): LayoutMode {
+    return this.config.layoutMode;
+  }
+
+  set layoutMode(value: LayoutMode) {
+    if (value !== this.config.layoutMode) this.setLayout(value);
+  }
+
+  /** Whether the force simulation animates (`animation` boolean attribute). */
+  get animation(): boolean {
+    return this.config.animation ?? false;
+  }
+
+  set animation(value: boolean) {
+    this.setAnimation(value);
+  }
+
+  /** Whether nodes stay pinned after dragging (`pin-on-drag-end` boolean attribute). */
+  get pinOnDragEnd(): boolean {
+    return this.config.pinOnDragEnd;
+  }
+
+  set pinOnDragEnd(value: boolean) {
+    this.setPinOnDragEnd(value);
+  }
+
+  /** Node caption keys (`captions-keys` attribute: JSON array or comma-separated list). */
+  get captionsKeys(): [string, boolean][] {
+    return this.config.captionsKeys;
+  }
+
+  set captionsKeys(value: Array<string | [string, boolean]>) {
+    this.setConfig({ captionsKeys: value });
+  }
+
+  /** Whether labels include the property key (`show-property-key-prefix` boolean attribute). */
+  get showPropertyKeyPrefix(): boolean {
+    return this.config.showPropertyKeyPrefix;
+  }
+
+  set showPropertyKeyPrefix(value: boolean) {
+    this.setConfig({ showPropertyKeyPrefix: value });
+  }
+
+  /** Whether focus-mode dimming is active (`dimmed` boolean attribute). */
+  get dimmed(): boolean {
+    return this.config.dimmed ?? false;
+  }
+
+  set dimmed(value: boolean) {
+    this.setDimmed(value);
+  }
+
+  /** Opacity of dimmed elements (`dim-opacity` attribute). */
+  get dimOpacity(): number | undefined {
+    return this.config.dimOpacity;
+  }
+
+  set dimOpacity(value: number | undefined) {
+    this.setConfig({ dimOpacity: value });
+  }
+
+  /** Custom node rendering mode relative to the built-in drawing (`node-mode` attribute). */
+  get nodeMode(): CanvasRenderMode {
+    return this.nodeRenderMode;
+  }
+
+  set nodeMode(value: CanvasRenderMode) {
+    if (!isCanvasRenderMode(value)) return;
+    this.nodeRenderMode = value;
+    this.log('Node render mode set to:', value);
+    this.reflectAttribute('node-mode', value);
+    this.triggerRender();
+  }
+
+  /** Custom link rendering mode relative to the built-in drawing (`link-mode` attribute). */
+  get linkMode(): CanvasRenderMode {
+    return this.linkRenderMode;
+  }
+
+  set linkMode(value: CanvasRenderMode) {
+    if (!isCanvasRenderMode(value)) return;
+    this.linkRenderMode = value;
+    this.log('Link render mode set to:', value);
+    this.reflectAttribute('link-mode', value);
+    this.triggerRender();
+  }
+
+  connectedCallback() {
     this.log('Component connected to DOM');
+    // Keyboard-operable by default; authors can still override these attributes
+    if (!this.hasAttribute('tabindex')) this.tabIndex = 0;
+    if (!this.hasAttribute('role')) this.setAttribute('role', 'application');
+    if (!this.hasAttribute('aria-label')) this.setAttribute('aria-label', 'Graph');
     this.render();
 
     // Text measurements taken before the custom font finishes loading use the
@@ -284,6 +886,12 @@ class FalkorDBCanvas extends HTMLElement {
 
   disconnectedCallback() {
     this.log('Component disconnected from DOM');
+    this.cancelLayoutTransition();
+    this.endMarquee();
+    this.cancelWorkerSimulation();
+    this.forceWorker?.terminate();
+    this.forceWorker = null;
+    this.setWebGLEnabled(false);
     document.fonts.removeEventListener("loadingdone", this.onFontsLoadingDone);
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
@@ -317,11 +925,14 @@ class FalkorDBCanvas extends HTMLElement {
     // Deep-merge all nested object configs to preserve sibling fields on partial updates
     const mergeTargets = [
       ['largeGraph', config.largeGraph],
+      ['layoutTransition', config.layoutTransition],
       ['nodeStyle', config.nodeStyle],
       ['linkStyle', config.linkStyle],
       ['simulation', config.simulation],
       ['interaction', config.interaction],
+      ['selection', config.selection],
       ['eventHandlers', config.eventHandlers],
+      ['scales', config.scales],
     ] as const;
 
     for (const [key, value] of mergeTargets) {
@@ -331,16 +942,30 @@ class FalkorDBCanvas extends HTMLElement {
     }
 
     // Shallow-assign top-level scalar/function fields (after deep-merge to avoid clobbering nested objects)
-    const { largeGraph, nodeStyle, linkStyle, simulation, interaction, eventHandlers, layoutOptions, ...scalarConfig } = config;
+    const { largeGraph, nodeStyle, linkStyle, simulation, interaction, selection, eventHandlers, layoutOptions, layoutTransition, captionsKeys, styleRules, scales, ...scalarConfig } = config;
     Object.assign(this.config, scalarConfig);
+    if (captionsKeys) {
+      this.config.captionsKeys = normalizeCaptionsKeys(captionsKeys);
+    }
 
     if (config.layoutOptions) {
       const lo = config.layoutOptions;
       if (lo.tree) this.config.layoutOptions.tree = { ...this.config.layoutOptions.tree, ...lo.tree };
       if (lo.radial) this.config.layoutOptions.radial = { ...this.config.layoutOptions.radial, ...lo.radial };
+      if (lo.layered) this.config.layoutOptions.layered = { ...this.config.layoutOptions.layered, ...lo.layered };
+      if (lo.grid) this.config.layoutOptions.grid = { ...this.config.layoutOptions.grid, ...lo.grid };
+      if (lo.circle) this.config.layoutOptions.circle = { ...this.config.layoutOptions.circle, ...lo.circle };
+      if (lo.concentric) this.config.layoutOptions.concentric = { ...this.config.layoutOptions.concentric, ...lo.concentric };
       if (lo.force) this.config.layoutOptions.force = { ...this.config.layoutOptions.force, ...lo.force };
     }
 
+    if (config.nodeStyle && 'imageCrossOrigin' in config.nodeStyle
+      && this.imageCache.crossOrigin !== this.config.nodeStyle.imageCrossOrigin) {
+      // Images already loaded under the old CORS mode have to be fetched again
+      this.imageCache.crossOrigin = this.config.nodeStyle.imageCrossOrigin;
+      this.imageCache.clear();
+    }
+
     // Clear cached font sizes and display names when node style changes so text gets recalculated
     if (config.nodeStyle) {
       this.nodeDisplayFontSize.clear();
@@ -354,8 +979,31 @@ class FalkorDBCanvas extends HTMLElement {
       this.relationshipsTextCache.clear();
     }
 
+    // Community options change the detected communities and their forces
+    if (config.layoutOptions?.force) {
+      this.communityCache = null;
+    }
+
+    // Restyle the current elements (and re-bundle parallel links); rule and scale sizes move nodes, so relayout when one changed
+    if ('styleRules' in config) {
+      this.config.styleRules = styleRules ?? [];
+    }
+    const aggregationChanged = config.linkStyle !== undefined
+      && ('aggregateParallelLinks' in config.linkStyle || 'aggregateMaxWidth' in config.linkStyle);
+    if ('styleRules' in config || config.scales || aggregationChanged) {
+      if (this.applyStyles()) {
+        this.refresh();
+      } else {
+        this.nodeDisplayFontSize.clear();
+        for (const node of this.data.nodes) {
+          node.displayName = ["", ""];
+        }
+        this.relationshipsTextCache.clear();
+      }
+    }
+
     // Re-apply simulation forces when simulation config changes
-    if (config.simulation && this.graph) {
+    if ((config.simulation || config.layoutOptions?.force) && this.graph) {
       this.setupForces();
     }
 
@@ -376,17 +1024,39 @@ class FalkorDBCanvas extends HTMLElement {
 
     // Apply background/foreground colors through their dedicated methods
     // which also update the force-graph instance and tooltip styles.
+    if ('renderer' in config) {
+      this.setWebGLEnabled(this.config.renderer === 'webgl');
+    }
     if (config.backgroundColor && this.graph) {
-      this.graph.backgroundColor(this.config.backgroundColor);
+      this.graph.backgroundColor(this.getGraphBackgroundColor());
     }
     if (config.backgroundColor || config.foregroundColor || config.interaction) {
       this.updateTooltipStyles();
     }
 
+    this.reflectConfigAttributes(config);
+
     // Always trigger a re-render so visual changes apply immediately
     this.triggerRender();
   }
 
+  /** Reflect the attribute-backed fields present in a `setConfig` call. */
+  private reflectConfigAttributes(config: Partial<ForceGraphConfig>) {
+    if ('width' in config) this.reflectAttribute('width', this.config.width);
+    if ('height' in config) this.reflectAttribute('height', this.config.height);
+    if ('backgroundColor' in config) this.reflectAttribute('background-color', this.config.backgroundColor);
+    if ('foregroundColor' in config) this.reflectAttribute('foreground-color', this.config.foregroundColor);
+    if ('layoutMode' in config) this.reflectAttribute('layout-mode', this.config.layoutMode);
+    if ('animation' in config) this.reflectAttribute('animation', this.config.animation);
+    if ('pinOnDragEnd' in config) this.reflectAttribute('pin-on-drag-end', this.config.pinOnDragEnd);
+    if ('captionsKeys' in config) {
+      this.reflectAttribute('captions-keys', this.config.captionsKeys.length ? stringifyCaptionsKeys(this.config.captionsKeys) : undefined);
+    }
+    if ('showPropertyKeyPrefix' in config) this.reflectAttribute('show-property-key-prefix', this.config.showPropertyKeyPrefix);
+    if ('dimmed' in config) this.reflectAttribute('dimmed', this.config.dimmed);
+    if ('dimOpacity' in config) this.reflectAttribute('dim-opacity', this.config.dimOpacity);
+  }
+
   /**
    * Set the canvas width in pixels.
    * @param width - Width in pixels
@@ -395,6 +1065,7 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.width === width) return;
     this.log('Setting width to:', width);
     this.config.width = width;
+    this.reflectAttribute('width', width);
     if (this.graph) {
       this.graph.width(width);
       this.recomputeCullingBoundsIfNeeded();
@@ -409,6 +1080,7 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.height === height) return;
     this.log('Setting height to:', height);
     this.config.height = height;
+    this.reflectAttribute('height', height);
     if (this.graph) {
       this.graph.height(height);
       this.recomputeCullingBoundsIfNeeded();
@@ -423,8 +1095,9 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.backgroundColor === color) return;
     this.log('Setting background color to:', color);
     this.config.backgroundColor = color;
+    this.reflectAttribute('background-color', color);
     if (this.graph) {
-      this.graph.backgroundColor(color);
+      this.graph.backgroundColor(this.getGraphBackgroundColor());
     }
     this.updateTooltipStyles();
   }
@@ -437,6 +1110,7 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.foregroundColor === color) return;
     this.log('Setting foreground color to:', color);
     this.config.foregroundColor = color;
+    this.reflectAttribute('foreground-color', color);
     this.updateTooltipStyles();
     this.triggerRender();
   }
@@ -449,6 +1123,7 @@ class FalkorDBCanvas extends HTMLElement {
   setAnimation(enabled: boolean) {
     if (this.config.animation === enabled) return;
     this.config.animation = enabled;
+    this.reflectAttribute('animation', enabled);
     if (!this.graph) return;
 
     if (enabled && isForceLayout(this.config.layoutMode) && !this.config.pinOnDragEnd) {
@@ -480,6 +1155,7 @@ class FalkorDBCanvas extends HTMLElement {
   setDimmed(enabled: boolean) {
     if (this.config.dimmed === enabled) return;
     this.config.dimmed = enabled;
+    this.reflectAttribute('dimmed', enabled);
     this.triggerRender();
   }
 
@@ -511,16 +1187,25 @@ class FalkorDBCanvas extends HTMLElement {
         }
       }
     }
-    this.config.eventHandlers?.onPinChange?.(pin);
+    this.notifyPinChange(pin);
+  }
+
+  /** Notify listeners that nodes were pinned or unpinned and reflect the new state. */
+  private notifyPinChange(pinned: boolean) {
+    this.reflectAttribute('pin-on-drag-end', pinned);
+    this.config.eventHandlers?.onPinChange?.(pinned);
+    this.dispatch('pin-change', { pinned });
   }
 
   /**
    * Switch to a different layout algorithm and recompute positions.
-   * @param layoutMode - The layout to apply: 'force', 'tree', or 'radial'
+   * @param layoutMode - The layout to apply: 'force', 'tree', 'radial', 'layered', 'grid', 'circle' or 'concentric'
    */
   setLayout(layoutMode: LayoutMode) {
     this.config.layoutMode = layoutMode;
+    this.reflectAttribute('layout-mode', layoutMode);
     this.config.eventHandlers?.onLayoutChange?.(layoutMode);
+    this.dispatch('layout-change', { layout: layoutMode });
     this.applyLayout();
   }
 
@@ -537,42 +1222,58 @@ class FalkorDBCanvas extends HTMLElement {
     if (options.radial) {
       this.config.layoutOptions.radial = { ...this.config.layoutOptions.radial, ...options.radial };
     }
+    if (options.layered) {
+      this.config.layoutOptions.layered = { ...this.config.layoutOptions.layered, ...options.layered };
+    }
+    if (options.grid) {
+      this.config.layoutOptions.grid = { ...this.config.layoutOptions.grid, ...options.grid };
+    }
+    if (options.circle) {
+      this.config.layoutOptions.circle = { ...this.config.layoutOptions.circle, ...options.circle };
+    }
+    if (options.concentric) {
+      this.config.layoutOptions.concentric = { ...this.config.layoutOptions.concentric, ...options.concentric };
+    }
     if (options.force) {
       this.config.layoutOptions.force = { ...this.config.layoutOptions.force, ...options.force };
+      this.communityCache = null;
     }
     this.applyLayout();
   }
 
-  private applyLayout(zoomToFit = true) {
+  /**
+   * Recompute positions for the current layout mode.
+   * @param zoomToFit - Fit the viewport to the new positions afterwards
+   * @param newNodeIds - Nodes added since the last layout; they have no meaningful
+   *   previous position, so a transition grows them out of their neighbours instead
+   */
+  private applyLayout(zoomToFit = true, newNodeIds?: Set<ElementId>) {
     if (!this.graph) return;
 
     const layoutMode = this.config.layoutMode;
     const layoutOptions = this.config.layoutOptions;
 
-    if (layoutMode === 'tree') {
-      unpinAllNodes(this.data.nodes);
-      computeTreePositions(this.data, layoutOptions);
+    // Snapshot current positions before the layout overwrites them so the
+    // nodes can be animated from there (null when transitions are disabled).
+    const transitionStart = this.captureTransitionStart(newNodeIds);
+    this.cancelWorkerSimulation();
+    // Only the layered layout routes links through bends
+    for (const link of this.data.links) delete link.route;
 
-      // Pin nodes and render
-      this.config.pinOnDragEnd = true;
-      this.config.eventHandlers?.onPinChange?.(true);
-      this.graph.cooldownTicks(0);
-      this.graph.warmupTicks(0);
-      this.graph.graphData(this.data);
-      this.updateCanvasSimulationAttribute(false);
-    } else if (layoutMode === 'radial') {
-      // Deterministic radial layout — each level forms a perfect circle
+    if (!isForceLayout(layoutMode)) {
+      // Deterministic layouts — positions computed directly
       this.graph.dagMode(null as any);
       unpinAllNodes(this.data.nodes);
-      computeRadialPositions(this.data, layoutOptions);
+      this.computeLayoutPositions(layoutMode, layoutOptions);
 
       // Pin nodes and render
       this.config.pinOnDragEnd = true;
-      this.config.eventHandlers?.onPinChange?.(true);
+      this.notifyPinChange(true);
       this.graph.cooldownTicks(0);
       this.graph.warmupTicks(0);
       this.graph.graphData(this.data);
       this.updateCanvasSimulationAttribute(false);
+      this.startLayoutTransition(transitionStart);
     } else {
       // Force layout — restore all forces, let simulation run
       this.graph.dagMode(null as any);
@@ -583,7 +1284,7 @@ class FalkorDBCanvas extends HTMLElement {
       this.setupForces();
 
       this.config.pinOnDragEnd = false;
-      this.config.eventHandlers?.onPinChange?.(false);
+      this.notifyPinChange(false);
 
       this.runForceWarmup();
     }
@@ -594,12 +1295,86 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
+  /**
+   * Compute and pin positions for a deterministic layout mode, one connected
+   * component at a time when the mode's `packComponents` option is set.
+   * @param layoutMode - Any mode but 'force'
+   * @param layoutOptions - Per-layout options
+   */
+  private computeLayoutPositions(layoutMode: LayoutMode, layoutOptions: LayoutOptions) {
+    const data = this.getLayoutData();
+    const packing = layoutOptions[layoutMode];
+    if (!packing?.packComponents) {
+      this.computeModePositions(data, layoutMode, layoutOptions);
+      return;
+    }
+
+    const components = findConnectedComponents(data);
+    this.log('Laying out', components.length, 'components separately');
+    for (const component of components) {
+      this.computeModePositions(component, layoutMode, layoutOptions);
+    }
+    packComponentLayouts(components, packing.componentSpacing ?? DEFAULT_COMPONENT_SPACING);
+  }
+
+  private computeModePositions(data: GraphData, layoutMode: LayoutMode, layoutOptions: LayoutOptions) {
+    switch (layoutMode) {
+      case 'tree':
+        computeTreePositions(data, layoutOptions);
+        break;
+      case 'radial':
+        computeRadialPositions(data, layoutOptions);
+        break;
+      case 'layered':
+        computeLayeredPositions(data, layoutOptions);
+        break;
+      case 'grid':
+        computeGridPositions(data, layoutOptions);
+        break;
+      case 'circle':
+        computeCirclePositions(data, layoutOptions);
+        break;
+      case 'concentric':
+        computeConcentricPositions(data, layoutOptions, node => this.nodeDegreeMap.get(node.id) ?? 0);
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Pack the components of a finished full force warmup when
+   * `layoutOptions.force.packComponents` is set. Runs once per warmup.
+   */
+  private packForceComponents() {
+    if (!this.packComponentsOnStop) return;
+    this.packComponentsOnStop = false;
+    const force = this.config.layoutOptions.force;
+    if (!force?.packComponents || !isForceLayout(this.config.layoutMode)) return;
+    packComponentLayouts(findConnectedComponents(this.data), force.componentSpacing ?? DEFAULT_COMPONENT_SPACING);
+    this.triggerRender();
+  }
+
   /**
    * Get the current graph data as a plain Data object (nodes reference by ID, no internal state).
+   * Collapsed groups are reported as their members and links, and elements
+   * hidden by `setFilter` with their own `visible` flag.
    * @returns A copy of the current graph data
    */
   getData(): Data {
-    return graphDataToData(this.data);
+    const data = graphDataToData(this.data);
+    for (const node of data.nodes) {
+      if (this.filteredNodeIds.has(node.id)) node.visible = true;
+    }
+    for (const link of data.links) {
+      if (this.filteredLinkIds.has(link.id)) link.visible = true;
+    }
+    if (this.groups.size === 0) return data;
+
+    return {
+      nodes: [...data.nodes.filter(node => !this.groups.has(node.id)), ...this.collapsedData.nodes],
+      links: [...data.links.filter(link => !this.aggregateLinks.has(link.id)), ...this.collapsedData.links],
+    };
   }
 
   /**
@@ -611,8 +1386,16 @@ class FalkorDBCanvas extends HTMLElement {
    */
   setData(data: Data) {
     this.log('setData called with', data.nodes.length, 'nodes and', data.links.length, 'links');
+    // A full replacement has nothing to animate from
+    this.cancelLayoutTransition();
+    this.cancelWorkerSimulation();
+    this.pendingMutation = null;
+    this.clearGroups();
     // Convert data and apply circular layout to new nodes only
-    this.data = dataToGraphData(data, undefined, undefined, this.config.linkStyle.parallelEdgeCurveMultiplier);
+    this.data = dataToGraphData(data, undefined, undefined, this.config.linkStyle.parallelEdgeCurveMultiplier, this.config.styleRules);
+    this.indexGraphData();
+    this.resetFilter();
+    this.applyStyles();
 
     // Initialize graph if it hasn't been initialized yet
     if (!this.graph && this.container) {
@@ -636,18 +1419,20 @@ class FalkorDBCanvas extends HTMLElement {
     const layoutOptions = this.config.layoutOptions;
 
     this.graph.dagMode(null as any);
+    // Only the layered layout routes links through bends; it sets them again below
+    for (const link of this.data.links) delete link.route;
 
     if (layoutMode === 'tree') {
-      computeTreePositions(this.data, layoutOptions);
+      this.computeLayoutPositions(layoutMode, layoutOptions);
       this.graph.cooldownTicks(0);
       this.graph.warmupTicks(0);
       this.graph.graphData(this.data);
       this.updateCanvasSimulationAttribute(false);
-    } else if (layoutMode === 'radial') {
-      // Deterministic radial layout — positions computed directly
-      computeRadialPositions(this.data, layoutOptions);
+    } else if (!isForceLayout(layoutMode)) {
+      // Other deterministic layouts — positions computed directly
+      this.computeLayoutPositions(layoutMode, layoutOptions);
       this.config.pinOnDragEnd = true;
-      this.config.eventHandlers?.onPinChange?.(true);
+      this.notifyPinChange(true);
       this.graph.cooldownTicks(0);
       this.graph.warmupTicks(0);
       this.graph.graphData(this.data);
@@ -710,40 +1495,541 @@ class FalkorDBCanvas extends HTMLElement {
   }
 
   /**
-   * Trigger a repaint after in-place property mutations on nodes/links
-   * (e.g. visibility, color, size, data attributes).
-   * For deterministic layouts (tree, radial), recomputes positions
-   * to account for any size changes.
+   * Communities of densely linked nodes, largest first, for listing clusters.
+   * Detected on first use whether or not `layoutOptions.force.communities` is
+   * set, and again after the graph changes.
    */
-  refresh() {
-    // Clear font size cache so text re-fits updated node sizes
-    this.nodeDisplayFontSize.clear();
-    // Clear display names so text re-wraps for the new node sizes
-    for (const node of this.data.nodes) {
-      node.displayName = ["", ""];
+  getCommunities(): Community[] {
+    return this.getCommunityCache().communities.map(c => ({ ...c, nodeIds: [...c.nodeIds] }));
+  }
+
+  /**
+   * Get the community a node belongs to.
+   * @param id - Node id
+   * @returns The node's community, or undefined for unknown ids
+   */
+  getNodeCommunity(id: ElementId): Community | undefined {
+    const { communities, byNodeId } = this.getCommunityCache();
+    const index = byNodeId.get(id);
+    if (index === undefined) return undefined;
+    return { ...communities[index], nodeIds: [...communities[index].nodeIds] };
+  }
+
+  /**
+   * Find the k shortest paths between two nodes over the visible graph.
+   * @param sourceId - Id of the start node
+   * @param targetId - Id of the end node
+   * @param options - Link direction, weight property and number of paths
+   * @returns Paths ordered by cost; empty when the nodes are not connected
+   */
+  findPath(sourceId: ElementId, targetId: ElementId, options?: FindPathOptions): GraphPath[] {
+    for (const id of [sourceId, targetId]) {
+      if (!this.nodeById.has(id)) {
+        console.error(`Node with id ${id} does not exist.`);
+        return [];
+      }
     }
-    // Clear link label cache in case link colors/properties changed
-    this.relationshipsTextCache.clear();
+    return findShortestPaths(this.data, sourceId, targetId, options);
+  }
 
-    const layoutMode = this.config.layoutMode;
-    if (layoutMode === 'tree' || layoutMode === 'radial') {
-      // Recompute layout to handle node size changes
-      this.applyLayout(false);
-    } else {
+  /**
+   * Emphasize a path: its links are drawn like selected links, every other
+   * element is dimmed to `dimOpacity`, and the view zooms to fit its nodes.
+   * While a path is highlighted it takes the place of `dimmed` and the
+   * `isNodeDimmed`/`isLinkDimmed` predicates.
+   * @param path - A path from `findPath`, or null to clear the highlight
+   */
+  highlightPath(path: GraphPath | null) {
+    if (!path || path.nodes.length === 0) {
+      this.highlightedPath = null;
       this.triggerRender();
+      return;
     }
+
+    const nodeIds = new Set(path.nodes.map(node => node.id));
+    this.highlightedPath = { nodeIds, linkIds: new Set(path.links.map(link => link.id)) };
+    this.triggerRender();
+    this.zoomToFit(1, node => nodeIds.has(node.id));
   }
 
   /**
-   * Incrementally update the graph data. Preserves positions of existing nodes,
-   * positions new nodes near their connected parent, and removes nodes/links
-   * that are no longer in the input. Recomputes layout for tree/radial modes.
-   *
-   * @param data - The updated graph data (full replacement, but positions are preserved)
+   * Centrality, component and summary statistics of the visible graph.
+   * Results are computed on first use and kept until the graph or the
+   * visibility of its elements changes (mutations, `setData`, `refresh`).
+   * @param options - Whether betweenness and closeness follow link direction
+   */
+  getAnalytics(options: AnalyticsOptions = {}): GraphAnalytics {
+    const directed = options.directed ?? false;
+    let analytics = this.analyticsCache.get(directed);
+    if (!analytics) {
+      analytics = new GraphAnalytics(this.data, { directed });
+      this.analyticsCache.set(directed, analytics);
+    }
+    return analytics;
+  }
+
+  /**
+   * Show only the elements that pass `filter`, or everything again with null.
+   * Visibility is derived from the filter on every data change, links whose
+   * ends are hidden are hidden too, and `onFilterChange` reports the visible counts.
+   * @param filter - Criteria every shown element meets; see `GraphFilter`
+   */
+  setFilter(filter: GraphFilter | null) {
+    const relayout = (filter?.relayout ?? false) || (this.filter?.relayout ?? false);
+    this.filter = filter;
+    // Always report the counts for a new filter
+    this.filterCounts = null;
+    const changed = this.applyFilter();
+
+    if (relayout && changed) {
+      this.relayoutVisible();
+    } else if (changed) {
+      // Metric scales follow the visible graph
+      this.applyStyles();
+      this.triggerRender();
+    }
+  }
+
+  /** The filter passed to `setFilter`, or null. */
+  getFilter(): GraphFilter | null {
+    return this.filter;
+  }
+
+  /**
+   * Collapse the nodes matching `selector` into one meta-node. Links from the
+   * members run from the meta-node instead, merged into one link per neighbour
+   * and direction with the number of merged links in `data.weight`. Nodes that
+   * are already collapsed, and meta-nodes, are left out.
+   * @param selector - Label, community and/or property value of the members
+   * @param options - Id and caption of the meta-node
+   * @returns Id of the meta-node, or undefined when no node matches
+   */
+  collapseGroup(selector: GroupSelector, options: CollapseGroupOptions = {}): ElementId | undefined {
+    const members = this.data.nodes.filter(node => !this.groups.has(node.id) && this.matchesGroup(node, selector));
+    if (members.length === 0) {
+      console.error('No nodes match the group selector.');
+      return undefined;
+    }
+    const name = describeGroupSelector(selector);
+    const id = options.id ?? `group:${name}`;
+    if (this.nodeById.has(id)) {
+      console.error(`Node with id ${id} already exists.`);
+      return undefined;
+    }
+
+    const positions = new Map<ElementId, { x: number; y: number }>();
+    for (const member of members) {
+      if (member.x !== undefined && member.y !== undefined) positions.set(member.id, { x: member.x, y: member.y });
+    }
+    const underlying = this.getData();
+    this.groups.set(id, {
+      group: { id, memberIds: members.map(member => member.id), caption: options.caption ?? `${name} (${members.length})` },
+      positions,
+    });
+
+    // The meta-node starts at the members' centroid
+    const centroid = positions.size > 0
+      ? { x: d3.mean(positions.values(), p => p.x)!, y: d3.mean(positions.values(), p => p.y)! }
+      : undefined;
+    this.showGroups(underlying, centroid && new Map([[id, centroid]]));
+    this.startGlow([id]);
+    return id;
+  }
+
+  /**
+   * Replace a meta-node with its members and their links again. Members return
+   * to where they were when the group was collapsed.
+   * @param id - Id returned by `collapseGroup`
+   */
+  expandGroup(id: ElementId) {
+    const entry = this.groups.get(id);
+    if (!entry) {
+      console.error(`Group with id ${id} does not exist.`);
+      return;
+    }
+    const underlying = this.getData();
+    this.groups.delete(id);
+    this.showGroups(underlying, entry.positions);
+    this.startGlow(entry.group.memberIds);
+  }
+
+  /**
+   * Get the members of a collapsed group.
+   * @returns Member node ids, or undefined when `id` is not a collapsed group
+   */
+  getGroupMembers(id: ElementId): ElementId[] | undefined {
+    return this.groups.get(id)?.group.memberIds.slice();
+  }
+
+  /** Draw `underlying` with the current groups collapsed, keeping positions through the `setGraphData` diff. */
+  private showGroups(underlying: Data, positions?: Map<ElementId, { x: number; y: number }>) {
+    const collapsed = collapseGroups(underlying, [...this.groups.values()].map(entry => entry.group));
+    this.collapsedData = { nodes: collapsed.hiddenNodes, links: collapsed.hiddenLinks };
+    this.aggregateLinks = collapsed.aggregates;
+    this.mergeGraphData(collapsed.data, positions);
+  }
+
+  private clearGroups() {
+    this.groups.clear();
+    this.collapsedData = { nodes: [], links: [] };
+    this.aggregateLinks.clear();
+  }
+
+  private matchesGroup(node: GraphNode, selector: GroupSelector): boolean {
+    if (selector.label !== undefined && !node.labels.includes(selector.label)) return false;
+    if (selector.community !== undefined && this.getCommunityCache().byNodeId.get(node.id) !== selector.community) return false;
+    if (selector.property !== undefined) {
+      const value = node.data?.[selector.property];
+      if (value === undefined || value === null) return false;
+      if ('value' in selector && value !== selector.value) return false;
+    }
+    return true;
+  }
+
+  /** Restart the expand/collapse glow of the given nodes. */
+  private startGlow(ids: ElementId[]) {
+    const now = new Date();
+    for (const id of ids) {
+      const node = this.nodeById.get(id);
+      if (node) node.expand = [node.expand[0], now];
+    }
+    this.triggerRender();
+  }
+
+  /** Forget which elements the filter hid after the data was replaced, and filter the new data. */
+  private resetFilter() {
+    this.filteredNodeIds.clear();
+    this.filteredLinkIds.clear();
+    this.applyFilter();
+  }
+
+  /**
+   * Derive `visible` from the filter: elements the filter hid before start out
+   * visible again, then nodes, links and orphans are checked in that order.
+   * @returns Whether any element's visibility changed
+   */
+  private applyFilter(): boolean {
+    const filter = this.filter;
+    if (!filter && this.filteredNodeIds.size === 0 && this.filteredLinkIds.size === 0) return false;
+
+    const { nodes, links } = this.data;
+    const nodeLabels = filter?.nodeLabels && new Set(filter.nodeLabels);
+    const relationshipTypes = filter?.relationshipTypes && new Set(filter.relationshipTypes);
+    const filteredNodeIds = new Set<ElementId>();
+    const filteredLinkIds = new Set<ElementId>();
+    let changed = false;
+
+    const showNode = (node: GraphNode, show: boolean) => {
+      if (!show) filteredNodeIds.add(node.id);
+      changed ||= node.visible !== show;
+      node.visible = show;
+    };
+
+    for (const node of nodes) {
+      const own = this.filteredNodeIds.has(node.id) || node.visible;
+      const passes = !filter || (
+        (!nodeLabels || node.labels.some(label => nodeLabels.has(label)))
+        && (filter.nodePredicate?.(node) ?? true)
+      );
+      if (own) showNode(node, passes);
+    }
+
+    const linked = new Set<ElementId>();
+    for (const link of links) {
+      const own = this.filteredLinkIds.has(link.id) || link.visible;
+      if (!own) continue;
+      const show = !filter || (
+        link.source.visible && link.target.visible
+        && (!relationshipTypes || relationshipTypes.has(link.relationship))
+        && (filter.linkPredicate?.(link) ?? true)
+      );
+      if (!show) filteredLinkIds.add(link.id);
+      changed ||= link.visible !== show;
+      link.visible = show;
+      if (show) {
+        linked.add(link.source.id);
+        linked.add(link.target.id);
+      }
+    }
+
+    if (filter?.hideOrphans) {
+      for (const node of nodes) {
+        if (node.visible && !linked.has(node.id)) showNode(node, false);
+      }
+    }
+
+    this.filteredNodeIds = filteredNodeIds;
+    this.filteredLinkIds = filteredLinkIds;
+    if (changed) this.analyticsCache.clear();
+    this.notifyFilterChange();
+    return changed;
+  }
+
+  /** Report the visible counts through `onFilterChange` when they differ from the last report. */
+  private notifyFilterChange() {
+    const counts: FilterCounts = {
+      visibleNodes: this.data.nodes.filter(node => node.visible).length,
+      totalNodes: this.data.nodes.length,
+      visibleLinks: this.data.links.filter(link => link.visible).length,
+      totalLinks: this.data.links.length,
+    };
+    const last = this.filterCounts;
+    if (last && (Object.keys(counts) as (keyof FilterCounts)[]).every(key => counts[key] === last[key])) return;
+
+    this.filterCounts = counts;
+    this.log('Filter shows', counts.visibleNodes, 'of', counts.totalNodes, 'nodes and', counts.visibleLinks, 'of', counts.totalLinks, 'links');
+    this.config.eventHandlers?.onFilterChange?.(counts);
+    this.dispatch('filter-change', { counts });
+  }
+
+  /** The graph the layouts place: only its visible part under a `relayout` filter. */
+  private getLayoutData(): GraphData {
+    if (!this.filter?.relayout) return this.data;
+    return {
+      nodes: this.data.nodes.filter(node => node.visible),
+      links: this.data.links.filter(link => link.visible),
+    };
+  }
+
+  /** Re-run the current layout after the filter changed what a `relayout` filter shows. */
+  private relayoutVisible() {
+    if (!this.graph) return;
+    this.applyStyles();
+    if (isForceLayout(this.config.layoutMode)) {
+      // Hidden nodes stay pinned where they are while the visible ones settle
+      const visibleIds = new Set(this.data.nodes.filter(node => node.visible).map(node => node.id));
+      this.runForceWarmup(visibleIds.size < this.data.nodes.length ? visibleIds : undefined);
+    } else {
+      this.applyLayout(false);
+    }
+    setTimeout(() => this.zoomToFit(1, node => node.visible), this.config.interaction.zoomToFitDelay);
+  }
+
+  private getCommunityCache() {
+    if (this.communityCache) return this.communityCache;
+
+    const { nodes, links } = this.data;
+    const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+    const linkIndices: number[] = [];
+    for (const link of links) {
+      const source = indexById.get(link.source.id);
+      const target = indexById.get(link.target.id);
+      if (source !== undefined && target !== undefined) linkIndices.push(source, target);
+    }
+    const membership = detectCommunities(nodes.length, linkIndices, this.config.layoutOptions.force?.communityResolution ?? 1);
+
+    const communities: Community[] = [];
+    const byNodeId = new Map<ElementId, number>();
+    nodes.forEach((node, i) => {
+      const id = membership[i];
+      communities[id] ??= { id, nodeIds: [], color: DEFAULT_LABEL_PALETTE[id % DEFAULT_LABEL_PALETTE.length] };
+      communities[id].nodeIds.push(node.id);
+      byNodeId.set(node.id, id);
+    });
+    this.log('Detected', communities.length, 'communities in', nodes.length, 'nodes');
+
+    this.communityCache = { communities, byNodeId };
+    return this.communityCache;
+  }
+
+  /** Fill color of a node: its own, else its community's (with colorByCommunity), else gray. */
+  private getNodeColor(node: GraphNode): string {
+    if (node.color) return node.color;
+    if (node.style?.color) return node.style.color;
+    if (this.config.layoutOptions.force?.colorByCommunity) {
+      const { communities, byNodeId } = this.getCommunityCache();
+      const index = byNodeId.get(node.id);
+      if (index !== undefined) return communities[index].color;
+    }
+    return DEFAULT_NODE_COLOR;
+  }
+
+  private getNodeBorderColor(node: GraphNode): string {
+    return node.borderColor ?? node.style?.borderColor ?? this.config.foregroundColor;
+  }
+
+  /** A style rule caption replaces the configured `captionsKeys` for that node */
+  private getNodeCaptionsKeys(node: GraphNode): [string, boolean][] {
+    const caption = node.style?.caption ?? (this.groups.has(node.id) ? GROUP_CAPTION_KEY : undefined);
+    return caption ? [[caption, true]] : this.config.captionsKeys;
+  }
+
+  private getLinkColor(link: GraphLink): string {
+    return link.color ?? link.style?.color ?? DEFAULT_LINK_COLOR;
+  }
+
+  /** Style rule width replaces the unselected width; selection never draws thinner */
+  private getLinkLineWidth(link: GraphLink, selected: boolean): number {
+    const { lineWidthSelected, lineWidthUnselected } = this.config.linkStyle;
+    const width = link.style?.width ?? lineWidthUnselected;
+    return selected ? Math.max(width, lineWidthSelected) : width;
+  }
+
+  /** Arrowhead length, grown or shrunk in proportion to a styled line width */
+  private getLinkArrowLength(link: GraphLink, selected: boolean): number {
+    const { arrowLengthSelected, arrowLengthUnselected, lineWidthSelected, lineWidthUnselected } = this.config.linkStyle;
+    const [length, width] = selected ? [arrowLengthSelected, lineWidthSelected] : [arrowLengthUnselected, lineWidthUnselected];
+    return link.style?.width === undefined ? length : length * this.getLinkLineWidth(link, selected) / width;
+  }
+
+  private getLinkDash(link: GraphLink): number[] {
+    return this.config.linkLineDash?.(link) ?? link.style?.dash ?? [];
+  }
+
+  /** Caption property from the style rules when present, otherwise the relationship type */
+  private getLinkLabel(link: GraphLink): string {
+    const caption = link.style?.caption;
+    const value = caption ? link.data[caption] : undefined;
+    return value !== undefined && value !== null ? String(value) : link.relationship;
+  }
+
+  /**
+   * Get the legends of the active scales, e.g. to draw a custom legend.
+   * Scales whose property has no usable value in the data are left out.
+   * @returns One legend per scale: nodeSize, nodeColor, linkWidth, linkColor
+   */
+  getScaleLegend(): ScaleLegend[] {
+    return getScaleLegends(this.dataScales);
+  }
+
+  /**
+   * Fit the scales to the current data and re-resolve the style of every node and link.
+   * @returns Whether a node's size changed
+   */
+  private applyStyles(): boolean {
+    this.dataScales = createDataScales(this.config.scales, this.data, metric => this.getAnalytics().getNodeMetric(metric));
+    let sizeChanged = false;
+    for (const node of this.data.nodes) {
+      const previousSize = node.size;
+      this.styleNode(node);
+      sizeChanged ||= node.size !== previousSize;
+    }
+    for (const link of this.data.links) {
+      applyLinkStyleRules(link, this.config.styleRules, getLinkScaleStyle(this.dataScales, link.data));
+    }
+    this.bundleParallelLinks();
+    this.updateScaleLegend();
+    return sizeChanged;
+  }
+
+  /** Bundle parallel links per `linkStyle.aggregateParallelLinks`, widening each bundle's line with its count */
+  private bundleParallelLinks() {
+    const { aggregateParallelLinks: types, aggregateMaxWidth, lineWidthUnselected, parallelEdgeCurveMultiplier } = this.config.linkStyle;
+    this.mergedLinkIds = aggregateParallelLinks(this.linksByPair.values(), types, parallelEdgeCurveMultiplier);
+    if (this.mergedLinkIds.size === 0) return;
+
+    for (const link of this.data.links) {
+      if (!link.aggregate) continue;
+      const width = link.style?.width ?? lineWidthUnselected;
+      link.style = { ...link.style, width: Math.max(width, Math.min(width * link.aggregate.length, aggregateMaxWidth)) };
+    }
+  }
+
+  /** Whether a link is drawn: visible and not merged into another link's `aggregate` */
+  private isLinkDrawn(link: GraphLink): boolean {
+    return link.visible && !this.mergedLinkIds.has(link.id);
+  }
+
+  /** The links behind a link in events: its `aggregate`, else the link itself */
+  private getUnderlyingLinks(link: GraphLink | null): GraphLink[] {
+    if (!link) return [];
+    return link.aggregate ? [...link.aggregate] : [link];
+  }
+
+  /** Style rules layered over the node's scaled size and color */
+  private styleNode(node: GraphNode) {
+    applyNodeStyleRules(node, this.config.styleRules, getNodeScaleStyle(this.dataScales, node));
+  }
+
+  /** Rebuild the `scales.legend` overlay, or remove it when off or empty */
+  private updateScaleLegend() {
+    const legends = this.config.scales.legend ? getScaleLegends(this.dataScales) : [];
+    if (legends.length === 0 || !this.container) {
+      this.legendElement?.remove();
+      this.legendElement = null;
+      return;
+    }
+
+    if (!this.legendElement) {
+      this.legendElement = document.createElement("div");
+      this.legendElement.className = "scale-legend";
+      this.container.appendChild(this.legendElement);
+    }
+    this.legendElement.replaceChildren(...legends.map(legend => {
+      const section = document.createElement("div");
+      const title = document.createElement("div");
+      title.className = "scale-legend-title";
+      title.textContent = `${SCALE_CHANNEL_TITLES[legend.channel]}: ${legend.property}`;
+      section.appendChild(title);
+      for (const entry of legend.entries) {
+        const row = document.createElement("div");
+        row.className = "scale-legend-entry";
+        const swatch = document.createElement("span");
+        swatch.className = `scale-legend-swatch scale-legend-${legend.channel}`;
+        const size = entry.size ?? 0;
+        if (legend.channel === 'nodeSize') {
+          swatch.style.width = swatch.style.height = `${size * 2}px`;
+        } else if (legend.channel === 'linkWidth') {
+          swatch.style.height = `${size}px`;
+        }
+        if (entry.color) swatch.style.background = entry.color;
+        const label = document.createElement("span");
+        label.textContent = entry.label;
+        row.append(swatch, label);
+        section.appendChild(row);
+      }
+      return section;
+    }));
+  }
+
+  /**
+   * Trigger a repaint after in-place property mutations on nodes/links
+   * (e.g. visibility, color, size, data attributes).
+   * Style rules and scales are re-evaluated against the mutated labels and data.
+   * For deterministic layouts (every mode but force), recomputes positions
+   * to account for any size changes.
+   */
+  refresh() {
+    this.analyticsCache.clear();
+    this.applyFilter();
+    this.applyStyles();
+    // Clear font size cache so text re-fits updated node sizes
+    this.nodeDisplayFontSize.clear();
+    // Clear display names so text re-wraps for the new node sizes
+    for (const node of this.data.nodes) {
+      node.displayName = ["", ""];
+    }
+    // Clear link label cache in case link colors/properties changed
+    this.relationshipsTextCache.clear();
+
+    if (!isForceLayout(this.config.layoutMode)) {
+      // Recompute layout to handle node size changes
+      this.applyLayout(false);
+    } else {
+      this.triggerRender();
+    }
+  }
+
+  /**
+   * Incrementally update the graph data. Preserves positions of existing nodes,
+   * positions new nodes near their connected parent, and removes nodes/links
+   * that are no longer in the input. Recomputes layout for the deterministic modes.
+   *
+   * Collapsed groups are dropped: the data replaces their members too.
+   *
+   * @param data - The updated graph data (full replacement, but positions are preserved)
    */
   setGraphData(data: Data) {
     this.log('setGraphData called with', data.nodes.length, 'nodes and', data.links.length, 'links');
+    this.clearGroups();
+    this.mergeGraphData(data);
+  }
 
+  /**
+   * The `setGraphData` diff: reuses the nodes already drawn so they keep their positions.
+   * @param positions - Starting positions of new nodes, instead of placing them near a neighbour
+   */
+  private mergeGraphData(data: Data, positions?: Map<ElementId, { x: number; y: number }>) {
     const existingNodesMap = new Map(this.data.nodes.map(n => [n.id, n]));
     const incomingNodeIds = new Set(data.nodes.map(n => n.id));
 
@@ -752,13 +2038,24 @@ class FalkorDBCanvas extends HTMLElement {
 
     // Use dataToGraphData with existing nodes map — reuses existing nodes, creates new ones
     const prevNodeCount = existingNodesMap.size;
-    const converted = dataToGraphData(data, undefined, existingNodesMap, this.config.linkStyle.parallelEdgeCurveMultiplier);
+    const converted = dataToGraphData(data, undefined, existingNodesMap, this.config.linkStyle.parallelEdgeCurveMultiplier, this.config.styleRules);
+    for (const node of converted.nodes) {
+      const position = positions?.get(node.id);
+      if (position && !existingNodesMap.has(node.id)) {
+        node.x = position.x;
+        node.y = position.y;
+      }
+    }
     const hasNewNodes = converted.nodes.length > prevNodeCount - removedNodes;
     const hasNewLinks = converted.links.length > this.data.links.filter(l => 
       incomingNodeIds.has(l.source.id) && incomingNodeIds.has(l.target.id)
     ).length - removedNodes;
 
     this.data = converted;
+    this.pendingMutation = null;
+    this.indexGraphData();
+    this.resetFilter();
+    const resized = this.applyStyles();
 
     // Invalidate display caches — reused nodes may have new color/size/data
     // that affects text wrapping or font sizing.
@@ -775,32 +2072,20 @@ class FalkorDBCanvas extends HTMLElement {
     if (hasNewNodes) {
       if (isForceLayout(this.config.layoutMode)) {
         // Force layout: position new nodes near their connected parent, then warmup
-        const newNodes = this.data.nodes.filter(n => !existingNodesMap.has(n.id));
-        const newNodeIds = new Set(newNodes.map(n => n.id));
-        for (const node of newNodes) {
-          const parentLink = this.data.links.find(l =>
-            (l.source.id === node.id && !newNodeIds.has(l.target.id)) ||
-            (l.target.id === node.id && !newNodeIds.has(l.source.id))
-          );
-          if (parentLink) {
-            const parent = newNodeIds.has(parentLink.source.id) ? parentLink.target : parentLink.source;
-            const angle = Math.random() * 2 * Math.PI;
-            const dist = 40 + Math.random() * 30;
-            node.x = (parent.x ?? 0) + Math.cos(angle) * dist;
-            node.y = (parent.y ?? 0) + Math.sin(angle) * dist;
-          }
-        }
+        const newNodeIds = new Set(this.data.nodes.filter(n => !existingNodesMap.has(n.id) && !positions?.has(n.id)).map(n => n.id));
+        this.positionNearParents(newNodeIds);
 
         this.graph.dagMode(null as any);
         this.graph.d3Force('link', d3.forceLink());
         this.setupForces();
         this.runForceWarmup();
       } else {
-        // Non-force layout (tree/radial): reapply the current layout
-        this.applyLayout(false);
+        // Deterministic layout: reapply the current layout
+        const newNodeIds = new Set(this.data.nodes.filter(n => !existingNodesMap.has(n.id)).map(n => n.id));
+        this.applyLayout(false, newNodeIds);
       }
-    } else if (hasNewLinks && !isForceLayout(this.config.layoutMode)) {
-      // New edges change the tree structure — recompute positions
+    } else if ((hasNewLinks || resized) && !isForceLayout(this.config.layoutMode)) {
+      // New edges change the tree structure, and scaled sizes the spacing — recompute positions
       this.applyLayout(false);
     } else if (removedNodes > 0 && !isForceLayout(this.config.layoutMode)) {
       // Nodes were removed (collapse) — recompute layout to close gaps
@@ -811,6 +2096,301 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
+  /**
+   * Add nodes without passing the whole graph. New nodes are positioned like in
+   * `setGraphData` once the current batch is flushed: near a connected existing
+   * node for force layouts, or by recomputing deterministic layouts.
+   *
+   * Mutations made in the same task (addNodes, removeNodes, updateNode, addLinks,
+   * removeLinks) are batched into a single simulation reheat or layout pass on
+   * the next microtask. Add nodes before the links that reference them.
+   *
+   * @param nodes - Nodes to add; ids already present are rejected
+   */
+  addNodes(nodes: Node[]) {
+    this.log('addNodes called with', nodes.length, 'nodes');
+    const added: GraphNode[] = [];
+
+    for (const node of nodes) {
+      if (this.nodeById.has(node.id)) {
+        console.error(`Node with id ${node.id} already exists.`);
+        continue;
+      }
+      const graphNode = createGraphNode(node, undefined, this.config.styleRules);
+      this.nodeById.set(graphNode.id, graphNode);
+      this.nodeDegreeMap.set(graphNode.id, 0);
+      this.nodeNeighbors.set(graphNode.id, new Map());
+      added.push(graphNode);
+    }
+
+    if (added.length === 0) return;
+    this.communityCache = null;
+    this.analyticsCache.clear();
+
+    this.data = { nodes: [...this.data.nodes, ...added], links: this.data.links };
+    const mutation = this.scheduleMutationFlush();
+    added.forEach(node => mutation.newNodeIds.add(node.id));
+  }
+
+  /**
+   * Remove nodes and every link attached to them.
+   * The layout update is batched (see `addNodes`).
+   * @param ids - Ids of the nodes to remove; unknown ids are ignored
+   */
+  removeNodes(ids: ElementId[]) {
+    this.log('removeNodes called with', ids.length, 'ids');
+    const removedIds = new Set(ids.filter(id => this.nodeById.has(id)));
+    if (removedIds.size === 0) return;
+
+    const incidentLinkIds = this.data.links
+      .filter(l => removedIds.has(l.source.id) || removedIds.has(l.target.id))
+      .map(l => l.id);
+    this.detachLinks(incidentLinkIds);
+
+    this.communityCache = null;
+    this.analyticsCache.clear();
+    for (const id of removedIds) {
+      this.nodeById.delete(id);
+      this.nodeDegreeMap.delete(id);
+      this.nodeNeighbors.delete(id);
+      this.nodeDisplayFontSize.delete(id);
+    }
+    this.data = { nodes: this.data.nodes.filter(n => !removedIds.has(n.id)), links: this.data.links };
+    this.forgetRemovedElements();
+
+    const mutation = this.scheduleMutationFlush();
+    removedIds.forEach(id => mutation.newNodeIds.delete(id));
+    mutation.structureChanged = true;
+  }
+
+  /**
+   * Update a node's properties in place, keeping its position.
+   * Accepts the same mutable fields `setGraphData` syncs (labels, size, color,
+   * borderColor, visible, data, expand). Size changes re-run deterministic layouts.
+   * Style rules are re-evaluated against the new labels and data; scale
+   * domains follow with the batched layout update.
+   *
+   * @param id - Id of the node to update
+   * @param changes - Fields to change
+   */
+  updateNode(id: ElementId, changes: Partial<Omit<Node, "id">>) {
+    const node = this.nodeById.get(id);
+    if (!node) {
+      console.error(`Node with id ${id} does not exist.`);
+      return;
+    }
+
+    const { expand, size, ...rest } = changes;
+    Object.assign(node, rest);
+    if ('visible' in changes) {
+      // The caller's flag replaces whatever the filter remembered for this node
+      this.filteredNodeIds.delete(id);
+      this.analyticsCache.clear();
+    }
+    if (expand !== undefined && expand !== node.expand[0]) {
+      node.expand = [expand, new Date()];
+    }
+    const previousSize = node.size;
+    if (size !== undefined) node.size = node.ownSize = size;
+    this.styleNode(node);
+    const sizeChanged = node.size !== previousSize;
+
+    // Re-fit the caption to the new data/size
+    node.displayName = ["", ""];
+    this.nodeDisplayFontSize.delete(id);
+
+    const mutation = this.scheduleMutationFlush();
+    mutation.sizeChanged ||= sizeChanged;
+  }
+
+  /**
+   * Add links between existing nodes. Parallel edges are curved like in `setData`.
+   * The layout update is batched (see `addNodes`).
+   * @param links - Links to add; duplicate ids and links to unknown nodes are rejected
+   */
+  addLinks(links: Link[]) {
+    this.log('addLinks called with', links.length, 'links');
+    const curveMultiplier = this.config.linkStyle.parallelEdgeCurveMultiplier;
+    const added: GraphLink[] = [];
+
+    for (const link of links) {
+      const source = this.nodeById.get(link.source);
+      const target = this.nodeById.get(link.target);
+
+      if (this.linkById.has(link.id)) {
+        console.error(`Link with id ${link.id} already exists.`);
+        continue;
+      }
+      if (!source) {
+        console.error(`Link with id ${link.id} has invalid source node ${link.source}.`);
+      }
+      if (!target) {
+        console.error(`Link with id ${link.id} has invalid target node ${link.target}.`);
+      }
+      if (!source || !target) continue;
+
+      const pairKey = getLinkPairKey(source.id, target.id);
+      const pairLinks = this.linksByPair.get(pairKey) ?? [];
+      const graphLink: GraphLink = {
+        ...link,
+        source,
+        target,
+        curve: calculateLinkCurve(pairLinks.length, source.id === target.id, curveMultiplier),
+        style: resolveLinkStyle(link, this.config.styleRules),
+      };
+      pairLinks.push(graphLink);
+      this.linksByPair.set(pairKey, pairLinks);
+      this.linkById.set(graphLink.id, graphLink);
+
+      this.connectNodes(source.id, target.id);
+      added.push(graphLink);
+    }
+
+    if (added.length === 0) return;
+
+    this.data = { nodes: this.data.nodes, links: [...this.data.links, ...added] };
+    this.scheduleMutationFlush().structureChanged = true;
+  }
+
+  /**
+   * Remove links. Remaining parallel edges between the same nodes are re-curved.
+   * The layout update is batched (see `addNodes`).
+   * @param ids - Ids of the links to remove; unknown ids are ignored
+   */
+  removeLinks(ids: ElementId[]) {
+    this.log('removeLinks called with', ids.length, 'ids');
+    const removedIds = new Set(ids.filter(id => this.linkById.has(id)));
+    if (removedIds.size === 0) return;
+
+    this.detachLinks(removedIds);
+    this.forgetRemovedElements();
+    this.scheduleMutationFlush().structureChanged = true;
+  }
+
+  /**
+   * Drop links from `data` and the indexes, updating degrees and the curves of
+   * the parallel edges left behind.
+   */
+  private detachLinks(ids: Iterable<ElementId>) {
+    const curveMultiplier = this.config.linkStyle.parallelEdgeCurveMultiplier;
+    const removed = new Set<ElementId>();
+    const affectedPairs = new Set<string>();
+
+    for (const id of ids) {
+      const link = this.linkById.get(id);
+      if (!link) continue;
+      removed.add(id);
+      this.linkById.delete(id);
+      affectedPairs.add(getLinkPairKey(link.source.id, link.target.id));
+      this.disconnectNodes(link.source.id, link.target.id);
+    }
+
+    if (removed.size === 0) return;
+
+    for (const pairKey of affectedPairs) {
+      const remaining = (this.linksByPair.get(pairKey) ?? []).filter(l => !removed.has(l.id));
+      if (remaining.length === 0) {
+        this.linksByPair.delete(pairKey);
+        continue;
+      }
+      remaining.forEach((l, i) => {
+        l.curve = calculateLinkCurve(i, l.source.id === l.target.id, curveMultiplier);
+      });
+      this.linksByPair.set(pairKey, remaining);
+    }
+
+    this.data = { nodes: this.data.nodes, links: this.data.links.filter(l => !removed.has(l.id)) };
+  }
+
+  /** Rebuild the node/link lookups after `data` was replaced wholesale. */
+  private indexGraphData() {
+    this.analyticsCache.clear();
+    this.nodeById = new Map(this.data.nodes.map(n => [n.id, n]));
+    this.linkById = new Map(this.data.links.map(l => [l.id, l]));
+    this.linksByPair.clear();
+    for (const link of this.data.links) {
+      const pairKey = getLinkPairKey(link.source.id, link.target.id);
+      const pairLinks = this.linksByPair.get(pairKey);
+      if (pairLinks) pairLinks.push(link);
+      else this.linksByPair.set(pairKey, [link]);
+    }
+    this.forgetRemovedElements();
+  }
+
+  /**
+   * Returns the pending mutation batch, scheduling its flush on the next
+   * microtask when this is the first mutation since the last flush.
+   */
+  private scheduleMutationFlush(): PendingMutation {
+    if (!this.pendingMutation) {
+      const mutation: PendingMutation = { newNodeIds: new Set(), structureChanged: false, sizeChanged: false };
+      this.pendingMutation = mutation;
+      queueMicrotask(() => {
+        // Superseded by setData/setGraphData, which run their own layout pass
+        if (this.pendingMutation !== mutation) return;
+        this.pendingMutation = null;
+        this.flushMutation(mutation);
+      });
+    }
+    return this.pendingMutation;
+  }
+
+  /** Apply a batch of mutations with one reheat or layout pass, mirroring `setGraphData`. */
+  private flushMutation({ newNodeIds, structureChanged, sizeChanged }: PendingMutation) {
+    if (!this.graph) return;
+
+    // New and updated elements go through the filter, and scale domains follow the changed data
+    if (this.applyFilter() && this.filter?.relayout) structureChanged = true;
+    if (this.applyStyles()) sizeChanged = true;
+
+    const deterministic = !isForceLayout(this.config.layoutMode);
+
+    if (newNodeIds.size > 0) {
+      const newNodes = this.data.nodes.filter(n => newNodeIds.has(n.id));
+      const radius = (this.data.nodes.length * LINK_DISTANCE) / (Math.PI * 2);
+      circularLayout(newNodes, { x: 0, y: 0 }, radius);
+
+      if (deterministic) {
+        this.applyLayout(false, newNodeIds);
+      } else {
+        this.positionNearParents(newNodeIds);
+        this.graph.dagMode(null as any);
+        this.graph.d3Force('link', d3.forceLink());
+        this.setupForces();
+        this.runForceWarmup();
+      }
+    } else if (deterministic && (structureChanged || sizeChanged)) {
+      this.applyLayout(false);
+    } else {
+      this.graph.graphData(this.data);
+      this.triggerRender();
+    }
+  }
+
+  /**
+   * Place new nodes at a random offset around a connected, already positioned
+   * node, so the force warmup starts from a sensible spot.
+   */
+  private positionNearParents(newNodeIds: Set<ElementId>) {
+    const parents = new Map<ElementId, GraphNode>();
+    for (const link of this.data.links) {
+      const { source, target } = link;
+      if (newNodeIds.has(source.id) && !newNodeIds.has(target.id) && !parents.has(source.id)) {
+        parents.set(source.id, target);
+      } else if (newNodeIds.has(target.id) && !newNodeIds.has(source.id) && !parents.has(target.id)) {
+        parents.set(target.id, source);
+      }
+    }
+
+    for (const [id, parent] of parents) {
+      const node = this.nodeById.get(id)!;
+      const angle = Math.random() * 2 * Math.PI;
+      const dist = 40 + Math.random() * 30;
+      node.x = (parent.x ?? 0) + Math.cos(angle) * dist;
+      node.y = (parent.y ?? 0) + Math.sin(angle) * dist;
+    }
+  }
+
   /**
    * Get the underlying force-graph library instance for advanced customization.
    * Returns undefined if the graph hasn't been initialized.
@@ -819,6 +2399,359 @@ class FalkorDBCanvas extends HTMLElement {
     return this.graph;
   }
 
+  /** Get the selected nodes and links. */
+  getSelection(): GraphSelection {
+    return {
+      nodes: this.selection.getNodeIds().map(id => this.nodeById.get(id)!),
+      links: this.selection.getLinkIds().map(id => this.linkById.get(id)!),
+    };
+  }
+
+  /**
+   * Replace the selection. Fires `selection-change` if it differs.
+   * @param ids - Node and link ids to select; unknown ids are ignored
+   */
+  setSelection(ids: GraphSelectionIds) {
+    this.selection.replace(
+      (ids.nodes ?? []).filter(id => this.nodeById.has(id)),
+      (ids.links ?? []).filter(id => this.linkById.has(id))
+    );
+  }
+
+  /** Deselect everything. */
+  clearSelection() {
+    this.selection.clear();
+  }
+
+  private handleSelectionChange() {
+    const selection = this.getSelection();
+    this.log('Selection changed:', selection.nodes.length, 'nodes,', selection.links.length, 'links');
+    this.config.eventHandlers?.onSelectionChange?.(selection);
+    this.dispatch('selection-change', { selection });
+    this.triggerRender();
+  }
+
+  /** Deselect and unfocus elements that were removed from the graph. */
+  private forgetRemovedElements() {
+    this.selection.retain(id => this.nodeById.has(id), id => this.linkById.has(id));
+    if (this.focusedNodeId !== null && !this.nodeById.has(this.focusedNodeId)) {
+      this.focusedNodeId = null;
+    }
+    const path = this.highlightedPath;
+    if (path && (![...path.nodeIds].every(id => this.nodeById.has(id)) || ![...path.linkIds].every(id => this.linkById.has(id)))) {
+      this.highlightedPath = null;
+    }
+
+    // Removing a meta-node removes its members; removing an aggregate link the links it merges
+    const removedNodeIds = new Set<ElementId>();
+    for (const [id, { group }] of this.groups) {
+      if (this.nodeById.has(id)) continue;
+      this.groups.delete(id);
+      group.memberIds.forEach(memberId => removedNodeIds.add(memberId));
+    }
+    const removedLinkIds = new Set<ElementId>();
+    for (const [id, linkIds] of this.aggregateLinks) {
+      if (this.linkById.has(id)) continue;
+      this.aggregateLinks.delete(id);
+      linkIds.forEach(linkId => removedLinkIds.add(linkId));
+    }
+    if (removedNodeIds.size > 0 || removedLinkIds.size > 0) {
+      this.collapsedData = {
+        nodes: this.collapsedData.nodes.filter(node => !removedNodeIds.has(node.id)),
+        links: this.collapsedData.links.filter(link =>
+          !removedLinkIds.has(link.id) && !removedNodeIds.has(link.source) && !removedNodeIds.has(link.target)),
+      };
+    }
+  }
+
+  /** Built-in selection or the `isNodeSelected` predicate. */
+  private isSelectedNode(node: GraphNode): boolean {
+    return this.selection.hasNode(node.id) || (this.config.isNodeSelected?.(node) ?? false);
+  }
+
+  /** Built-in selection, the `isLinkSelected` predicate or the highlighted path. */
+  private isSelectedLink(link: GraphLink): boolean {
+    return this.selection.hasLink(link.id)
+      || (this.config.isLinkSelected?.(link) ?? false)
+      || (this.highlightedPath?.linkIds.has(link.id) ?? false);
+  }
+
+  /** Off the highlighted path, or matched by `isNodeDimmed` while `dimmed` is on. */
+  private isNodeDimmed(node: GraphNode): boolean {
+    if (this.highlightedPath) return !this.highlightedPath.nodeIds.has(node.id);
+    return this.config.dimmed === true && (this.config.isNodeDimmed?.(node) ?? false);
+  }
+
+  /** Off the highlighted path, or matched by `isLinkDimmed` while `dimmed` is on. */
+  private isLinkDimmed(link: GraphLink): boolean {
+    if (this.highlightedPath) return !this.highlightedPath.linkIds.has(link.id);
+    return this.config.dimmed === true && (this.config.isLinkDimmed?.(link) ?? false);
+  }
+
+  /** Click selection: modifier-click toggles, a plain click selects only this element. */
+  private selectOnClick(kind: 'node' | 'link', id: ElementId, event: MouseEvent) {
+    if (!this.config.selection.enabled) return;
+    const toggle = isModifierPressed(event, this.config.selection.multiSelectModifier);
+    if (kind === 'node') {
+      if (toggle) this.selection.toggleNode(id);
+      else this.selection.replace([id], []);
+    } else if (toggle) {
+      this.selection.toggleLink(id);
+    } else {
+      this.selection.replace([], [id]);
+    }
+  }
+
+  /**
+   * Starts a box or lasso selection when a selection modifier is held on the
+   * background. Registered in the capture phase so the drag never reaches
+   * force-graph's pan handling.
+   */
+  private onSelectionPointerDown = (event: PointerEvent) => {
+    const { enabled, boxSelectModifier, lassoSelectModifier, multiSelectModifier, marqueeColor } = this.config.selection;
+    if (!enabled || !this.container || !this.graph || event.button !== 0 || this.hoveredNode || this.hoveredLink) return;
+
+    const lasso = isModifierPressed(event, lassoSelectModifier);
+    if (!lasso && !isModifierPressed(event, boxSelectModifier)) return;
+
+    event.stopPropagation();
+    event.preventDefault();
+    this.endMarquee();
+
+    const overlay = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    overlay.setAttribute("class", "selection-marquee");
+    overlay.setAttribute("style", "position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none;");
+    const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    path.setAttribute("fill", marqueeColor);
+    path.setAttribute("fill-opacity", "0.1");
+    path.setAttribute("stroke", marqueeColor);
+    overlay.appendChild(path);
+    this.container.appendChild(overlay);
+
+    this.marquee = {
+      mode: lasso ? 'lasso' : 'box',
+      points: [this.getContainerPoint(event)],
+      additive: isModifierPressed(event, multiSelectModifier),
+      overlay,
+    };
+    window.addEventListener("pointermove", this.onSelectionPointerMove);
+    window.addEventListener("pointerup", this.onSelectionPointerUp);
+  };
+
+  private onSelectionPointerMove = (event: PointerEvent) => {
+    if (!this.marquee) return;
+    const point = this.getContainerPoint(event);
+    const { points } = this.marquee;
+    if (this.marquee.mode === 'box') {
+      points[1] = point;
+    } else {
+      // Skip pointer jitter to keep the lasso polygon small
+      const last = points[points.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) < 2) return;
+      points.push(point);
+    }
+    const outline = this.getMarqueePolygon(this.marquee);
+    const d = outline.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join('') + 'Z';
+    this.marquee.overlay.firstElementChild?.setAttribute("d", d);
+  };
+
+  private onSelectionPointerUp = () => {
+    const marquee = this.marquee;
+    this.endMarquee();
+    if (!marquee || !this.graph) return;
+
+    const polygon = this.getMarqueePolygon(marquee).map(p => this.graph!.screen2GraphCoords(p.x, p.y));
+    if (polygon.length < 3) return;
+
+    const nodeIds = new Set(
+      this.data.nodes
+        .filter(n => n.visible && isPointInPolygon(n.x ?? 0, n.y ?? 0, polygon))
+        .map(n => n.id)
+    );
+    // Links come along when both of their endpoints are enclosed
+    const linkIds = this.data.links
+      .filter(l => l.visible && nodeIds.has(l.source.id) && nodeIds.has(l.target.id))
+      .map(l => l.id);
+
+    if (marquee.additive) this.selection.add(nodeIds, linkIds);
+    else this.selection.replace(nodeIds, linkIds);
+  };
+
+  /** Outline of a box/lasso selection in container pixels. */
+  private getMarqueePolygon({ mode, points }: SelectionMarquee): { x: number; y: number }[] {
+    if (mode === 'lasso') return points;
+    if (points.length < 2) return [];
+    const [a, b] = points;
+    return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+  }
+
+  private endMarquee() {
+    window.removeEventListener("pointermove", this.onSelectionPointerMove);
+    window.removeEventListener("pointerup", this.onSelectionPointerUp);
+    this.marquee?.overlay.remove();
+    this.marquee = null;
+  }
+
+  private getContainerPoint(event: MouseEvent): { x: number; y: number } {
+    const rect = this.container!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }
+
+  /** The node with keyboard focus, if any. */
+  getFocusedNode(): GraphNode | undefined {
+    return this.focusedNodeId === null ? undefined : this.nodeById.get(this.focusedNodeId);
+  }
+
+  /**
+   * Give a node keyboard focus (or clear it with `null`), announce it to
+   * screen readers and pan it into view.
+   * @param id - Node id; unknown ids are ignored
+   */
+  setFocusedNode(id: ElementId | null) {
+    if (id === null) {
+      this.focusedNodeId = null;
+      this.triggerRender();
+      return;
+    }
+    const node = this.nodeById.get(id);
+    if (!node) return;
+    this.focusedNodeId = id;
+    this.announceNode(node);
+    this.panNodeIntoView(node);
+    this.triggerRender();
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (!this.graph || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    switch (event.key) {
+      case 'ArrowUp': this.moveFocus(0, -1); break;
+      case 'ArrowDown': this.moveFocus(0, 1); break;
+      case 'ArrowLeft': this.moveFocus(-1, 0); break;
+      case 'ArrowRight': this.moveFocus(1, 0); break;
+      case 'Enter': {
+        const node = this.getFocusedNode();
+        if (!node) return;
+        // Activation behaves like a click so existing click handlers serve keyboard users too
+        this.handleNodeClick(node, new MouseEvent('click', { shiftKey: event.shiftKey }));
+        break;
+      }
+      case '+':
+      case '=':
+        this.graph.zoom(this.graph.zoom() * this.config.interaction.keyboardZoomStep);
+        break;
+      case '-':
+      case '_':
+        this.graph.zoom(this.graph.zoom() / this.config.interaction.keyboardZoomStep);
+        break;
+      case '0': this.zoomToFit(); break;
+      default: return;
+    }
+    event.preventDefault();
+  };
+
+  private onHostFocusChange = () => {
+    this.triggerRender();
+  };
+
+  /**
+   * Move keyboard focus to the neighbour of the focused node that lies most
+   * nearly in the arrow direction. Without a focused node, focus the visible
+   * node nearest the viewport centre.
+   */
+  private moveFocus(dirX: number, dirY: number) {
+    const current = this.getFocusedNode();
+    if (!current) {
+      const center = this.graph?.centerAt() ?? { x: 0, y: 0 };
+      let nearest: GraphNode | undefined;
+      let nearestDistance = Infinity;
+      for (const node of this.data.nodes) {
+        if (!node.visible) continue;
+        const distance = Math.hypot((node.x ?? 0) - center.x, (node.y ?? 0) - center.y);
+        if (distance < nearestDistance) {
+          nearest = node;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest) this.setFocusedNode(nearest.id);
+      return;
+    }
+
+    let best: GraphNode | undefined;
+    let bestScore = -Infinity;
+    for (const id of this.nodeNeighbors.get(current.id)?.keys() ?? []) {
+      const neighbor = this.nodeById.get(id);
+      if (!neighbor || neighbor === current || !neighbor.visible) continue;
+      const dx = (neighbor.x ?? 0) - (current.x ?? 0);
+      const dy = (neighbor.y ?? 0) - (current.y ?? 0);
+      const distance = Math.hypot(dx, dy);
+      // Cosine of the angle to the arrow direction; overlapping nodes count as straight ahead
+      const alignment = distance === 0 ? 1 : (dx * dirX + dy * dirY) / distance;
+      if (alignment <= 0) continue;
+      // Prefer the best-aligned neighbour, then the nearest one
+      const score = alignment - distance * 1e-9;
+      if (score > bestScore) {
+        best = neighbor;
+        bestScore = score;
+      }
+    }
+    if (best) this.setFocusedNode(best.id);
+  }
+
+  /** Announce a node's caption, labels and degree in the live region. */
+  private announceNode(node: GraphNode) {
+    if (!this.liveRegion) return;
+    const caption = getNodeDisplayText(node, this.getNodeCaptionsKeys(node), this.config.showPropertyKeyPrefix);
+    const degree = this.nodeDegreeMap.get(node.id) ?? 0;
+    const labels = node.labels.length > 0 ? `, ${node.labels.join(', ')}` : '';
+    this.liveRegion.textContent = `${caption}${labels}, ${degree} ${degree === 1 ? 'connection' : 'connections'}`;
+  }
+
+  /** Center the view on a node that is outside the viewport. */
+  private panNodeIntoView(node: GraphNode) {
+    if (!this.graph) return;
+    const k = this.graph.zoom() || 1;
+    const center = this.graph.centerAt();
+    const halfW = (this.graph.width() || 0) / (2 * k);
+    const halfH = (this.graph.height() || 0) / (2 * k);
+    const x = node.x ?? 0;
+    const y = node.y ?? 0;
+    if (Math.abs(x - center.x) + node.size > halfW || Math.abs(y - center.y) + node.size > halfH) {
+      this.graph.centerAt(x, y, KEYBOARD_PAN_DURATION);
+    }
+  }
+
+  /** Adjacency is kept per node pair (with link counts) for keyboard navigation. */
+  private connectNodes(sourceId: ElementId, targetId: ElementId) {
+    this.communityCache = null;
+    this.analyticsCache.clear();
+    this.nodeDegreeMap.set(sourceId, (this.nodeDegreeMap.get(sourceId) || 0) + 1);
+    this.nodeDegreeMap.set(targetId, (this.nodeDegreeMap.get(targetId) || 0) + 1);
+    for (const [from, to] of [[sourceId, targetId], [targetId, sourceId]]) {
+      let neighbors = this.nodeNeighbors.get(from);
+      if (!neighbors) {
+        neighbors = new Map();
+        this.nodeNeighbors.set(from, neighbors);
+      }
+      neighbors.set(to, (neighbors.get(to) || 0) + 1);
+      if (from === to) break;
+    }
+  }
+
+  private disconnectNodes(sourceId: ElementId, targetId: ElementId) {
+    this.communityCache = null;
+    this.analyticsCache.clear();
+    this.nodeDegreeMap.set(sourceId, Math.max(0, (this.nodeDegreeMap.get(sourceId) || 0) - 1));
+    this.nodeDegreeMap.set(targetId, Math.max(0, (this.nodeDegreeMap.get(targetId) || 0) - 1));
+    for (const [from, to] of [[sourceId, targetId], [targetId, sourceId]]) {
+      const neighbors = this.nodeNeighbors.get(from);
+      const count = neighbors?.get(to) ?? 0;
+      if (count <= 1) neighbors?.delete(to);
+      else neighbors!.set(to, count - 1);
+      if (from === to) break;
+    }
+  }
+
   /** Get the current zoom level */
   public getZoom(): number {
     return this.graph?.zoom() || 0;
@@ -905,11 +2838,14 @@ class FalkorDBCanvas extends HTMLElement {
     // Compute node bounding box
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
     for (const n of nodes) {
-      if (n.x !== undefined && n.y !== undefined) {
-        minX = Math.min(minX, n.x);
-        maxX = Math.max(maxX, n.x);
-        minY = Math.min(minY, n.y);
-        maxY = Math.max(maxY, n.y);
+      // Mid-transition, fit the destination layout rather than the interpolated positions
+      const x = n.layoutTargetX ?? n.x;
+      const y = n.layoutTargetY ?? n.y;
+      if (x !== undefined && y !== undefined) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
       }
     }
 
@@ -962,6 +2898,140 @@ class FalkorDBCanvas extends HTMLElement {
     this.graph.zoom(zoom);
   }
 
+  /**
+   * Export the graph as a PNG or SVG image.
+   *
+   * The image is re-rendered with the same node and link painters as the
+   * canvas, but without viewport culling or low-zoom label skipping, so every
+   * visible element in the exported region is drawn in full. Pending node
+   * images are awaited before rendering.
+   *
+   * @param options - Format, pixel ratio, background and region to export
+   * @returns A `image/png` or `image/svg+xml` Blob
+   */
+  async exportImage(options: ExportImageOptions = {}): Promise<Blob> {
+    if (!this.graph) throw new Error('[FalkorDBCanvas] Cannot export before the graph is initialized');
+
+    const format = options.format ?? 'png';
+    const background = options.background === undefined ? this.config.backgroundColor : options.background;
+    const frame = this.getExportFrame(options.region ?? 'viewport');
+    const scale = Math.min(
+      options.scale ?? (window.devicePixelRatio || 1),
+      MAX_EXPORT_DIMENSION / frame.width,
+      MAX_EXPORT_DIMENSION / frame.height
+    );
+    const pixelWidth = Math.max(1, Math.round(frame.width * scale));
+    const pixelHeight = Math.max(1, Math.round(frame.height * scale));
+
+    // Text is measured on the live canvas so captions wrap exactly as on screen
+    const screenCanvas = this.shadowRoot?.querySelector("canvas") as HTMLCanvasElement | null;
+    const measureContext = screenCanvas?.getContext("2d") ?? null;
+
+    // Dry run: requests images of nodes that were culled on screen, then waits for them
+    this.paintExport(new SvgRenderingContext(frame.width, frame.height, measureContext) as unknown as CanvasRenderingContext2D, frame, 1, null);
+    await this.imageCache.whenSettled();
+
+    if (format === 'svg') {
+      const svg = new SvgRenderingContext(frame.width, frame.height, measureContext);
+      this.paintExport(svg as unknown as CanvasRenderingContext2D, frame, 1, background);
+      return new Blob([svg.toSvg(pixelWidth, pixelHeight)], { type: 'image/svg+xml' });
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error('[FalkorDBCanvas] 2D canvas context is unavailable for export');
+    this.paintExport(ctx, frame, pixelWidth / frame.width, background);
+
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('[FalkorDBCanvas] Failed to encode the exported PNG'));
+      }, 'image/png');
+    });
+  }
+
+  /**
+   * Size (screen pixels), zoom and world-space centre of the exported area.
+   * 'viewport' matches the current view; 'fit' keeps the current zoom but
+   * grows the frame to include every visible node.
+   */
+  private getExportFrame(region: 'viewport' | 'fit'): { width: number; height: number; k: number; x: number; y: number } {
+    const k = this.graph?.zoom() || 1;
+    const center = this.graph?.centerAt() ?? { x: 0, y: 0 };
+    const viewport = {
+      width: this.graph?.width() || this.config.width || 800,
+      height: this.graph?.height() || this.config.height || 600,
+      k,
+      x: center.x,
+      y: center.y,
+    };
+    if (region === 'viewport') return viewport;
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const node of this.data.nodes) {
+      if (!node.visible || node.x === undefined || node.y === undefined) continue;
+      const { halfWidth, halfHeight } = getNodeShapeExtent(this.getNodeShape(node), node.size + PADDING);
+      minX = Math.min(minX, node.x - halfWidth);
+      maxX = Math.max(maxX, node.x + halfWidth);
+      minY = Math.min(minY, node.y - halfHeight);
+      maxY = Math.max(maxY, node.y + halfHeight);
+    }
+    if (!isFinite(minX)) return viewport;
+
+    return {
+      width: (maxX - minX) * k + 2 * EXPORT_FIT_MARGIN,
+      height: (maxY - minY) * k + 2 * EXPORT_FIT_MARGIN,
+      k,
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+    };
+  }
+
+  /** Draw every visible link and node of the export frame onto `ctx`, culling disabled. */
+  private paintExport(
+    ctx: CanvasRenderingContext2D,
+    frame: { width: number; height: number; k: number; x: number; y: number },
+    pixelRatio: number,
+    background: string | null
+  ) {
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, frame.width, frame.height);
+    }
+
+    // Same world-to-screen mapping as force-graph: the centre lands mid-frame
+    const scale = pixelRatio * frame.k;
+    ctx.setTransform(
+      scale, 0, 0, scale,
+      pixelRatio * (frame.width / 2 - frame.x * frame.k),
+      pixelRatio * (frame.height / 2 - frame.y * frame.k)
+    );
+
+    const { cullingBounds, cullingZoom } = this;
+    this.cullingBounds = null;
+    this.cullingZoom = Infinity;
+    try {
+      for (const link of this.data.links) {
+        if (!this.isLinkDrawn(link)) continue;
+        ctx.save();
+        this.paintLink(link, ctx, frame.k);
+        ctx.restore();
+      }
+      for (const node of this.data.nodes) {
+        if (!node.visible) continue;
+        ctx.save();
+        this.paintNode(node, ctx);
+        ctx.restore();
+      }
+    } finally {
+      this.cullingBounds = cullingBounds;
+      this.cullingZoom = cullingZoom;
+    }
+  }
+
   private triggerRender() {
     if (!this.graph) return;
 
@@ -975,6 +3045,123 @@ class FalkorDBCanvas extends HTMLElement {
     });
   }
 
+  /**
+   * Record the current node positions as the starting point of a layout transition.
+   * Cancels any in-flight transition first, so an interrupted animation resumes
+   * from wherever the nodes currently are.
+   * @param excludeIds - Nodes whose current position should not be used as a start
+   * @returns Start positions keyed by node id, or null when transitions are disabled
+   */
+  private captureTransitionStart(excludeIds?: Set<ElementId>): Map<ElementId, { x: number; y: number }> | null {
+    this.cancelLayoutTransition();
+    if (!this.config.layoutTransition.enabled || this.config.layoutTransition.duration <= 0) return null;
+
+    const start = new Map<ElementId, { x: number; y: number }>();
+    for (const node of this.data.nodes) {
+      if (node.x !== undefined && node.y !== undefined && !excludeIds?.has(node.id)) {
+        start.set(node.id, { x: node.x, y: node.y });
+      }
+    }
+    return start;
+  }
+
+  /**
+   * Animate nodes from their captured start positions to the positions the
+   * layout just assigned. The assigned positions become `layoutTargetX/Y` and
+   * nodes are moved back to their start, then interpolated every frame.
+   * Nodes without a start position (newly added) grow out of a previously
+   * placed neighbour, or appear at their target if they have none.
+   */
+  private startLayoutTransition(start: Map<ElementId, { x: number; y: number }> | null) {
+    if (!start || !this.graph) return;
+
+    const neighbourStart = new Map<ElementId, { x: number; y: number }>();
+    for (const link of this.data.links) {
+      const s = start.get(link.source.id);
+      const t = start.get(link.target.id);
+      if (s && !neighbourStart.has(link.target.id)) neighbourStart.set(link.target.id, s);
+      if (t && !neighbourStart.has(link.source.id)) neighbourStart.set(link.source.id, t);
+    }
+
+    const nodes: TransitioningNode[] = [];
+    for (const node of this.data.nodes) {
+      const from = start.get(node.id) ?? neighbourStart.get(node.id);
+      const toX = node.x ?? 0;
+      const toY = node.y ?? 0;
+      if (!from || (from.x === toX && from.y === toY)) continue;
+
+      node.layoutTargetX = toX;
+      node.layoutTargetY = toY;
+      node.x = from.x;
+      node.y = from.y;
+      node.fx = from.x;
+      node.fy = from.y;
+      nodes.push({ node, fromX: from.x, fromY: from.y, toX, toY });
+    }
+
+    if (nodes.length === 0) return;
+
+    const { duration, easing } = this.config.layoutTransition;
+    const ease = typeof easing === 'function' ? easing : TRANSITION_EASINGS[easing] ?? d3.easeCubicInOut;
+    const startTime = performance.now();
+    this.log('Starting layout transition for', nodes.length, 'nodes over', duration, 'ms');
+
+    // Keep force-graph redrawing every frame while nodes move
+    this.graph.autoPauseRedraw(false);
+
+    const step = () => {
+      const t = Math.min(1, (performance.now() - startTime) / duration);
+      const progress = ease(t);
+      for (const { node, fromX, fromY, toX, toY } of nodes) {
+        const x = fromX + (toX - fromX) * progress;
+        const y = fromY + (toY - fromY) * progress;
+        node.x = x;
+        node.y = y;
+        node.fx = x;
+        node.fy = y;
+      }
+
+      if (t < 1) {
+        this.layoutTransition!.frame = requestAnimationFrame(step);
+      } else {
+        this.finishLayoutTransition();
+      }
+    };
+
+    this.layoutTransition = { frame: requestAnimationFrame(step), nodes };
+  }
+
+  /** Snap transitioning nodes to their targets and notify listeners. */
+  private finishLayoutTransition() {
+    if (!this.layoutTransition) return;
+    this.cancelLayoutTransition(true);
+    this.log('Layout transition complete');
+    this.triggerRender();
+    this.config.eventHandlers?.onLayoutTransitionEnd?.(this.config.layoutMode);
+    this.dispatch('layout-transition-end', { layout: this.config.layoutMode });
+  }
+
+  /**
+   * Stop an in-flight layout transition.
+   * @param snapToTarget - Move nodes to their targets (true) or leave them where they are (false)
+   */
+  private cancelLayoutTransition(snapToTarget = false) {
+    if (!this.layoutTransition) return;
+    cancelAnimationFrame(this.layoutTransition.frame);
+    for (const { node, toX, toY } of this.layoutTransition.nodes) {
+      if (snapToTarget) {
+        node.x = toX;
+        node.y = toY;
+        node.fx = toX;
+        node.fy = toY;
+      }
+      node.layoutTargetX = undefined;
+      node.layoutTargetY = undefined;
+    }
+    this.layoutTransition = null;
+    this.graph?.autoPauseRedraw(true);
+  }
+
   private updateCanvasSimulationAttribute(isRunning: boolean) {
     if (!this.shadowRoot) return;
 
@@ -988,23 +3175,17 @@ class FalkorDBCanvas extends HTMLElement {
   private calculateNodeDegree() {
     this.log('Calculating node degrees for', this.data.nodes.length, 'nodes');
     this.nodeDegreeMap.clear();
+    this.nodeNeighbors.clear();
+    this.communityCache = null;
+    this.analyticsCache.clear();
     const { nodes, links } = this.data;
 
-    nodes.forEach((node) => this.nodeDegreeMap.set(node.id, 0));
-
-    links.forEach((link) => {
-      const sourceId = link.source.id;
-      const targetId = link.target.id;
-
-      this.nodeDegreeMap.set(
-        sourceId,
-        (this.nodeDegreeMap.get(sourceId) || 0) + 1
-      );
-      this.nodeDegreeMap.set(
-        targetId,
-        (this.nodeDegreeMap.get(targetId) || 0) + 1
-      );
+    nodes.forEach((node) => {
+      this.nodeDegreeMap.set(node.id, 0);
+      this.nodeNeighbors.set(node.id, new Map());
     });
+
+    links.forEach((link) => this.connectNodes(link.source.id, link.target.id));
   }
 
   private render() {
@@ -1016,6 +3197,8 @@ class FalkorDBCanvas extends HTMLElement {
     this.container.style.width = "100%";
     this.container.style.height = "100%";
     this.container.style.position = "relative";
+    // Stacking context for the WebGL layer, which sits behind force-graph's canvas
+    this.container.style.isolation = "isolate";
 
     // Add styles using standalone function
     const style = createStyles(this.config.backgroundColor, this.config.foregroundColor, this.config.interaction);
@@ -1023,7 +3206,18 @@ class FalkorDBCanvas extends HTMLElement {
     this.shadowRoot.appendChild(style);
     this.shadowRoot.appendChild(this.container);
 
+    this.liveRegion = document.createElement("div");
+    this.liveRegion.className = "live-region";
+    this.liveRegion.setAttribute("role", "status");
+    this.liveRegion.setAttribute("aria-live", "polite");
+    this.liveRegion.setAttribute("aria-atomic", "true");
+    this.shadowRoot.appendChild(this.liveRegion);
+    this.container.addEventListener("pointerdown", this.onSelectionPointerDown, true);
+    this.container.addEventListener("pointerdown", this.onNodePointerDown, true);
+
     this.initGraph();
+    this.legendElement = null;
+    this.updateScaleLegend();
     this.setupResizeObserver();
   }
 
@@ -1051,29 +3245,33 @@ class FalkorDBCanvas extends HTMLElement {
     this.log('Initializing force graph with', this.data.nodes.length, 'nodes and', this.data.links.length, 'links');
     this.calculateNodeDegree();
 
+    this.setWebGLEnabled(this.config.renderer === 'webgl');
+
     // Initialize force-graph
     // Cast to any for the factory call pattern, result is properly typed as ForceGraphInstance
     this.graph = (ForceGraph as any)()(this.container)
       .width(this.config.width || 800)
       .height(this.config.height || 600)
-      .backgroundColor(this.config.backgroundColor)
+      .backgroundColor(this.getGraphBackgroundColor())
       .graphData(this.data)
-      .nodeCanvasObjectMode(() => this.nodeMode)
-      .linkCanvasObjectMode(() => this.linkMode)
+      .nodeCanvasObjectMode(() => this.nodeRenderMode)
+      .linkCanvasObjectMode(() => this.linkRenderMode)
       .nodeLabel((node: GraphNode) =>
-        getNodeDisplayText(node, this.config.captionsKeys, this.config.showPropertyKeyPrefix)
+        getNodeDisplayText(node, this.getNodeCaptionsKeys(node), this.config.showPropertyKeyPrefix)
       )
-      .linkLabel((link: GraphLink) => link.relationship)
+      .linkLabel((link: GraphLink) => this.getLinkLabel(link))
       .linkDirectionalArrowLength(0)
       .linkWidth(0)
       .linkCurvature("curve")
-      .linkVisibility("visible")
+      .linkVisibility((link: GraphLink) => this.isLinkDrawn(link))
       .nodeVisibility("visible")
       .cooldownTicks(0)
       .cooldownTime(Infinity)
       .enableNodeDrag(true)
       .enableZoomInteraction(true)
-      .enablePanInteraction(true);
+      .enablePanInteraction(true)
+      .onRenderFramePre((ctx: CanvasRenderingContext2D) => this.renderWebGLFrame(ctx))
+      .onRenderFramePost(() => { this.glFrame = null; });
 
     this.bindEventHandlers();
 
@@ -1087,8 +3285,11 @@ class FalkorDBCanvas extends HTMLElement {
    * Resets node positions so d3 computes a fresh layout, then pins if needed.
    * @param freeNodeIds - if provided, only these nodes are free to move; all others are pinned.
    */
-  private runForceWarmup(freeNodeIds?: Set<number>) {
+  private runForceWarmup(freeNodeIds?: Set<ElementId>) {
     if (!this.graph) return;
+    this.cancelWorkerSimulation();
+    // Local warmups keep the existing nodes in place, so only full ones repack
+    this.packComponentsOnStop = !freeNodeIds;
 
     if (freeNodeIds) {
       // Local warmup: only unpin specified nodes, keep the rest pinned
@@ -1099,13 +3300,18 @@ class FalkorDBCanvas extends HTMLElement {
           n.fx = n.x; n.fy = n.y;
         }
       });
+    } else {
+      // Full warmup: unpin all nodes
+      this.data.nodes.forEach(n => { delete n.fx; delete n.fy; n.vx = 0; n.vy = 0; });
+    }
+
+    if (this.config.simulation.useWorker && this.startWorkerSimulation(freeNodeIds)) return;
+
+    if (freeNodeIds) {
       // Disable center forces during local warmup — free nodes should cluster
       // around their parent, not get pulled to origin
       this.graph.d3Force('centerX', null);
       this.graph.d3Force('centerY', null);
-    } else {
-      // Full warmup: unpin all nodes
-      this.data.nodes.forEach(n => { delete n.fx; delete n.fy; n.vx = 0; n.vy = 0; });
     }
 
     this.graph.cooldownTicks(0);
@@ -1124,6 +3330,7 @@ class FalkorDBCanvas extends HTMLElement {
     } else {
       // Pin all nodes once the engine stops
       this.graph.onEngineStop(() => {
+        this.packForceComponents();
         pinAllNodes(this.data.nodes);
         this.graph!.onEngineStop(() => {});
         // Restore center forces after warmup settles
@@ -1144,21 +3351,20 @@ class FalkorDBCanvas extends HTMLElement {
     if (!linkForce) return;
     if (!this.graph) return;
 
-    const linkDist = this.config.layoutOptions.force?.linkDistance ?? LINK_DISTANCE;
-    const collisionPad = this.config.layoutOptions.force?.collisionPadding ?? 25;
+    const nodeCount = this.graph.graphData()?.nodes?.length ?? 0;
+    const params = this.getForceParams(nodeCount);
 
     // distance based on node size + constant
     linkForce
       .distance((link: GraphLink) => {
         const sourceSize = link.source.size;
         const targetSize = link.target.size;
-        return sourceSize + targetSize + linkDist * 2;
+        return sourceSize + targetSize + params.linkDistance * 2;
       });
 
     // Collision force - node size + padding (can be disabled for large graphs)
-    const nodeCount = this.graph.graphData()?.nodes?.length ?? 0;
-    const disableCollisionAbove = this.config.simulation.disableCollisionAbove;
-    if (disableCollisionAbove > 0 && nodeCount > disableCollisionAbove) {
+    const collisionPad = params.collisionPadding;
+    if (collisionPad === null) {
       this.graph.d3Force("collide", null);
     } else {
       this.graph.d3Force(
@@ -1178,22 +3384,24 @@ class FalkorDBCanvas extends HTMLElement {
       d3.forceY(0).strength(this.config.simulation.centerStrength)
     );
 
+    // Community forces - cluster each community and keep communities apart
+    const communityStrength = params.communityStrength;
+    if (communityStrength === null) {
+      this.graph.d3Force("communityAttraction", null);
+      this.graph.d3Force("communitySeparation", null);
+    } else {
+      const communityOf = (node: GraphNode) => this.getCommunityCache().byNodeId.get(node.id) ?? -1;
+      this.graph.d3Force("communityAttraction", forceCommunityAttraction(communityOf, communityStrength));
+      this.graph.d3Force("communitySeparation", forceCommunitySeparation(communityOf, params.communitySeparation));
+    }
+
     // Charge force
     const chargeForce = this.graph.d3Force("charge");
     if (chargeForce) {
-      chargeForce.strength(this.config.simulation.chargeStrength);
+      chargeForce.strength(params.chargeStrength);
       // Limit charge interaction distance for performance on large graphs
-      const distMaxConfig = this.config.simulation.chargeDistanceMax;
-      let distMax: number;
-      if (distMaxConfig === "auto") {
-        distMax = Math.sqrt(nodeCount) * 30;
-      } else {
-        distMax = distMaxConfig;
-      }
       if (chargeForce.distanceMax) {
-        // Always update the setter; use Infinity to reset to unlimited when the
-        // cap is cleared (distMaxConfig === undefined).
-        chargeForce.distanceMax(isFinite(distMax) ? distMax : Infinity);
+        chargeForce.distanceMax(params.chargeDistanceMax);
       }
     }
 
@@ -1209,6 +3417,165 @@ class FalkorDBCanvas extends HTMLElement {
     this.log('Force simulation setup complete');
   }
 
+  /**
+   * Force parameters from the config, applied by `setupForces` and sent to the
+   * layout worker so both simulations use the same forces.
+   * @param nodeCount - Node count for the collision cutoff and the `'auto'` charge distance
+   * @param center - Whether nodes are pulled towards the origin (off for local warmups)
+   */
+  private getForceParams(nodeCount: number, center = true): ForceParams {
+    const { simulation, layoutOptions } = this.config;
+    const disableCollisionAbove = simulation.disableCollisionAbove;
+    const distMax = simulation.chargeDistanceMax === "auto"
+      ? Math.sqrt(nodeCount) * 30
+      : simulation.chargeDistanceMax;
+
+    return {
+      linkDistance: layoutOptions.force?.linkDistance ?? LINK_DISTANCE,
+      collisionPadding: disableCollisionAbove > 0 && nodeCount > disableCollisionAbove
+        ? null
+        : layoutOptions.force?.collisionPadding ?? 25,
+      centerStrength: center ? simulation.centerStrength : null,
+      chargeStrength: simulation.chargeStrength,
+      // Infinity resets the cap when chargeDistanceMax is cleared
+      chargeDistanceMax: isFinite(distMax) ? distMax : Infinity,
+      velocityDecay: simulation.velocityDecay,
+      communityStrength: layoutOptions.force?.communities ? layoutOptions.force.communityStrength ?? 0.1 : null,
+      communitySeparation: layoutOptions.force?.communitySeparation ?? 60,
+    };
+  }
+
+  /**
+   * Send the warmup to the layout worker. force-graph only renders meanwhile;
+   * positions are copied onto the nodes as they stream back.
+   * @param freeNodeIds - For local warmups, the nodes free to move
+   * @returns false if no worker is available, so the caller warms up on the main thread
+   */
+  private startWorkerSimulation(freeNodeIds?: Set<ElementId>): boolean {
+    if (!this.graph) return false;
+    const worker = this.getForceWorker();
+    if (!worker) return false;
+
+    const nodes = this.data.nodes;
+    const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+    const positions = new Float64Array(nodes.length * 2);
+    const fixed = new Float64Array(nodes.length * 2);
+    const sizes = new Float64Array(nodes.length);
+    nodes.forEach((node, i) => {
+      positions[2 * i] = node.x ?? NaN;
+      positions[2 * i + 1] = node.y ?? NaN;
+      fixed[2 * i] = node.fx ?? NaN;
+      fixed[2 * i + 1] = node.fy ?? NaN;
+      sizes[i] = node.size;
+    });
+    const links = new Uint32Array(this.data.links.length * 2);
+    this.data.links.forEach((link, i) => {
+      links[2 * i] = indexById.get(link.source.id)!;
+      links[2 * i + 1] = indexById.get(link.target.id)!;
+    });
+
+    let communities: Int32Array | undefined;
+    const params = this.getForceParams(nodes.length, !freeNodeIds);
+    if (params.communityStrength !== null) {
+      const { byNodeId } = this.getCommunityCache();
+      communities = Int32Array.from(nodes, node => byNodeId.get(node.id) ?? -1);
+    }
+
+    const job = { id: this.nextWorkerJobId++, nodes, freeNodeIds };
+    this.workerJob = job;
+    const request: ForceWorkerRequest = {
+      type: 'start',
+      jobId: job.id,
+      positions,
+      fixed,
+      sizes,
+      links,
+      communities,
+      params,
+      ticks: this.config.simulation.warmupTicks,
+      batchTicks: this.config.simulation.workerBatchTicks,
+    };
+    const transfer: Transferable[] = [positions.buffer, fixed.buffer, sizes.buffer, links.buffer];
+    if (communities) transfer.push(communities.buffer);
+    worker.postMessage(request, transfer);
+    this.log('Force warmup of', nodes.length, 'nodes started in worker job', job.id);
+
+    this.graph.cooldownTicks(0);
+    this.graph.warmupTicks(0);
+    this.graph.graphData(this.data);
+    this.updateCanvasSimulationAttribute(true);
+    return true;
+  }
+
+  /** The layout worker, started on first use; null where workers are unavailable. */
+  private getForceWorker(): Worker | null {
+    if (this.forceWorker) return this.forceWorker;
+    if (this.forceWorkerFailed) return null;
+    if (typeof Worker === 'undefined') {
+      this.log('Web Workers are unavailable; running the force warmup on the main thread');
+      return null;
+    }
+
+    try {
+      this.forceWorker = new Worker(new URL('./force-worker.js', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.error('[FalkorDBCanvas] Failed to start the force simulation worker:', error);
+      this.forceWorkerFailed = true;
+      return null;
+    }
+    this.forceWorker.addEventListener('message', this.onWorkerMessage);
+    this.forceWorker.addEventListener('error', this.onWorkerError);
+    return this.forceWorker;
+  }
+
+  private onWorkerMessage = (event: MessageEvent<ForceWorkerResponse>) => {
+    const job = this.workerJob;
+    const { jobId, type, tick, totalTicks, positions } = event.data;
+    if (!job || jobId !== job.id) return;
+
+    job.nodes.forEach((node, i) => {
+      // Pinned nodes (including one being dragged) stay where they are
+      if (node.fx !== undefined && node.fy !== undefined) return;
+      node.x = positions[2 * i];
+      node.y = positions[2 * i + 1];
+    });
+
+    const progress: SimulationProgress = { tick, totalTicks };
+    this.config.eventHandlers?.onSimulationProgress?.(progress);
+    this.dispatch('simulation-progress', { progress });
+
+    if (type === 'done') {
+      this.workerJob = null;
+      this.packForceComponents();
+      // Keep the final layout in place; the main thread never simulates it
+      pinAllNodes(this.data.nodes);
+      this.handleEngineStop();
+    }
+    this.triggerRender();
+  };
+
+  private onWorkerError = (event: ErrorEvent) => {
+    console.error('[FalkorDBCanvas] Force simulation worker failed:', event.message);
+    event.preventDefault();
+    this.forceWorker?.terminate();
+    this.forceWorker = null;
+    this.forceWorkerFailed = true;
+
+    // Redo the interrupted warmup on the main thread
+    const job = this.workerJob;
+    this.workerJob = null;
+    if (job) this.runForceWarmup(job.freeNodeIds);
+  };
+
+  /** Stop the running worker warmup; nodes keep the positions streamed so far. */
+  private cancelWorkerSimulation() {
+    if (!this.workerJob) return;
+    this.log('Cancelling worker job', this.workerJob.id);
+    const request: ForceWorkerRequest = { type: 'cancel', jobId: this.workerJob.id };
+    this.forceWorker?.postMessage(request);
+    this.workerJob = null;
+  }
+
   /**
    * Recompute the world-space culling bounds from force-graph's `onZoom` callback.
    *
@@ -1270,10 +3637,31 @@ class FalkorDBCanvas extends HTMLElement {
   private isNodeInCullingBounds(node: GraphNode): boolean {
     if (!this.cullingBounds) return true;
     const { minX, maxX, minY, maxY } = this.cullingBounds;
-    const r = node.size + PADDING;
+    const { halfWidth, halfHeight } = getNodeShapeExtent(this.getNodeShape(node), node.size + PADDING);
     const x = node.x ?? 0;
     const y = node.y ?? 0;
-    return x + r >= minX && x - r <= maxX && y + r >= minY && y - r <= maxY;
+    return x + halfWidth >= minX && x - halfWidth <= maxX && y + halfHeight >= minY && y - halfHeight <= maxY;
+  }
+
+  /** Resolve a node's outline: `node.shape`, then style rules, then `nodeStyle.labelShapes`, then `nodeStyle.shape`. */
+  private getNodeShape(node: GraphNode): NodeShape {
+    if (node.shape) return node.shape;
+    if (node.style?.shape) return node.style.shape;
+    const { labelShapes } = this.config.nodeStyle;
+    for (const label of node.labels) {
+      const shape = labelShapes[label];
+      if (shape) return shape;
+    }
+    return this.config.nodeStyle.shape;
+  }
+
+  /**
+   * Distance from a self-loop's node centre to the outer edge of its border at
+   * bezier parameter t. B(t) - centre points along (t, -(1-t)) scaled by d.
+   */
+  private selfLoopBorderRadius(node: GraphNode, d: number, t: number): number {
+    const nodeStrokeWidth = this.isSelectedNode(node) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected;
+    return getNodeShapeBoundaryDistance(this.getNodeShape(node), node.size, t * d, -(1 - t) * d) + nodeStrokeWidth + this.edgeGap;
   }
 
   /**
@@ -1305,6 +3693,21 @@ class FalkorDBCanvas extends HTMLElement {
       );
     }
 
+    // Routed links stay within the hull of their end nodes and bends
+    if (link.route?.length) {
+      let lMinX = Math.min(sx, ex);
+      let lMaxX = Math.max(sx, ex);
+      let lMinY = Math.min(sy, ey);
+      let lMaxY = Math.max(sy, ey);
+      for (const bend of link.route) {
+        lMinX = Math.min(lMinX, bend.x);
+        lMaxX = Math.max(lMaxX, bend.x);
+        lMinY = Math.min(lMinY, bend.y);
+        lMaxY = Math.max(lMaxY, bend.y);
+      }
+      return lMaxX >= minX && lMinX <= maxX && lMaxY >= minY && lMinY <= maxY;
+    }
+
     // Compute quadratic-bezier control point (same formula as drawLink).
     const dx = ex - sx;
     const dy = ey - sy;
@@ -1340,16 +3743,17 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.largeGraph?.enabled && !this.isNodeInCullingBounds(node)) return;
 
     // Focus mode dimming: reduce opacity for nodes outside the focused set.
-    const isDimmed = this.config.dimmed === true && (this.config.isNodeDimmed?.(node) ?? false);
+    const isDimmed = this.isNodeDimmed(node);
     if (isDimmed) {
       ctx.save();
       ctx.globalAlpha = this.config.dimOpacity ?? 0.15;
     }
 
-    ctx.lineWidth = this.config.isNodeSelected?.(node) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected;
-    ctx.strokeStyle = node.borderColor ?? this.config.foregroundColor;
-    ctx.fillStyle = node.color;
+    ctx.lineWidth = this.isSelectedNode(node) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected;
+    ctx.strokeStyle = this.getNodeBorderColor(node);
+    ctx.fillStyle = this.getNodeColor(node);
 
+    const shape = this.getNodeShape(node);
     const radius = node.size + ctx.lineWidth / 2;
 
     // Draw glow after expand/collapse state change
@@ -1368,8 +3772,7 @@ class FalkorDBCanvas extends HTMLElement {
         const alpha = glowMaxOpacity * (1 - t) * (1 - t);
         ctx.strokeStyle = `rgba(${gr}, ${gg}, ${gb}, ${alpha})`;
         ctx.lineWidth = glowRadius / steps;
-        ctx.beginPath();
-        ctx.arc(node.x!, node.y!, radius + spread, 0, 2 * Math.PI, false);
+        traceNodeShape(ctx, shape, node.x!, node.y!, radius + spread);
         ctx.stroke();
       }
       ctx.restore();
@@ -1378,13 +3781,38 @@ class FalkorDBCanvas extends HTMLElement {
       }, glowDuration - expandAge);
     }
 
-    ctx.beginPath();
-    ctx.arc(node.x!, node.y!, radius, 0, 2 * Math.PI, false);
-    ctx.stroke();
+    if (!this.glFrame?.nodes.has(node)) {
+      traceNodeShape(ctx, shape, node.x!, node.y!, radius);
+      ctx.stroke();
 
-    ctx.beginPath();
-    ctx.arc(node.x, node.y, node.size, 0, 2 * Math.PI, false);
-    ctx.fill();
+      traceNodeShape(ctx, shape, node.x, node.y, node.size);
+      ctx.fill();
+    } else {
+      // The WebGL layer already drew the disc and its border underneath. Clear the
+      // link labels, self-loops and dashed links drawn over it in 2D, as the disc
+      // covers them with the 2D renderer.
+      ctx.save();
+      ctx.globalCompositeOperation = 'destination-out';
+      traceNodeShape(ctx, shape, node.x, node.y, radius + ctx.lineWidth / 2);
+      ctx.fill();
+      ctx.restore();
+    }
+
+    if (node.id === this.focusedNodeId && this.matches(":focus")) {
+      ctx.save();
+      ctx.strokeStyle = this.config.nodeStyle.focusRingColor;
+      ctx.lineWidth = this.config.nodeStyle.strokeWidthSelected;
+      traceNodeShape(ctx, shape, node.x, node.y, radius + ctx.lineWidth + PADDING);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    const icon = this.getNodeIcon(node);
+    if (node.image) {
+      this.drawNodeImage(node, node.image, shape, ctx);
+    } else if (icon) {
+      this.drawNodeIcon(node, icon, shape, ctx);
+    }
 
     // Low-zoom optimisation: skip labels when zoomed out beyond threshold.
     // lowZoomThreshold is the zoom level below which details are hidden (e.g. 0.5 = skip at half zoom).
@@ -1397,23 +3825,34 @@ class FalkorDBCanvas extends HTMLElement {
       return;
     }
 
+    // The interior is taken by the image/icon, so the caption goes underneath
+    if (node.image || icon) {
+      this.drawNodeCaptionBelow(node, shape, ctx);
+      if (isDimmed) ctx.restore();
+      return;
+    }
+
     // Draw text
-    ctx.fillStyle = getContrastTextColor(node.color, this.config.interaction.contrastThreshold);
+    ctx.fillStyle = getContrastTextColor(this.getNodeColor(node), this.config.interaction.contrastThreshold);
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
 
     let [line1, line2] = node.displayName;
     const textRadius = node.size - PADDING / 2;
+    // Non-circular shapes fit text into an axis-aligned box inside the outline
+    const textBox = getNodeShapeTextBox(shape, textRadius);
 
     if (!line1 && !line2) {
-      const text = getNodeDisplayText(node, this.config.captionsKeys, this.config.showPropertyKeyPrefix);
+      const text = getNodeDisplayText(node, this.getNodeCaptionsKeys(node), this.config.showPropertyKeyPrefix);
 
-      const nodeFontWeight = this.config.isNodeSelected?.(node) ? this.config.nodeStyle.fontWeightSelected : this.config.nodeStyle.fontWeightUnselected;
+      const nodeFontWeight = this.isSelectedNode(node) ? this.config.nodeStyle.fontWeightSelected : this.config.nodeStyle.fontWeightUnselected;
       const baseFontSize = this.config.nodeStyle.fontSize;
 
       // Measure at the base size for line-wrapping decisions.
       ctx.font = `${nodeFontWeight} ${baseFontSize}px ${this.config.nodeStyle.fontFamily}`;
-      [line1, line2] = wrapTextForCircularNode(ctx, text, textRadius);
+      [line1, line2] = textBox
+        ? wrapTextToWidth(ctx, text, textBox.halfWidth * 2)
+        : wrapTextForCircularNode(ctx, text, textRadius);
 
       let chosenSize = baseFontSize;
 
@@ -1432,7 +3871,14 @@ class FalkorDBCanvas extends HTMLElement {
         // Inscribed-rectangle-in-circle constraint: every corner of the text
         // bounding box must lie inside the circle.
         const r = this.config.nodeStyle.textFillRatio * textRadius;
-        if (refWidth > 0 && refHeight > 0) {
+        if (textBox) {
+          // Box constraint: width and height must both fit the shape's text box.
+          const fillRatio = this.config.nodeStyle.textFillRatio;
+          const widthScale = refWidth > 0 ? (2 * fillRatio * textBox.halfWidth) / refWidth : Infinity;
+          const heightScale = refHeight > 0 ? (2 * fillRatio * textBox.halfHeight) / refHeight : Infinity;
+          const scale = Math.min(widthScale, heightScale);
+          if (Number.isFinite(scale)) chosenSize = REF * scale;
+        } else if (refWidth > 0 && refHeight > 0) {
           const diagonal = Math.sqrt(refWidth * refWidth + refHeight * refHeight);
           chosenSize = REF * (2 * r / diagonal);
         } else if (refWidth > 0) {
@@ -1446,7 +3892,7 @@ class FalkorDBCanvas extends HTMLElement {
       this.nodeDisplayFontSize.set(node.id, chosenSize);
     } else {
       // Cache hit: the font size was stored when displayName was first computed.
-      const nodeFontWeight = this.config.isNodeSelected?.(node) ? this.config.nodeStyle.fontWeightSelected : this.config.nodeStyle.fontWeightUnselected;
+      const nodeFontWeight = this.isSelectedNode(node) ? this.config.nodeStyle.fontWeightSelected : this.config.nodeStyle.fontWeightUnselected;
       const chosenSize = this.nodeDisplayFontSize.get(node.id) ?? this.config.nodeStyle.fontSize;
       ctx.font = `${nodeFontWeight} ${chosenSize}px ${this.config.nodeStyle.fontFamily}`;
     }
@@ -1476,6 +3922,223 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
+  /**
+   * Create or remove the WebGL layer. It sits underneath force-graph's canvas,
+   * which turns transparent so the layer shows through; `drawNode` clears the
+   * 2D canvas over each WebGL disc so nodes still cover the 2D links.
+   * @param enabled - Whether `renderer` is 'webgl'
+   */
+  private setWebGLEnabled(enabled: boolean) {
+    if (enabled === (this.glRenderer !== null)) return;
+
+    if (enabled) {
+      if (!this.container) return;
+      const canvas = document.createElement("canvas");
+      canvas.className = "webgl-layer";
+      this.glRenderer = WebGLGraphRenderer.create(canvas);
+      if (!this.glRenderer) {
+        this.log('WebGL2 is unavailable; using the 2D renderer');
+        return;
+      }
+      this.container.prepend(canvas);
+    } else {
+      this.glRenderer!.canvas.remove();
+      this.glRenderer!.dispose();
+      this.glRenderer = null;
+    }
+
+    this.graph?.backgroundColor(this.getGraphBackgroundColor());
+    this.triggerRender();
+  }
+
+  /** With the WebGL layer, the background is cleared there instead. */
+  private getGraphBackgroundColor(): string {
+    return this.glRenderer ? 'rgba(0, 0, 0, 0)' : this.config.backgroundColor;
+  }
+
+  /**
+   * Whether the WebGL layer can draw a node exactly like `drawNode` would:
+   * a plain circle without image, icon or glow, and no custom renderer.
+   */
+  private isWebGLNode(node: GraphNode): boolean {
+    if (this.config.node || node.image || this.getNodeIcon(node)) return false;
+    if (this.getNodeShape(node) !== 'circle') return false;
+    const [, expandTime] = node.expand;
+    return Date.now() - expandTime.getTime() >= this.config.nodeStyle.glowDuration;
+  }
+
+  /**
+   * Draw the frame's circular nodes, links and arrowheads on the WebGL layer,
+   * with the same styles, culling and low-zoom rules as the 2D renderer.
+   * Runs from force-graph's `onRenderFramePre`, before the 2D callbacks.
+   * @param ctx - force-graph's context, already transformed to world coordinates
+   */
+  private renderWebGLFrame(ctx: CanvasRenderingContext2D) {
+    this.glFrame = null;
+    const renderer = this.glRenderer;
+    if (!renderer || !this.graph) return;
+
+    // Share the 2D canvas's device pixels so both layers line up
+    const { width, height } = ctx.canvas;
+    const pixelRatio = width / (this.graph.width() || width);
+    renderer.setSize(width, height, pixelRatio);
+
+    const { batch } = renderer;
+    batch.clear();
+    const frame = { nodes: new Set<GraphNode>(), links: new Set<GraphLink>() };
+    const { linkStyle, nodeStyle, largeGraph } = this.config;
+    const cull = largeGraph.enabled;
+    const skipArrows = cull && largeGraph.skipArrowsAtLowZoom && this.cullingZoom <= largeGraph.lowZoomThreshold;
+    const dimOpacity = this.config.dimOpacity ?? 0.15;
+
+    if (!this.config.link) {
+      for (const link of this.data.links) {
+        // Self-loops and dashed links stay on the 2D canvas
+        if (!this.isLinkDrawn(link) || link.source.id === link.target.id) continue;
+        if (this.getLinkDash(link).length) continue;
+        if (cull && !this.isLinkInCullingBounds(link)) continue;
+
+        const curve = this.getLinkCurve(link);
+        if (!curve) continue;
+        frame.links.add(link);
+
+        const selected = this.isSelectedLink(link);
+        const alpha = this.isLinkDimmed(link) ? dimOpacity : 1;
+        const lineWidth = this.getLinkLineWidth(link, selected);
+        const color = this.getLinkColor(link);
+        for (const [x0, y0, cx, cy, x1, y1] of curve.segments) {
+          batch.addCurve(x0, y0, cx, cy, x1, y1, lineWidth, color, alpha);
+        }
+
+        if (!skipArrows && curve.arrowDirection) {
+          const arrowLen = this.getLinkArrowLength(link, selected);
+          const { x, y } = curve.arrowDirection;
+          batch.addArrow(curve.tipX, curve.tipY, x, y, arrowLen, arrowLen / linkStyle.arrowWidthRatio / 2, color, alpha);
+        }
+      }
+    }
+
+    for (const node of this.data.nodes) {
+      if (!node.visible || !this.isWebGLNode(node)) continue;
+      if (cull && !this.isNodeInCullingBounds(node)) continue;
+
+      const strokeWidth = this.isSelectedNode(node) ? nodeStyle.strokeWidthSelected : nodeStyle.strokeWidthUnselected;
+      const alpha = this.isNodeDimmed(node) ? dimOpacity : 1;
+      batch.addDisc(node.x ?? 0, node.y ?? 0, node.size, strokeWidth, this.getNodeColor(node), this.getNodeBorderColor(node), alpha);
+      frame.nodes.add(node);
+    }
+
+    renderer.render({
+      transform: ctx.getTransform(),
+      pixelRatio,
+      background: this.config.backgroundColor,
+      arrowNotchRatio: linkStyle.arrowNotchRatio,
+    });
+    this.glFrame = frame;
+  }
+
+  /** Resolve a node's icon: `node.icon`, then the first label in `nodeStyle.labelIcons`. */
+  private getNodeIcon(node: GraphNode): NodeIcon | undefined {
+    if (node.icon) return node.icon;
+    const { labelIcons } = this.config.nodeStyle;
+    for (const label of node.labels) {
+      const icon = labelIcons[label];
+      if (icon) return icon;
+    }
+    return undefined;
+  }
+
+  /** Draw `node.image` covering the node, clipped to its shape. */
+  private drawNodeImage(node: GraphNode, src: string, shape: NodeShape, ctx: CanvasRenderingContext2D) {
+    const { image, status } = this.imageCache.get(src);
+    if (status === 'loading') {
+      this.drawImagePlaceholder(node, shape, node.size * 0.6, ctx);
+      return;
+    }
+    if (status === 'error') return;
+
+    // Scale to cover the shape's bounding box, preserving aspect ratio
+    const { halfWidth, halfHeight } = getNodeShapeExtent(shape, node.size);
+    const imageWidth = image.naturalWidth || 2 * halfWidth;
+    const imageHeight = image.naturalHeight || 2 * halfHeight;
+    const scale = Math.max((2 * halfWidth) / imageWidth, (2 * halfHeight) / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+
+    ctx.save();
+    traceNodeShape(ctx, shape, node.x!, node.y!, node.size);
+    ctx.clip();
+    ctx.drawImage(image, node.x! - width / 2, node.y! - height / 2, width, height);
+    ctx.restore();
+  }
+
+  /** Draw an image or icon-font glyph centred inside the node. */
+  private drawNodeIcon(node: GraphNode, icon: NodeIcon, shape: NodeShape, ctx: CanvasRenderingContext2D) {
+    // Largest square inside the node, scaled by iconScale
+    const textBox = getNodeShapeTextBox(shape, node.size);
+    const innerHalf = textBox ? Math.min(textBox.halfWidth, textBox.halfHeight) : node.size / Math.SQRT2;
+    const half = innerHalf * this.config.nodeStyle.iconScale;
+
+    if (typeof icon === 'string') {
+      const { image, status } = this.imageCache.get(icon);
+      if (status === 'loading') {
+        this.drawImagePlaceholder(node, 'square', half, ctx);
+        return;
+      }
+      if (status === 'error') return;
+
+      // Scale to fit inside the icon box, preserving aspect ratio
+      const imageWidth = image.naturalWidth || 1;
+      const imageHeight = image.naturalHeight || 1;
+      const scale = (2 * half) / Math.max(imageWidth, imageHeight);
+      const width = imageWidth * scale;
+      const height = imageHeight * scale;
+      ctx.drawImage(image, node.x! - width / 2, node.y! - height / 2, width, height);
+      return;
+    }
+
+    ctx.fillStyle = icon.color ?? getContrastTextColor(this.getNodeColor(node), this.config.interaction.contrastThreshold);
+    ctx.font = `${icon.fontWeight ?? 400} ${2 * half}px ${icon.fontFamily}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(icon.glyph, node.x!, node.y!);
+  }
+
+  /** Translucent stand-in drawn while a node image or icon is loading. */
+  private drawImagePlaceholder(node: GraphNode, shape: NodeShape, radius: number, ctx: CanvasRenderingContext2D) {
+    ctx.save();
+    ctx.globalAlpha *= 0.25;
+    ctx.fillStyle = getContrastTextColor(this.getNodeColor(node), this.config.interaction.contrastThreshold);
+    traceNodeShape(ctx, shape, node.x!, node.y!, radius);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  /** Caption for nodes showing an image or icon: up to two lines under the node, at the base font size. */
+  private drawNodeCaptionBelow(node: GraphNode, shape: NodeShape, ctx: CanvasRenderingContext2D) {
+    const nodeFontWeight = this.isSelectedNode(node) ? this.config.nodeStyle.fontWeightSelected : this.config.nodeStyle.fontWeightUnselected;
+    const fontSize = this.config.nodeStyle.fontSize;
+    ctx.font = `${nodeFontWeight} ${fontSize}px ${this.config.nodeStyle.fontFamily}`;
+
+    let [line1, line2] = node.displayName;
+    if (!line1 && !line2) {
+      const text = getNodeDisplayText(node, this.getNodeCaptionsKeys(node), this.config.showPropertyKeyPrefix);
+      [line1, line2] = wrapTextToWidth(ctx, text, node.size * 4);
+      node.displayName = [line1, line2];
+      this.nodeDisplayFontSize.set(node.id, fontSize);
+    }
+
+    const { halfHeight } = getNodeShapeExtent(shape, node.size);
+    const top = node.y! + halfHeight + PADDING;
+    ctx.fillStyle = this.config.foregroundColor;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText(line1, node.x!, top);
+    if (line2) {
+      ctx.fillText(line2, node.x!, top + fontSize * 1.2);
+    }
+  }
+
   private pointerNode(node: GraphNode, color: string, ctx: CanvasRenderingContext2D) {
     if (node.x === undefined || node.y === undefined) {
       node.x = 0;
@@ -1488,8 +4151,7 @@ class FalkorDBCanvas extends HTMLElement {
     const radius = node.size + PADDING;
 
     ctx.fillStyle = color;
-    ctx.beginPath();
-    ctx.arc(node.x, node.y, radius, 0, 2 * Math.PI, false);
+    traceNodeShape(ctx, this.getNodeShape(node), node.x, node.y, radius);
     ctx.fill();
   }
 
@@ -1510,7 +4172,7 @@ class FalkorDBCanvas extends HTMLElement {
     if (this.config.largeGraph?.enabled && !this.isLinkInCullingBounds(link)) return;
 
     // Focus mode dimming: reduce opacity for links outside the focused set.
-    const isLinkDimmed = this.config.dimmed === true && (this.config.isLinkDimmed?.(link) ?? false);
+    const isLinkDimmed = this.isLinkDimmed(link);
     if (isLinkDimmed) {
       ctx.save();
       ctx.globalAlpha = this.config.dimOpacity ?? 0.15;
@@ -1520,8 +4182,8 @@ class FalkorDBCanvas extends HTMLElement {
     let textY;
     let angle;
 
-    const isLinkSelected = this.config.isLinkSelected?.(link) ?? false;
-    const arrowLen = isLinkSelected ? this.config.linkStyle.arrowLengthSelected : this.config.linkStyle.arrowLengthUnselected;
+    const isLinkSelected = this.isSelectedLink(link);
+    const arrowLen = this.getLinkArrowLength(link, isLinkSelected);
 
     // Low-zoom flags – evaluated once per link draw.
     // lowZoomThreshold is the zoom level below which details are hidden (e.g. 0.5 = skip at half zoom).
@@ -1539,13 +4201,13 @@ class FalkorDBCanvas extends HTMLElement {
       const nodeSize = start.size;
       const d = (link.curve || 0) * nodeSize * this.config.linkStyle.selfLoopCurveFactor;
 
-      ctx.lineWidth = (isLinkSelected ? this.config.linkStyle.lineWidthSelected : this.config.linkStyle.lineWidthUnselected) / globalScale;
-      if (this.config.linkLineDash) ctx.setLineDash(this.config.linkLineDash(link));
+      ctx.lineWidth = this.getLinkLineWidth(link, isLinkSelected) / globalScale;
+      ctx.setLineDash(this.getLinkDash(link));
 
       // The visible outer edge of the node border is nodeSize + strokeWidth
       // (stroke is centered on nodeSize + strokeWidth/2, so outer edge = nodeSize + strokeWidth).
-      const nodeStrokeWidth = this.config.isNodeSelected?.(start) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected;
-      const borderRadius = nodeSize + nodeStrokeWidth + this.edgeGap;
+      // For non-circular shapes nodeSize is the outline distance in the curve's direction,
+      // so borderRadius varies with t (see selfLoopBorderRadius).
 
       // Binary search for tArrow near 1.0 where the curve is at distance borderRadius
       // from the node center (i.e. on the outer edge of the node border stroke).
@@ -1557,13 +4219,13 @@ class FalkorDBCanvas extends HTMLElement {
       // Max reachable distance in [0.5, 1.0] is ≈ 0.53 * |d| (at t = 0.5).
       // If |d| is too small to reach borderRadius, skip the arrowhead entirely.
       const maxReachableDist = 3 * 0.5 * 0.5 * absD * Math.sqrt(0.5);
-      const canReachBorder = absD > 0 && maxReachableDist >= borderRadius;
+      const canReachBorder = absD > 0 && maxReachableDist >= this.selfLoopBorderRadius(start, d, 0.5);
       if (canReachBorder) {
         for (let i = 0; i < 20; i++) {
           const mid = (lo + hi) / 2;
           const um = 1 - mid;
           const dist = 3 * um * mid * absD * Math.sqrt(mid * mid + um * um);
-          if (dist > borderRadius) lo = mid;
+          if (dist > this.selfLoopBorderRadius(start, d, mid)) lo = mid;
           else hi = mid;
         }
       }
@@ -1572,7 +4234,7 @@ class FalkorDBCanvas extends HTMLElement {
       const tipX = start.x + 3 * uArrow * tArrow * tArrow * d;
       const tipY = start.y - 3 * uArrow * uArrow * tArrow * d;
 
-      ctx.strokeStyle = link.color;
+      ctx.strokeStyle = this.getLinkColor(link);
       ctx.beginPath();
       ctx.moveTo(start.x, start.y);
       if (canReachBorder) {
@@ -1621,106 +4283,33 @@ class FalkorDBCanvas extends HTMLElement {
       if (angle > Math.PI / 2) angle = -(Math.PI - angle);
       if (angle < -Math.PI / 2) angle = -(-Math.PI - angle);
     } else {
-      const dx = end.x - start.x;
-      const dy = end.y - start.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
+      const curve = this.getLinkCurve(link);
 
       // Guard: skip drawing when source and target are co-located (e.g. during
-      // simulation start-up). perpX/perpY would be NaN and propagate through
-      // all downstream bezier and arrowhead calculations.
-      if (distance === 0) {
+      // simulation start-up), where the curve has no direction.
+      if (!curve) {
         if (isLinkDimmed) ctx.restore();
         return;
       }
+      ({ textX, textY, angle } = curve);
 
-      const perpX = dy / distance;
-      const perpY = -dx / distance;
-
-      const curvature = link.curve || 0;
-      const controlX =
-        (start.x + end.x) / 2 + perpX * curvature * distance * 1.0;
-      const controlY =
-        (start.y + end.y) / 2 + perpY * curvature * distance * 1.0;
-
-      const t = 0.5;
-      const oneMinusT = 1 - t;
-      textX =
-        oneMinusT * oneMinusT * start.x +
-        2 * oneMinusT * t * controlX +
-        t * t * end.x;
-      textY =
-        oneMinusT * oneMinusT * start.y +
-        2 * oneMinusT * t * controlY +
-        t * t * end.y;
-
-      const tangentX =
-        2 * oneMinusT * (controlX - start.x) + 2 * t * (end.x - controlX);
-      const tangentY =
-        2 * oneMinusT * (controlY - start.y) + 2 * t * (end.y - controlY);
-      angle = Math.atan2(tangentY, tangentX);
-
-      if (angle > Math.PI / 2) angle = -(Math.PI - angle);
-      if (angle < -Math.PI / 2) angle = -(-Math.PI - angle);
-
-      // Draw regular link line and arrowhead
-      const arrowHalfWidth = arrowLen / this.config.linkStyle.arrowWidthRatio / 2;
-
-      // Target-side clip: place edge tip at borderRadius from node center
-      // along the bezier tangent direction. Near t=1 the bezier is linear,
-      // so t offset = borderRadius / (2 * |control - end|).
-      const endNodeSize = end.size;
-      const borderRadius = endNodeSize + (this.config.isNodeSelected?.(end) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected) + this.edgeGap;
-
-      const ceX = controlX - end.x;
-      const ceY = controlY - end.y;
-      const ctrlEndDist = Math.sqrt(ceX * ceX + ceY * ceY);
-      const tArrow = Math.max(0.5, 1 - borderRadius / (2 * ctrlEndDist));
-      const uArrow = 1 - tArrow;
-
-      const tipX = uArrow * uArrow * start.x + 2 * uArrow * tArrow * controlX + tArrow * tArrow * end.x;
-      const tipY = uArrow * uArrow * start.y + 2 * uArrow * tArrow * controlY + tArrow * tArrow * end.y;
-
-      // Source-side clip: place edge start at srcBorderRadius from node center
-      const startNodeSize = start.size;
-      const srcBorderRadius = startNodeSize + (this.config.isNodeSelected?.(start) ? 1 : 0.5) + this.edgeGap;
-
-      const csX = controlX - start.x;
-      const csY = controlY - start.y;
-      const ctrlStartDist = Math.sqrt(csX * csX + csY * csY);
-      const tStart = Math.min(0.5, srcBorderRadius / (2 * ctrlStartDist));
-
-      // Gap start point: Q(tStart)
-      const uS = 1 - tStart;
-      const gapStartX = uS * uS * start.x + 2 * uS * tStart * controlX + tStart * tStart * end.x;
-      const gapStartY = uS * uS * start.y + 2 * uS * tStart * controlY + tStart * tStart * end.y;
-
-      // Sub-bezier [tStart, tArrow] control point via De Casteljau:
-      //   Right sub-bezier at tStart → NewP1 = lerp(control, end, tStart)
-      //   Left sub-curve at tArrow' = (tArrow-tStart)/(1-tStart) → ctrl = lerp(gapStart, NewP1, tArrow')
-      const tArrowPrime = tStart < tArrow ? (tArrow - tStart) / (1 - tStart) : 0;
-      const newP1X = (1 - tStart) * controlX + tStart * end.x;
-      const newP1Y = (1 - tStart) * controlY + tStart * end.y;
-      const subCtrlX = (1 - tArrowPrime) * gapStartX + tArrowPrime * newP1X;
-      const subCtrlY = (1 - tArrowPrime) * gapStartY + tArrowPrime * newP1Y;
+      // The WebGL layer already drew the line and arrowhead; only the label is left
+      if (!this.glFrame?.links.has(link)) {
+        const arrowHalfWidth = arrowLen / this.config.linkStyle.arrowWidthRatio / 2;
 
-      ctx.strokeStyle = link.color;
-      ctx.lineWidth = (isLinkSelected ? this.config.linkStyle.lineWidthSelected : this.config.linkStyle.lineWidthUnselected) / globalScale;
+        ctx.strokeStyle = this.getLinkColor(link);
+        ctx.lineWidth = this.getLinkLineWidth(link, isLinkSelected) / globalScale;
 
-      ctx.setLineDash(this.config.linkLineDash?.(link) ?? []);
-      ctx.beginPath();
-      ctx.moveTo(gapStartX, gapStartY);
-      ctx.quadraticCurveTo(subCtrlX, subCtrlY, tipX, tipY);
-      ctx.stroke();
-      ctx.setLineDash([]);
-
-      const atx = 2 * uArrow * (controlX - start.x) + 2 * tArrow * (end.x - controlX);
-      const aty = 2 * uArrow * (controlY - start.y) + 2 * tArrow * (end.y - controlY);
-      const atLen = Math.sqrt(atx * atx + aty * aty);
+        ctx.setLineDash(this.getLinkDash(link));
+        ctx.beginPath();
+        this.traceLinkCurve(ctx, curve);
+        ctx.stroke();
+        ctx.setLineDash([]);
 
-      if (!skipArrows && atLen !== 0) {
-        const nx = atx / atLen;
-        const ny = aty / atLen;
-        pendingArrow = { tipX, tipY, nx, ny, arrowLen, arrowHalfWidth };
+        if (!skipArrows && curve.arrowDirection) {
+          const { x: nx, y: ny } = curve.arrowDirection;
+          pendingArrow = { tipX: curve.tipX, tipY: curve.tipY, nx, ny, arrowLen, arrowHalfWidth };
+        }
       }
     }
 
@@ -1728,12 +4317,14 @@ class FalkorDBCanvas extends HTMLElement {
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
 
+    let labelWidth = 0;
     if (!skipLinkLabels) {
-      const cacheKey = `${link.relationship}_${isLinkSelected ? "700" : "400"}`;
+      const label = this.getLinkLabel(link);
+      const cacheKey = `${label}_${isLinkSelected ? "700" : "400"}`;
       let cached = this.relationshipsTextCache.get(cacheKey);
 
       if (!cached) {
-        const metrics = ctx.measureText(link.relationship);
+        const metrics = ctx.measureText(label);
         const bgPadding = this.config.linkStyle.labelBackgroundPadding;
 
         cached = {
@@ -1744,6 +4335,7 @@ class FalkorDBCanvas extends HTMLElement {
       }
 
       const { textWidth, textHeight } = cached;
+      labelWidth = textWidth;
 
       ctx.save();
       ctx.translate(textX, textY);
@@ -1758,14 +4350,18 @@ class FalkorDBCanvas extends HTMLElement {
       );
 
       ctx.fillStyle = getContrastTextColor(this.config.backgroundColor, this.config.interaction.contrastThreshold);
-      ctx.fillText(link.relationship, 0, 0);
+      ctx.fillText(label, 0, 0);
       ctx.restore();
     }
 
+    if (link.aggregate) {
+      this.drawAggregateBadge(link, ctx, textX, textY, angle, labelWidth / 2);
+    }
+
     // Draw arrowhead last so it always appears on top of the label background.
     if (pendingArrow) {
       const { tipX, tipY, nx, ny, arrowLen: aLen, arrowHalfWidth: aHW } = pendingArrow;
-      ctx.fillStyle = link.color;
+      ctx.fillStyle = this.getLinkColor(link);
       ctx.beginPath();
       ctx.moveTo(tipX, tipY);
       ctx.lineTo(tipX - nx * aLen + ny * aHW, tipY - ny * aLen - nx * aHW);
@@ -1780,6 +4376,173 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
+  /**
+   * Quadratic curve of a link between two distinct nodes, clipped so it starts
+   * and ends just outside the node borders, plus its arrowhead and label placement.
+   * Links with a `route` follow their bends instead.
+   * @returns null when both nodes are at the same position
+   */
+  private getLinkCurve(link: GraphLink): LinkCurve | null {
+    if (link.route?.length) return this.getRoutedLinkCurve(link, link.route);
+
+    const start = link.source;
+    const end = link.target;
+    const sx = start.x ?? 0;
+    const sy = start.y ?? 0;
+    const ex = end.x ?? 0;
+    const ey = end.y ?? 0;
+
+    const dx = ex - sx;
+    const dy = ey - sy;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance === 0) return null;
+
+    const perpX = dy / distance;
+    const perpY = -dx / distance;
+
+    const curvature = link.curve || 0;
+    const controlX = (sx + ex) / 2 + perpX * curvature * distance * 1.0;
+    const controlY = (sy + ey) / 2 + perpY * curvature * distance * 1.0;
+
+    const t = 0.5;
+    const oneMinusT = 1 - t;
+    const textX = oneMinusT * oneMinusT * sx + 2 * oneMinusT * t * controlX + t * t * ex;
+    const textY = oneMinusT * oneMinusT * sy + 2 * oneMinusT * t * controlY + t * t * ey;
+
+    const tangentX = 2 * oneMinusT * (controlX - sx) + 2 * t * (ex - controlX);
+    const tangentY = 2 * oneMinusT * (controlY - sy) + 2 * t * (ey - controlY);
+    let angle = Math.atan2(tangentY, tangentX);
+
+    if (angle > Math.PI / 2) angle = -(Math.PI - angle);
+    if (angle < -Math.PI / 2) angle = -(-Math.PI - angle);
+
+    // Target-side clip: place edge tip at borderRadius from node center
+    // along the bezier tangent direction. Near t=1 the bezier is linear,
+    // so t offset = borderRadius / (2 * |control - end|).
+    // Non-circular shapes: measure the outline along the tangent near t=1,
+    // which points from the end node towards the control point.
+    const ceX = controlX - ex;
+    const ceY = controlY - ey;
+    const endNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(end), end.size, ceX, ceY);
+    const borderRadius = endNodeSize + (this.isSelectedNode(end) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected) + this.edgeGap;
+
+    const ctrlEndDist = Math.sqrt(ceX * ceX + ceY * ceY);
+    const tArrow = Math.max(0.5, 1 - borderRadius / (2 * ctrlEndDist));
+    const uArrow = 1 - tArrow;
+
+    const tipX = uArrow * uArrow * sx + 2 * uArrow * tArrow * controlX + tArrow * tArrow * ex;
+    const tipY = uArrow * uArrow * sy + 2 * uArrow * tArrow * controlY + tArrow * tArrow * ey;
+
+    // Source-side clip: place edge start at srcBorderRadius from node center
+    const csX = controlX - sx;
+    const csY = controlY - sy;
+    const startNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(start), start.size, csX, csY);
+    const srcBorderRadius = startNodeSize + (this.isSelectedNode(start) ? 1 : 0.5) + this.edgeGap;
+
+    const ctrlStartDist = Math.sqrt(csX * csX + csY * csY);
+    const tStart = Math.min(0.5, srcBorderRadius / (2 * ctrlStartDist));
+
+    // Gap start point: Q(tStart)
+    const uS = 1 - tStart;
+    const gapStartX = uS * uS * sx + 2 * uS * tStart * controlX + tStart * tStart * ex;
+    const gapStartY = uS * uS * sy + 2 * uS * tStart * controlY + tStart * tStart * ey;
+
+    // Sub-bezier [tStart, tArrow] control point via De Casteljau:
+    //   Right sub-bezier at tStart → NewP1 = lerp(control, end, tStart)
+    //   Left sub-curve at tArrow' = (tArrow-tStart)/(1-tStart) → ctrl = lerp(gapStart, NewP1, tArrow')
+    const tArrowPrime = tStart < tArrow ? (tArrow - tStart) / (1 - tStart) : 0;
+    const newP1X = (1 - tStart) * controlX + tStart * ex;
+    const newP1Y = (1 - tStart) * controlY + tStart * ey;
+    const subCtrlX = (1 - tArrowPrime) * gapStartX + tArrowPrime * newP1X;
+    const subCtrlY = (1 - tArrowPrime) * gapStartY + tArrowPrime * newP1Y;
+
+    const atx = 2 * uArrow * (controlX - sx) + 2 * tArrow * (ex - controlX);
+    const aty = 2 * uArrow * (controlY - sy) + 2 * tArrow * (ey - controlY);
+    const atLen = Math.sqrt(atx * atx + aty * aty);
+
+    return {
+      segments: [[gapStartX, gapStartY, subCtrlX, subCtrlY, tipX, tipY]],
+      tipX,
+      tipY,
+      arrowDirection: atLen !== 0 ? { x: atx / atLen, y: aty / atLen } : null,
+      textX,
+      textY,
+      angle,
+    };
+  }
+
+  /**
+   * Curve of a link routed through bend points (see `GraphLink.route`): a smooth
+   * chain of quadratic segments with one bend as the control point of each,
+   * clipped at both node borders like a regular link.
+   * @returns null when an end node sits on its nearest bend
+   */
+  private getRoutedLinkCurve(link: GraphLink, route: { x: number; y: number }[]): LinkCurve | null {
+    const start = link.source;
+    const end = link.target;
+    const sx = start.x ?? 0;
+    const sy = start.y ?? 0;
+    const ex = end.x ?? 0;
+    const ey = end.y ?? 0;
+
+    const first = route[0];
+    const last = route[route.length - 1];
+    const outX = first.x - sx;
+    const outY = first.y - sy;
+    const outLen = Math.sqrt(outX * outX + outY * outY);
+    const inX = ex - last.x;
+    const inY = ey - last.y;
+    const inLen = Math.sqrt(inX * inX + inY * inY);
+    if (outLen === 0 || inLen === 0) return null;
+
+    // Same border gaps as getLinkCurve, capped so the clip never passes a bend
+    const startNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(start), start.size, outX, outY);
+    const srcBorderRadius = Math.min(outLen / 2, startNodeSize + (this.isSelectedNode(start) ? 1 : 0.5) + this.edgeGap);
+    const endNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(end), end.size, -inX, -inY);
+    const borderRadius = Math.min(inLen / 2, endNodeSize + (this.isSelectedNode(end) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected) + this.edgeGap);
+
+    const tipX = ex - (inX / inLen) * borderRadius;
+    const tipY = ey - (inY / inLen) * borderRadius;
+
+    // Each segment runs between the midpoints around its bend
+    const segments: QuadraticSegment[] = [];
+    let x0 = sx + (outX / outLen) * srcBorderRadius;
+    let y0 = sy + (outY / outLen) * srcBorderRadius;
+    route.forEach((bend, i) => {
+      const next = route[i + 1];
+      const x1 = next ? (bend.x + next.x) / 2 : tipX;
+      const y1 = next ? (bend.y + next.y) / 2 : tipY;
+      segments.push([x0, y0, bend.x, bend.y, x1, y1]);
+      x0 = x1;
+      y0 = y1;
+    });
+
+    // Label at the middle of the middle segment
+    const [mx0, my0, mcx, mcy, mx1, my1] = segments[Math.floor(segments.length / 2)];
+    let angle = Math.atan2(my1 - my0, mx1 - mx0);
+    if (angle > Math.PI / 2) angle = -(Math.PI - angle);
+    if (angle < -Math.PI / 2) angle = -(-Math.PI - angle);
+
+    return {
+      segments,
+      tipX,
+      tipY,
+      arrowDirection: { x: inX / inLen, y: inY / inLen },
+      textX: 0.25 * mx0 + 0.5 * mcx + 0.25 * mx1,
+      textY: 0.25 * my0 + 0.5 * mcy + 0.25 * my1,
+      angle,
+    };
+  }
+
+  /** Add a link curve's segments to the current path. */
+  private traceLinkCurve(ctx: CanvasRenderingContext2D, curve: LinkCurve) {
+    const [[startX, startY]] = curve.segments;
+    ctx.moveTo(startX, startY);
+    for (const [, , cx, cy, x1, y1] of curve.segments) {
+      ctx.quadraticCurveTo(cx, cy, x1, y1);
+    }
+  }
+
   private pointerLink(link: GraphLink, color: string, ctx: CanvasRenderingContext2D) {
     const start = link.source;
     const end = link.target;
@@ -1807,11 +4570,9 @@ class FalkorDBCanvas extends HTMLElement {
       const nodeSize = start.size;
       const d = (link.curve || 0) * nodeSize * this.config.linkStyle.selfLoopCurveFactor;
 
-      const nodeStrokeWidth = this.config.isNodeSelected?.(start) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected;
-      const borderRadius = nodeSize + nodeStrokeWidth + this.edgeGap;
       const absD = Math.abs(d);
       const maxReachableDist = 3 * 0.5 * 0.5 * absD * Math.sqrt(0.5);
-      const canReachBorder = absD > 0 && maxReachableDist >= borderRadius;
+      const canReachBorder = absD > 0 && maxReachableDist >= this.selfLoopBorderRadius(start, d, 0.5);
 
       ctx.moveTo(start.x, start.y);
       if (canReachBorder) {
@@ -1820,7 +4581,7 @@ class FalkorDBCanvas extends HTMLElement {
           const mid = (lo + hi) / 2;
           const um = 1 - mid;
           const dist = 3 * um * mid * absD * Math.sqrt(mid * mid + um * um);
-          if (dist > borderRadius) lo = mid;
+          if (dist > this.selfLoopBorderRadius(start, d, mid)) lo = mid;
           else hi = mid;
         }
         const tArrow = (lo + hi) / 2;
@@ -1838,6 +4599,10 @@ class FalkorDBCanvas extends HTMLElement {
       } else {
         ctx.bezierCurveTo(start.x, start.y - d, start.x + d, start.y, start.x, start.y);
       }
+    } else if (link.route?.length) {
+      // Routed link: follow the same bends as drawLink
+      const curve = this.getLinkCurve(link);
+      if (curve) this.traceLinkCurve(ctx, curve);
     } else {
       // Regular link: replicate exact quadratic bezier clip from drawLink
       const dx = end.x - start.x;
@@ -1855,11 +4620,11 @@ class FalkorDBCanvas extends HTMLElement {
         const controlY = (start.y + end.y) / 2 + perpY * curvature * distance;
 
         // Target-side clip: constant gap from node center along tangent direction
-        const endNodeSize = end.size;
-        const borderRadius = endNodeSize + (this.config.isNodeSelected?.(end) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected) + this.edgeGap;
-
         const ceX = controlX - end.x;
         const ceY = controlY - end.y;
+        const endNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(end), end.size, ceX, ceY);
+        const borderRadius = endNodeSize + (this.isSelectedNode(end) ? this.config.nodeStyle.strokeWidthSelected : this.config.nodeStyle.strokeWidthUnselected) + this.edgeGap;
+
         const ctrlEndDist = Math.sqrt(ceX * ceX + ceY * ceY);
         const tArrow = Math.max(0.5, 1 - borderRadius / (2 * ctrlEndDist));
         const uArrow = 1 - tArrow;
@@ -1867,11 +4632,11 @@ class FalkorDBCanvas extends HTMLElement {
         const tipY = uArrow * uArrow * start.y + 2 * uArrow * tArrow * controlY + tArrow * tArrow * end.y;
 
         // Source-side clip: constant gap from node center along tangent direction
-        const startNodeSize = start.size;
-        const srcBorderRadius = startNodeSize + (this.config.isNodeSelected?.(start) ? 1 : 0.5) + this.edgeGap;
-
         const csX = controlX - start.x;
         const csY = controlY - start.y;
+        const startNodeSize = getNodeShapeBoundaryDistance(this.getNodeShape(start), start.size, csX, csY);
+        const srcBorderRadius = startNodeSize + (this.isSelectedNode(start) ? 1 : 0.5) + this.edgeGap;
+
         const ctrlStartDist = Math.sqrt(csX * csX + csY * csY);
         const tStart = Math.min(0.5, srcBorderRadius / (2 * ctrlStartDist));
 
@@ -1894,10 +4659,13 @@ class FalkorDBCanvas extends HTMLElement {
   }
 
   private handleEngineStop() {
-    if (!this.graph) return;
+    // force-graph stops at once during a worker warmup; the worker reports the real end
+    if (!this.graph || this.workerJob) return;
     this.log('Engine stopped');
+    this.packForceComponents();
     this.updateCanvasSimulationAttribute(false);
     this.config.eventHandlers?.onEngineStop?.();
+    this.dispatch('engine-stop', {});
   }
 
   private updateEventHandlers() {
@@ -1909,81 +4677,66 @@ class FalkorDBCanvas extends HTMLElement {
 
     this.graph
       .onNodeClick((node: GraphNode, event: MouseEvent) => {
-        this.config.eventHandlers?.onNodeClick?.(node, event);
-        this.triggerRender();
+        this.handleNodeClick(node, event);
       })
       .onLinkClick((link: GraphLink, event: MouseEvent) => {
-        this.config.eventHandlers?.onLinkClick?.(link, event);
+        this.selectOnClick('link', link.id, event);
+        const links = this.getUnderlyingLinks(link);
+        this.config.eventHandlers?.onLinkClick?.(link, event, links);
+        this.dispatch('link-click', { link, event, links });
         this.triggerRender();
       })
       .onNodeRightClick((node: GraphNode, event: MouseEvent) => {
         this.config.eventHandlers?.onNodeRightClick?.(node, event);
+        this.dispatch('node-right-click', { node, event });
         this.triggerRender();
       })
       .onLinkRightClick((link: GraphLink, event: MouseEvent) => {
-        this.config.eventHandlers?.onLinkRightClick?.(link, event);
+        const links = this.getUnderlyingLinks(link);
+        this.config.eventHandlers?.onLinkRightClick?.(link, event, links);
+        this.dispatch('link-right-click', { link, event, links });
         this.triggerRender();
       })
+      .onNodeDrag((node: GraphNode, translate: {x: number, y: number}) => {
+        this.dragSelectedNodes(node, translate);
+      })
       .onNodeDragEnd((node: GraphNode, translate: {x: number, y: number}) => {
-        if (this.config.pinOnDragEnd && node.fx !== undefined && node.fy !== undefined) {
-          // Node is pinned — snap back to original position
-          node.x = (node.x ?? 0) - translate.x;
-          node.y = (node.y ?? 0) - translate.y;
-          node.fx = node.x;
-          node.fy = node.y;
-          node.vx = 0;
-          node.vy = 0;
-        } else if (this.config.pinOnDragEnd) {
-          // Pin mode but node wasn't pinned yet — pin at drop position
-          node.fx = node.x;
-          node.fy = node.y;
-        }
-        this.config.eventHandlers?.onNodeDragEnd?.(node);
+        this.settleDraggedNode(node, translate, node.fx !== undefined && node.fy !== undefined);
+        const nodes = [node, ...this.settleGroupDrag(node, translate)];
+        this.config.eventHandlers?.onNodeDragEnd?.(node, nodes);
+        this.dispatch('node-drag-end', { node, nodes });
       })
       .onNodeHover((node: GraphNode | null) => {
+        this.hoveredNode = node;
         this.config.eventHandlers?.onNodeHover?.(node);
+        this.dispatch('node-hover', { node });
       })
       .onLinkHover((link: GraphLink | null) => {
-        this.config.eventHandlers?.onLinkHover?.(link);
+        this.hoveredLink = link;
+        const links = this.getUnderlyingLinks(link);
+        this.config.eventHandlers?.onLinkHover?.(link, links);
+        this.dispatch('link-hover', { link, links });
       })
       .onBackgroundClick((event: MouseEvent) => {
+        if (this.config.selection.enabled && !isModifierPressed(event, this.config.selection.multiSelectModifier)) {
+          this.selection.clear();
+        }
         this.config.eventHandlers?.onBackgroundClick?.(event);
+        this.dispatch('background-click', { event });
         this.triggerRender();
       })
       .onBackgroundRightClick((event: MouseEvent) => {
         this.config.eventHandlers?.onBackgroundRightClick?.(event);
+        this.dispatch('background-right-click', { event });
       })
       .onZoom((transform: Transform) => {
         this.updateCullingBounds(transform);
         this.config.eventHandlers?.onZoom?.(transform);
+        this.dispatch('zoom', { transform });
       })
-      .onEngineStop(() => {
-        this.handleEngineStop();
-        this.config.eventHandlers?.onEngineStop?.();
-      })
-      .nodeCanvasObject((node: GraphNode, ctx: CanvasRenderingContext2D) => {
-        if (this.config.node) {
-          this.config.node.nodeCanvasObject(node, ctx);
-          // Schedule re-render if the node has an active glow (expand/collapse animation)
-          const [, expandTime] = node.expand;
-          const expandAge = Date.now() - expandTime.getTime();
-          const glowDuration = this.config.nodeStyle.glowDuration;
-          if (expandAge < glowDuration) {
-            setTimeout(() => {
-              this.triggerRender();
-            }, Math.min(100, glowDuration - expandAge));
-          }
-        } else {
-          this.drawNode(node, ctx);
-        }
-      })
-      .linkCanvasObject((link: GraphLink, ctx: CanvasRenderingContext2D, globalScale: number) => {
-        if (this.config.link) {
-          this.config.link.linkCanvasObject(link, ctx, globalScale);
-        } else {
-          this.drawLink(link, ctx, globalScale);
-        }
-      });
+      .onEngineStop(() => this.handleEngineStop())
+      .nodeCanvasObject((node: GraphNode, ctx: CanvasRenderingContext2D) => this.paintNode(node, ctx))
+      .linkCanvasObject((link: GraphLink, ctx: CanvasRenderingContext2D, globalScale: number) => this.paintLink(link, ctx, globalScale));
 
     if (this.config.node) {
       this.graph.nodePointerAreaPaint((node: GraphNode, color: string, ctx: CanvasRenderingContext2D) => {
@@ -2006,6 +4759,156 @@ class FalkorDBCanvas extends HTMLElement {
     }
   }
 
+  /**
+   * Move the other selected nodes along with a dragged selected node. They are
+   * fixed while dragging so the simulation does not pull them back.
+   */
+  private dragSelectedNodes(node: GraphNode, translate: { x: number; y: number }) {
+    if (this.groupDrag?.node !== node) {
+      const companions: GroupDrag['companions'] = new Map();
+      if (this.isSelectedNode(node)) {
+        for (const other of this.data.nodes) {
+          if (other === node || !other.visible || !this.isSelectedNode(other)) continue;
+          companions.set(other, { x: other.x ?? 0, y: other.y ?? 0, fx: other.fx, fy: other.fy });
+        }
+      }
+      // force-graph already moved the node within its click tolerance without
+      // reporting it, and translate is only the step since the previous move
+      const start = this.pressedNode?.node === node
+        ? this.pressedNode
+        : { x: (node.x ?? 0) - translate.x, y: (node.y ?? 0) - translate.y };
+      this.groupDrag = { node, startX: start.x, startY: start.y, companions };
+    }
+
+    const { startX, startY, companions } = this.groupDrag;
+    const dx = (node.x ?? 0) - startX;
+    const dy = (node.y ?? 0) - startY;
+    for (const [other, start] of companions) {
+      other.x = other.fx = start.x + dx;
+      other.y = other.fy = start.y + dy;
+    }
+  }
+
+  /** Remember where a pressed node starts, before a drag moves it. Capture phase runs ahead of force-graph. */
+  private onNodePointerDown = () => {
+    const node = this.hoveredNode;
+    this.pressedNode = node ? { node, x: node.x ?? 0, y: node.y ?? 0 } : null;
+  };
+
+  /**
+   * Apply `pinOnDragEnd` to a node at the end of a drag: nodes that were
+   * already pinned return to where they started, the others are pinned where dropped.
+   * @param translate - Total drag displacement
+   * @param wasPinned - Whether the node was pinned before the drag
+   */
+  private settleDraggedNode(node: GraphNode, translate: { x: number; y: number }, wasPinned: boolean) {
+    if (this.config.pinOnDragEnd && wasPinned) {
+      // Node is pinned — snap back to original position
+      node.x = (node.x ?? 0) - translate.x;
+      node.y = (node.y ?? 0) - translate.y;
+      node.fx = node.x;
+      node.fy = node.y;
+      node.vx = 0;
+      node.vy = 0;
+    } else if (this.config.pinOnDragEnd) {
+      // Pin mode but node wasn't pinned yet — pin at drop position
+      node.fx = node.x;
+      node.fy = node.y;
+    }
+  }
+
+  /**
+   * Drop the nodes that followed `node` at its final displacement and settle
+   * them like the dragged node. Returns the nodes that moved with it.
+   */
+  private settleGroupDrag(node: GraphNode, translate: { x: number; y: number }): GraphNode[] {
+    const groupDrag = this.groupDrag;
+    this.groupDrag = null;
+    this.pressedNode = null;
+    if (groupDrag?.node !== node) return [];
+
+    for (const [other, start] of groupDrag.companions) {
+      const wasPinned = start.fx !== undefined && start.fy !== undefined;
+      other.x = start.x + translate.x;
+      other.y = start.y + translate.y;
+      // Like force-graph does for the dragged node: keep pinned nodes pinned, release the rest
+      other.fx = wasPinned ? other.x : undefined;
+      other.fy = wasPinned ? other.y : undefined;
+      other.vx = 0;
+      other.vy = 0;
+      this.settleDraggedNode(other, translate, wasPinned);
+    }
+    return [...groupDrag.companions.keys()];
+  }
+
+  /** Node click or keyboard activation. */
+  private handleNodeClick(node: GraphNode, event: MouseEvent) {
+    // Arrow keys continue from the last clicked node
+    this.focusedNodeId = node.id;
+    this.selectOnClick('node', node.id, event);
+    this.config.eventHandlers?.onNodeClick?.(node, event);
+    this.dispatch('node-click', { node, event });
+    this.triggerRender();
+  }
+
+  /** Paint a node with the custom renderer if configured, otherwise the built-in one. */
+  private paintNode(node: GraphNode, ctx: CanvasRenderingContext2D) {
+    if (this.config.node) {
+      this.config.node.nodeCanvasObject(node, ctx);
+      // Schedule re-render if the node has an active glow (expand/collapse animation)
+      const [, expandTime] = node.expand;
+      const expandAge = Date.now() - expandTime.getTime();
+      const glowDuration = this.config.nodeStyle.glowDuration;
+      if (expandAge < glowDuration) {
+        setTimeout(() => {
+          this.triggerRender();
+        }, Math.min(100, glowDuration - expandAge));
+      }
+    } else {
+      this.drawNode(node, ctx);
+    }
+  }
+
+  /**
+   * Draw the count of an aggregated link in a pill of the link's color,
+   * `offset` world units along the link from its label position.
+   */
+  private drawAggregateBadge(link: GraphLink, ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, offset: number) {
+    const { fontSize, fontWeightSelected, fontFamily, labelBackgroundPadding } = this.config.linkStyle;
+    const count = String(link.aggregate!.length);
+    const color = this.getLinkColor(link);
+
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.font = `${fontWeightSelected} ${fontSize}px ${fontFamily}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    const radius = fontSize / 2 + labelBackgroundPadding;
+    const halfWidth = Math.max(radius, ctx.measureText(count).width / 2 + labelBackgroundPadding);
+    const centerX = offset + halfWidth;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(centerX - halfWidth + radius, 0, radius, Math.PI / 2, Math.PI * 1.5);
+    ctx.arc(centerX + halfWidth - radius, 0, radius, -Math.PI / 2, Math.PI / 2);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.fillStyle = getContrastTextColor(color, this.config.interaction.contrastThreshold);
+    ctx.fillText(count, centerX, 0);
+    ctx.restore();
+  }
+
+  /** Paint a link with the custom renderer if configured, otherwise the built-in one. */
+  private paintLink(link: GraphLink, ctx: CanvasRenderingContext2D, globalScale: number) {
+    if (this.config.link) {
+      this.config.link.linkCanvasObject(link, ctx, globalScale);
+    } else {
+      this.drawLink(link, ctx, globalScale);
+    }
+  }
+
   private updateTooltipStyles() {
     if (!this.shadowRoot) return;
 
@@ -0,0 +1,280 @@
+import * as d3 from "d3";
+
+/** Gains below this are treated as ties, so nodes only move for a real improvement */
+const MIN_MODULARITY_GAIN = 1e-12;
+
+/** Local-moving passes per Louvain level before aggregating anyway */
+const MAX_PASSES = 32;
+
+/** Share of the overlap between two communities resolved per tick at alpha 1 */
+const SEPARATION_STRENGTH = 0.5;
+
+/**
+ * Louvain community detection on an undirected graph. Link direction is
+ * ignored and parallel links add up to a heavier edge.
+ *
+ * Each level moves nodes one at a time to the neighboring community with the
+ * best modularity gain until nothing moves, then merges every community into a
+ * single node and repeats on the smaller graph.
+ *
+ * @param nodeCount - Number of nodes, identified by index
+ * @param links - Interleaved source, target node indices per link
+ * @param resolution - Higher values favor more, smaller communities. Default: 1
+ * @returns Community index per node, ordered by size (0 = largest); ties keep node order
+ */
+export function detectCommunities(nodeCount: number, links: ArrayLike<number>, resolution = 1): Int32Array {
+  // Membership of each original node in the current level's nodes
+  const membership = Int32Array.from({ length: nodeCount }, (_, i) => i);
+
+  let levelSize = nodeCount;
+  let sources: number[] = [];
+  let targets: number[] = [];
+  let weights: number[] = [];
+  for (let i = 0; i + 1 < links.length; i += 2) {
+    sources.push(links[i]);
+    targets.push(links[i + 1]);
+    weights.push(1);
+  }
+
+  for (;;) {
+    const community = moveNodes(levelSize, sources, targets, weights, resolution);
+    if (!community) break;
+
+    // Renumber the surviving communities 0..n-1 and aggregate them into nodes
+    const renumber = new Map<number, number>();
+    for (const c of community) {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    }
+    for (let i = 0; i < nodeCount; i++) membership[i] = renumber.get(community[membership[i]])!;
+
+    const merged = new Map<string, number>();
+    for (let e = 0; e < sources.length; e++) {
+      const a = renumber.get(community[sources[e]])!;
+      const b = renumber.get(community[targets[e]])!;
+      const key = a <= b ? `${a},${b}` : `${b},${a}`;
+      merged.set(key, (merged.get(key) ?? 0) + weights[e]);
+    }
+    sources = [];
+    targets = [];
+    weights = [];
+    for (const [key, weight] of merged) {
+      const [a, b] = key.split(',').map(Number);
+      sources.push(a);
+      targets.push(b);
+      weights.push(weight);
+    }
+    levelSize = renumber.size;
+  }
+
+  // Order communities by size, largest first
+  const sizes = new Map<number, number>();
+  for (const c of membership) sizes.set(c, (sizes.get(c) ?? 0) + 1);
+  // Stable sort keeps equal-sized communities in order of first appearance
+  const byRank = new Map([...sizes.keys()]
+    .sort((a, b) => sizes.get(b)! - sizes.get(a)!)
+    .map((c, rank) => [c, rank]));
+  return membership.map(c => byRank.get(c)!);
+}
+
+/**
+ * One Louvain level: local moving until no node changes community.
+ * @returns Community per node, or null when no node moved
+ */
+function moveNodes(
+  nodeCount: number,
+  sources: number[],
+  targets: number[],
+  weights: number[],
+  resolution: number
+): Int32Array | null {
+  const neighbors: Map<number, number>[] = Array.from({ length: nodeCount }, () => new Map());
+  const degree = new Float64Array(nodeCount);
+  let totalWeight = 0;
+  for (let e = 0; e < sources.length; e++) {
+    const a = sources[e];
+    const b = targets[e];
+    const w = weights[e];
+    // A self-loop counts twice towards its node's degree
+    degree[a] += w;
+    degree[b] += w;
+    totalWeight += 2 * w;
+    if (a !== b) {
+      neighbors[a].set(b, (neighbors[a].get(b) ?? 0) + w);
+      neighbors[b].set(a, (neighbors[b].get(a) ?? 0) + w);
+    }
+  }
+  if (totalWeight === 0) return null;
+
+  const community = Int32Array.from({ length: nodeCount }, (_, i) => i);
+  // Sum of degrees per community
+  const communityDegree = Float64Array.from(degree);
+  let movedAny = false;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let moved = false;
+    for (let node = 0; node < nodeCount; node++) {
+      const current = community[node];
+      const k = degree[node];
+
+      // Link weight from the node to each neighboring community
+      const linkWeight = new Map<number, number>();
+      for (const [neighbor, w] of neighbors[node]) {
+        const c = community[neighbor];
+        linkWeight.set(c, (linkWeight.get(c) ?? 0) + w);
+      }
+
+      communityDegree[current] -= k;
+      const gain = (c: number) => (linkWeight.get(c) ?? 0) - (resolution * communityDegree[c] * k) / totalWeight;
+      let best = current;
+      let bestGain = gain(current);
+      for (const c of linkWeight.keys()) {
+        const g = gain(c);
+        if (g > bestGain + MIN_MODULARITY_GAIN) {
+          best = c;
+          bestGain = g;
+        }
+      }
+      communityDegree[best] += k;
+
+      if (best !== current) {
+        community[node] = best;
+        moved = true;
+        movedAny = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  return movedAny ? community : null;
+}
+
+/**
+ * Force pulling every node towards the centroid of its community.
+ * @param communityOf - Community index of a node, or -1 to leave it alone
+ * @param strength - Share of the distance to the centroid closed per tick at alpha 1
+ */
+export function forceCommunityAttraction<N extends d3.SimulationNodeDatum>(
+  communityOf: (node: N, index: number) => number,
+  strength: number
+): d3.Force<N, undefined> {
+  let nodes: N[] = [];
+  let membership = new Int32Array(0);
+  let communityCount = 0;
+
+  const force = (alpha: number) => {
+    const { x, y, count } = communityCentroids(nodes, membership, communityCount);
+    nodes.forEach((node, i) => {
+      const c = membership[i];
+      if (c < 0 || count[c] < 2) return;
+      node.vx = (node.vx ?? 0) + (x[c] - (node.x ?? 0)) * strength * alpha;
+      node.vy = (node.vy ?? 0) + (y[c] - (node.y ?? 0)) * strength * alpha;
+    });
+  };
+  force.initialize = (initialNodes: N[]) => {
+    nodes = initialNodes;
+    membership = Int32Array.from(nodes, communityOf);
+    communityCount = membership.reduce((max, c) => Math.max(max, c + 1), 0);
+  };
+  return force;
+}
+
+/**
+ * Force pushing communities apart until their extents (the RMS distance of
+ * their members from the centroid) are at least `separation` apart. Every
+ * member of a community moves together; larger communities move less.
+ * @param communityOf - Community index of a node, or -1 to leave it alone
+ * @param separation - Minimum gap between community extents (world units)
+ */
+export function forceCommunitySeparation<N extends d3.SimulationNodeDatum>(
+  communityOf: (node: N, index: number) => number,
+  separation: number
+): d3.Force<N, undefined> {
+  let nodes: N[] = [];
+  let membership = new Int32Array(0);
+  let communityCount = 0;
+
+  const force = (alpha: number) => {
+    const { x, y, count, radius } = communityCentroids(nodes, membership, communityCount);
+    const ids = d3.range(communityCount).filter(c => count[c] > 0);
+    const maxRadius = ids.reduce((max, c) => Math.max(max, radius[c]), 0);
+    const tree = d3.quadtree<number>().x(c => x[c]).y(c => y[c]).addAll(ids);
+    const shiftX = new Float64Array(communityCount);
+    const shiftY = new Float64Array(communityCount);
+
+    for (const a of ids) {
+      const reach = radius[a] + maxRadius + separation;
+      tree.visit((quad, x0, y0, x1, y1) => {
+        if (!quad.length) {
+          for (let leaf: d3.QuadtreeLeaf<number> | undefined = quad as d3.QuadtreeLeaf<number>; leaf; leaf = leaf.next) {
+            const b = leaf.data;
+            // Each pair once
+            if (b <= a) continue;
+            let dx = x[b] - x[a];
+            let dy = y[b] - y[a];
+            let distance = Math.sqrt(dx * dx + dy * dy);
+            const overlap = radius[a] + radius[b] + separation - distance;
+            if (overlap <= 0) continue;
+            if (distance === 0) {
+              // Coincident centroids: split along a fixed, pair-specific direction
+              dx = Math.cos(a + b);
+              dy = Math.sin(a + b);
+              distance = 1;
+            }
+            const push = (overlap / distance) * SEPARATION_STRENGTH * alpha;
+            const shareA = count[b] / (count[a] + count[b]);
+            shiftX[a] -= dx * push * shareA;
+            shiftY[a] -= dy * push * shareA;
+            shiftX[b] += dx * push * (1 - shareA);
+            shiftY[b] += dy * push * (1 - shareA);
+          }
+        }
+        // Skip quadrants farther than any pair could overlap
+        return x0 > x[a] + reach || x1 < x[a] - reach || y0 > y[a] + reach || y1 < y[a] - reach;
+      });
+    }
+
+    nodes.forEach((node, i) => {
+      const c = membership[i];
+      if (c < 0) return;
+      node.vx = (node.vx ?? 0) + shiftX[c];
+      node.vy = (node.vy ?? 0) + shiftY[c];
+    });
+  };
+  force.initialize = (initialNodes: N[]) => {
+    nodes = initialNodes;
+    membership = Int32Array.from(nodes, communityOf);
+    communityCount = membership.reduce((max, c) => Math.max(max, c + 1), 0);
+  };
+  return force;
+}
+
+/** Centroid, member count and RMS radius of every community */
+function communityCentroids(nodes: d3.SimulationNodeDatum[], membership: Int32Array, communityCount: number) {
+  const x = new Float64Array(communityCount);
+  const y = new Float64Array(communityCount);
+  const count = new Float64Array(communityCount);
+  const radius = new Float64Array(communityCount);
+  nodes.forEach((node, i) => {
+    const c = membership[i];
+    if (c < 0) return;
+    x[c] += node.x ?? 0;
+    y[c] += node.y ?? 0;
+    count[c]++;
+  });
+  for (let c = 0; c < communityCount; c++) {
+    if (count[c] === 0) continue;
+    x[c] /= count[c];
+    y[c] /= count[c];
+  }
+  nodes.forEach((node, i) => {
+    const c = membership[i];
+    if (c < 0) return;
+    const dx = (node.x ?? 0) - x[c];
+    const dy = (node.y ?? 0) - y[c];
+    radius[c] += dx * dx + dy * dy;
+  });
+  for (let c = 0; c < communityCount; c++) {
+    if (count[c] > 0) radius[c] = Math.sqrt(radius[c] / count[c]);
+  }
+  return { x, y, count, radius };
+}
@@ -0,0 +1,126 @@
+import { ElementId, GraphData, GraphNode } from "./canvas-types.js";
+
+/** Default gap between packed components (world-space units) */
+export const DEFAULT_COMPONENT_SPACING = 40;
+
+/**
+ * Splits the graph into its connected components, ignoring link direction.
+ * Nodes and links are shared with the input, so positions computed for a
+ * component land on the original nodes.
+ *
+ * @returns Components ordered by node count, largest first; ties keep input order
+ */
+export function findConnectedComponents(data: GraphData): GraphData[] {
+  const indexById = new Map(data.nodes.map((node, i) => [node.id, i]));
+  const neighbors: number[][] = data.nodes.map(() => []);
+  for (const link of data.links) {
+    const source = indexById.get(getEndId(link.source));
+    const target = indexById.get(getEndId(link.target));
+    if (source === undefined || target === undefined) continue;
+    neighbors[source].push(target);
+    neighbors[target].push(source);
+  }
+
+  const componentOf = new Int32Array(data.nodes.length).fill(-1);
+  const components: GraphData[] = [];
+  data.nodes.forEach((node, start) => {
+    if (componentOf[start] !== -1) return;
+    const component: GraphData = { nodes: [], links: [] };
+    componentOf[start] = components.length;
+    const stack = [start];
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      component.nodes.push(data.nodes[i]);
+      for (const neighbor of neighbors[i]) {
+        if (componentOf[neighbor] !== -1) continue;
+        componentOf[neighbor] = components.length;
+        stack.push(neighbor);
+      }
+    }
+    // Keep input order within the component so layouts stay deterministic
+    component.nodes.sort((a, b) => indexById.get(a.id)! - indexById.get(b.id)!);
+    components.push(component);
+  });
+
+  for (const link of data.links) {
+    const source = indexById.get(getEndId(link.source));
+    if (source !== undefined) components[componentOf[source]].links.push(link);
+  }
+
+  // Stable, so equal-sized components keep their order
+  return components.sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+/**
+ * Moves already laid out components into a compact rectangle centered on the
+ * origin. Components fill rows left to right, tallest first, and a row wraps
+ * once it is about as wide as the square root of the total area.
+ * Pinned positions and link bend points move with their nodes.
+ *
+ * @param components - Components with positioned nodes, e.g. from `findConnectedComponents`
+ * @param spacing - Gap between the bounding boxes of neighboring components
+ */
+export function packComponentLayouts(components: GraphData[], spacing = DEFAULT_COMPONENT_SPACING) {
+  if (components.length <= 1) return;
+
+  const boxes = components.map((component, index) => ({ index, ...getComponentBounds(component.nodes) }));
+  const area = boxes.reduce((sum, box) => sum + (box.width + spacing) * (box.height + spacing), 0);
+  const widest = boxes.reduce((max, box) => Math.max(max, box.width), 0);
+  const rowWidth = Math.max(widest, Math.sqrt(area));
+
+  // Shelf packing: tallest boxes first, so every row is about as high as its first box
+  const order = [...boxes].sort((a, b) => b.height - a.height || a.index - b.index);
+  const offsets: { x: number; y: number }[] = [];
+  let cursorX = 0;
+  let cursorY = 0;
+  let rowHeight = 0;
+  let packedWidth = 0;
+  for (const box of order) {
+    if (cursorX > 0 && cursorX + box.width > rowWidth) {
+      cursorX = 0;
+      cursorY += rowHeight + spacing;
+      rowHeight = 0;
+    }
+    offsets[box.index] = { x: cursorX - box.minX, y: cursorY - box.minY };
+    cursorX += box.width + spacing;
+    rowHeight = Math.max(rowHeight, box.height);
+    packedWidth = Math.max(packedWidth, cursorX - spacing);
+  }
+  const centerX = packedWidth / 2;
+  const centerY = (cursorY + rowHeight) / 2;
+
+  components.forEach((component, i) => {
+    const dx = offsets[i].x - centerX;
+    const dy = offsets[i].y - centerY;
+    for (const node of component.nodes) {
+      node.x = (node.x ?? 0) + dx;
+      node.y = (node.y ?? 0) + dy;
+      if (node.fx !== undefined) node.fx += dx;
+      if (node.fy !== undefined) node.fy += dy;
+    }
+    for (const link of component.links) {
+      if (link.route) link.route = link.route.map(point => ({ x: point.x + dx, y: point.y + dy }));
+    }
+  });
+}
+
+/** Bounding box of the node circles */
+function getComponentBounds(nodes: GraphNode[]) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const node of nodes) {
+    const x = node.x ?? 0;
+    const y = node.y ?? 0;
+    minX = Math.min(minX, x - node.size);
+    minY = Math.min(minY, y - node.size);
+    maxX = Math.max(maxX, x + node.size);
+    maxY = Math.max(maxY, y + node.size);
+  }
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+}
+
+function getEndId(end: GraphNode | ElementId): ElementId {
+  return typeof end === 'object' ? end.id : end;
+}
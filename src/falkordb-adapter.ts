@@ -0,0 +1,394 @@
+import {
+  Data,
+  ElementId,
+  Link,
+  Node,
+} from "./canvas-types.js";
+import { DEFAULT_LABEL_PALETTE } from "./canvas-utils.js";
+
+/**
+ * Value type tags used by FalkorDB's compact result format (`GRAPH.QUERY ... --compact`).
+ * Every compact cell is a `[type, value]` pair.
+ */
+export const FALKORDB_VALUE_TYPE = {
+  UNKNOWN: 0,
+  NULL: 1,
+  STRING: 2,
+  INTEGER: 3,
+  BOOLEAN: 4,
+  DOUBLE: 5,
+  ARRAY: 6,
+  EDGE: 7,
+  NODE: 8,
+  PATH: 9,
+  MAP: 10,
+  POINT: 11,
+  VECTORF32: 12,
+} as const;
+
+/**
+ * Caption keys that fit typical FalkorDB schemas. Pass to `setConfig({ captionsKeys })`
+ * so nodes show a readable name instead of their numeric id.
+ */
+export const FALKORDB_DEFAULT_CAPTIONS_KEYS: [string, boolean][] = [
+  ['name', false],
+  ['title', false],
+  ['label', false],
+];
+
+/**
+ * Label, relationship type and property key names, indexed by the ids that
+ * compact results use. Obtain them with `CALL db.labels()`,
+ * `CALL db.relationshipTypes()` and `CALL db.propertyKeys()`.
+ */
+export interface FalkorDBSchema {
+  labels: string[];
+  relationshipTypes: string[];
+  propertyKeys: string[];
+}
+
+/** Options for converting FalkorDB query results into canvas `Data`. */
+export interface FalkorDBAdapterOptions {
+  /**
+   * Row format. Compact rows (`--compact`) tag every cell with its type; other
+   * rows are client results or verbose rows. Default: 'compact' when `schema`
+   * is given, else 'verbose'
+   */
+  format?: 'verbose' | 'compact';
+  /** Schema names for resolving ids in compact results. Required for compact rows. */
+  schema?: FalkorDBSchema;
+  /**
+   * Label → color assignments. Labels not in the map are given the next palette
+   * color and written back, so sharing one map across calls keeps colors stable
+   * when results are merged (e.g. on expand).
+   */
+  labelColors?: Map<string, string>;
+  /** Palette to assign label colors from. Default: `DEFAULT_LABEL_PALETTE` */
+  palette?: string[];
+  /** Color for nodes without labels. Default: '#A3A3A3' */
+  defaultNodeColor?: string;
+  /** Color for links. Default: '#A3A3A3' */
+  linkColor?: string;
+  /**
+   * Create label-less placeholder nodes for edge endpoints that are not part of
+   * the result (e.g. `MATCH ()-[r]->() RETURN r`). When false, such edges are
+   * dropped. Default: true
+   */
+  includeMissingEndpoints?: boolean;
+}
+
+/**
+ * Rows as returned by FalkorDB clients. Accepts:
+ * - the `falkordb` JS client result (`{ data: [{ column: value }] }`) or its `data` array
+ * - raw verbose rows, where nodes/edges are `[key, value]` pair lists
+ * - raw compact rows (`reply[1]` of a `--compact` query), where every cell is `[type, value]`
+ */
+export type FalkorDBQueryResult = { data?: unknown[] } | unknown[];
+
+type ParsedNode = { id: ElementId; labels: string[]; properties: Record<string, unknown> };
+
+type ParsedEdge = {
+  id: ElementId;
+  relationship: string;
+  source: ElementId;
+  target: ElementId;
+  properties: Record<string, unknown>;
+};
+
+const DEFAULT_ELEMENT_COLOR = '#A3A3A3';
+
+/**
+ * Normalize a FalkorDB id. Integers beyond `Number.MAX_SAFE_INTEGER` (delivered
+ * as bigint or string by some clients) are kept as strings so they stay exact.
+ */
+function toElementId(value: unknown): ElementId {
+  if (typeof value === 'bigint') {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+    const num = Number(value);
+    return Number.isSafeInteger(num) ? num : value;
+  }
+  return value as ElementId;
+}
+
+/**
+ * Decode a compact INTEGER. Values beyond the safe integer range (bigint or
+ * digit strings) are kept exact as strings, like ids.
+ */
+function toInteger(value: unknown): unknown {
+  return typeof value === 'bigint' || typeof value === 'string' ? toElementId(value) : Number(value);
+}
+
+function isCompactCell(value: unknown): value is [number, unknown] {
+  return Array.isArray(value)
+    && value.length === 2
+    && typeof value[0] === 'number'
+    && value[0] >= FALKORDB_VALUE_TYPE.UNKNOWN
+    && value[0] <= FALKORDB_VALUE_TYPE.VECTORF32;
+}
+
+/** A verbose node/edge is a list of `[key, value]` pairs starting with `["id", …]`. */
+function isVerbosePairList(value: unknown): value is [string, unknown][] {
+  return Array.isArray(value)
+    && value.length > 0
+    && Array.isArray(value[0])
+    && value[0].length === 2
+    && value[0][0] === 'id';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schemaName(names: string[] | undefined, index: number, kind: string): string {
+  const name = names?.[index];
+  if (name === undefined) {
+    console.error(`[FalkorDBCanvas] Unknown ${kind} id ${index} in compact result; pass options.schema to resolve it.`);
+    return String(index);
+  }
+  return name;
+}
+
+/** Decode a compact `[type, value]` scalar (or nested array/map) into a JS value. */
+function decodeCompactValue(type: number, value: unknown, schema?: FalkorDBSchema): unknown {
+  switch (type) {
+    case FALKORDB_VALUE_TYPE.NULL:
+      return null;
+    case FALKORDB_VALUE_TYPE.STRING:
+      return value;
+    case FALKORDB_VALUE_TYPE.INTEGER:
+      return toInteger(value);
+    case FALKORDB_VALUE_TYPE.BOOLEAN:
+      return value === true || value === 'true';
+    case FALKORDB_VALUE_TYPE.DOUBLE:
+      return Number(value);
+    case FALKORDB_VALUE_TYPE.ARRAY:
+      if (!Array.isArray(value)) return value;
+      return value.map(item => isCompactCell(item) ? decodeCompactValue(item[0], item[1], schema) : item);
+    case FALKORDB_VALUE_TYPE.MAP: {
+      if (!Array.isArray(value)) return value;
+      // Flat list: key, [type, value], key, [type, value], ...
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < value.length; i += 2) {
+        const item = value[i + 1];
+        map[String(value[i])] = isCompactCell(item) ? decodeCompactValue(item[0], item[1], schema) : item;
+      }
+      return map;
+    }
+    case FALKORDB_VALUE_TYPE.POINT: {
+      const [latitude, longitude] = value as [unknown, unknown];
+      return { latitude: Number(latitude), longitude: Number(longitude) };
+    }
+    case FALKORDB_VALUE_TYPE.VECTORF32:
+      return (value as unknown[]).map(Number);
+    default:
+      return value;
+  }
+}
+
+function decodeCompactProperties(properties: unknown, schema?: FalkorDBSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!Array.isArray(properties)) return result;
+  for (const property of properties) {
+    if (!Array.isArray(property) || property.length !== 3) continue;
+    const [keyId, type, value] = property as [number, number, unknown];
+    result[schemaName(schema?.propertyKeys, keyId, 'property key')] = decodeCompactValue(type, value, schema);
+  }
+  return result;
+}
+
+function decodeVerboseProperties(properties: unknown): Record<string, unknown> {
+  if (Array.isArray(properties)) {
+    return Object.fromEntries(properties as [string, unknown][]);
+  }
+  return isPlainObject(properties) ? { ...properties } : {};
+}
+
+/**
+ * Walks FalkorDB result values and collects the nodes and edges they contain,
+ * de-duplicated by id. `compact` selects the row format for the whole result:
+ * a verbose row such as `[5, node]` would otherwise pass for a compact cell.
+ */
+class ResultCollector {
+  readonly nodes = new Map<ElementId, ParsedNode>();
+
+  readonly edges = new Map<ElementId, ParsedEdge>();
+
+  constructor(private readonly compact: boolean, private readonly schema?: FalkorDBSchema) {}
+
+  visit(value: unknown): void {
+    if (value === null || value === undefined) return;
+
+    if (this.compact) {
+      if (isCompactCell(value)) this.visitCompact(value[0], value[1]);
+      else if (Array.isArray(value)) value.forEach(item => this.visit(item));
+    } else if (isVerbosePairList(value)) {
+      this.visitElement(Object.fromEntries(value), true);
+    } else if (Array.isArray(value)) {
+      value.forEach(item => this.visit(item));
+    } else if (isPlainObject(value)) {
+      this.visitElement(value, false);
+    }
+  }
+
+  /** Collect graph elements from a compact cell; payloads of an unexpected shape are skipped */
+  private visitCompact(type: number, value: unknown): void {
+    if (!Array.isArray(value)) return;
+
+    switch (type) {
+      case FALKORDB_VALUE_TYPE.NODE: {
+        const [id, labelIds, properties] = value as [unknown, unknown, unknown];
+        if (id === undefined || !Array.isArray(labelIds)) break;
+        this.addNode({
+          id: toElementId(id),
+          labels: (labelIds as number[]).map(labelId => schemaName(this.schema?.labels, labelId, 'label')),
+          properties: decodeCompactProperties(properties, this.schema),
+        });
+        break;
+      }
+      case FALKORDB_VALUE_TYPE.EDGE: {
+        const [id, typeId, source, target, properties] = value as [unknown, unknown, unknown, unknown, unknown];
+        if (id === undefined || typeof typeId !== 'number' || source === undefined || target === undefined) break;
+        this.addEdge({
+          id: toElementId(id),
+          relationship: schemaName(this.schema?.relationshipTypes, typeId, 'relationship type'),
+          source: toElementId(source),
+          target: toElementId(target),
+          properties: decodeCompactProperties(properties, this.schema),
+        });
+        break;
+      }
+      case FALKORDB_VALUE_TYPE.PATH:
+      case FALKORDB_VALUE_TYPE.ARRAY:
+        // A path is [[ARRAY, nodes], [ARRAY, edges]]; arrays may nest graph elements
+        value.forEach(item => this.visit(item));
+        break;
+      case FALKORDB_VALUE_TYPE.MAP:
+        for (let i = 1; i < value.length; i += 2) this.visit(value[i]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  /** Classify a client-parsed object or a verbose pair list converted to an object. */
+  private visitElement(element: Record<string, unknown>, verbose: boolean): void {
+    // Path: { nodes: [...], edges: [...] }
+    if (Array.isArray(element.nodes) && Array.isArray(element.edges)) {
+      this.visit(element.nodes);
+      this.visit(element.edges);
+      return;
+    }
+
+    const relationship = element.relationshipType ?? element.type;
+    const source = element.sourceId ?? element.src_node ?? element.srcNodeId;
+    const target = element.destinationId ?? element.dest_node ?? element.destNodeId;
+    if (element.id !== undefined && typeof relationship === 'string' && source !== undefined && target !== undefined) {
+      this.addEdge({
+        id: toElementId(element.id),
+        relationship,
+        source: toElementId(source),
+        target: toElementId(target),
+        properties: verbose ? decodeVerboseProperties(element.properties) : { ...(element.properties as object) },
+      });
+      return;
+    }
+
+    if (element.id !== undefined && Array.isArray(element.labels)) {
+      this.addNode({
+        id: toElementId(element.id),
+        labels: element.labels.map(String),
+        properties: verbose ? decodeVerboseProperties(element.properties) : { ...(element.properties as object) },
+      });
+      return;
+    }
+
+    // A row record ({ column: value }) or a map value — visit its values
+    Object.values(element).forEach(item => this.visit(item));
+  }
+
+  private addNode(node: ParsedNode): void {
+    if (!this.nodes.has(node.id)) this.nodes.set(node.id, node);
+  }
+
+  private addEdge(edge: ParsedEdge): void {
+    if (!this.edges.has(edge.id)) this.edges.set(edge.id, edge);
+  }
+}
+
+/**
+ * Returns the color for a label, assigning the next palette color on first use.
+ * Assignments are stored in `labelColors` so they stay consistent across calls.
+ */
+export function getLabelColor(label: string, labelColors: Map<string, string>, palette = DEFAULT_LABEL_PALETTE): string {
+  let color = labelColors.get(label);
+  if (!color) {
+    color = palette[labelColors.size % palette.length];
+    labelColors.set(label, color);
+  }
+  return color;
+}
+
+/**
+ * Converts FalkorDB query result rows into the `Data` shape expected by
+ * `setData` / `setGraphData`. Nodes, edges and paths are collected from every
+ * cell (including inside lists and maps) and de-duplicated by id across rows.
+ * Scalar columns are ignored.
+ *
+ * @param result - Client result, its `data` rows, or raw verbose/compact rows
+ * @param options - Row format and schema for compact rows, color assignment and placeholder handling
+ * @returns Canvas data with per-label colors
+ *
+ * @example
+ * ```ts
+ * const result = await graph.query('MATCH p=(:Person)-[:KNOWS]->() RETURN p');
+ * canvas.setConfig({ captionsKeys: FALKORDB_DEFAULT_CAPTIONS_KEYS });
+ * canvas.setData(falkorDBResultToData(result, { labelColors }));
+ * ```
+ */
+export function falkorDBResultToData(result: FalkorDBQueryResult, options: FalkorDBAdapterOptions = {}): Data {
+  const rows = Array.isArray(result) ? result : result.data ?? [];
+  const labelColors = options.labelColors ?? new Map<string, string>();
+  const palette = options.palette ?? DEFAULT_LABEL_PALETTE;
+  const defaultNodeColor = options.defaultNodeColor ?? DEFAULT_ELEMENT_COLOR;
+  const linkColor = options.linkColor ?? DEFAULT_ELEMENT_COLOR;
+  const includeMissingEndpoints = options.includeMissingEndpoints ?? true;
+
+  const compact = (options.format ?? (options.schema ? 'compact' : 'verbose')) === 'compact';
+  const collector = new ResultCollector(compact, options.schema);
+  rows.forEach(row => collector.visit(row));
+
+  const nodes: Node[] = [...collector.nodes.values()].map(({ id, labels, properties }) => ({
+    id,
+    labels,
+    color: labels.length > 0 ? getLabelColor(labels[0], labelColors, palette) : defaultNodeColor,
+    visible: true,
+    data: properties,
+  }));
+
+  const links: Link[] = [];
+  for (const { id, relationship, source, target, properties } of collector.edges.values()) {
+    for (const endpoint of [source, target]) {
+      if (collector.nodes.has(endpoint)) continue;
+      if (!includeMissingEndpoints) break;
+      collector.nodes.set(endpoint, { id: endpoint, labels: [], properties: {} });
+      nodes.push({ id: endpoint, labels: [], color: defaultNodeColor, visible: true, data: {} });
+    }
+    if (!collector.nodes.has(source) || !collector.nodes.has(target)) continue;
+
+    links.push({
+      id,
+      relationship,
+      source,
+      target,
+      color: linkColor,
+      visible: true,
+      data: properties,
+    });
+  }
+
+  return { nodes, links };
+}
@@ -0,0 +1,151 @@
+import * as d3 from "d3";
+import { forceCommunityAttraction, forceCommunitySeparation } from "./communities.js";
+
+/** Force parameters derived from the canvas config, shared with the layout worker */
+export interface ForceParams {
+  /** Constant part of the link distance; each link adds both node sizes */
+  linkDistance: number;
+  /** Added to node size for the collision radius; null disables collision */
+  collisionPadding: number | null;
+  /** Strength of the x/y pull towards the origin; null disables it */
+  centerStrength: number | null;
+  chargeStrength: number;
+  chargeDistanceMax: number;
+  velocityDecay: number;
+  /** Pull towards the community center; null disables both community forces */
+  communityStrength: number | null;
+  /** Minimum gap between community extents */
+  communitySeparation: number;
+}
+
+/** Messages from the canvas to the layout worker */
+export type ForceWorkerRequest =
+  | {
+    type: 'start';
+    jobId: number;
+    /** Interleaved x, y per node; NaN lets d3 pick an initial position */
+    positions: Float64Array;
+    /** Interleaved fx, fy per node; NaN for nodes that are free to move */
+    fixed: Float64Array;
+    sizes: Float64Array;
+    /** Interleaved source, target node indices per link */
+    links: Uint32Array;
+    /** Community index per node, -1 for none; needed when `params.communityStrength` is set */
+    communities?: Int32Array;
+    params: ForceParams;
+    ticks: number;
+    /** Ticks between streamed position updates */
+    batchTicks: number;
+  }
+  | { type: 'cancel'; jobId: number };
+
+/** Positions streamed from the layout worker after every batch of ticks */
+export interface ForceWorkerResponse {
+  type: 'progress' | 'done';
+  jobId: number;
+  tick: number;
+  totalTicks: number;
+  /** Interleaved x, y per node, in request order */
+  positions: Float32Array;
+}
+
+type SimulationNode = d3.SimulationNodeDatum & { size: number };
+
+/**
+ * Handles layout worker requests. Runs one job at a time in batches of ticks,
+ * yielding between batches so a newer `start` or a `cancel` can stop it.
+ *
+ * @param post - Sends a response, transferring the listed buffers
+ * @param schedule - Runs the next batch; defaults to a macrotask
+ */
+export function createForceWorkerHandler(
+  post: (response: ForceWorkerResponse, transfer: Transferable[]) => void,
+  schedule: (next: () => void) => void = (next) => setTimeout(next, 0)
+): (request: ForceWorkerRequest) => void {
+  let activeJobId: number | null = null;
+
+  return (request) => {
+    if (request.type === 'cancel') {
+      if (activeJobId === request.jobId) activeJobId = null;
+      return;
+    }
+
+    const { jobId, ticks, batchTicks } = request;
+    activeJobId = jobId;
+    const nodes = createSimulationNodes(request.positions, request.fixed, request.sizes);
+    const simulation = createForceSimulation(nodes, request.links, request.params, request.communities);
+    let tick = 0;
+
+    const runBatch = () => {
+      if (activeJobId !== jobId) return;
+      const batch = Math.min(Math.max(1, batchTicks), ticks - tick);
+      if (batch > 0) simulation.tick(batch);
+      tick += batch;
+
+      const done = tick >= ticks;
+      if (done) activeJobId = null;
+      const positions = readPositions(nodes);
+      post({ type: done ? 'done' : 'progress', jobId, tick, totalTicks: ticks, positions }, [positions.buffer]);
+      if (!done) schedule(runBatch);
+    };
+    runBatch();
+  };
+}
+
+function createSimulationNodes(positions: Float64Array, fixed: Float64Array, sizes: Float64Array): SimulationNode[] {
+  return Array.from(sizes, (size, i) => {
+    const node: SimulationNode = { size };
+    if (!Number.isNaN(positions[2 * i])) node.x = positions[2 * i];
+    if (!Number.isNaN(positions[2 * i + 1])) node.y = positions[2 * i + 1];
+    if (!Number.isNaN(fixed[2 * i])) node.fx = fixed[2 * i];
+    if (!Number.isNaN(fixed[2 * i + 1])) node.fy = fixed[2 * i + 1];
+    return node;
+  });
+}
+
+/**
+ * Builds a stopped d3 simulation with the same forces the canvas sets up on
+ * force-graph: link, charge, center, x/y centering, collision and communities.
+ */
+function createForceSimulation(nodes: SimulationNode[], links: Uint32Array, params: ForceParams, communities?: Int32Array) {
+  const simulationLinks: d3.SimulationLinkDatum<SimulationNode>[] = [];
+  for (let i = 0; i + 1 < links.length; i += 2) {
+    simulationLinks.push({ source: links[i], target: links[i + 1] });
+  }
+
+  const simulation = d3.forceSimulation(nodes)
+    .stop()
+    .velocityDecay(params.velocityDecay)
+    .force('link', d3.forceLink<SimulationNode, d3.SimulationLinkDatum<SimulationNode>>(simulationLinks)
+      .distance((link) => (link.source as SimulationNode).size + (link.target as SimulationNode).size + params.linkDistance * 2))
+    .force('charge', d3.forceManyBody<SimulationNode>()
+      .strength(params.chargeStrength)
+      .distanceMax(params.chargeDistanceMax))
+    .force('center', d3.forceCenter(0, 0));
+
+  if (params.centerStrength !== null) {
+    simulation
+      .force('centerX', d3.forceX<SimulationNode>(0).strength(params.centerStrength))
+      .force('centerY', d3.forceY<SimulationNode>(0).strength(params.centerStrength));
+  }
+  if (params.collisionPadding !== null) {
+    const padding = params.collisionPadding;
+    simulation.force('collide', d3.forceCollide<SimulationNode>((node) => node.size + padding));
+  }
+  if (params.communityStrength !== null && communities) {
+    const communityOf = (_: SimulationNode, i: number) => communities[i];
+    simulation
+      .force('communityAttraction', forceCommunityAttraction(communityOf, params.communityStrength))
+      .force('communitySeparation', forceCommunitySeparation(communityOf, params.communitySeparation));
+  }
+  return simulation;
+}
+
+function readPositions(nodes: SimulationNode[]): Float32Array {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[2 * i] = node.x ?? 0;
+    positions[2 * i + 1] = node.y ?? 0;
+  });
+  return positions;
+}
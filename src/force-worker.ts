@@ -0,0 +1,14 @@
+/**
+ * Entry point of the layout worker started when `simulation.useWorker` is set.
+ * Loaded by the canvas with `new Worker(new URL('./force-worker.js', import.meta.url))`.
+ */
+import { createForceWorkerHandler, type ForceWorkerRequest, type ForceWorkerResponse } from "./force-simulation.js";
+
+// The project compiles against the DOM lib, so describe the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ForceWorkerRequest>) => void) | null;
+  postMessage(message: ForceWorkerResponse, transfer: Transferable[]): void;
+};
+
+const handle = createForceWorkerHandler((response, transfer) => scope.postMessage(response, transfer));
+scope.onmessage = (event) => handle(event.data);
@@ -0,0 +1,119 @@
+import { Data, ElementId, GroupSelector, Link, Node } from "./canvas-types.js";
+import { NODE_SIZE } from "./canvas-utils.js";
+
+/** `data` key holding a meta-node's caption */
+export const GROUP_CAPTION_KEY = 'caption';
+
+/** A collapsed group: the meta-node `id` stands in for the member nodes */
+export interface CollapsedGroup {
+  id: ElementId;
+  memberIds: ElementId[];
+  caption: string;
+}
+
+/** The graph as drawn with groups collapsed, and what it hides */
+export interface CollapsedData {
+  data: Data;
+  /** Members of the collapsed groups */
+  hiddenNodes: Node[];
+  /** Links inside a group or merged into an aggregate link */
+  hiddenLinks: Link[];
+  /** Aggregate link id -> ids of the links it merges */
+  aggregates: Map<ElementId, ElementId[]>;
+}
+
+/** Short name of a selector for default ids and captions, e.g. `Person`, `community 2` or `city=Paris` */
+export function describeGroupSelector(selector: GroupSelector): string {
+  const parts: string[] = [];
+  if (selector.label !== undefined) parts.push(selector.label);
+  if (selector.community !== undefined) parts.push(`community ${selector.community}`);
+  if (selector.property !== undefined) {
+    parts.push('value' in selector ? `${selector.property}=${String(selector.value)}` : selector.property);
+  }
+  return parts.join(' ') || 'all';
+}
+
+/**
+ * Replaces the members of every group with its meta-node. Links inside a
+ * group disappear; links from a member run from the meta-node instead, and
+ * all links between the same two ends (in the same direction) merge into one
+ * aggregate link whose `data.weight` is the number of links it merges.
+ * Links between two ungrouped nodes are kept as they are.
+ *
+ * @param groups - Groups with disjoint members
+ */
+export function collapseGroups(data: Data, groups: CollapsedGroup[]): CollapsedData {
+  const groupOf = new Map<ElementId, ElementId>();
+  for (const group of groups) {
+    for (const id of group.memberIds) groupOf.set(id, group.id);
+  }
+
+  const nodes: Node[] = [];
+  const hiddenNodes: Node[] = [];
+  const membersOf = new Map<ElementId, Node[]>(groups.map(group => [group.id, []]));
+  for (const node of data.nodes) {
+    const groupId = groupOf.get(node.id);
+    if (groupId === undefined) {
+      nodes.push(node);
+    } else {
+      hiddenNodes.push(node);
+      membersOf.get(groupId)!.push(node);
+    }
+  }
+  for (const group of groups) {
+    nodes.push(createGroupNode(group, membersOf.get(group.id)!));
+  }
+
+  const links: Link[] = [];
+  const hiddenLinks: Link[] = [];
+  const merged = new Map<string, { source: ElementId; target: ElementId; links: Link[] }>();
+  for (const link of data.links) {
+    const source = groupOf.get(link.source) ?? link.source;
+    const target = groupOf.get(link.target) ?? link.target;
+    if (source === link.source && target === link.target) {
+      links.push(link);
+      continue;
+    }
+    hiddenLinks.push(link);
+    if (source === target) continue;
+
+    const key = `${String(source)}->${String(target)}`;
+    const aggregate = merged.get(key);
+    if (aggregate) aggregate.links.push(link);
+    else merged.set(key, { source, target, links: [link] });
+  }
+
+  const aggregates = new Map<ElementId, ElementId[]>();
+  for (const [key, { source, target, links: group }] of merged) {
+    const id = `group-link:${key}`;
+    aggregates.set(id, group.map(link => link.id));
+    links.push({
+      id,
+      relationship: [...new Set(group.map(link => link.relationship))].sort().join(', '),
+      source,
+      target,
+      visible: group.some(link => link.visible),
+      data: { weight: group.length },
+    });
+  }
+
+  return { data: { nodes, links }, hiddenNodes, hiddenLinks, aggregates };
+}
+
+/**
+ * The meta-node of a group. It carries the members' labels, and their color
+ * when they share one; its radius grows with the logarithm of the member count.
+ */
+export function createGroupNode(group: CollapsedGroup, members: Node[]): Node {
+  const colors = new Set(members.map(member => member.color));
+  const node: Node = {
+    id: group.id,
+    labels: [...new Set(members.flatMap(member => member.labels))],
+    visible: members.some(member => member.visible),
+    size: NODE_SIZE * (1 + Math.log10(Math.max(1, members.length))),
+    data: { [GROUP_CAPTION_KEY]: group.caption, memberCount: members.length },
+  };
+  const [color] = colors;
+  if (colors.size === 1 && color) node.color = color;
+  return node;
+}
@@ -0,0 +1,72 @@
+/** Loading state of a cached image */
+export type CachedImageStatus = 'loading' | 'loaded' | 'error';
+
+type CacheEntry = {
+  image: HTMLImageElement;
+  status: CachedImageStatus;
+  settled: Promise<void>;
+};
+
+/**
+ * Loads node images/icons once per URL and reports when they settle, so the
+ * canvas can draw a placeholder meanwhile and repaint once they are ready.
+ */
+export class ImageCache {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  /**
+   * @param onSettled - Called after an image finishes loading or fails
+   * @param crossOrigin - CORS mode for remote images; `null` omits the attribute
+   */
+  constructor(
+    private readonly onSettled: (src: string, status: CachedImageStatus) => void,
+    public crossOrigin: 'anonymous' | 'use-credentials' | null = 'anonymous'
+  ) {}
+
+  /**
+   * Returns the cached image and its status, starting the load on first request.
+   * @param src - Image URL (including data: URLs and SVG files)
+   */
+  get(src: string): { image: HTMLImageElement; status: CachedImageStatus } {
+    let entry = this.entries.get(src);
+    if (entry) return entry;
+
+    const image = new Image();
+    let resolveSettled!: () => void;
+    const settled = new Promise<void>((resolve) => { resolveSettled = resolve; });
+    entry = { image, status: 'loading', settled };
+    this.entries.set(src, entry);
+
+    const settle = (status: CachedImageStatus) => {
+      resolveSettled();
+      // Ignore late events for entries dropped by clear()
+      if (this.entries.get(src) !== entry) return;
+      entry!.status = status;
+      if (status === 'error') {
+        console.error(`[FalkorDBCanvas] Failed to load node image ${src}`);
+      }
+      this.onSettled(src, status);
+    };
+    image.onload = () => settle('loaded');
+    image.onerror = () => settle('error');
+
+    // Untainted canvases can still be exported; data: URLs never need CORS
+    if (this.crossOrigin && !src.startsWith('data:')) {
+      image.crossOrigin = this.crossOrigin;
+    }
+    image.src = src;
+
+    return entry;
+  }
+
+  /** Resolves once every image that is currently loading has loaded or failed. */
+  async whenSettled(): Promise<void> {
+    const pending = [...this.entries.values()].filter(entry => entry.status === 'loading');
+    await Promise.all(pending.map(entry => entry.settled));
+  }
+
+  /** Drop all cached images (pending loads are ignored when they settle). */
+  clear() {
+    this.entries.clear();
+  }
+}
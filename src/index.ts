@@ -2,19 +2,44 @@ import FalkorDBCanvas from "./canvas.js";
 import type React from "react";
 import type {
   CanvasRenderMode,
+  GraphRenderer,
+  NodeShape,
+  NodeIcon,
+  NodeIconGlyph,
   LayoutMode,
   LayoutDirection,
   HierarchyDirection,
   RadialDirection,
   LayoutOptions,
   HierarchyLayoutOptions,
+  LayeredLayoutOptions,
   RadialLayoutOptions,
+  GridLayoutOptions,
+  CircleLayoutOptions,
+  ConcentricLayoutOptions,
+  NodeSortKey,
+  ComponentPackingOptions,
   ForceLayoutOptions,
   NodeStyleConfig,
   LinkStyleConfig,
   SimulationConfig,
+  SimulationProgress,
   InteractionConfig,
+  SelectionConfig,
+  SelectionModifier,
   EventHandlers,
+  LayoutTransitionConfig,
+  TransitionEasing,
+  StyleRule,
+  StyleSelector,
+  ElementStyle,
+  ScaleType,
+  ScaleChannel,
+  ScaleMapping,
+  ScalesConfig,
+  ScaleLegend,
+  ScaleLegendEntry,
+  FalkorDBCanvasEventMap,
 } from "./canvas-types.js";
 
 declare global {
@@ -22,12 +47,26 @@ declare global {
     "falkordb-canvas": FalkorDBCanvas;
   }
 
+  // Typed `addEventListener('node-click', e => e.detail.node)` etc.
+  interface HTMLElementEventMap extends FalkorDBCanvasEventMap {}
+
   namespace JSX {
     interface IntrinsicElements {
       "falkordb-canvas": React.DetailedHTMLProps<
         React.HTMLAttributes<FalkorDBCanvas> & {
           'node-mode'?: CanvasRenderMode;
           'link-mode'?: CanvasRenderMode;
+          'width'?: number | string;
+          'height'?: number | string;
+          'background-color'?: string;
+          'foreground-color'?: string;
+          'layout-mode'?: LayoutMode;
+          'animation'?: boolean | 'true' | 'false';
+          'pin-on-drag-end'?: boolean | 'true' | 'false';
+          'captions-keys'?: string;
+          'show-property-key-prefix'?: boolean | 'true' | 'false';
+          'dimmed'?: boolean | 'true' | 'false';
+          'dim-opacity'?: number | string;
         },
         FalkorDBCanvas
       >;
@@ -41,23 +80,50 @@ export { FalkorDBCanvas as default, FalkorDBCanvas };
 // Types
 export type {
   CanvasRenderMode,
+  GraphRenderer,
+  NodeShape,
+  NodeIcon,
+  NodeIconGlyph,
   LayoutMode,
   LayoutDirection,
   HierarchyDirection,
   RadialDirection,
   LayoutOptions,
   HierarchyLayoutOptions,
+  LayeredLayoutOptions,
   RadialLayoutOptions,
+  GridLayoutOptions,
+  CircleLayoutOptions,
+  ConcentricLayoutOptions,
+  NodeSortKey,
+  ComponentPackingOptions,
   ForceLayoutOptions,
   NodeStyleConfig,
   LinkStyleConfig,
   SimulationConfig,
+  SimulationProgress,
   InteractionConfig,
+  SelectionConfig,
+  SelectionModifier,
   EventHandlers,
+  LayoutTransitionConfig,
+  TransitionEasing,
+  StyleRule,
+  StyleSelector,
+  ElementStyle,
+  ScaleType,
+  ScaleChannel,
+  ScaleMapping,
+  ScalesConfig,
+  ScaleLegend,
+  ScaleLegendEntry,
 }
 
 export type {
+  ElementId,
   ForceGraphConfig,
+  FalkorDBCanvasEventMap,
+  FalkorDBCanvasEventDetailMap,
   LargeGraphConfig,
   GraphNode,
   GraphLink,
@@ -66,6 +132,20 @@ export type {
   Link,
   Data,
   ViewportState,
+  GraphSelection,
+  GraphSelectionIds,
+  Community,
+  FindPathOptions,
+  GraphPath,
+  AnalyticsOptions,
+  NodeDegree,
+  GraphStats,
+  NodeMetric,
+  GraphFilter,
+  FilterCounts,
+  GroupSelector,
+  CollapseGroupOptions,
+  ExportImageOptions,
   ForceGraphInstance,
   Transform,
 } from "./canvas-types.js";
@@ -75,14 +155,54 @@ export type { WorldBounds } from "./canvas.js";
 // Utils
 export {
   NODE_SIZE,
+  DEFAULT_LABEL_PALETTE,
   dataToGraphData,
   graphDataToData,
   getContrastTextColor,
   getNodeDisplayText,
   getNodeDisplayKey,
   wrapTextForCircularNode,
+  wrapTextToWidth,
 } from "./canvas-utils.js";
 
+// Analytics
+export {
+  GraphAnalytics,
+  PAGERANK_DAMPING,
+} from "./analytics.js";
+
+// Groups
+export {
+  GROUP_CAPTION_KEY,
+  collapseGroups,
+  createGroupNode,
+  describeGroupSelector,
+} from "./groups.js";
+export type { CollapsedGroup, CollapsedData } from "./groups.js";
+
+// Link aggregation
+export { aggregateParallelLinks } from "./link-aggregation.js";
+
+// Node shapes
+export {
+  NODE_SHAPES,
+  isNodeShape,
+} from "./node-shapes.js";
+
+// FalkorDB adapter
+export {
+  FALKORDB_VALUE_TYPE,
+  FALKORDB_DEFAULT_CAPTIONS_KEYS,
+  falkorDBResultToData,
+  getLabelColor,
+} from "./falkordb-adapter.js";
+
+export type {
+  FalkorDBSchema,
+  FalkorDBAdapterOptions,
+  FalkorDBQueryResult,
+} from "./falkordb-adapter.js";
+
 // Layouts
 export {
   getDagMode,
@@ -0,0 +1,392 @@
+import type { ElementId, GraphData, GraphLink, GraphNode, LayoutOptions } from "./canvas-types.js";
+import { orientHierarchyPoint } from "./layouts.js";
+
+/** A node of the layered graph: a real node, or a dummy where a long link crosses a layer */
+type Vertex = {
+  node: GraphNode | null;
+  layer: number;
+  /** Index within the layer */
+  order: number;
+  radius: number;
+  /** Neighbours in the layer above and below */
+  up: Vertex[];
+  down: Vertex[];
+  /** Breadth coordinate */
+  x: number;
+};
+
+/** Sweeps of coordinate assignment; each pulls a layer towards its neighbours on one side */
+const COORDINATE_PASSES = 8;
+
+function endpointId(end: GraphNode | ElementId): ElementId {
+  return typeof end === 'object' ? end.id : end;
+}
+
+/**
+ * Computes Sugiyama-style layered positions for all nodes:
+ * 1. Cycle removal — links closing a cycle are laid out reversed.
+ * 2. Layering — longest path from the sources, then nodes with more outgoing
+ *    than incoming links move down next to their successors to shorten links.
+ * 3. Dummy vertices — links spanning several layers get one per crossed layer.
+ * 4. Crossing reduction — alternating barycenter sweeps, keeping the best order.
+ * 5. Coordinate assignment — each vertex is pulled towards the mean of its
+ *    neighbours while keeping its order and minimum spacing within the layer.
+ *
+ * Long links are routed through their dummy vertices via `link.route`; all
+ * other routes are cleared.
+ *
+ * @param data - The graph data (nodes + links)
+ * @param options - Layout options (direction, levelDistance, nodeSpacing, crossingSweeps)
+ * @returns true once positions are assigned
+ */
+export function computeLayeredPositions(
+  data: GraphData,
+  options?: LayoutOptions
+): boolean {
+  const { nodes, links } = data;
+  for (const link of links) delete link.route;
+  if (nodes.length === 0) return true;
+
+  const layeredOpts = options?.layered;
+  const direction = layeredOpts?.direction ?? 'td';
+  const crossingSweeps = layeredOpts?.crossingSweeps ?? 24;
+
+  // Same size-aware spacing as the tree layout
+  const maxNodeSize = nodes.reduce((max, n) => Math.max(max, n.size), 0);
+  const minNodeDiameter = maxNodeSize * 2;
+  const nodeSpacing = Math.max(layeredOpts?.nodeSpacing ?? 60, minNodeDiameter + 10);
+  const levelDistance = Math.max(layeredOpts?.levelDistance ?? 80, minNodeDiameter + 10);
+
+  const indexById = new Map<ElementId, number>();
+  nodes.forEach((node, i) => indexById.set(node.id, i));
+
+  // Links between distinct nodes as [source, target] indices; self-loops take no part
+  const edges: { link: GraphLink; source: number; target: number }[] = [];
+  for (const link of links) {
+    const source = indexById.get(endpointId(link.source));
+    const target = indexById.get(endpointId(link.target));
+    if (source === undefined || target === undefined || source === target) continue;
+    edges.push({ link, source, target });
+  }
+
+  const reversed = findCycleEdges(nodes.length, edges);
+  const acyclic = edges.map((edge, i) => (reversed.has(i)
+    ? { link: edge.link, source: edge.target, target: edge.source, reversed: true }
+    : { ...edge, reversed: false }));
+
+  const rank = assignLayers(nodes.length, acyclic);
+
+  // Build vertices and split long links into chains through dummy vertices
+  const vertices: Vertex[] = nodes.map((node, i) => ({
+    node,
+    layer: rank[i],
+    order: 0,
+    radius: node.size,
+    up: [],
+    down: [],
+    x: 0,
+  }));
+  const chains: { link: GraphLink; dummies: Vertex[]; reversed: boolean }[] = [];
+  const allVertices = [...vertices];
+
+  for (const edge of acyclic) {
+    let previous = vertices[edge.source];
+    const dummies: Vertex[] = [];
+    for (let layer = rank[edge.source] + 1; layer < rank[edge.target]; layer++) {
+      const dummy: Vertex = { node: null, layer, order: 0, radius: 0, up: [previous], down: [], x: 0 };
+      previous.down.push(dummy);
+      dummies.push(dummy);
+      allVertices.push(dummy);
+      previous = dummy;
+    }
+    const target = vertices[edge.target];
+    previous.down.push(target);
+    target.up.push(previous);
+    if (dummies.length > 0) chains.push({ link: edge.link, dummies, reversed: edge.reversed });
+  }
+
+  const layers = orderLayers(vertices, allVertices);
+  reduceCrossings(layers, crossingSweeps);
+  assignCoordinates(layers, nodeSpacing);
+
+  // Center the breadth axis around 0
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (const vertex of allVertices) {
+    minX = Math.min(minX, vertex.x);
+    maxX = Math.max(maxX, vertex.x);
+  }
+  const centerOffset = (minX + maxX) / 2;
+  const toWorld = (vertex: Vertex) => orientHierarchyPoint(vertex.layer * levelDistance, vertex.x - centerOffset, direction);
+
+  for (const vertex of vertices) {
+    const node = vertex.node!;
+    const { x, y } = toWorld(vertex);
+    node.x = x;
+    node.y = y;
+    node.fx = x;
+    node.fy = y;
+    node.vx = 0;
+    node.vy = 0;
+  }
+
+  for (const { link, dummies, reversed: isReversed } of chains) {
+    const route = dummies.map(toWorld);
+    link.route = isReversed ? route.reverse() : route;
+  }
+
+  return true;
+}
+
+/**
+ * Finds links that close a cycle with a depth-first search started from the
+ * sources, so that reversing them leaves a DAG.
+ * @returns Indices into `edges`
+ */
+function findCycleEdges(nodeCount: number, edges: { source: number; target: number }[]): Set<number> {
+  const outgoing: number[][] = Array.from({ length: nodeCount }, () => []);
+  const incoming = new Array<number>(nodeCount).fill(0);
+  edges.forEach((edge, i) => {
+    outgoing[edge.source].push(i);
+    incoming[edge.target]++;
+  });
+
+  const reversed = new Set<number>();
+  // 0 = unvisited, 1 = on the DFS stack, 2 = finished
+  const state = new Uint8Array(nodeCount);
+  const roots = [...Array(nodeCount).keys()].sort((a, b) => Number(incoming[a] > 0) - Number(incoming[b] > 0));
+
+  for (const root of roots) {
+    if (state[root] !== 0) continue;
+    state[root] = 1;
+    // Iterative DFS: [vertex, next outgoing edge]
+    const stack: [number, number][] = [[root, 0]];
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const [vertex, next] = top;
+      if (next >= outgoing[vertex].length) {
+        state[vertex] = 2;
+        stack.pop();
+        continue;
+      }
+      top[1]++;
+      const edgeIndex = outgoing[vertex][next];
+      const target = edges[edgeIndex].target;
+      if (state[target] === 1) {
+        reversed.add(edgeIndex);
+      } else if (state[target] === 0) {
+        state[target] = 1;
+        stack.push([target, 0]);
+      }
+    }
+  }
+  return reversed;
+}
+
+/**
+ * Longest-path layering from the sources. Afterwards, in reverse topological
+ * order, nodes with more outgoing than incoming links move down to just above
+ * their nearest successor, which shortens more links than it stretches.
+ * @returns Layer per node, starting at 0
+ */
+function assignLayers(nodeCount: number, edges: { source: number; target: number }[]): number[] {
+  const successors: number[][] = Array.from({ length: nodeCount }, () => []);
+  const predecessors: number[][] = Array.from({ length: nodeCount }, () => []);
+  for (const { source, target } of edges) {
+    successors[source].push(target);
+    predecessors[target].push(source);
+  }
+
+  // Kahn's algorithm for a topological order
+  const remaining = predecessors.map(p => p.length);
+  const order: number[] = [];
+  for (let i = 0; i < nodeCount; i++) {
+    if (remaining[i] === 0) order.push(i);
+  }
+  for (let qi = 0; qi < order.length; qi++) {
+    for (const next of successors[order[qi]]) {
+      if (--remaining[next] === 0) order.push(next);
+    }
+  }
+
+  const rank = new Array<number>(nodeCount).fill(0);
+  for (const vertex of order) {
+    for (const next of successors[vertex]) {
+      rank[next] = Math.max(rank[next], rank[vertex] + 1);
+    }
+  }
+
+  for (let i = order.length - 1; i >= 0; i--) {
+    const vertex = order[i];
+    const outDegree = successors[vertex].length;
+    if (outDegree === 0 || outDegree <= predecessors[vertex].length) continue;
+    rank[vertex] = successors[vertex].reduce((min, next) => Math.min(min, rank[next]), Infinity) - 1;
+  }
+
+  const minRank = rank.reduce((min, r) => Math.min(min, r), Infinity);
+  return rank.map(r => r - minRank);
+}
+
+/**
+ * Initial order within each layer: a depth-first walk down from each real
+ * vertex in input order, so connected vertices start out close together.
+ */
+function orderLayers(roots: Vertex[], allVertices: Vertex[]): Vertex[][] {
+  const layerCount = allVertices.reduce((max, v) => Math.max(max, v.layer + 1), 0);
+  const layers: Vertex[][] = Array.from({ length: layerCount }, () => []);
+  const visited = new Set<Vertex>();
+
+  for (const root of [...roots].sort((a, b) => a.layer - b.layer)) {
+    const stack = [root];
+    while (stack.length > 0) {
+      const vertex = stack.pop()!;
+      if (visited.has(vertex)) continue;
+      visited.add(vertex);
+      vertex.order = layers[vertex.layer].length;
+      layers[vertex.layer].push(vertex);
+      for (let i = vertex.down.length - 1; i >= 0; i--) stack.push(vertex.down[i]);
+    }
+  }
+  return layers;
+}
+
+/**
+ * Alternating down and up barycenter sweeps. Each vertex moves to the mean
+ * order of its neighbours in the layer just swept; the order with the fewest
+ * crossings seen is restored at the end.
+ */
+function reduceCrossings(layers: Vertex[][], sweeps: number) {
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers);
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let l = 1; l < layers.length; l++) sortByBarycenter(layers[l], v => v.up);
+    } else {
+      for (let l = layers.length - 2; l >= 0; l--) sortByBarycenter(layers[l], v => v.down);
+    }
+    const crossings = countCrossings(layers);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  best.forEach((layer, l) => {
+    layers[l] = layer;
+    layer.forEach((vertex, i) => { vertex.order = i; });
+  });
+}
+
+function sortByBarycenter(layer: Vertex[], neighbours: (vertex: Vertex) => Vertex[]) {
+  const barycenter = new Map<Vertex, number>();
+  for (const vertex of layer) {
+    const adjacent = neighbours(vertex);
+    // Vertices without neighbours on that side keep their place
+    barycenter.set(vertex, adjacent.length > 0
+      ? adjacent.reduce((sum, v) => sum + v.order, 0) / adjacent.length
+      : vertex.order);
+  }
+  layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+  layer.forEach((vertex, i) => { vertex.order = i; });
+}
+
+/**
+ * Total crossings between adjacent layers. Links are sorted by their upper
+ * end; every pair whose lower ends are out of order crosses, counted with a
+ * Fenwick tree in O(E log V) per layer pair.
+ */
+function countCrossings(layers: Vertex[][]): number {
+  let crossings = 0;
+  for (let l = 0; l + 1 < layers.length; l++) {
+    const ends: [number, number][] = [];
+    for (const vertex of layers[l]) {
+      for (const below of vertex.down) ends.push([vertex.order, below.order]);
+    }
+    ends.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+    const size = layers[l + 1].length;
+    const tree = new Array<number>(size + 1).fill(0);
+    let inserted = 0;
+    for (const [, lower] of ends) {
+      // Count earlier links ending strictly to the right of this one
+      let notRight = 0;
+      for (let i = lower + 1; i > 0; i -= i & -i) notRight += tree[i];
+      crossings += inserted - notRight;
+      for (let i = lower + 1; i <= size; i += i & -i) tree[i]++;
+      inserted++;
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Pulls every vertex towards the mean position of its neighbours, one layer
+ * at a time, alternating downward and upward passes and finishing with both
+ * sides. Each layer is placed by isotonic regression so vertices keep their
+ * order and minimum spacing while staying as close as possible to their targets.
+ */
+function assignCoordinates(layers: Vertex[][], nodeSpacing: number) {
+  const gap = (a: Vertex, b: Vertex) => (a.node && b.node ? nodeSpacing : Math.max(nodeSpacing / 2, a.radius + b.radius + 10));
+
+  for (const layer of layers) {
+    let x = 0;
+    layer.forEach((vertex, i) => {
+      if (i > 0) x += gap(layer[i - 1], vertex);
+      vertex.x = x;
+    });
+  }
+
+  const place = (layer: Vertex[], neighbours: (vertex: Vertex) => Vertex[]) => {
+    const targets = layer.map((vertex) => {
+      const adjacent = neighbours(vertex);
+      return adjacent.length > 0 ? adjacent.reduce((sum, v) => sum + v.x, 0) / adjacent.length : vertex.x;
+    });
+    const positions = placeInOrder(targets, layer.map((vertex, i) => (i > 0 ? gap(layer[i - 1], vertex) : 0)));
+    layer.forEach((vertex, i) => { vertex.x = positions[i]; });
+  };
+
+  for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+    if (pass % 2 === 0) {
+      for (let l = 1; l < layers.length; l++) place(layers[l], v => v.up);
+    } else {
+      for (let l = layers.length - 2; l >= 0; l--) place(layers[l], v => v.down);
+    }
+  }
+  for (const layer of layers) place(layer, v => [...v.up, ...v.down]);
+}
+
+/**
+ * Positions closest (least squares) to `targets` such that each position is at
+ * least `gaps[i]` after the previous one. Subtracting the cumulative gaps turns
+ * this into isotonic regression, solved by pooling adjacent violators.
+ */
+function placeInOrder(targets: number[], gaps: number[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (let i = 0; i < targets.length; i++) {
+    offset += gaps[i];
+    offsets.push(offset);
+  }
+
+  // Blocks of consecutive items sharing one (mean) value
+  const blocks: { sum: number; count: number }[] = [];
+  for (let i = 0; i < targets.length; i++) {
+    blocks.push({ sum: targets[i] - offsets[i], count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count <= last.sum / last.count) break;
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  const positions: number[] = [];
+  for (const block of blocks) {
+    const value = block.sum / block.count;
+    for (let i = 0; i < block.count; i++) positions.push(value + offsets[positions.length]);
+  }
+  return positions;
+}
@@ -1,4 +1,4 @@
-import { GraphData, GraphNode, LayoutMode, LayoutOptions } from "./canvas-types.js";
+import { ElementId, GraphData, GraphNode, HierarchyDirection, LayoutMode, LayoutOptions, NodeSortKey } from "./canvas-types.js";
 
 type DagMode = 'td' | 'bu' | 'lr' | 'rl' | 'radialout' | 'radialin' | null;
 
@@ -25,6 +25,15 @@ export function getDagMode(layoutMode: LayoutMode, options?: LayoutOptions): Dag
   }
 }
 
+const LAYOUT_MODES: readonly LayoutMode[] = ['force', 'tree', 'radial', 'layered', 'grid', 'circle', 'concentric'];
+
+/**
+ * Returns true if the value names a supported layout mode (e.g. from an HTML attribute).
+ */
+export function isLayoutMode(value: unknown): value is LayoutMode {
+  return LAYOUT_MODES.includes(value as LayoutMode);
+}
+
 /**
  * Returns true if the layout mode is the free-form force simulation.
  */
@@ -67,6 +76,24 @@ export function unpinAllNodes(nodes: GraphNode[]) {
   }
 }
 
+/**
+ * Maps a point in hierarchy space (depth along the levels, breadth across them)
+ * to world coordinates for the given direction.
+ */
+export function orientHierarchyPoint(depth: number, breadth: number, direction: HierarchyDirection): { x: number; y: number } {
+  switch (direction) {
+    case 'bu':
+      return { x: breadth, y: -depth };
+    case 'lr':
+      return { x: depth, y: breadth };
+    case 'rl':
+      return { x: -depth, y: breadth };
+    case 'td':
+    default:
+      return { x: breadth, y: depth };
+  }
+}
+
 /**
  * Computes deterministic tree positions for all nodes.
  * Parents are centered above their children. Nodes at the same layer are evenly spaced.
@@ -97,8 +124,8 @@ export function computeTreePositions(
   const levelDistance = Math.max(baseLevelDistance, minNodeDiameter + 10);
 
   // Build adjacency: parent → children (directed by link source→target)
-  const childrenMap = new Map<number, number[]>();
-  const incomingCount = new Map<number, number>();
+  const childrenMap = new Map<ElementId, ElementId[]>();
+  const incomingCount = new Map<ElementId, number>();
 
   for (const node of nodes) {
     childrenMap.set(node.id, []);
@@ -106,14 +133,14 @@ export function computeTreePositions(
   }
 
   for (const link of links) {
-    const sourceId = typeof link.source === 'object' ? link.source.id : link.source as unknown as number;
-    const targetId = typeof link.target === 'object' ? link.target.id : link.target as unknown as number;
+    const sourceId = typeof link.source === 'object' ? link.source.id : link.source as unknown as ElementId;
+    const targetId = typeof link.target === 'object' ? link.target.id : link.target as unknown as ElementId;
     childrenMap.get(sourceId)?.push(targetId);
     incomingCount.set(targetId, (incomingCount.get(targetId) ?? 0) + 1);
   }
 
   // Find roots (no incoming edges)
-  const roots: number[] = [];
+  const roots: ElementId[] = [];
   for (const node of nodes) {
     if ((incomingCount.get(node.id) ?? 0) === 0) {
       roots.push(node.id);
@@ -136,10 +163,10 @@ export function computeTreePositions(
   }
 
   // BFS to assign depths and build the tree structure (handles DAGs by visiting first)
-  const depth = new Map<number, number>();
-  const parent = new Map<number, number | null>();
-  const treeChildren = new Map<number, number[]>(); // actual tree edges (no duplicates)
-  const queue: number[] = [];
+  const depth = new Map<ElementId, number>();
+  const parent = new Map<ElementId, ElementId | null>();
+  const treeChildren = new Map<ElementId, ElementId[]>(); // actual tree edges (no duplicates)
+  const queue: ElementId[] = [];
 
   for (const root of roots) {
     depth.set(root, 0);
@@ -173,7 +200,7 @@ export function computeTreePositions(
   }
 
   // Compute subtree width (number of leaves in subtree) — bottom-up
-  const subtreeWidth = new Map<number, number>();
+  const subtreeWidth = new Map<ElementId, number>();
   // Process in reverse BFS order (leaves first)
   for (let i = queue.length - 1; i >= 0; i--) {
     const nodeId = queue[i];
@@ -191,9 +218,9 @@ export function computeTreePositions(
 
   // Assign breadth positions based on subtree widths
   // Each leaf gets 1 unit of space. Parents are centered over their children.
-  const breadthPos = new Map<number, number>();
+  const breadthPos = new Map<ElementId, number>();
 
-  function assignBreadth(nodeId: number, startX: number) {
+  function assignBreadth(nodeId: ElementId, startX: number) {
     const children = treeChildren.get(nodeId) ?? [];
     if (children.length === 0) {
       // Leaf node — center in its 1-unit slot
@@ -226,7 +253,7 @@ export function computeTreePositions(
   const centerOffset = totalWidth / 2;
 
   // Build node map for fast lookup
-  const nodeMap = new Map<number, GraphNode>();
+  const nodeMap = new Map<ElementId, GraphNode>();
   for (const node of nodes) {
     nodeMap.set(node.id, node);
   }
@@ -238,26 +265,7 @@ export function computeTreePositions(
     const depthCoord = d * levelDistance;
     const breadthCoord = b * nodeSpacing;
 
-    let x: number, y: number;
-    switch (direction) {
-      case 'bu':
-        x = breadthCoord;
-        y = -depthCoord;
-        break;
-      case 'lr':
-        x = depthCoord;
-        y = breadthCoord;
-        break;
-      case 'rl':
-        x = -depthCoord;
-        y = breadthCoord;
-        break;
-      case 'td':
-      default:
-        x = breadthCoord;
-        y = depthCoord;
-        break;
-    }
+    const { x, y } = orientHierarchyPoint(depthCoord, breadthCoord, direction);
 
     node.x = x;
     node.y = y;
@@ -287,8 +295,8 @@ export function computeRadialPositions(
   const direction = options?.radial?.direction ?? 'out';
 
   // Build directed adjacency: parent → children (same as tree layout)
-  const childrenMap = new Map<number, number[]>();
-  const incomingCount = new Map<number, number>();
+  const childrenMap = new Map<ElementId, ElementId[]>();
+  const incomingCount = new Map<ElementId, number>();
 
   for (const node of nodes) {
     childrenMap.set(node.id, []);
@@ -296,14 +304,14 @@ export function computeRadialPositions(
   }
 
   for (const link of links) {
-    const sourceId = typeof link.source === 'object' ? link.source.id : link.source as unknown as number;
-    const targetId = typeof link.target === 'object' ? link.target.id : link.target as unknown as number;
+    const sourceId = typeof link.source === 'object' ? link.source.id : link.source as unknown as ElementId;
+    const targetId = typeof link.target === 'object' ? link.target.id : link.target as unknown as ElementId;
     childrenMap.get(sourceId)?.push(targetId);
     incomingCount.set(targetId, (incomingCount.get(targetId) ?? 0) + 1);
   }
 
   // Find roots (no incoming edges)
-  const roots: number[] = [];
+  const roots: ElementId[] = [];
   for (const node of nodes) {
     if ((incomingCount.get(node.id) ?? 0) === 0) {
       roots.push(node.id);
@@ -325,9 +333,9 @@ export function computeRadialPositions(
   }
 
   // BFS from roots following directed edges to assign depths
-  const depth = new Map<number, number>();
-  const treeChildren = new Map<number, number[]>();
-  const queue: number[] = [];
+  const depth = new Map<ElementId, number>();
+  const treeChildren = new Map<ElementId, ElementId[]>();
+  const queue: ElementId[] = [];
 
   for (const root of roots) {
     depth.set(root, 0);
@@ -359,7 +367,7 @@ export function computeRadialPositions(
   }
 
   // Compute subtree width for angular allocation
-  const subtreeWidth = new Map<number, number>();
+  const subtreeWidth = new Map<ElementId, number>();
   for (let i = queue.length - 1; i >= 0; i--) {
     const nodeId = queue[i];
     const children = treeChildren.get(nodeId) ?? [];
@@ -375,9 +383,9 @@ export function computeRadialPositions(
   }
 
   // Assign angular positions using subtree widths
-  const nodeAngle = new Map<number, number>();
+  const nodeAngle = new Map<ElementId, number>();
 
-  function assignChildAngles(parentId: number, startAngle: number, arcSpan: number) {
+  function assignChildAngles(parentId: ElementId, startAngle: number, arcSpan: number) {
     const children = treeChildren.get(parentId) ?? [];
     if (children.length === 0) return;
 
@@ -394,7 +402,7 @@ export function computeRadialPositions(
   }
 
   // All roots share the full 2π circle proportionally by subtree width
-  const totalRootWidth = roots.reduce((sum, r) => sum + (subtreeWidth.get(r) ?? 1), 0);
+  const totalRootWidth = roots.reduce<number>((sum, r) => sum + (subtreeWidth.get(r) ?? 1), 0);
   let rootAngleOffset = 0;
   for (const root of roots) {
     const rootWidth = subtreeWidth.get(root) ?? 1;
@@ -537,3 +545,252 @@ export function computeRadialPositions(
 
   return true;
 }
+
+/**
+ * Computes grid positions: nodes fill rows left to right, top to bottom, in
+ * input order or sorted by `options.grid.sortBy`. The grid is centered on the origin.
+ */
+export function computeGridPositions(
+  data: GraphData,
+  options?: LayoutOptions
+): boolean {
+  const nodes = data.nodes;
+  if (nodes.length === 0) return true;
+
+  const grid = options?.grid;
+  const ordered = grid?.sortBy ? sortNodes(nodes, grid.sortBy, grid.sortOrder ?? 'asc') : nodes;
+  const columns = Math.min(nodes.length, Math.max(1, Math.floor(grid?.columns ?? Math.ceil(Math.sqrt(nodes.length)))));
+  const rows = Math.ceil(nodes.length / columns);
+
+  // Every cell fits the largest node
+  const maxSize = nodes.reduce((max, node) => Math.max(max, node.size), 0);
+  const cellSize = maxSize * 2 + (grid?.nodeSpacing ?? 40);
+
+  ordered.forEach((node, i) => {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    setNodePosition(node, (column - (columns - 1) / 2) * cellSize, (row - (rows - 1) / 2) * cellSize);
+  });
+
+  return true;
+}
+
+/**
+ * Computes positions on a single circle. The order starts from a depth-first
+ * walk, so linked nodes tend to sit next to each other, and is then refined by
+ * circular barycenter sweeps; the order with the shortest total link span wins.
+ */
+export function computeCirclePositions(
+  data: GraphData,
+  options?: LayoutOptions
+): boolean {
+  const nodes = data.nodes;
+  if (nodes.length === 0) return true;
+
+  const neighbors = getNeighborIndices(data);
+  const sweeps = options?.circle?.crossingSweeps ?? 8;
+
+  let order = depthFirstOrder(neighbors);
+  let best = order;
+  let bestSpan = circularLinkSpan(order, neighbors);
+
+  for (let sweep = 0; sweep < sweeps && bestSpan > 0; sweep++) {
+    const position = new Float64Array(nodes.length);
+    order.forEach((node, i) => { position[node] = i; });
+
+    // Move each node towards the mean angle of its neighbors
+    const target = Array.from(position, (pos, node) => {
+      const own = (2 * Math.PI * pos) / nodes.length;
+      let sin = 0;
+      let cos = 0;
+      for (const neighbor of neighbors[node]) {
+        const angle = (2 * Math.PI * position[neighbor]) / nodes.length;
+        sin += Math.sin(angle);
+        cos += Math.cos(angle);
+      }
+      if (Math.abs(sin) < 1e-9 && Math.abs(cos) < 1e-9) return own;
+      const mean = Math.atan2(sin, cos);
+      return mean < 0 ? mean + 2 * Math.PI : mean;
+    });
+    order = [...order].sort((a, b) => target[a] - target[b] || position[a] - position[b]);
+
+    const span = circularLinkSpan(order, neighbors);
+    if (span < bestSpan) {
+      best = order;
+      bestSpan = span;
+    }
+  }
+
+  // Each node takes an arc of its diameter plus the spacing
+  const spacing = options?.circle?.nodeSpacing ?? 20;
+  const arcs = best.map(i => nodes[i].size * 2 + spacing);
+  const circumference = arcs.reduce((sum, arc) => sum + arc, 0);
+  const radius = nodes.length === 1 ? 0 : circumference / (2 * Math.PI);
+
+  let offset = 0;
+  best.forEach((i, k) => {
+    const angle = (2 * Math.PI * (offset + arcs[k] / 2)) / circumference;
+    offset += arcs[k];
+    setNodePosition(nodes[i], radius * Math.cos(angle - Math.PI / 2), radius * Math.sin(angle - Math.PI / 2));
+  });
+
+  return true;
+}
+
+/**
+ * Computes concentric ring positions: the highest values (link count or a
+ * numeric property) in the center, lower values on outer rings. Nodes without
+ * a numeric value go on the outermost ring. Each ring is ordered by the angles
+ * of the nodes' neighbors on the rings inside it.
+ *
+ * @param degreeOf - Link count of a node, used when ordering by degree
+ */
+export function computeConcentricPositions(
+  data: GraphData,
+  options: LayoutOptions | undefined,
+  degreeOf: (node: GraphNode) => number
+): boolean {
+  const nodes = data.nodes;
+  if (nodes.length === 0) return true;
+
+  const concentric = options?.concentric;
+  const by = concentric?.by ?? 'degree';
+  const values = nodes.map(node => by === 'degree' ? degreeOf(node) : toNumber(node.data?.[by.property]));
+
+  // Ring per value, highest first; empty rings are skipped
+  const finite = values.filter(Number.isFinite);
+  const levelWidth = concentric?.levelWidth;
+  const max = finite.reduce((m, v) => Math.max(m, v), -Infinity);
+  const levelOf = (value: number) => levelWidth && levelWidth > 0
+    ? Math.floor((max - value) / levelWidth)
+    : -value;
+  const levels = [...new Set(finite.map(levelOf))].sort((a, b) => a - b);
+  const ringOfLevel = new Map(levels.map((level, ring) => [level, ring]));
+  const ringOf = values.map(value => Number.isFinite(value) ? ringOfLevel.get(levelOf(value))! : levels.length);
+
+  const rings: number[][] = [];
+  ringOf.forEach((ring, i) => { (rings[ring] ??= []).push(i); });
+
+  const levelDistance = concentric?.levelDistance ?? 80;
+  const nodeSpacing = concentric?.nodeSpacing ?? 10;
+  const neighbors = getNeighborIndices(data);
+  const angle = new Float64Array(nodes.length).fill(NaN);
+  let prevRadius = 0;
+  let prevMaxSize = 0;
+
+  rings.forEach((members, ring) => {
+    const maxSize = members.reduce((max, i) => Math.max(max, nodes[i].size), 0);
+    const radiusEven = members.length <= 1 ? 0 : (members.length * (maxSize * 2 + nodeSpacing)) / (2 * Math.PI);
+    const radius = ring === 0
+      ? radiusEven
+      : Math.max(radiusEven, prevRadius + Math.max(levelDistance, prevMaxSize + maxSize + nodeSpacing));
+
+    // Sort by the mean angle of already placed neighbors; others keep their slot
+    const target = members.map((i, k) => {
+      let sin = 0;
+      let cos = 0;
+      for (const neighbor of neighbors[i]) {
+        if (Number.isNaN(angle[neighbor])) continue;
+        sin += Math.sin(angle[neighbor]);
+        cos += Math.cos(angle[neighbor]);
+      }
+      if (Math.abs(sin) < 1e-9 && Math.abs(cos) < 1e-9) return (2 * Math.PI * k) / members.length;
+      const mean = Math.atan2(sin, cos);
+      return mean < 0 ? mean + 2 * Math.PI : mean;
+    });
+    const sorted = members.map((i, k) => ({ i, target: target[k], k }))
+      .sort((a, b) => a.target - b.target || a.k - b.k);
+
+    sorted.forEach(({ i }, k) => {
+      angle[i] = (2 * Math.PI * k) / members.length;
+      setNodePosition(nodes[i], radius * Math.cos(angle[i] - Math.PI / 2), radius * Math.sin(angle[i] - Math.PI / 2));
+    });
+
+    prevRadius = radius;
+    prevMaxSize = maxSize;
+  });
+
+  return true;
+}
+
+function setNodePosition(node: GraphNode, x: number, y: number) {
+  node.x = x;
+  node.y = y;
+  node.fx = x;
+  node.fy = y;
+  node.vx = 0;
+  node.vy = 0;
+}
+
+/** Undirected neighbor indices per node, without self-loops */
+function getNeighborIndices(data: GraphData): number[][] {
+  const indexById = new Map(data.nodes.map((node, i) => [node.id, i]));
+  const neighbors: number[][] = data.nodes.map(() => []);
+  for (const link of data.links) {
+    const sourceId = typeof link.source === 'object' ? link.source.id : link.source as unknown as ElementId;
+    const targetId = typeof link.target === 'object' ? link.target.id : link.target as unknown as ElementId;
+    const source = indexById.get(sourceId);
+    const target = indexById.get(targetId);
+    if (source === undefined || target === undefined || source === target) continue;
+    neighbors[source].push(target);
+    neighbors[target].push(source);
+  }
+  return neighbors;
+}
+
+/** Node indices in depth-first order, one component after another */
+function depthFirstOrder(neighbors: number[][]): number[] {
+  const visited = new Uint8Array(neighbors.length);
+  const order: number[] = [];
+  for (let start = 0; start < neighbors.length; start++) {
+    if (visited[start]) continue;
+    const stack = [start];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (visited[node]) continue;
+      visited[node] = 1;
+      order.push(node);
+      // Reversed so the first neighbor is visited first
+      for (let k = neighbors[node].length - 1; k >= 0; k--) {
+        if (!visited[neighbors[node][k]]) stack.push(neighbors[node][k]);
+      }
+    }
+  }
+  return order;
+}
+
+/** Sum over all links of the number of circle slots between their ends */
+function circularLinkSpan(order: number[], neighbors: number[][]): number {
+  const position = new Int32Array(order.length);
+  order.forEach((node, i) => { position[node] = i; });
+  let span = 0;
+  neighbors.forEach((list, node) => {
+    for (const neighbor of list) {
+      const d = Math.abs(position[node] - position[neighbor]);
+      span += Math.min(d, order.length - d);
+    }
+  });
+  return span / 2;
+}
+
+function sortNodes(nodes: GraphNode[], key: NodeSortKey, order: 'asc' | 'desc'): GraphNode[] {
+  const valueOf = (node: GraphNode): unknown => key === 'label' ? node.labels[0] : node.data?.[key.property];
+  const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+  const sign = order === 'desc' ? -1 : 1;
+
+  return [...nodes].sort((a, b) => {
+    const va = valueOf(a);
+    const vb = valueOf(b);
+    // Missing values go last in either direction
+    if (isMissing(va) || isMissing(vb)) return Number(isMissing(va)) - Number(isMissing(vb));
+    if (typeof va === 'number' && typeof vb === 'number') return sign * (va - vb);
+    return sign * String(va).localeCompare(String(vb), undefined, { numeric: true });
+  });
+}
+
+/** A finite number from a property value (numbers or numeric strings), else NaN */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
@@ -0,0 +1,54 @@
+import { ElementId, GraphLink } from "./canvas-types.js";
+import { calculateLinkCurve } from "./canvas-utils.js";
+
+/**
+ * Bundles the visible parallel links of each node pair that share direction
+ * and relationship type. The first link of a bundle gets `aggregate` and is
+ * drawn for all of them; the curves of each pair are re-spread over the links
+ * still drawn. Bundles from a previous call are undone first.
+ *
+ * @param pairs - Links per node pair, in data order
+ * @param types - `true` to merge every relationship type, the types to merge, or `false` to merge none
+ * @returns Ids of the links drawn through another link's `aggregate`
+ */
+export function aggregateParallelLinks(
+  pairs: Iterable<GraphLink[]>,
+  types: boolean | string[],
+  curveMultiplier?: number
+): Set<ElementId> {
+  const merged = new Set<ElementId>();
+  const mergesType = (relationship: string) => types === true || (Array.isArray(types) && types.includes(relationship));
+
+  for (const links of pairs) {
+    let reshaped = false;
+    const bundles = new Map<string, GraphLink[]>();
+    for (const link of links) {
+      if (link.aggregate) {
+        delete link.aggregate;
+        reshaped = true;
+      }
+      if (!link.visible || !mergesType(link.relationship)) continue;
+
+      const key = `${String(link.source.id)}->${String(link.target.id)}:${link.relationship}`;
+      const bundle = bundles.get(key);
+      if (bundle) bundle.push(link);
+      else bundles.set(key, [link]);
+    }
+
+    for (const bundle of bundles.values()) {
+      if (bundle.length < 2) continue;
+      bundle[0].aggregate = bundle;
+      bundle.slice(1).forEach(link => merged.add(link.id));
+      reshaped = true;
+    }
+
+    if (!reshaped) continue;
+    links
+      .filter(link => !merged.has(link.id))
+      .forEach((link, i) => {
+        link.curve = calculateLinkCurve(i, link.source.id === link.target.id, curveMultiplier);
+      });
+  }
+
+  return merged;
+}
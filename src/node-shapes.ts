@@ -0,0 +1,172 @@
+import type { NodeShape } from "./canvas-types.js";
+
+/** All supported node shapes */
+export const NODE_SHAPES: readonly NodeShape[] = ['circle', 'square', 'diamond', 'hexagon', 'rounded-rect', 'triangle'];
+
+/** Rounded rectangles are wider than tall to leave room for captions */
+const ROUNDED_RECT_HALF_WIDTH = 1.3;
+const ROUNDED_RECT_HALF_HEIGHT = 0.8;
+const ROUNDED_RECT_CORNER = 0.35;
+
+type Point = [number, number];
+
+/** Polygon vertices for a unit radius, centred on the origin (y grows downwards) */
+const POLYGON_VERTICES: Partial<Record<NodeShape, Point[]>> = {
+  square: [[-1, -1], [1, -1], [1, 1], [-1, 1]],
+  diamond: [[0, -1], [1, 0], [0, 1], [-1, 0]],
+  // Flat-top hexagon with circumradius 1
+  hexagon: [0, 60, 120, 180, 240, 300].map((deg): Point => [
+    Math.cos((deg * Math.PI) / 180),
+    Math.sin((deg * Math.PI) / 180),
+  ]),
+  // Upward-pointing equilateral triangle with circumradius 1 (centroid at origin)
+  triangle: [-90, 30, 150].map((deg): Point => [
+    Math.cos((deg * Math.PI) / 180),
+    Math.sin((deg * Math.PI) / 180),
+  ]),
+};
+
+/**
+ * Edges of each polygon as half-planes `{ nx, ny, offset }` (outward unit
+ * normal and distance from the origin), used for ray/outline intersection.
+ */
+const POLYGON_EDGES: Partial<Record<NodeShape, { nx: number; ny: number; offset: number }[]>> = {};
+for (const [shape, vertices] of Object.entries(POLYGON_VERTICES) as [NodeShape, Point[]][]) {
+  POLYGON_EDGES[shape] = vertices.map(([ax, ay], i) => {
+    const [bx, by] = vertices[(i + 1) % vertices.length];
+    const len = Math.hypot(bx - ax, by - ay);
+    // Vertices are clockwise on screen, so (dy, -dx) points outwards
+    const nx = (by - ay) / len;
+    const ny = -(bx - ax) / len;
+    return { nx, ny, offset: ax * nx + ay * ny };
+  });
+}
+
+/**
+ * Largest caption box (half extents, unit radius) centred on the origin that
+ * stays inside each shape, biased towards wide boxes since text runs horizontally.
+ */
+const TEXT_BOXES: Record<Exclude<NodeShape, 'circle'>, { halfWidth: number; halfHeight: number }> = {
+  square: { halfWidth: 1, halfHeight: 1 },
+  // Inset by half the corner radius so the box corners clear the rounding
+  'rounded-rect': {
+    halfWidth: ROUNDED_RECT_HALF_WIDTH - ROUNDED_RECT_CORNER / 2,
+    halfHeight: ROUNDED_RECT_HALF_HEIGHT - ROUNDED_RECT_CORNER / 2,
+  },
+  // |x| + |y| <= 1
+  diamond: { halfWidth: 0.65, halfHeight: 0.35 },
+  // Half-width at height y is 1 - |y| / √3
+  hexagon: { halfWidth: 1 - 0.5 / Math.sqrt(3), halfHeight: 0.5 },
+  // Half-width at y = -0.3 (the box top) is (1 - 0.3) / √3
+  triangle: { halfWidth: 0.7 / Math.sqrt(3), halfHeight: 0.3 },
+};
+
+/**
+ * Type guard for node shape names.
+ * @param value - Value to check
+ * @returns true if the value is a supported NodeShape
+ */
+export function isNodeShape(value: unknown): value is NodeShape {
+  return typeof value === 'string' && (NODE_SHAPES as readonly string[]).includes(value);
+}
+
+/**
+ * Begins a new path and traces the outline of a node shape.
+ * The caller decides whether to fill, stroke or both.
+ *
+ * @param ctx - Canvas context
+ * @param shape - Shape to trace
+ * @param x - Centre x
+ * @param y - Centre y
+ * @param radius - Shape radius (circle radius, or half-side for squares)
+ */
+export function traceNodeShape(ctx: CanvasRenderingContext2D, shape: NodeShape, x: number, y: number, radius: number): void {
+  ctx.beginPath();
+
+  if (shape === 'circle') {
+    ctx.arc(x, y, radius, 0, 2 * Math.PI, false);
+    return;
+  }
+
+  if (shape === 'rounded-rect') {
+    const hw = radius * ROUNDED_RECT_HALF_WIDTH;
+    const hh = radius * ROUNDED_RECT_HALF_HEIGHT;
+    const c = radius * ROUNDED_RECT_CORNER;
+    ctx.moveTo(x - hw + c, y - hh);
+    ctx.lineTo(x + hw - c, y - hh);
+    ctx.quadraticCurveTo(x + hw, y - hh, x + hw, y - hh + c);
+    ctx.lineTo(x + hw, y + hh - c);
+    ctx.quadraticCurveTo(x + hw, y + hh, x + hw - c, y + hh);
+    ctx.lineTo(x - hw + c, y + hh);
+    ctx.quadraticCurveTo(x - hw, y + hh, x - hw, y + hh - c);
+    ctx.lineTo(x - hw, y - hh + c);
+    ctx.quadraticCurveTo(x - hw, y - hh, x - hw + c, y - hh);
+    ctx.closePath();
+    return;
+  }
+
+  const vertices = POLYGON_VERTICES[shape]!;
+  vertices.forEach(([vx, vy], i) => {
+    if (i === 0) ctx.moveTo(x + vx * radius, y + vy * radius);
+    else ctx.lineTo(x + vx * radius, y + vy * radius);
+  });
+  ctx.closePath();
+}
+
+/**
+ * Distance from a node's centre to its outline in the given direction.
+ * Used to stop links and arrowheads at the node border.
+ *
+ * @param shape - Node shape
+ * @param radius - Shape radius
+ * @param dx - Direction x (need not be normalised)
+ * @param dy - Direction y (need not be normalised)
+ * @returns Distance along the direction; `radius` for circles or a zero direction
+ */
+export function getNodeShapeBoundaryDistance(shape: NodeShape, radius: number, dx: number, dy: number): number {
+  const len = Math.hypot(dx, dy);
+  if (shape === 'circle' || len === 0) return radius;
+
+  const ux = dx / len;
+  const uy = dy / len;
+
+  if (shape === 'rounded-rect') {
+    // Treat as the bounding rectangle; slightly generous near the rounded corners
+    const tx = ux === 0 ? Infinity : (radius * ROUNDED_RECT_HALF_WIDTH) / Math.abs(ux);
+    const ty = uy === 0 ? Infinity : (radius * ROUNDED_RECT_HALF_HEIGHT) / Math.abs(uy);
+    return Math.min(tx, ty);
+  }
+
+  let distance = Infinity;
+  for (const { nx, ny, offset } of POLYGON_EDGES[shape]!) {
+    const facing = nx * ux + ny * uy;
+    if (facing > 0) distance = Math.min(distance, offset / facing);
+  }
+  return distance * radius;
+}
+
+/**
+ * Half extents of a node shape's axis-aligned bounding box, for culling.
+ * @param shape - Node shape
+ * @param radius - Shape radius
+ */
+export function getNodeShapeExtent(shape: NodeShape, radius: number): { halfWidth: number; halfHeight: number } {
+  if (shape === 'rounded-rect') {
+    return { halfWidth: radius * ROUNDED_RECT_HALF_WIDTH, halfHeight: radius * ROUNDED_RECT_HALF_HEIGHT };
+  }
+  // Every other shape fits inside the circle's bounding square
+  return { halfWidth: radius, halfHeight: radius };
+}
+
+/**
+ * Axis-aligned box centred on the node that captions must fit in.
+ * Circles are handled by `wrapTextForCircularNode`, so they return null.
+ *
+ * @param shape - Node shape
+ * @param radius - Radius available for text
+ */
+export function getNodeShapeTextBox(shape: NodeShape, radius: number): { halfWidth: number; halfHeight: number } | null {
+  if (shape === 'circle') return null;
+  const box = TEXT_BOXES[shape];
+  return { halfWidth: box.halfWidth * radius, halfHeight: box.halfHeight * radius };
+}
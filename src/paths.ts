@@ -0,0 +1,187 @@
+import { ElementId, FindPathOptions, GraphData, GraphLink, GraphNode, GraphPath } from "./canvas-types.js";
+
+type Edge = { link: GraphLink; to: GraphNode; weight: number };
+
+/**
+ * Yen's k shortest loopless paths between two nodes, built on Dijkstra.
+ * Only visible nodes and links are traversed. Parallel links count as
+ * separate paths.
+ *
+ * @returns Up to `k` paths ordered by cost, then by link count; empty when the nodes are not connected
+ */
+export function findShortestPaths(
+  data: GraphData,
+  sourceId: ElementId,
+  targetId: ElementId,
+  options: FindPathOptions = {}
+): GraphPath[] {
+  const { directed = false, weightKey, k = 1 } = options;
+  const nodeById = new Map(data.nodes.filter(node => node.visible).map(node => [node.id, node]));
+  const source = nodeById.get(sourceId);
+  const target = nodeById.get(targetId);
+  if (!source || !target || k < 1) return [];
+  if (source === target) return [{ nodes: [source], links: [], cost: 0 }];
+
+  const edges = new Map<ElementId, Edge[]>();
+  const addEdge = (from: GraphNode, edge: Edge) => {
+    const list = edges.get(from.id);
+    if (list) list.push(edge);
+    else edges.set(from.id, [edge]);
+  };
+  for (const link of data.links) {
+    if (!link.visible || !nodeById.has(link.source.id) || !nodeById.has(link.target.id)) continue;
+    if (link.source.id === link.target.id) continue;
+    const weight = getLinkWeight(link, weightKey);
+    addEdge(link.source, { link, to: link.target, weight });
+    if (!directed) addEdge(link.target, { link, to: link.source, weight });
+  }
+
+  const first = shortestPath(edges, source, target, new Set(), new Set());
+  if (!first) return [];
+
+  const paths: GraphPath[] = [first];
+  const candidates: GraphPath[] = [];
+  const seen = new Set([pathKey(first)]);
+
+  while (paths.length < k) {
+    const previous = paths[paths.length - 1];
+    // Deviate from the previous path at every node but the target
+    for (let i = 0; i < previous.links.length; i++) {
+      const spur = previous.nodes[i];
+      const rootLinks = previous.links.slice(0, i);
+      const bannedLinks = new Set<GraphLink>();
+      for (const path of paths) {
+        if (path.links.length > i && rootLinks.every((link, j) => path.links[j] === link)) {
+          bannedLinks.add(path.links[i]);
+        }
+      }
+      // The root part may not be revisited, which keeps paths loopless
+      const bannedNodes = new Set(previous.nodes.slice(0, i).map(node => node.id));
+
+      const spurPath = shortestPath(edges, spur, target, bannedNodes, bannedLinks);
+      if (!spurPath) continue;
+      const candidate: GraphPath = {
+        nodes: [...previous.nodes.slice(0, i), ...spurPath.nodes],
+        links: [...rootLinks, ...spurPath.links],
+        cost: rootLinks.reduce((sum, link) => sum + getLinkWeight(link, weightKey), 0) + spurPath.cost,
+      };
+      const key = pathKey(candidate);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push(candidate);
+    }
+
+    if (candidates.length === 0) break;
+    // Stable pick: cheapest, then fewest links, then first found
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+      if (comparePaths(candidates[i], candidates[best]) < 0) best = i;
+    }
+    paths.push(candidates.splice(best, 1)[0]);
+  }
+
+  return paths;
+}
+
+/** `weightKey` value of a link; missing, non-numeric and negative values count as 1 */
+function getLinkWeight(link: GraphLink, weightKey: string | undefined): number {
+  if (!weightKey) return 1;
+  const value = link.data?.[weightKey];
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 1;
+}
+
+function comparePaths(a: GraphPath, b: GraphPath): number {
+  return a.cost - b.cost || a.links.length - b.links.length;
+}
+
+function pathKey(path: GraphPath): string {
+  return path.links.map(link => String(link.id)).join('\u0000');
+}
+
+/** Dijkstra from `source` to `target` avoiding the banned nodes and links */
+function shortestPath(
+  edges: Map<ElementId, Edge[]>,
+  source: GraphNode,
+  target: GraphNode,
+  bannedNodes: Set<ElementId>,
+  bannedLinks: Set<GraphLink>
+): GraphPath | null {
+  const cost = new Map<ElementId, number>([[source.id, 0]]);
+  const via = new Map<ElementId, { from: GraphNode; link: GraphLink }>();
+  const done = new Set<ElementId>();
+  const queue = new MinQueue<GraphNode>();
+  queue.push(source, 0);
+
+  for (let entry = queue.pop(); entry; entry = queue.pop()) {
+    const [node, nodeCost] = entry;
+    if (done.has(node.id)) continue;
+    done.add(node.id);
+    if (node === target) break;
+
+    for (const { link, to, weight } of edges.get(node.id) ?? []) {
+      if (done.has(to.id) || bannedNodes.has(to.id) || bannedLinks.has(link)) continue;
+      const next = nodeCost + weight;
+      if (next < (cost.get(to.id) ?? Infinity)) {
+        cost.set(to.id, next);
+        via.set(to.id, { from: node, link });
+        queue.push(to, next);
+      }
+    }
+  }
+
+  if (!done.has(target.id)) return null;
+  const nodes = [target];
+  const links: GraphLink[] = [];
+  for (let step = via.get(target.id); step; step = via.get(step.from.id)) {
+    nodes.push(step.from);
+    links.push(step.link);
+  }
+  return { nodes: nodes.reverse(), links: links.reverse(), cost: cost.get(target.id)! };
+}
+
+/** Binary min-heap keyed by priority; equal priorities pop in insertion order */
+class MinQueue<T> {
+  private heap: { item: T; priority: number; order: number }[] = [];
+
+  private pushed = 0;
+
+  push(item: T, priority: number) {
+    const heap = this.heap;
+    heap.push({ item, priority, order: this.pushed++ });
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): [T, number] | undefined {
+    const heap = this.heap;
+    if (heap.length === 0) return undefined;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && this.less(left, smallest)) smallest = left;
+        if (right < heap.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return [top.item, top.priority];
+  }
+
+  private less(a: number, b: number): boolean {
+    const x = this.heap[a];
+    const y = this.heap[b];
+    return x.priority < y.priority || (x.priority === y.priority && x.order < y.order);
+  }
+}
@@ -0,0 +1,216 @@
+import * as d3 from "d3";
+import {
+  ElementId,
+  ElementStyle,
+  GraphData,
+  GraphNode,
+  NodeMetric,
+  ScaleChannel,
+  ScaleLegend,
+  ScaleLegendEntry,
+  ScaleMapping,
+  ScalesConfig,
+  ScaleType,
+} from "./canvas-types.js";
+import { DEFAULT_LABEL_PALETTE } from "./canvas-utils.js";
+
+/** Default node radius range of `scales.nodeSize` (world units) */
+export const DEFAULT_NODE_SIZE_RANGE: [number, number] = [4, 20];
+
+/** Default line width range of `scales.linkWidth` */
+export const DEFAULT_LINK_WIDTH_RANGE: [number, number] = [1, 6];
+
+/** Default continuous color range: light to dark blue */
+export const DEFAULT_COLOR_RANGE = ['#C6DBEF', '#08519C'];
+
+/** Most samples a continuous scale shows in its legend */
+const MAX_LEGEND_ENTRIES = 5;
+
+const formatNumber = d3.format('~g');
+
+/** A scale fitted to the values present in the data */
+export interface DataScale<T> {
+  /** `data` property or metric the scale reads */
+  property: string;
+  /** Set when the scale reads a node metric instead of a property */
+  metric?: NodeMetric;
+  type: ScaleType;
+  /** Output for a property value, or undefined when the value does not fit the scale */
+  map(value: unknown): T | undefined;
+  /** Representative samples for a legend */
+  legend(): ScaleLegendEntry[];
+}
+
+/**
+ * Builds a size or width scale.
+ * @param values - Property values of every element, used when the mapping has no domain
+ * @returns The scale, or undefined when no value fits it
+ */
+export function createSizeScale(
+  mapping: ScaleMapping<number>,
+  values: unknown[],
+  defaultRange: [number, number]
+): DataScale<number> | undefined {
+  const range = mapping.range && mapping.range.length >= 2 ? mapping.range : defaultRange;
+  const [min, max] = [range[0], range[range.length - 1]];
+  const type = mapping.type ?? 'linear';
+
+  if (type === 'ordinal') {
+    const domain = getOrdinalDomain(mapping, values);
+    if (domain.length === 0) return undefined;
+    const scale = d3.scalePoint<string>().domain(domain.map(String)).range([min, max]);
+    const lookup = new Set(domain);
+    const map = (value: unknown) => lookup.has(value) ? scale(String(value)) : undefined;
+    return { ...getScaleInput(mapping), type, map, legend: () => domain.map(value => ({ value, label: String(value), size: map(value) })) };
+  }
+
+  const domain = getContinuousDomain(mapping, values, type);
+  if (!domain) return undefined;
+  const scale = createContinuousScale(type, domain).range([min, max]);
+  const map = (value: unknown) => isScaleNumber(value, type) ? scale(value) : undefined;
+  return { ...getScaleInput(mapping), type, map, legend: () => getTicks(scale, domain).map(value => ({ value, label: formatNumber(value), size: scale(value) })) };
+}
+
+/**
+ * Builds a color scale. Continuous scales interpolate in RGB through every
+ * color of the range.
+ * @param values - Property values of every element, used when the mapping has no domain
+ * @returns The scale, or undefined when no value fits it
+ */
+export function createColorScale(mapping: ScaleMapping<string>, values: unknown[]): DataScale<string> | undefined {
+  const type = mapping.type ?? 'linear';
+
+  if (type === 'ordinal') {
+    const domain = getOrdinalDomain(mapping, values);
+    if (domain.length === 0) return undefined;
+    const palette = mapping.range?.length ? mapping.range : DEFAULT_LABEL_PALETTE;
+    const indexOf = new Map(domain.map((value, i) => [value, i]));
+    const map = (value: unknown) => {
+      const index = indexOf.get(value);
+      return index === undefined ? undefined : palette[index % palette.length];
+    };
+    return { ...getScaleInput(mapping), type, map, legend: () => domain.map(value => ({ value, label: String(value), color: map(value) })) };
+  }
+
+  const domain = getContinuousDomain(mapping, values, type);
+  if (!domain) return undefined;
+  const colors = mapping.range && mapping.range.length >= 2 ? mapping.range : DEFAULT_COLOR_RANGE;
+  const interpolate = d3.piecewise(d3.interpolateRgb, colors);
+  const position = createContinuousScale(type, domain);
+  const map = (value: unknown) => isScaleNumber(value, type) ? interpolate(position(value)) : undefined;
+  return { ...getScaleInput(mapping), type, map, legend: () => getTicks(position, domain).map(value => ({ value, label: formatNumber(value), color: interpolate(position(value)) })) };
+}
+
+/** The configured scales, fitted to the current data */
+export interface DataScales {
+  nodeSize?: DataScale<number>;
+  nodeColor?: DataScale<string>;
+  linkWidth?: DataScale<number>;
+  linkColor?: DataScale<string>;
+  /** Values of the metrics read by the node scales */
+  nodeMetrics?: Partial<Record<NodeMetric, ReadonlyMap<ElementId, number>>>;
+}
+
+/**
+ * Fits every configured scale to the property values in `data`.
+ * @param getNodeMetric - Values of a node metric, for node scales with a `metric`
+ */
+export function createDataScales(
+  config: ScalesConfig,
+  data: GraphData,
+  getNodeMetric?: (metric: NodeMetric) => ReadonlyMap<ElementId, number>
+): DataScales {
+  const nodeMetrics: DataScales['nodeMetrics'] = {};
+  const nodeValues = ({ metric, property }: ScaleMapping<unknown>) => {
+    if (!metric) return data.nodes.map(node => property === undefined ? undefined : node.data?.[property]);
+    const values = nodeMetrics[metric] ??= getNodeMetric?.(metric) ?? new Map();
+    return data.nodes.map(node => values.get(node.id));
+  };
+  const linkValues = ({ property }: ScaleMapping<unknown>) =>
+    data.links.map(link => property === undefined ? undefined : link.data?.[property]);
+
+  // Link scales read properties only
+  const { nodeSize, nodeColor, linkWidth, linkColor } = config;
+  return {
+    nodeSize: nodeSize && createSizeScale(nodeSize, nodeValues(nodeSize), DEFAULT_NODE_SIZE_RANGE),
+    nodeColor: nodeColor && createColorScale(nodeColor, nodeValues(nodeColor)),
+    linkWidth: linkWidth && createSizeScale({ ...linkWidth, metric: undefined }, linkValues(linkWidth), DEFAULT_LINK_WIDTH_RANGE),
+    linkColor: linkColor && createColorScale({ ...linkColor, metric: undefined }, linkValues(linkColor)),
+    nodeMetrics,
+  };
+}
+
+/** Size and color the node scales give a node, or undefined when neither applies */
+export function getNodeScaleStyle(scales: DataScales, node: GraphNode): ElementStyle | undefined {
+  const read = <T>(scale: DataScale<T> | undefined) => scale?.map(
+    scale.metric ? scales.nodeMetrics?.[scale.metric]?.get(node.id) : node.data?.[scale.property]
+  );
+  return toStyle(read(scales.nodeSize), read(scales.nodeColor), 'size');
+}
+
+/** Width and color the link scales give a link's data, or undefined when neither applies */
+export function getLinkScaleStyle(scales: DataScales, data: Record<string, any>): ElementStyle | undefined {
+  return toStyle(scaleData(scales.linkWidth, data), scaleData(scales.linkColor, data), 'width');
+}
+
+/** Legends of the scales that fit the data, in channel order */
+export function getScaleLegends(scales: DataScales): ScaleLegend[] {
+  const channels: ScaleChannel[] = ['nodeSize', 'nodeColor', 'linkWidth', 'linkColor'];
+  return channels.flatMap(channel => {
+    const scale = scales[channel];
+    return scale ? [{ channel, property: scale.property, type: scale.type, entries: scale.legend() }] : [];
+  });
+}
+
+/** The metric a mapping reads, else its property */
+function getScaleInput(mapping: ScaleMapping<unknown>): Pick<DataScale<unknown>, 'property' | 'metric'> {
+  return mapping.metric ? { property: mapping.metric, metric: mapping.metric } : { property: mapping.property ?? '' };
+}
+
+function scaleData<T>(scale: DataScale<T> | undefined, data: Record<string, any>): T | undefined {
+  return scale?.map(data?.[scale.property]);
+}
+
+function toStyle(size: number | undefined, color: string | undefined, sizeKey: 'size' | 'width'): ElementStyle | undefined {
+  if (size === undefined && color === undefined) return undefined;
+  const style: ElementStyle = {};
+  if (size !== undefined) style[sizeKey] = size;
+  if (color !== undefined) style.color = color;
+  return style;
+}
+
+/** Clamped scale from the domain onto [0, 1] */
+function createContinuousScale(type: Exclude<ScaleType, 'ordinal'>, domain: [number, number]) {
+  const scale = type === 'log' ? d3.scaleLog() : type === 'sqrt' ? d3.scaleSqrt() : d3.scaleLinear();
+  return scale.domain(domain).clamp(true);
+}
+
+function isScaleNumber(value: unknown, type: ScaleType): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && (type !== 'log' || value > 0);
+}
+
+/** `[min, max]` of the mapping's domain, else of the usable values; undefined when there are none */
+function getContinuousDomain(mapping: ScaleMapping<unknown>, values: unknown[], type: ScaleType): [number, number] | undefined {
+  const numbers = (mapping.domain ?? values).filter((value): value is number => isScaleNumber(value, type));
+  if (numbers.length === 0) return undefined;
+  return mapping.domain
+    ? [numbers[0], numbers[numbers.length - 1]]
+    : [d3.min(numbers)!, d3.max(numbers)!];
+}
+
+/** The mapping's domain, else the distinct values in natural order */
+function getOrdinalDomain(mapping: ScaleMapping<unknown>, values: unknown[]): unknown[] {
+  if (mapping.domain) return [...new Set(mapping.domain)];
+  return [...new Set(values.filter(value => value !== undefined && value !== null))]
+    .sort((a, b) => String(a).localeCompare(String(b), undefined, { numeric: true }));
+}
+
+/** Nice ticks inside the domain, as many as fit in MAX_LEGEND_ENTRIES */
+function getTicks(scale: { ticks(count?: number): number[] }, [min, max]: [number, number]): number[] {
+  if (min === max) return [min];
+  for (let count = MAX_LEGEND_ENTRIES - 1; count > 1; count--) {
+    const ticks = scale.ticks(count);
+    if (ticks.length <= MAX_LEGEND_ENTRIES) return ticks;
+  }
+  return [min, max];
+}
@@ -0,0 +1,117 @@
+import type { ElementId, SelectionModifier } from "./canvas-types.js";
+
+/**
+ * Selected node and link ids. Every mutating method reports through
+ * `onChange` only when the selection actually changed.
+ */
+export class SelectionManager {
+  private nodeIds: Set<ElementId> = new Set();
+
+  private linkIds: Set<ElementId> = new Set();
+
+  /**
+   * @param onChange - Called after any change to the selected ids
+   */
+  constructor(private readonly onChange: () => void) {}
+
+  hasNode(id: ElementId): boolean {
+    return this.nodeIds.has(id);
+  }
+
+  hasLink(id: ElementId): boolean {
+    return this.linkIds.has(id);
+  }
+
+  /** Selected node ids, in selection order */
+  getNodeIds(): ElementId[] {
+    return [...this.nodeIds];
+  }
+
+  /** Selected link ids, in selection order */
+  getLinkIds(): ElementId[] {
+    return [...this.linkIds];
+  }
+
+  /** Replace the selection. */
+  replace(nodeIds: Iterable<ElementId>, linkIds: Iterable<ElementId>) {
+    const nextNodes = new Set(nodeIds);
+    const nextLinks = new Set(linkIds);
+    if (sameIds(this.nodeIds, nextNodes) && sameIds(this.linkIds, nextLinks)) return;
+    this.nodeIds = nextNodes;
+    this.linkIds = nextLinks;
+    this.onChange();
+  }
+
+  /** Add to the selection. */
+  add(nodeIds: Iterable<ElementId>, linkIds: Iterable<ElementId>) {
+    this.replace([...this.nodeIds, ...nodeIds], [...this.linkIds, ...linkIds]);
+  }
+
+  /** Select the node if unselected, otherwise deselect it. */
+  toggleNode(id: ElementId) {
+    if (!this.nodeIds.delete(id)) this.nodeIds.add(id);
+    this.onChange();
+  }
+
+  /** Select the link if unselected, otherwise deselect it. */
+  toggleLink(id: ElementId) {
+    if (!this.linkIds.delete(id)) this.linkIds.add(id);
+    this.onChange();
+  }
+
+  clear() {
+    this.replace([], []);
+  }
+
+  /**
+   * Drop ids of elements that no longer exist.
+   * @param hasNode - Whether a node id is still in the graph
+   * @param hasLink - Whether a link id is still in the graph
+   */
+  retain(hasNode: (id: ElementId) => boolean, hasLink: (id: ElementId) => boolean) {
+    this.replace(
+      [...this.nodeIds].filter(hasNode),
+      [...this.linkIds].filter(hasLink)
+    );
+  }
+}
+
+function sameIds(a: Set<ElementId>, b: Set<ElementId>): boolean {
+  if (a.size !== b.size) return false;
+  for (const id of a) {
+    if (!b.has(id)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the modifier key is held during a pointer or keyboard event.
+ * @param event - Event carrying modifier state
+ * @param modifier - Modifier to check
+ */
+export function isModifierPressed(event: Pick<MouseEvent, 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>, modifier: SelectionModifier): boolean {
+  switch (modifier) {
+    case 'shift': return event.shiftKey;
+    case 'alt': return event.altKey;
+    case 'ctrl': return event.ctrlKey;
+    case 'meta': return event.metaKey;
+  }
+}
+
+/**
+ * Even-odd point-in-polygon test, used for box and lasso selection.
+ * @param x - Point x
+ * @param y - Point y
+ * @param polygon - Polygon vertices; the closing edge is implicit
+ */
+export function isPointInPolygon(x: number, y: number, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,42 @@
+import { ElementStyle, Link, Node, StyleRule, StyleSelector } from "./canvas-types.js";
+
+/**
+ * Merges the styles of every rule matching the node, in rule order.
+ * @returns The merged style, or undefined when no rule matches
+ */
+export function resolveNodeStyle(node: Pick<Node, 'labels' | 'data'>, rules: StyleRule[] | undefined): ElementStyle | undefined {
+  return resolveStyle(rules, (selector) =>
+    (selector.element ?? (selector.relationship !== undefined ? 'link' : 'node')) === 'node'
+    && selector.relationship === undefined
+    && (selector.label === undefined || node.labels.includes(selector.label))
+    && matchesData(selector, node.data));
+}
+
+/**
+ * Merges the styles of every rule matching the link, in rule order.
+ * @returns The merged style, or undefined when no rule matches
+ */
+export function resolveLinkStyle(link: Pick<Link, 'relationship' | 'data'>, rules: StyleRule[] | undefined): ElementStyle | undefined {
+  return resolveStyle(rules, (selector) =>
+    (selector.element ?? (selector.label !== undefined ? 'node' : 'link')) === 'link'
+    && selector.label === undefined
+    && (selector.relationship === undefined || link.relationship === selector.relationship)
+    && matchesData(selector, link.data));
+}
+
+function resolveStyle(rules: StyleRule[] | undefined, matches: (selector: StyleSelector) => boolean): ElementStyle | undefined {
+  let style: ElementStyle | undefined;
+  for (const rule of rules ?? []) {
+    if (matches(rule.selector)) style = { ...style, ...rule.style };
+  }
+  return style;
+}
+
+function matchesData(selector: StyleSelector, data: Record<string, any>): boolean {
+  if (selector.property !== undefined) {
+    const value = data?.[selector.property];
+    if (value === undefined || value === null) return false;
+    if ('value' in selector && value !== selector.value) return false;
+  }
+  return !selector.where || selector.where(data ?? {});
+}
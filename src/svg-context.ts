@@ -0,0 +1,356 @@
+/**
+ * Records the subset of the CanvasRenderingContext2D API used by the built-in
+ * node and link painters and serializes it as SVG, so vector export reuses the
+ * exact drawing logic of the canvas.
+ *
+ * Supported transforms are translations, rotations and uniform scales (what the
+ * painters use). Paths are stored in output coordinates; text keeps its own
+ * transform so glyphs rotate and scale with it.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+type SvgState = {
+  transform: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  lineDash: number[];
+  /** Clip groups opened while this state was current, closed again on restore() */
+  openGroups: number;
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const TEXT_ANCHOR: Record<CanvasTextAlign, string> = {
+  start: 'start',
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+const DOMINANT_BASELINE: Record<CanvasTextBaseline, string> = {
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'central',
+  alphabetic: 'auto',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge',
+};
+
+function multiply([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Round to keep the output compact without visible loss */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+export class SvgRenderingContext {
+  private state: SvgState = {
+    transform: IDENTITY,
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    globalAlpha: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    lineDash: [],
+    openGroups: 0,
+  };
+
+  private stack: SvgState[] = [];
+
+  private path = '';
+
+  private hasCurrentPoint = false;
+
+  private body: string[] = [];
+
+  private defs: string[] = [];
+
+  /**
+   * @param width - Output width in SVG user units
+   * @param height - Output height in SVG user units
+   * @param measureContext - Real 2D context used for text metrics (falls back to an estimate)
+   */
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly measureContext: CanvasRenderingContext2D | null = null
+  ) {}
+
+  // ─── State ──────────────────────────────────────────────────────────────
+
+  get fillStyle(): string { return this.state.fillStyle; }
+
+  set fillStyle(value: string) { this.state.fillStyle = value; }
+
+  get strokeStyle(): string { return this.state.strokeStyle; }
+
+  set strokeStyle(value: string) { this.state.strokeStyle = value; }
+
+  get lineWidth(): number { return this.state.lineWidth; }
+
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+
+  get globalAlpha(): number { return this.state.globalAlpha; }
+
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+
+  get font(): string { return this.state.font; }
+
+  set font(value: string) { this.state.font = value; }
+
+  get textAlign(): CanvasTextAlign { return this.state.textAlign; }
+
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value; }
+
+  get textBaseline(): CanvasTextBaseline { return this.state.textBaseline; }
+
+  set textBaseline(value: CanvasTextBaseline) { this.state.textBaseline = value; }
+
+  save() {
+    this.stack.push(this.state);
+    this.state = { ...this.state, lineDash: [...this.state.lineDash], openGroups: 0 };
+  }
+
+  restore() {
+    const previous = this.stack.pop();
+    if (!previous) return;
+    for (let i = 0; i < this.state.openGroups; i++) this.body.push('</g>');
+    this.state = previous;
+  }
+
+  setLineDash(segments: number[]) {
+    this.state.lineDash = [...segments];
+  }
+
+  getLineDash(): number[] {
+    return [...this.state.lineDash];
+  }
+
+  // ─── Transforms ─────────────────────────────────────────────────────────
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  getTransform(): { a: number; b: number; c: number; d: number; e: number; f: number } {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return { a, b, c, d, e, f };
+  }
+
+  translate(x: number, y: number) {
+    this.state.transform = multiply(this.state.transform, [1, 0, 0, 1, x, y]);
+  }
+
+  scale(x: number, y: number) {
+    this.state.transform = multiply(this.state.transform, [x, 0, 0, y, 0, 0]);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.state.transform = multiply(this.state.transform, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  private point(x: number, y: number): string {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return `${num(a * x + c * y + e)} ${num(b * x + d * y + f)}`;
+  }
+
+  /** Uniform scale factor of the current transform */
+  private get scaleFactor(): number {
+    const [a, b, c, d] = this.state.transform;
+    return Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  // ─── Paths ──────────────────────────────────────────────────────────────
+
+  beginPath() {
+    this.path = '';
+    this.hasCurrentPoint = false;
+  }
+
+  moveTo(x: number, y: number) {
+    this.path += `M${this.point(x, y)}`;
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number) {
+    this.path += `${this.hasCurrentPoint ? 'L' : 'M'}${this.point(x, y)}`;
+    this.hasCurrentPoint = true;
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    this.path += `Q${this.point(cpx, cpy)} ${this.point(x, y)}`;
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    this.path += `C${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)}`;
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    const fullTurn = 2 * Math.PI;
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    const full = sweep >= fullTurn;
+    sweep = full ? fullTurn : ((sweep % fullTurn) + fullTurn) % fullTurn;
+    const direction = counterclockwise ? -1 : 1;
+    const at = (angle: number) => this.point(x + radius * Math.cos(angle), y + radius * Math.sin(angle));
+
+    this.path += `${this.hasCurrentPoint ? 'L' : 'M'}${at(startAngle)}`;
+    this.hasCurrentPoint = true;
+
+    const r = num(radius * this.scaleFactor);
+    const sweepFlag = counterclockwise ? 0 : 1;
+    if (full) {
+      // A single SVG arc cannot describe a full circle; draw two halves
+      const mid = startAngle + direction * Math.PI;
+      this.path += `A${r} ${r} 0 0 ${sweepFlag} ${at(mid)}A${r} ${r} 0 0 ${sweepFlag} ${at(startAngle)}`;
+    } else if (sweep > 0) {
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      this.path += `A${r} ${r} 0 ${largeArc} ${sweepFlag} ${at(startAngle + direction * sweep)}`;
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  closePath() {
+    this.path += 'Z';
+  }
+
+  fill() {
+    if (!this.path) return;
+    this.body.push(`<path d="${this.path}" fill="${escapeXml(this.state.fillStyle)}"${this.opacityAttribute()}/>`);
+  }
+
+  stroke() {
+    if (!this.path) return;
+    const scale = this.scaleFactor;
+    const dash = this.state.lineDash.length > 0
+      ? ` stroke-dasharray="${this.state.lineDash.map(v => num(v * scale)).join(' ')}"`
+      : '';
+    this.body.push(
+      `<path d="${this.path}" fill="none" stroke="${escapeXml(this.state.strokeStyle)}" stroke-width="${num(this.state.lineWidth * scale)}"${dash}${this.opacityAttribute()}/>`
+    );
+  }
+
+  /** Clip everything drawn until the matching restore() to the current path. */
+  clip() {
+    const id = `clip${this.defs.length}`;
+    this.defs.push(`<clipPath id="${id}"><path d="${this.path}"/></clipPath>`);
+    this.body.push(`<g clip-path="url(#${id})">`);
+    this.state.openGroups += 1;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    const hasCurrentPoint = this.hasCurrentPoint;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.path = path;
+    this.hasCurrentPoint = hasCurrentPoint;
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    const hasCurrentPoint = this.hasCurrentPoint;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.stroke();
+    this.path = path;
+    this.hasCurrentPoint = hasCurrentPoint;
+  }
+
+  clearRect() {
+    // Nothing to clear: the SVG starts empty
+  }
+
+  // ─── Text & images ──────────────────────────────────────────────────────
+
+  fillText(text: string, x: number, y: number) {
+    const [a, b, c, d, e, f] = multiply(this.state.transform, [1, 0, 0, 1, x, y]);
+    this.body.push(
+      `<text transform="matrix(${[a, b, c, d, e, f].map(num).join(' ')})" fill="${escapeXml(this.state.fillStyle)}"`
+      + ` style="font: ${escapeXml(this.state.font)}" text-anchor="${TEXT_ANCHOR[this.state.textAlign]}"`
+      + ` dominant-baseline="${DOMINANT_BASELINE[this.state.textBaseline]}"${this.opacityAttribute()}>${escapeXml(text)}</text>`
+    );
+  }
+
+  measureText(text: string): TextMetrics {
+    if (this.measureContext) {
+      this.measureContext.font = this.state.font;
+      return this.measureContext.measureText(text);
+    }
+    // No real context available: estimate from the font size
+    const size = Number(/(\d+(?:\.\d+)?)px/.exec(this.state.font)?.[1] ?? 10);
+    const width = text.length * size * 0.6;
+    return {
+      width,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: width,
+      actualBoundingBoxAscent: size * 0.8,
+      actualBoundingBoxDescent: size * 0.2,
+    } as TextMetrics;
+  }
+
+  drawImage(image: HTMLImageElement, dx: number, dy: number, dw?: number, dh?: number) {
+    const width = dw ?? image.naturalWidth;
+    const height = dh ?? image.naturalHeight;
+    const [a, b, c, d, e, f] = this.state.transform;
+    this.body.push(
+      `<image href="${escapeXml(image.src)}" x="${num(dx)}" y="${num(dy)}" width="${num(width)}" height="${num(height)}"`
+      + ` preserveAspectRatio="none" transform="matrix(${[a, b, c, d, e, f].map(num).join(' ')})"${this.opacityAttribute()}/>`
+    );
+  }
+
+  private opacityAttribute(): string {
+    return this.state.globalAlpha < 1 ? ` opacity="${num(this.state.globalAlpha)}"` : '';
+  }
+
+  /**
+   * Serialize the recorded drawing.
+   * @param pixelWidth - `width` attribute of the SVG element (defaults to the user-space width)
+   * @param pixelHeight - `height` attribute of the SVG element
+   */
+  toSvg(pixelWidth = this.width, pixelHeight = this.height): string {
+    // Close clip groups left open by unbalanced save()/restore() calls
+    while (this.stack.length > 0) this.restore();
+    for (let i = 0; i < this.state.openGroups; i++) this.body.push('</g>');
+    this.state.openGroups = 0;
+
+    const defs = this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '';
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${num(pixelWidth)}" height="${num(pixelHeight)}"`
+      + ` viewBox="0 0 ${num(this.width)} ${num(this.height)}">${defs}${this.body.join('')}</svg>`;
+  }
+}
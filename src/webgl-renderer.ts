@@ -0,0 +1,469 @@
+import * as d3 from "d3";
+
+/** RGBA with components in 0–1, not premultiplied */
+type Rgba = [number, number, number, number];
+
+/** Quadratic curves are tessellated into this many segments on the GPU */
+const CURVE_SEGMENTS = 16;
+
+/** Floats per instance: p0, control, p2, width, color */
+const CURVE_STRIDE = 11;
+/** Floats per instance: tip, direction, length, half width, color */
+const ARROW_STRIDE = 10;
+/** Floats per instance: center, radius, stroke width, fill, stroke */
+const DISC_STRIDE = 12;
+
+const colorCache = new Map<string, Rgba>();
+
+/**
+ * Parse a CSS color once and cache it. Unparseable colors become opaque black,
+ * which is what a 2D context falls back to for an invalid fillStyle.
+ * @param color - Any CSS color string
+ */
+export function parseColor(color: string): Rgba {
+  let rgba = colorCache.get(color);
+  if (!rgba) {
+    const parsed = d3.color(color)?.rgb();
+    rgba = parsed ? [parsed.r / 255, parsed.g / 255, parsed.b / 255, parsed.opacity] : [0, 0, 0, 1];
+    colorCache.set(color, rgba);
+  }
+  return rgba;
+}
+
+/** Growable Float32Array of fixed-size instance records */
+class InstanceBuffer {
+  data: Float32Array;
+
+  count = 0;
+
+  constructor(readonly stride: number) {
+    this.data = new Float32Array(stride * 256);
+  }
+
+  /** Reserve the next record and return its offset into `data`. */
+  next(): number {
+    const offset = this.count * this.stride;
+    if (offset + this.stride > this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.count++;
+    return offset;
+  }
+
+  /** Records written so far */
+  view(): Float32Array {
+    return this.data.subarray(0, this.count * this.stride);
+  }
+
+  clear() {
+    this.count = 0;
+  }
+}
+
+function writeColor(data: Float32Array, offset: number, color: string, alpha: number) {
+  const [r, g, b, a] = parseColor(color);
+  data[offset] = r;
+  data[offset + 1] = g;
+  data[offset + 2] = b;
+  data[offset + 3] = a * alpha;
+}
+
+/**
+ * Primitives collected for one frame, in world coordinates.
+ * Drawn in order: curves, arrowheads, then discs on top.
+ */
+export class WebGLBatch {
+  readonly curves = new InstanceBuffer(CURVE_STRIDE);
+
+  readonly arrows = new InstanceBuffer(ARROW_STRIDE);
+
+  readonly discs = new InstanceBuffer(DISC_STRIDE);
+
+  clear() {
+    this.curves.clear();
+    this.arrows.clear();
+    this.discs.clear();
+  }
+
+  /**
+   * Quadratic Bézier stroke; a straight line is one whose control point lies on it.
+   * @param width - Stroke width in CSS pixels, independent of zoom
+   * @param alpha - Opacity multiplier, e.g. for dimming
+   */
+  addCurve(x0: number, y0: number, cx: number, cy: number, x1: number, y1: number, width: number, color: string, alpha = 1) {
+    const o = this.curves.next();
+    const d = this.curves.data;
+    d[o] = x0; d[o + 1] = y0;
+    d[o + 2] = cx; d[o + 3] = cy;
+    d[o + 4] = x1; d[o + 5] = y1;
+    d[o + 6] = width;
+    writeColor(d, o + 7, color, alpha);
+  }
+
+  /**
+   * Notched arrowhead pointing along (dirX, dirY) with its tip at (tipX, tipY).
+   * @param length - Arrow length in world units
+   * @param halfWidth - Half the arrow width in world units
+   */
+  addArrow(tipX: number, tipY: number, dirX: number, dirY: number, length: number, halfWidth: number, color: string, alpha = 1) {
+    const o = this.arrows.next();
+    const d = this.arrows.data;
+    d[o] = tipX; d[o + 1] = tipY;
+    d[o + 2] = dirX; d[o + 3] = dirY;
+    d[o + 4] = length;
+    d[o + 5] = halfWidth;
+    writeColor(d, o + 6, color, alpha);
+  }
+
+  /**
+   * Filled circle with a border outside `radius`, like a 2D fill over a
+   * stroke centred at `radius + strokeWidth / 2`.
+   */
+  addDisc(x: number, y: number, radius: number, strokeWidth: number, fill: string, stroke: string, alpha = 1) {
+    const o = this.discs.next();
+    const d = this.discs.data;
+    d[o] = x; d[o + 1] = y;
+    d[o + 2] = radius;
+    d[o + 3] = strokeWidth;
+    writeColor(d, o + 4, fill, alpha);
+    writeColor(d, o + 8, stroke, alpha);
+  }
+}
+
+/** Where and how to draw a frame */
+export interface WebGLView {
+  /** World to device-pixel transform, as returned by `CanvasRenderingContext2D.getTransform()` */
+  transform: { a: number; b: number; c: number; d: number; e: number; f: number };
+  /** Device pixels per CSS pixel */
+  pixelRatio: number;
+  /** Clear color; transparent colors leave the layer see-through */
+  background: string;
+  /** Arrow notch depth as a fraction of the arrow length */
+  arrowNotchRatio: number;
+}
+
+const TRANSFORM_GLSL = `
+uniform mat3 u_transform;
+uniform vec2 u_resolution;
+vec2 toDevice(vec2 world) { return (u_transform * vec3(world, 1.0)).xy; }
+vec4 toClip(vec2 device) { return vec4(device / u_resolution * vec2(2.0, -2.0) + vec2(-1.0, 1.0), 0.0, 1.0); }
+`;
+
+const CURVE_VERTEX_SHADER = `#version 300 es
+// x: position along the curve (0–1), y: side of the centre line (-1 or 1)
+in vec2 a_vertex;
+in vec2 a_p0;
+in vec2 a_control;
+in vec2 a_p2;
+in float a_width;
+in vec4 a_color;
+uniform float u_pixelRatio;
+out vec4 v_color;
+${TRANSFORM_GLSL}
+void main() {
+  // Affine transforms map Bézier control points to the transformed curve
+  vec2 p0 = toDevice(a_p0);
+  vec2 p1 = toDevice(a_control);
+  vec2 p2 = toDevice(a_p2);
+  float t = a_vertex.x;
+  float u = 1.0 - t;
+  vec2 point = u * u * p0 + 2.0 * u * t * p1 + t * t * p2;
+  vec2 tangent = 2.0 * u * (p1 - p0) + 2.0 * t * (p2 - p1);
+  float len = length(tangent);
+  vec2 normal = len > 0.0 ? vec2(-tangent.y, tangent.x) / len : vec2(0.0);
+  gl_Position = toClip(point + normal * a_vertex.y * a_width * u_pixelRatio * 0.5);
+  v_color = vec4(a_color.rgb * a_color.a, a_color.a);
+}
+`;
+
+const ARROW_VERTEX_SHADER = `#version 300 es
+// x: distance back from the tip in arrow lengths, y: side in half widths, z: 1 for the notch
+in vec3 a_vertex;
+in vec2 a_tip;
+in vec2 a_direction;
+in float a_length;
+in float a_halfWidth;
+in vec4 a_color;
+uniform float u_notch;
+out vec4 v_color;
+${TRANSFORM_GLSL}
+void main() {
+  float back = a_vertex.z > 0.5 ? 1.0 - u_notch : a_vertex.x;
+  vec2 side = vec2(a_direction.y, -a_direction.x);
+  vec2 world = a_tip - a_direction * a_length * back + side * a_halfWidth * a_vertex.y;
+  gl_Position = toClip(toDevice(world));
+  v_color = vec4(a_color.rgb * a_color.a, a_color.a);
+}
+`;
+
+const DISC_VERTEX_SHADER = `#version 300 es
+// Corner of the bounding quad, -1 to 1
+in vec2 a_vertex;
+in vec2 a_center;
+in float a_radius;
+in float a_strokeWidth;
+in vec4 a_fill;
+in vec4 a_stroke;
+out vec2 v_offset;
+out float v_radius;
+out float v_outerRadius;
+out float v_pixel;
+out vec4 v_fill;
+out vec4 v_stroke;
+${TRANSFORM_GLSL}
+void main() {
+  // World size of one device pixel, for anti-aliasing the edges
+  v_pixel = 1.0 / length(u_transform[0].xy);
+  v_radius = a_radius;
+  v_outerRadius = a_radius + a_strokeWidth;
+  v_offset = a_vertex * (v_outerRadius + v_pixel);
+  gl_Position = toClip(toDevice(a_center + v_offset));
+  v_fill = vec4(a_fill.rgb * a_fill.a, a_fill.a);
+  v_stroke = vec4(a_stroke.rgb * a_stroke.a, a_stroke.a);
+}
+`;
+
+const COLOR_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  outColor = v_color;
+}
+`;
+
+const DISC_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_offset;
+in float v_radius;
+in float v_outerRadius;
+in float v_pixel;
+in vec4 v_fill;
+in vec4 v_stroke;
+out vec4 outColor;
+void main() {
+  float distance = length(v_offset);
+  float edge = v_pixel * 0.5;
+  float coverage = 1.0 - smoothstep(v_outerRadius - edge, v_outerRadius + edge, distance);
+  float border = smoothstep(v_radius - edge, v_radius + edge, distance);
+  outColor = mix(v_fill, v_stroke, border) * coverage;
+  if (outColor.a <= 0.0) discard;
+}
+`;
+
+/** Per-vertex geometry shared by every instance, and the instance attribute layout */
+interface PrimitiveSpec {
+  vertexShader: string;
+  fragmentShader: string;
+  mode: 'TRIANGLES' | 'TRIANGLE_STRIP';
+  vertices: Float32Array;
+  vertexSize: number;
+  /** Instance attributes in buffer order, with their float counts */
+  attributes: [name: string, size: number][];
+}
+
+interface Primitive {
+  program: WebGLProgram;
+  vertexArray: WebGLVertexArrayObject;
+  instanceBuffer: WebGLBuffer;
+  vertexBuffer: WebGLBuffer;
+  mode: number;
+  vertexCount: number;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+function curveVertices(): Float32Array {
+  const vertices: number[] = [];
+  for (let i = 0; i <= CURVE_SEGMENTS; i++) {
+    const t = i / CURVE_SEGMENTS;
+    vertices.push(t, -1, t, 1);
+  }
+  return new Float32Array(vertices);
+}
+
+const CURVES: PrimitiveSpec = {
+  vertexShader: CURVE_VERTEX_SHADER,
+  fragmentShader: COLOR_FRAGMENT_SHADER,
+  mode: 'TRIANGLE_STRIP',
+  vertices: curveVertices(),
+  vertexSize: 2,
+  attributes: [['a_p0', 2], ['a_control', 2], ['a_p2', 2], ['a_width', 1], ['a_color', 4]],
+};
+
+const ARROWS: PrimitiveSpec = {
+  vertexShader: ARROW_VERTEX_SHADER,
+  fragmentShader: COLOR_FRAGMENT_SHADER,
+  mode: 'TRIANGLES',
+  // Tip, wing, notch, then tip, notch, other wing
+  vertices: new Float32Array([0, 0, 0, 1, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 1, -1, 0]),
+  vertexSize: 3,
+  attributes: [['a_tip', 2], ['a_direction', 2], ['a_length', 1], ['a_halfWidth', 1], ['a_color', 4]],
+};
+
+const DISCS: PrimitiveSpec = {
+  vertexShader: DISC_VERTEX_SHADER,
+  fragmentShader: DISC_FRAGMENT_SHADER,
+  mode: 'TRIANGLE_STRIP',
+  vertices: new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+  vertexSize: 2,
+  attributes: [['a_center', 2], ['a_radius', 1], ['a_strokeWidth', 1], ['a_fill', 4], ['a_stroke', 4]],
+};
+
+const UNIFORMS = ['u_transform', 'u_resolution', 'u_pixelRatio', 'u_notch'];
+
+/**
+ * Draws a frame's discs, curves and arrowheads with instanced WebGL2 into its
+ * own canvas, which is layered underneath the 2D canvas that draws labels.
+ */
+export class WebGLGraphRenderer {
+  readonly batch = new WebGLBatch();
+
+  private curves: Primitive;
+
+  private arrows: Primitive;
+
+  private discs: Primitive;
+
+  /**
+   * @param canvas - Canvas to draw into
+   * @returns The renderer, or null if WebGL2 is unavailable or the shaders fail to build
+   */
+  static create(canvas: HTMLCanvasElement): WebGLGraphRenderer | null {
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: true });
+    if (!gl) return null;
+    try {
+      return new WebGLGraphRenderer(canvas, gl);
+    } catch (error) {
+      console.error('[FalkorDBCanvas] Failed to set up the WebGL renderer:', error);
+      return null;
+    }
+  }
+
+  private constructor(readonly canvas: HTMLCanvasElement, private readonly gl: WebGL2RenderingContext) {
+    this.curves = this.createPrimitive(CURVES);
+    this.arrows = this.createPrimitive(ARROWS);
+    this.discs = this.createPrimitive(DISCS);
+  }
+
+  /**
+   * Resize the drawing buffer.
+   * @param width - Width in device pixels
+   * @param height - Height in device pixels
+   * @param pixelRatio - Device pixels per CSS pixel
+   */
+  setSize(width: number, height: number, pixelRatio: number) {
+    if (this.canvas.width !== width) this.canvas.width = width;
+    if (this.canvas.height !== height) this.canvas.height = height;
+    this.canvas.style.width = `${width / pixelRatio}px`;
+    this.canvas.style.height = `${height / pixelRatio}px`;
+  }
+
+  /** Clear to the background and draw everything in `batch`. */
+  render(view: WebGLView) {
+    const { gl } = this;
+    const { width, height } = this.canvas;
+    gl.viewport(0, 0, width, height);
+    const [r, g, b, a] = parseColor(view.background);
+    gl.clearColor(r * a, g * a, b * a, a);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    const { a: ta, b: tb, c: tc, d: td, e: te, f: tf } = view.transform;
+    // Column-major 3×3 affine matrix
+    const transform = new Float32Array([ta, tb, 0, tc, td, 0, te, tf, 1]);
+    const draw = (primitive: Primitive, instances: InstanceBuffer) => {
+      if (instances.count === 0) return;
+      gl.useProgram(primitive.program);
+      gl.uniformMatrix3fv(primitive.uniforms.get('u_transform') ?? null, false, transform);
+      gl.uniform2f(primitive.uniforms.get('u_resolution') ?? null, width, height);
+      gl.uniform1f(primitive.uniforms.get('u_pixelRatio') ?? null, view.pixelRatio);
+      gl.uniform1f(primitive.uniforms.get('u_notch') ?? null, view.arrowNotchRatio);
+      gl.bindBuffer(gl.ARRAY_BUFFER, primitive.instanceBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, instances.view(), gl.DYNAMIC_DRAW);
+      gl.bindVertexArray(primitive.vertexArray);
+      gl.drawArraysInstanced(primitive.mode, 0, primitive.vertexCount, instances.count);
+    };
+    draw(this.curves, this.batch.curves);
+    draw(this.arrows, this.batch.arrows);
+    draw(this.discs, this.batch.discs);
+    gl.bindVertexArray(null);
+  }
+
+  /** Release GPU resources. */
+  dispose() {
+    const { gl } = this;
+    for (const primitive of [this.curves, this.arrows, this.discs]) {
+      gl.deleteVertexArray(primitive.vertexArray);
+      gl.deleteBuffer(primitive.vertexBuffer);
+      gl.deleteBuffer(primitive.instanceBuffer);
+      gl.deleteProgram(primitive.program);
+    }
+  }
+
+  private createPrimitive(spec: PrimitiveSpec): Primitive {
+    const { gl } = this;
+    const program = this.createProgram(spec.vertexShader, spec.fragmentShader);
+    const vertexArray = gl.createVertexArray();
+    const vertexBuffer = gl.createBuffer();
+    const instanceBuffer = gl.createBuffer();
+    if (!vertexArray || !vertexBuffer || !instanceBuffer) throw new Error('Failed to allocate WebGL buffers');
+    gl.bindVertexArray(vertexArray);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, spec.vertices, gl.STATIC_DRAW);
+    const vertexLocation = gl.getAttribLocation(program, 'a_vertex');
+    gl.enableVertexAttribArray(vertexLocation);
+    gl.vertexAttribPointer(vertexLocation, spec.vertexSize, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    const stride = spec.attributes.reduce((sum, [, size]) => sum + size, 0);
+    let offset = 0;
+    for (const [name, size] of spec.attributes) {
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+      offset += size;
+    }
+    gl.bindVertexArray(null);
+
+    const uniforms = new Map(UNIFORMS.map(name => [name, gl.getUniformLocation(program, name)]));
+    return {
+      program,
+      vertexArray,
+      vertexBuffer,
+      instanceBuffer,
+      mode: gl[spec.mode],
+      vertexCount: spec.vertices.length / spec.vertexSize,
+      uniforms,
+    };
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+    const { gl } = this;
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create WebGL program');
+    gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertexSource));
+    gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  private compileShader(type: number, source: string): WebGLShader {
+    const { gl } = this;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create WebGL shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Failed to compile WebGL shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { GraphAnalytics } from "../src/analytics";
+import type { GraphData, GraphLink, GraphNode } from "../src/canvas-types";
+
+function node(id: number): GraphNode {
+  return { id, labels: [], visible: true, expand: [false, new Date(0)], displayName: ["", ""], size: 10, data: {} };
+}
+
+/** Links between nodes by id, numbered from 100 */
+function graph(nodeIds: number[], links: [number, number][]): GraphData {
+  const nodes = nodeIds.map(node);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  return {
+    nodes,
+    links: links.map(([source, target], i): GraphLink => ({
+      id: 100 + i, relationship: "R", source: byId.get(source)!, target: byId.get(target)!, visible: true, curve: 0, data: {},
+    })),
+  };
+}
+
+/** Cycle 1 → 2 → 3 → 1, a tail 3 → 4 → 5 and node 6 on its own */
+const sample = () => graph([1, 2, 3, 4, 5, 6], [[1, 2], [2, 3], [3, 1], [3, 4], [4, 5]]);
+
+describe("GraphAnalytics", () => {
+  it("counts in, out and total degree", () => {
+    const degree = new GraphAnalytics(sample()).getDegree();
+
+    expect(degree.get(3)).toEqual({ in: 1, out: 2, total: 3 });
+    expect(degree.get(5)).toEqual({ in: 1, out: 0, total: 1 });
+    expect(degree.get(6)).toEqual({ in: 0, out: 0, total: 0 });
+  });
+
+  it("normalizes betweenness, optionally following link direction", () => {
+    const undirected = new GraphAnalytics(sample()).getBetweenness();
+    expect(undirected.get(3)).toBeCloseTo(0.4);
+    expect(undirected.get(4)).toBeCloseTo(0.3);
+    expect(undirected.get(1)).toBe(0);
+
+    // 2 → 1 now also runs through 3
+    const directed = new GraphAnalytics(sample(), { directed: true }).getBetweenness();
+    expect(directed.get(3)).toBeCloseTo(0.25);
+  });
+
+  it("scales closeness by the share of the graph a node reaches", () => {
+    const closeness = new GraphAnalytics(sample()).getCloseness();
+
+    expect(closeness.get(3)).toBeCloseTo(0.64);
+    expect(closeness.get(6)).toBe(0);
+  });
+
+  it("ranks pages along link direction", () => {
+    const cycle = new GraphAnalytics(graph([1, 2, 3], [[1, 2], [2, 3], [3, 1]])).getPageRank();
+    for (const rank of cycle.values()) expect(rank).toBeCloseTo(1 / 3);
+
+    const star = new GraphAnalytics(graph([1, 2, 3, 4], [[2, 1], [3, 1], [4, 1]])).getPageRank();
+    const ranks = [...star.values()];
+    expect(ranks.reduce((sum, rank) => sum + rank, 0)).toBeCloseTo(1);
+    expect(ranks[0]).toBeGreaterThan(ranks[1]);
+  });
+
+  it("finds connected and strongly connected components", () => {
+    const analytics = new GraphAnalytics(sample());
+
+    expect(analytics.getComponents()).toEqual([[1, 2, 3, 4, 5], [6]]);
+    expect(analytics.getStronglyConnectedComponents()).toEqual([[1, 2, 3], [4], [5], [6]]);
+    expect([...analytics.getNodeMetric("stronglyConnectedComponent").values()]).toEqual([0, 0, 0, 1, 2, 3]);
+  });
+
+  it("summarizes the graph", () => {
+    expect(new GraphAnalytics(sample()).getStats()).toEqual({
+      nodeCount: 6,
+      linkCount: 5,
+      density: 5 / 15,
+      averageDegree: 10 / 6,
+      componentCount: 2,
+      diameter: 3,
+    });
+  });
+
+  it("analyzes visible elements only", () => {
+    const data = sample();
+    data.nodes[2].visible = false;
+    data.links[0].visible = false;
+    const analytics = new GraphAnalytics(data);
+
+    expect(analytics.getComponents()).toEqual([[4, 5], [1], [2], [6]]);
+    expect(analytics.getDegree().has(3)).toBe(false);
+    expect(analytics.getStats().linkCount).toBe(1);
+  });
+
+  it("counts parallel links for degree but not for shortest paths", () => {
+    const data = sample();
+    data.links.push({ ...data.links[3], id: 200 });
+    const analytics = new GraphAnalytics(data);
+
+    expect(analytics.getNodeMetric("outDegree").get(3)).toBe(3);
+    expect(analytics.getBetweenness().get(3)).toBeCloseTo(0.4);
+    expect(analytics.getStats().density).toBeCloseTo(5 / 15);
+  });
+
+  it("computes each result once", () => {
+    const analytics = new GraphAnalytics(sample());
+
+    expect(analytics.getPageRank()).toBe(analytics.getPageRank());
+    expect(analytics.getNodeMetric("betweenness")).toBe(analytics.getBetweenness());
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetForceGraphMockState } from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** A hub linked to three leaves; fresh copy per test */
+const data = (): Data => structuredClone({
+  nodes: [1, 2, 3, 4].map(id => ({ id, labels: ["Person"], visible: true, data: {} })),
+  links: [2, 3, 4].map(target => ({ id: 10 + target, relationship: "KNOWS", source: 1, target, visible: true, data: {} })),
+});
+
+function createCanvas(): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600 });
+  canvas.setData(data());
+  return canvas;
+}
+
+describe("analytics", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("keeps results until the graph changes", async () => {
+    const canvas = createCanvas();
+    const analytics = canvas.getAnalytics();
+
+    expect(canvas.getAnalytics()).toBe(analytics);
+    expect(canvas.getAnalytics({ directed: true })).not.toBe(analytics);
+    expect(analytics.getDegree().get(1)?.total).toBe(3);
+
+    canvas.addLinks([{ id: 20, relationship: "KNOWS", source: 2, target: 3, visible: true, data: {} }]);
+    await Promise.resolve();
+
+    expect(canvas.getAnalytics()).not.toBe(analytics);
+    expect(canvas.getAnalytics().getDegree().get(2)?.total).toBe(2);
+  });
+
+  it("follows visibility changes", () => {
+    const canvas = createCanvas();
+    expect(canvas.getAnalytics().getStats().componentCount).toBe(1);
+
+    canvas.updateNode(1, { visible: false });
+    expect(canvas.getAnalytics().getStats().componentCount).toBe(3);
+
+    canvas.getGraphData().nodes[0].visible = true;
+    canvas.refresh();
+    expect(canvas.getAnalytics().getStats().componentCount).toBe(1);
+  });
+
+  it("drives scales from a metric", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ scales: { nodeSize: { metric: "degree", range: [5, 15] } } });
+
+    expect(canvas.getGraphData().nodes.map(node => node.size)).toEqual([15, 5, 5, 5]);
+    expect(canvas.getScaleLegend()[0]).toMatchObject({ channel: "nodeSize", property: "degree" });
+  });
+});
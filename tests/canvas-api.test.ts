@@ -256,6 +256,120 @@ describe("node-mode and link-mode attributes", () => {
   });
 });
 
+describe("declarative attributes and properties", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("reads configuration from attributes present in the markup", () => {
+    document.body.innerHTML = `<falkordb-canvas
+      layout-mode="tree"
+      background-color="#101010"
+      foreground-color="#fafafa"
+      pin-on-drag-end
+      captions-keys="name,title"
+      dim-opacity="0.3"
+      dimmed></falkordb-canvas>`;
+    const canvas = document.querySelector("falkordb-canvas") as CanvasElement;
+
+    expect(canvas.layoutMode).toBe("tree");
+    expect(canvas.backgroundColor).toBe("#101010");
+    expect(canvas.foregroundColor).toBe("#fafafa");
+    expect(canvas.pinOnDragEnd).toBe(true);
+    expect(canvas.captionsKeys).toEqual([["name", false], ["title", false]]);
+    expect(canvas.dimOpacity).toBe(0.3);
+    expect(canvas.dimmed).toBe(true);
+  });
+
+  it("applies attribute changes through the imperative setters", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+    const instance = getLastInstance();
+
+    canvas.setAttribute("background-color", "#123456");
+    expect(instance.backgroundColorValue).toBe("#123456");
+
+    canvas.setAttribute("layout-mode", "radial");
+    expect(canvas.getGraphData().nodes.every((n) => n.fx !== undefined)).toBe(true);
+
+    canvas.setAttribute("width", "1024");
+    expect(instance.widthValue).toBe(1024);
+  });
+
+  it("accepts JSON captions-keys with exact-match tuples", () => {
+    const canvas = createCanvas();
+    canvas.setAttribute("captions-keys", '[["Name", true], "title"]');
+    expect(canvas.captionsKeys).toEqual([["Name", true], ["title", false]]);
+  });
+
+  it("treats boolean attributes set to \"false\" or removed as false", () => {
+    const canvas = createCanvas();
+    canvas.setAttribute("dimmed", "");
+    expect(canvas.dimmed).toBe(true);
+    canvas.setAttribute("dimmed", "false");
+    expect(canvas.dimmed).toBe(false);
+    canvas.setAttribute("dimmed", "true");
+    canvas.removeAttribute("dimmed");
+    expect(canvas.dimmed).toBe(false);
+  });
+
+  it("ignores unknown layout modes", () => {
+    const canvas = createCanvas();
+    canvas.setAttribute("layout-mode", "spiral");
+    expect(canvas.layoutMode).toBe("force");
+  });
+
+  it("reflects setter calls back onto attributes", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+
+    canvas.setBackgroundColor("#abcdef");
+    canvas.setLayout("tree");
+    canvas.setAnimation(true);
+    canvas.setConfig({ captionsKeys: [["name", true]], dimOpacity: 0.5 });
+
+    expect(canvas.getAttribute("background-color")).toBe("#abcdef");
+    expect(canvas.getAttribute("layout-mode")).toBe("tree");
+    // Tree layout pins nodes, which is reflected too
+    expect(canvas.hasAttribute("pin-on-drag-end")).toBe(true);
+    expect(canvas.hasAttribute("animation")).toBe(true);
+    expect(canvas.getAttribute("captions-keys")).toBe('[["name",true]]');
+    expect(canvas.getAttribute("dim-opacity")).toBe("0.5");
+    expect(canvas.getAttribute("width")).toBe("800");
+
+    canvas.setAnimation(false);
+    expect(canvas.hasAttribute("animation")).toBe(false);
+  });
+
+  it("property setters route through the same paths as the methods", () => {
+    const onLayoutChange = vi.fn();
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, eventHandlers: { onLayoutChange } });
+    canvas.setData(SIMPLE_DATA);
+    const instance = getLastInstance();
+
+    canvas.layoutMode = "tree";
+    canvas.foregroundColor = "#eeeeee";
+    canvas.backgroundColor = "#000000";
+    canvas.nodeMode = "after";
+
+    expect(onLayoutChange).toHaveBeenCalledTimes(1);
+    expect(onLayoutChange).toHaveBeenCalledWith("tree");
+    expect(instance.backgroundColorValue).toBe("#000000");
+    expect(canvas.getAttribute("foreground-color")).toBe("#eeeeee");
+    expect(canvas.getAttribute("node-mode")).toBe("after");
+  });
+
+  it("normalizes plain-string captionsKeys from setConfig", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ captionsKeys: ["name", ["title", true]] });
+    expect(canvas.captionsKeys).toEqual([["name", false], ["title", true]]);
+  });
+});
+
 describe("setAnimation interactions", () => {
   afterEach(() => {
     document.body.innerHTML = "";
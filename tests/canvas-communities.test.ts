@@ -0,0 +1,121 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+import { createRecordingContext } from "./mocks/canvas-context";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, GraphNode } from "../src/canvas-types";
+import { DEFAULT_LABEL_PALETTE, DEFAULT_NODE_COLOR } from "../src/canvas-utils";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Triangles 1-2-3 and 4-5-6 joined by the link 3–4; node 1 has its own color */
+const DATA: Data = {
+  nodes: [1, 2, 3, 4, 5, 6].map(id => ({
+    id,
+    labels: ["Person"],
+    visible: true,
+    ...(id === 1 ? { color: "#f00" } : {}),
+    data: { name: `n${id}` },
+  })),
+  links: [[1, 2], [2, 3], [3, 1], [4, 5], [5, 6], [6, 4], [3, 4]].map(([source, target], i) => ({
+    id: 100 + i,
+    relationship: "KNOWS",
+    source,
+    target,
+    visible: true,
+    color: "#888",
+    data: {},
+  })),
+};
+
+function createCanvas(): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600 });
+  return canvas;
+}
+
+/** Fill color of the node circle as drawn by nodeCanvasObject */
+function drawnFill(node: GraphNode): string {
+  const { ctx, sets } = createRecordingContext();
+  node.x = 0;
+  node.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.nodeCanvasObject!(node, ctx);
+  return sets.fillStyle[0] as string;
+}
+
+describe("communities", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("lists the detected communities with their colors", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    expect(canvas.getCommunities()).toEqual([
+      { id: 0, nodeIds: [1, 2, 3], color: DEFAULT_LABEL_PALETTE[0] },
+      { id: 1, nodeIds: [4, 5, 6], color: DEFAULT_LABEL_PALETTE[1] },
+    ]);
+    expect(canvas.getNodeCommunity(5)?.id).toBe(1);
+    expect(canvas.getNodeCommunity(99)).toBeUndefined();
+  });
+
+  it("detects communities again after the graph changes", async () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+    expect(canvas.getCommunities()).toHaveLength(2);
+
+    canvas.removeNodes([4, 5, 6]);
+    await Promise.resolve();
+
+    expect(canvas.getCommunities()).toEqual([{ id: 0, nodeIds: [1, 2, 3], color: DEFAULT_LABEL_PALETTE[0] }]);
+  });
+
+  it("adds the community forces only while enabled", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+    const instance = forceGraphMockState.lastInstance!;
+    expect(instance.forceMap.get("communityAttraction")).toBeFalsy();
+
+    canvas.setConfig({ layoutOptions: { force: { communities: true } } });
+    expect(instance.forceMap.get("communityAttraction")).toBeTypeOf("function");
+    expect(instance.forceMap.get("communitySeparation")).toBeTypeOf("function");
+
+    canvas.setLayoutOptions({ force: { communities: false } });
+    expect(instance.forceMap.get("communityAttraction")).toBeNull();
+    expect(instance.forceMap.get("communitySeparation")).toBeNull();
+  });
+
+  it("colors nodes without a color by community when enabled", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+    const [colored, uncolored, , other] = canvas.getGraphData().nodes;
+
+    expect(drawnFill(uncolored)).toBe(DEFAULT_NODE_COLOR);
+
+    canvas.setConfig({ layoutOptions: { force: { colorByCommunity: true } } });
+    expect(drawnFill(colored)).toBe("#f00");
+    expect(drawnFill(uncolored)).toBe(DEFAULT_LABEL_PALETTE[0]);
+    expect(drawnFill(other)).toBe(DEFAULT_LABEL_PALETTE[1]);
+  });
+});
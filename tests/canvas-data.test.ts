@@ -1,5 +1,6 @@
 import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 import {
+  forceGraphMockState,
   resetForceGraphMockState,
 } from "./mocks/force-graph";
 
@@ -265,3 +266,258 @@ describe("setGraphData incremental updates", () => {
     expect(ids).not.toContain(2);
   });
 });
+
+describe("incremental mutations", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  const node = (id: number) => ({ id, labels: ["A"], visible: true, color: "#f00", data: { name: `n${id}` } });
+  const link = (id: number, source: number, target: number) => ({
+    id, relationship: "REL", source, target, visible: true, color: "#888", data: {},
+  });
+
+  function setupCanvas() {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData({ nodes: [node(1), node(2)], links: [link(1, 1, 2)] });
+    return canvas;
+  }
+
+  it("adds nodes and links, placing new nodes near their parent", async () => {
+    const canvas = setupCanvas();
+    const parent = canvas.getGraphData().nodes[0];
+    parent.x = 500;
+    parent.y = 500;
+
+    canvas.addNodes([node(3)]);
+    canvas.addLinks([link(2, 1, 3)]);
+    await Promise.resolve();
+
+    const data = canvas.getData();
+    expect(data.nodes.map((n) => n.id)).toEqual([1, 2, 3]);
+    expect(data.links.map((l) => [l.source, l.target])).toEqual([[1, 2], [1, 3]]);
+
+    const added = canvas.getGraphData().nodes.find((n) => n.id === 3)!;
+    expect(Math.hypot(added.x! - 500, added.y! - 500)).toBeLessThanOrEqual(70);
+  });
+
+  it("batches mutations in the same task into one graph update", async () => {
+    const canvas = setupCanvas();
+    const instance = forceGraphMockState.lastInstance!;
+    const graphDataSpy = vi.spyOn(instance, "graphData");
+    const reheats = instance.d3ReheatSimulationCalls;
+
+    canvas.addNodes([node(3), node(4)]);
+    canvas.addLinks([link(2, 2, 3), link(3, 3, 4)]);
+    canvas.removeLinks([1]);
+    canvas.updateNode(1, { color: "#00f" });
+    expect(graphDataSpy).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+
+    expect(graphDataSpy.mock.calls.filter((args) => args.length > 0)).toHaveLength(1);
+    expect(instance.d3ReheatSimulationCalls - reheats).toBeLessThanOrEqual(1);
+  });
+
+  it("removes nodes together with their links", async () => {
+    const canvas = setupCanvas();
+    canvas.addNodes([node(3)]);
+    canvas.addLinks([link(2, 2, 3), link(3, 1, 3)]);
+    canvas.removeNodes([3]);
+    await Promise.resolve();
+
+    const data = canvas.getData();
+    expect(data.nodes.map((n) => n.id)).toEqual([1, 2]);
+    expect(data.links.map((l) => l.id)).toEqual([1]);
+  });
+
+  it("re-curves parallel edges as they are added and removed", () => {
+    const canvas = setupCanvas();
+    canvas.addLinks([link(2, 2, 1), link(3, 1, 2)]);
+
+    const curves = () => canvas.getGraphData().links.map((l) => [l.id, l.curve]);
+    canvas.setData(canvas.getData());
+    const rebuilt = curves();
+
+    canvas.removeLinks([1]);
+    const afterRemoval = canvas.getGraphData().links;
+    expect(afterRemoval.map((l) => l.id)).toEqual([2, 3]);
+    expect(afterRemoval.map((l) => l.curve)).toEqual([rebuilt[0][1], rebuilt[1][1]]);
+
+    canvas.addLinks([link(4, 1, 2)]);
+    expect(canvas.getGraphData().links.find((l) => l.id === 4)!.curve).toBe(rebuilt[2][1]);
+  });
+
+  it("updates a node in place without moving it", async () => {
+    const canvas = setupCanvas();
+    const target = canvas.getGraphData().nodes[1];
+    target.x = 12;
+    target.y = 34;
+
+    canvas.updateNode(2, { color: "#0000ff", data: { name: "renamed" }, expand: true });
+    await Promise.resolve();
+
+    const updated = canvas.getGraphData().nodes[1];
+    expect(updated).toBe(target);
+    expect(updated).toMatchObject({ x: 12, y: 34, color: "#0000ff", data: { name: "renamed" } });
+    expect(updated.expand[0]).toBe(true);
+  });
+
+  it("rejects duplicate ids and links to unknown nodes", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const canvas = setupCanvas();
+
+    canvas.addNodes([node(1)]);
+    canvas.addLinks([link(1, 1, 2), link(5, 1, 99)]);
+    canvas.updateNode(99, { color: "#000" });
+
+    expect(canvas.getData().nodes).toHaveLength(2);
+    expect(canvas.getData().links).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledTimes(4);
+    consoleError.mockRestore();
+  });
+
+  it("recomputes deterministic layouts once per batch", async () => {
+    const canvas = setupCanvas();
+    canvas.setLayout("tree");
+    const instance = forceGraphMockState.lastInstance!;
+    const graphDataSpy = vi.spyOn(instance, "graphData");
+
+    canvas.addNodes([node(3)]);
+    canvas.addLinks([link(2, 2, 3)]);
+    await Promise.resolve();
+
+    expect(graphDataSpy.mock.calls.filter((args) => args.length > 0)).toHaveLength(1);
+    const [n2, n3] = [2, 3].map((id) => canvas.getGraphData().nodes.find((n) => n.id === id)!);
+    // Child sits one level below its parent in the top-down tree
+    expect(n3.y!).toBeGreaterThan(n2.y!);
+  });
+});
+
+describe("string and large identifiers", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  // Larger than Number.MAX_SAFE_INTEGER — would collide if coerced to a number
+  const BIG_A = "9007199254740993";
+  const BIG_B = "9007199254740995";
+
+  it("resolves links between string-keyed nodes and round-trips the ids", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+
+    canvas.setData({
+      nodes: [
+        { id: "a1f0-uuid", labels: ["A"], visible: true, color: "#f00", data: {} },
+        { id: "b7c2-uuid", labels: ["B"], visible: true, color: "#0f0", data: {} },
+      ],
+      links: [
+        { id: "e-1", relationship: "REL", source: "a1f0-uuid", target: "b7c2-uuid", visible: true, color: "#888", data: {} },
+      ],
+    });
+
+    const link = canvas.getGraphData().links[0];
+    expect(link.source.id).toBe("a1f0-uuid");
+    expect(link.target.id).toBe("b7c2-uuid");
+
+    const output = canvas.getData();
+    expect(output.links[0]).toMatchObject({ id: "e-1", source: "a1f0-uuid", target: "b7c2-uuid" });
+  });
+
+  it("keeps ids beyond MAX_SAFE_INTEGER distinct", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+
+    canvas.setData({
+      nodes: [
+        { id: BIG_A, labels: ["A"], visible: true, color: "#f00", data: {} },
+        { id: BIG_B, labels: ["B"], visible: true, color: "#0f0", data: {} },
+      ],
+      links: [
+        { id: BIG_A, relationship: "REL", source: BIG_A, target: BIG_B, visible: true, color: "#888", data: {} },
+      ],
+    });
+
+    const { nodes, links } = canvas.getGraphData();
+    expect(nodes).toHaveLength(2);
+    expect(links[0].source).toBe(nodes[0]);
+    expect(links[0].target).toBe(nodes[1]);
+  });
+
+  it("treats numeric and string ids with the same digits as different nodes", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+
+    canvas.setData({
+      nodes: [
+        { id: 1, labels: ["A"], visible: true, color: "#f00", data: {} },
+        { id: "1", labels: ["B"], visible: true, color: "#0f0", data: {} },
+      ],
+      links: [
+        { id: 1, relationship: "REL", source: 1, target: "1", visible: true, color: "#888", data: {} },
+      ],
+    });
+
+    const link = canvas.getGraphData().links[0];
+    expect(link.source.labels).toEqual(["A"]);
+    expect(link.target.labels).toEqual(["B"]);
+  });
+
+  it("curves parallel string-keyed edges in either direction consistently", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+
+    canvas.setData({
+      nodes: [
+        { id: "x", labels: ["A"], visible: true, color: "#f00", data: {} },
+        { id: "y", labels: ["B"], visible: true, color: "#0f0", data: {} },
+      ],
+      links: [
+        { id: "l1", relationship: "REL", source: "x", target: "y", visible: true, color: "#888", data: {} },
+        { id: "l2", relationship: "REL", source: "y", target: "x", visible: true, color: "#888", data: {} },
+      ],
+    });
+
+    const [first, second] = canvas.getGraphData().links;
+    expect(Math.abs(first.curve)).toBe(0);
+    expect(second.curve).not.toBe(0);
+  });
+
+  it("preserves string-keyed node positions across setGraphData", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    const node = { id: BIG_A, labels: ["A"], visible: true, color: "#f00", data: {} };
+
+    canvas.setData({ nodes: [node], links: [] });
+    const original = canvas.getGraphData().nodes[0];
+    original.x = 12;
+    original.y = 34;
+
+    canvas.setGraphData({ nodes: [node, { id: BIG_B, labels: ["B"], visible: true, color: "#0f0", data: {} }], links: [] });
+    const reused = canvas.getGraphData().nodes.find((n) => n.id === BIG_A);
+    expect(reused).toBe(original);
+    expect(reused!.x).toBe(12);
+  });
+
+  it("lays out string-keyed graphs with the tree layout", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData({
+      nodes: [
+        { id: "root", labels: ["A"], visible: true, color: "#f00", data: {} },
+        { id: "child", labels: ["B"], visible: true, color: "#0f0", data: {} },
+      ],
+      links: [
+        { id: "e", relationship: "REL", source: "root", target: "child", visible: true, color: "#888", data: {} },
+      ],
+    });
+
+    canvas.setLayout("tree");
+    const [root, child] = canvas.getGraphData().nodes;
+    expect(root.fy).toBeLessThan(child.fy!);
+  });
+});
@@ -80,7 +80,7 @@ describe("event handler binding", () => {
     const event = new MouseEvent("click");
 
     instance.callbacks.onLinkClick?.(link, event);
-    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 1, relationship: "KNOWS" }), event);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 1, relationship: "KNOWS" }), event, [link]);
   });
 
   it("onNodeRightClick fires handler", () => {
@@ -130,9 +130,9 @@ describe("event handler binding", () => {
 
     const instance = getLastInstance();
     const graphData = canvas.getGraphData();
-    // Canvas wraps onLinkHover to pass only (link) — not (link, previousLink)
+    // Canvas wraps onLinkHover to pass (link, links) — not (link, previousLink)
     instance.callbacks.onLinkHover?.(graphData.links[0], null);
-    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 1, relationship: "KNOWS" }));
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 1, relationship: "KNOWS" }), [graphData.links[0]]);
   });
 
   it("onBackgroundClick fires handler", () => {
@@ -255,3 +255,126 @@ describe("event handler updates via setConfig", () => {
     expect(node.fy).toBeDefined();
   });
 });
+
+describe("DOM CustomEvents", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("dispatches node-click with the node and mouse event in detail", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+
+    const listener = vi.fn();
+    canvas.addEventListener("node-click", listener);
+
+    const node = canvas.getGraphData().nodes[0];
+    const event = new MouseEvent("click");
+    getLastInstance().callbacks.onNodeClick?.(node, event);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const dispatched = listener.mock.calls[0][0] as CustomEvent;
+    expect(dispatched.detail.node).toBe(node);
+    expect(dispatched.detail.event).toBe(event);
+    expect(dispatched.bubbles).toBe(true);
+    expect(dispatched.composed).toBe(true);
+  });
+
+  it("supports multiple listeners alongside the eventHandlers callback", () => {
+    const handler = vi.fn();
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, eventHandlers: { onLinkClick: handler } });
+    canvas.setData(SIMPLE_DATA);
+
+    const first = vi.fn();
+    const second = vi.fn();
+    canvas.addEventListener("link-click", first);
+    canvas.addEventListener("link-click", second);
+
+    const link = canvas.getGraphData().links[0];
+    getLastInstance().callbacks.onLinkClick?.(link, new MouseEvent("click"));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("bubbles to ancestors of the element", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+
+    const listener = vi.fn();
+    document.body.addEventListener("node-hover", listener);
+    getLastInstance().callbacks.onNodeHover?.(null, null);
+    document.body.removeEventListener("node-hover", listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({ node: null });
+  });
+
+  it("dispatches zoom, engine-stop and link-hover from force-graph callbacks", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+    const instance = getLastInstance();
+
+    const zoom = vi.fn();
+    const engineStop = vi.fn();
+    const linkHover = vi.fn();
+    canvas.addEventListener("zoom", zoom);
+    canvas.addEventListener("engine-stop", engineStop);
+    canvas.addEventListener("link-hover", linkHover);
+
+    // Re-bind so onEngineStop is the regular handler rather than the warmup one
+    canvas.setConfig({ eventHandlers: {} });
+    instance.callbacks.onZoom?.({ k: 2, x: 1, y: 3 });
+    instance.callbacks.onEngineStop?.();
+    const link = canvas.getGraphData().links[0];
+    instance.callbacks.onLinkHover?.(link, null);
+
+    expect((zoom.mock.calls[0][0] as CustomEvent).detail.transform).toEqual({ k: 2, x: 1, y: 3 });
+    expect(engineStop).toHaveBeenCalledTimes(1);
+    expect((linkHover.mock.calls[0][0] as CustomEvent).detail.link).toBe(link);
+  });
+
+  it("dispatches layout-change and pin-change when switching layouts", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+
+    const layoutChange = vi.fn();
+    const pinChange = vi.fn();
+    canvas.addEventListener("layout-change", layoutChange);
+    canvas.addEventListener("pin-change", pinChange);
+
+    canvas.setLayout("tree");
+    expect((layoutChange.mock.calls[0][0] as CustomEvent).detail).toEqual({ layout: "tree" });
+    expect((pinChange.mock.calls[0][0] as CustomEvent).detail).toEqual({ pinned: true });
+  });
+
+  it("dispatches node-drag-end and background clicks", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(SIMPLE_DATA);
+    const instance = getLastInstance();
+
+    const dragEnd = vi.fn();
+    const backgroundClick = vi.fn();
+    const backgroundRightClick = vi.fn();
+    canvas.addEventListener("node-drag-end", dragEnd);
+    canvas.addEventListener("background-click", backgroundClick);
+    canvas.addEventListener("background-right-click", backgroundRightClick);
+
+    const node = canvas.getGraphData().nodes[0];
+    instance.callbacks.onNodeDragEnd?.(node, { x: 0, y: 0 });
+    instance.callbacks.onBackgroundClick?.(new MouseEvent("click"));
+    instance.callbacks.onBackgroundRightClick?.(new MouseEvent("contextmenu"));
+
+    expect((dragEnd.mock.calls[0][0] as CustomEvent).detail.node).toBe(node);
+    expect(backgroundClick).toHaveBeenCalledTimes(1);
+    expect(backgroundRightClick).toHaveBeenCalledTimes(1);
+  });
+});
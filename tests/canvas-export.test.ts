@@ -0,0 +1,188 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+  // jsdom has no 2D context; captions are measured with the built-in estimate
+  Object.defineProperty(HTMLCanvasElement.prototype, "getContext", { value: () => null, configurable: true });
+});
+
+function createCanvas(): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  return canvas;
+}
+
+function getLastInstance() {
+  return forceGraphMockState.lastInstance!;
+}
+
+const data: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, color: "#ff0000", data: { name: "Ada" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#00ff00", data: { name: "Grace" } },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", color: "#999999", source: 1, target: 2, visible: true, data: {} },
+  ],
+};
+
+/** Graph with large-graph culling on and the view zoomed out over node 1 only */
+function setupCulledGraph() {
+  const canvas = createCanvas();
+  canvas.setConfig({
+    width: 800,
+    height: 600,
+    captionsKeys: [["name", true]],
+    largeGraph: { enabled: true, lowZoomThreshold: 0.5 },
+  });
+  canvas.setData(data);
+  const [ada, grace] = canvas.getGraphData().nodes;
+  ada.x = 0;
+  ada.y = 0;
+  grace.x = 5000;
+  grace.y = 0;
+  const instance = getLastInstance();
+  instance.zoom(0.2);
+  instance.callbacks.onZoom?.({ k: 0.2, x: 0, y: 0 });
+  return { canvas, instance };
+}
+
+function createExportCtx() {
+  return {
+    setTransform: vi.fn(),
+    fillRect: vi.fn(),
+    beginPath: vi.fn(),
+    arc: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    fillText: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    quadraticCurveTo: vi.fn(),
+    closePath: vi.fn(),
+    setLineDash: vi.fn(),
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    measureText: vi.fn(() => ({
+      width: 10,
+      actualBoundingBoxAscent: 2,
+      actualBoundingBoxDescent: 1,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: 10,
+    })),
+    lineWidth: 1,
+    strokeStyle: "#000",
+    fillStyle: "#000",
+    font: "12px sans-serif",
+    globalAlpha: 1,
+  };
+}
+
+describe("exportImage", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects before the graph is initialized", async () => {
+    // Never connected, so force-graph is not created
+    const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+    await expect(canvas.exportImage()).rejects.toThrow(/before the graph is initialized/);
+  });
+
+  it("exports an SVG with culled nodes and low-zoom captions included", async () => {
+    const { canvas } = setupCulledGraph();
+    expect(canvas.getCullingStats().visibleNodes).toBe(1);
+
+    const blob = await canvas.exportImage({ format: "svg", region: "fit", scale: 2, background: "#123456" });
+    const svg = await blob.text();
+
+    expect(blob.type).toBe("image/svg+xml");
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('fill="#00ff00"');
+    expect(svg).toContain(">Ada</text>");
+    expect(svg).toContain(">Grace</text>");
+    expect(svg).toContain('fill="#123456"');
+
+    // Fit frame spans both nodes at the current zoom; the pixel size doubles it
+    const [, width, height] = /width="([\d.]+)" height="([\d.]+)"/.exec(svg)!.map(Number);
+    const [, viewWidth, viewHeight] = /viewBox="0 0 ([\d.]+) ([\d.]+)"/.exec(svg)!.map(Number);
+    expect(viewWidth).toBeGreaterThan(5000 * 0.2);
+    expect(width).toBeCloseTo(viewWidth * 2, 0);
+    expect(height).toBeCloseTo(viewHeight * 2, 0);
+
+    // The on-screen culling state is untouched
+    expect(canvas.getCullingStats().visibleNodes).toBe(1);
+    expect(canvas.getCullingStats().zoom).toBe(0.2);
+  });
+
+  it("exports the viewport as PNG at the requested pixel ratio", async () => {
+    const { canvas } = setupCulledGraph();
+    const ctx = createExportCtx();
+    const created: HTMLCanvasElement[] = [];
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, "createElement").mockImplementation((tag: string, opts?: ElementCreationOptions) => {
+      const element = createElement(tag, opts);
+      if (tag === "canvas") {
+        created.push(element as HTMLCanvasElement);
+        (element as any).getContext = () => ctx;
+        (element as any).toBlob = (callback: BlobCallback, type: string) => callback(new Blob(["png"], { type }));
+      }
+      return element;
+    });
+
+    const blob = await canvas.exportImage({ scale: 2 });
+
+    expect(blob.type).toBe("image/png");
+    expect(created).toHaveLength(1);
+    expect(created[0].width).toBe(1600);
+    expect(created[0].height).toBe(1200);
+    // Background in pixel space, then the world transform: zoom × pixel ratio, centre mid-frame
+    expect(ctx.setTransform).toHaveBeenNthCalledWith(1, 2, 0, 0, 2, 0, 0);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 800, 600);
+    expect(ctx.setTransform).toHaveBeenNthCalledWith(2, 0.4, 0, 0, 0.4, 800, 600);
+    // Both nodes are drawn even though one is off screen
+    expect(ctx.fillText).toHaveBeenCalledWith("Ada", 0, expect.any(Number));
+    expect(ctx.fillText).toHaveBeenCalledWith("Grace", 5000, expect.any(Number));
+  });
+
+  it("leaves the background transparent when background is null", async () => {
+    const { canvas } = setupCulledGraph();
+    const ctx = createExportCtx();
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, "createElement").mockImplementation((tag: string, opts?: ElementCreationOptions) => {
+      const element = createElement(tag, opts);
+      if (tag === "canvas") {
+        (element as any).getContext = () => ctx;
+        (element as any).toBlob = (callback: BlobCallback) => callback(null);
+      }
+      return element;
+    });
+
+    await expect(canvas.exportImage({ background: null })).rejects.toThrow(/Failed to encode/);
+    expect(ctx.fillRect).not.toHaveBeenCalledWith(0, 0, 800, 600);
+  });
+});
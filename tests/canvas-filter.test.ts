@@ -0,0 +1,131 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetForceGraphMockState } from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, FilterCounts } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Fresh copy per test: the filter writes `visible` on the shared node objects */
+const data = (): Data => structuredClone({
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, data: { age: 40 } },
+    { id: 2, labels: ["Person"], visible: true, data: { age: 30 } },
+    { id: 3, labels: ["Company"], visible: true, data: {} },
+    { id: 4, labels: ["Person"], visible: true, data: { age: 10 } },
+  ],
+  links: [
+    { id: 10, relationship: "WORKS_AT", source: 1, target: 3, visible: true, data: {} },
+    { id: 11, relationship: "KNOWS", source: 1, target: 2, visible: true, data: {} },
+    { id: 12, relationship: "WORKS_AT", source: 2, target: 3, visible: true, data: {} },
+    { id: 13, relationship: "KNOWS", source: 4, target: 1, visible: true, data: {} },
+  ],
+});
+
+function setup(input: Data = data()) {
+  const onFilterChange = vi.fn<(counts: FilterCounts) => void>();
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, eventHandlers: { onFilterChange } });
+  canvas.setData(input);
+  return { canvas, onFilterChange };
+}
+
+function visibleIds(canvas: CanvasElement) {
+  const { nodes, links } = canvas.getGraphData();
+  return {
+    nodes: nodes.filter(node => node.visible).map(node => node.id),
+    links: links.filter(link => link.visible).map(link => link.id),
+  };
+}
+
+describe("filter", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("hides nodes by label and the links attached to them", () => {
+    const { canvas, onFilterChange } = setup();
+    const onEvent = vi.fn();
+    canvas.addEventListener("filter-change", onEvent);
+
+    canvas.setFilter({ nodeLabels: ["Person"] });
+
+    expect(visibleIds(canvas)).toEqual({ nodes: [1, 2, 4], links: [11, 13] });
+    const counts = { visibleNodes: 3, totalNodes: 4, visibleLinks: 2, totalLinks: 4 };
+    expect(onFilterChange).toHaveBeenCalledExactlyOnceWith(counts);
+    expect(onEvent.mock.calls[0][0].detail).toEqual({ counts });
+    expect(canvas.getFilter()).toEqual({ nodeLabels: ["Person"] });
+  });
+
+  it("combines relationship types, predicates and orphan hiding", () => {
+    const { canvas } = setup();
+
+    canvas.setFilter({ relationshipTypes: ["KNOWS"], hideOrphans: true });
+    expect(visibleIds(canvas)).toEqual({ nodes: [1, 2, 4], links: [11, 13] });
+
+    canvas.setFilter({ nodePredicate: node => (node.data.age ?? 0) >= 18, linkPredicate: link => link.id !== 11, hideOrphans: true });
+    expect(visibleIds(canvas)).toEqual({ nodes: [], links: [] });
+
+    canvas.setFilter({ nodePredicate: node => node.id !== 4, hideOrphans: false });
+    expect(visibleIds(canvas)).toEqual({ nodes: [1, 2, 3], links: [10, 11, 12] });
+  });
+
+  it("restores what it hid but keeps elements hidden by their own flag", () => {
+    const input = data();
+    input.nodes[1].visible = false;
+    const { canvas, onFilterChange } = setup(input);
+
+    canvas.setFilter({ nodeLabels: ["Company"] });
+    expect(visibleIds(canvas)).toEqual({ nodes: [3], links: [] });
+
+    canvas.setFilter(null);
+    expect(visibleIds(canvas)).toEqual({ nodes: [1, 3, 4], links: [10, 11, 12, 13] });
+    expect(onFilterChange).toHaveBeenLastCalledWith({ visibleNodes: 3, totalNodes: 4, visibleLinks: 4, totalLinks: 4 });
+  });
+
+  it("filters new and updated elements", async () => {
+    const { canvas, onFilterChange } = setup();
+    canvas.setFilter({ nodeLabels: ["Person"] });
+
+    canvas.addNodes([{ id: 5, labels: ["Company"], visible: true, data: {} }]);
+    canvas.updateNode(4, { labels: ["Company"] });
+    canvas.updateNode(3, { visible: true });
+    await Promise.resolve();
+
+    expect(visibleIds(canvas).nodes).toEqual([1, 2]);
+    expect(onFilterChange).toHaveBeenCalledTimes(2);
+
+    canvas.refresh();
+    expect(onFilterChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("lays out only the visible subgraph with relayout", () => {
+    const { canvas } = setup();
+    canvas.setLayout("circle");
+    const { nodes } = canvas.getGraphData();
+    const company = { x: nodes[2].x, y: nodes[2].y };
+    const person = { x: nodes[0].x, y: nodes[0].y };
+
+    canvas.setFilter({ nodeLabels: ["Person"], relayout: true });
+
+    expect({ x: nodes[2].x, y: nodes[2].y }).toEqual(company);
+    expect({ x: nodes[0].x, y: nodes[0].y }).not.toEqual(person);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetForceGraphMockState } from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Three people in Paris who know each other and work at a company; fresh copy per test */
+const data = (): Data => structuredClone({
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, data: { city: "Paris" } },
+    { id: 2, labels: ["Person"], visible: true, data: { city: "Paris" } },
+    { id: 3, labels: ["Person"], visible: true, data: { city: "Rome" } },
+    { id: 4, labels: ["Company"], visible: true, data: {} },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, data: {} },
+    { id: 11, relationship: "KNOWS", source: 2, target: 3, visible: true, data: {} },
+    { id: 12, relationship: "WORKS_AT", source: 1, target: 4, visible: true, data: {} },
+    { id: 13, relationship: "WORKS_AT", source: 2, target: 4, visible: true, data: {} },
+  ],
+});
+
+function createCanvas(): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600 });
+  canvas.setData(data());
+  return canvas;
+}
+
+function ids(canvas: CanvasElement) {
+  const { nodes, links } = canvas.getGraphData();
+  return { nodes: nodes.map(node => node.id), links: links.map(link => link.id) };
+}
+
+describe("groups", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("collapses matching nodes into a meta-node at their centroid", () => {
+    const canvas = createCanvas();
+    const [first, second] = canvas.getGraphData().nodes;
+    const centroid = { x: (first.x! + second.x!) / 2, y: (first.y! + second.y!) / 2 };
+
+    const id = canvas.collapseGroup({ label: "Person", property: "city", value: "Paris" });
+
+    expect(id).toBe("group:Person city=Paris");
+    expect(canvas.getGroupMembers(id!)).toEqual([1, 2]);
+    expect(ids(canvas)).toEqual({ nodes: [3, 4, id], links: ["group-link:group:Person city=Paris->3", "group-link:group:Person city=Paris->4"] });
+    const meta = canvas.getGraphData().nodes[2];
+    expect(meta).toMatchObject({ ...centroid, data: { caption: "Person city=Paris (2)", memberCount: 2 } });
+    expect(Date.now() - meta.expand[1].getTime()).toBeLessThan(1000);
+    expect(canvas.getGraphData().links[1].data).toEqual({ weight: 2 });
+  });
+
+  it("expands members back to their positions", () => {
+    const canvas = createCanvas();
+    const before = canvas.getGraphData().nodes.map(node => ({ id: node.id, x: node.x, y: node.y }));
+
+    const id = canvas.collapseGroup({ label: "Person" }, { id: "people", caption: "People" });
+    expect(id).toBe("people");
+    canvas.expandGroup("people");
+
+    const after = canvas.getGraphData().nodes.map(node => ({ id: node.id, x: node.x, y: node.y }));
+    expect(after).toEqual(expect.arrayContaining(before));
+    expect(after).toHaveLength(before.length);
+    expect(canvas.getGroupMembers("people")).toBeUndefined();
+    expect(ids(canvas).links.sort()).toEqual([10, 11, 12, 13]);
+  });
+
+  it("round-trips the underlying data through getData", () => {
+    const canvas = createCanvas();
+    canvas.collapseGroup({ label: "Person" });
+
+    const { nodes, links } = canvas.getData();
+    expect(nodes.map(node => node.id).sort()).toEqual([1, 2, 3, 4]);
+    expect(links.map(link => link.id).sort()).toEqual([10, 11, 12, 13]);
+  });
+
+  it("reports unknown groups and empty selections", () => {
+    const canvas = createCanvas();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(canvas.collapseGroup({ label: "Missing" })).toBeUndefined();
+    canvas.collapseGroup({ label: "Company" }, { id: 1 });
+    canvas.expandGroup("nope");
+
+    expect(error.mock.calls.map(call => call[0])).toEqual([
+      "No nodes match the group selector.",
+      "Node with id 1 already exists.",
+      "Group with id nope does not exist.",
+    ]);
+    expect(ids(canvas).nodes).toEqual([1, 2, 3, 4]);
+    error.mockRestore();
+  });
+
+  it("removes the members with their meta-node", async () => {
+    const canvas = createCanvas();
+    const id = canvas.collapseGroup({ label: "Company" })!;
+
+    canvas.removeNodes([id]);
+    await Promise.resolve();
+
+    expect(canvas.getGroupMembers(id)).toBeUndefined();
+    expect(canvas.getData().nodes.map(node => node.id)).toEqual([1, 2, 3]);
+    expect(canvas.getData().links.map(link => link.id)).toEqual([10, 11]);
+  });
+});
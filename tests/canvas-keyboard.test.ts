@@ -0,0 +1,190 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, ForceGraphConfig } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+function getLastInstance() {
+  return forceGraphMockState.lastInstance!;
+}
+
+const DATA: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "Alice" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#0f0", data: { name: "Bob" } },
+    { id: 3, labels: ["Person", "Admin"], visible: true, color: "#00f", data: { name: "Carol" } },
+    { id: 4, labels: ["Person"], visible: true, color: "#ff0", data: { name: "Dave" } },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, color: "#888", data: {} },
+    { id: 11, relationship: "KNOWS", source: 2, target: 3, visible: true, color: "#888", data: {} },
+    { id: 12, relationship: "KNOWS", source: 2, target: 4, visible: true, color: "#888", data: {} },
+  ],
+};
+
+/** Nodes 1–3 on a horizontal line (x = 0, 100, 200) and node 4 below node 2 */
+function setup(config: Partial<ForceGraphConfig> = {}) {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, ...config });
+  canvas.setData(DATA);
+  const positions = [[0, 0], [100, 0], [200, 0], [100, 100]];
+  canvas.getGraphData().nodes.forEach((node, i) => {
+    [node.x, node.y] = positions[i];
+  });
+  return { canvas, instance: getLastInstance() };
+}
+
+function press(canvas: HTMLElement, key: string, init: KeyboardEventInit = {}) {
+  const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init });
+  canvas.dispatchEvent(event);
+  return event;
+}
+
+function liveRegion(canvas: HTMLElement) {
+  return canvas.shadowRoot!.querySelector('[aria-live="polite"]')!;
+}
+
+describe("keyboard navigation", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("makes the host focusable without overriding author attributes", () => {
+    const { canvas } = setup();
+    expect(canvas.tabIndex).toBe(0);
+    expect(canvas.getAttribute("role")).toBe("application");
+
+    const labelled = document.createElement("falkordb-canvas");
+    labelled.setAttribute("tabindex", "-1");
+    labelled.setAttribute("aria-label", "Social network");
+    document.body.appendChild(labelled);
+    expect(labelled.tabIndex).toBe(-1);
+    expect(labelled.getAttribute("aria-label")).toBe("Social network");
+  });
+
+  it("focuses the node nearest the viewport centre on the first arrow key", () => {
+    const { canvas, instance } = setup();
+    instance.centerAt(190, 10);
+
+    const event = press(canvas, "ArrowRight");
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(canvas.getFocusedNode()?.id).toBe(3);
+  });
+
+  it("moves focus to the neighbour in the arrow direction", () => {
+    const { canvas } = setup();
+    canvas.setFocusedNode(1);
+
+    press(canvas, "ArrowRight");
+    expect(canvas.getFocusedNode()?.id).toBe(2);
+    press(canvas, "ArrowDown");
+    expect(canvas.getFocusedNode()?.id).toBe(4);
+    press(canvas, "ArrowUp");
+    expect(canvas.getFocusedNode()?.id).toBe(2);
+    press(canvas, "ArrowRight");
+    expect(canvas.getFocusedNode()?.id).toBe(3);
+    // No neighbour further right
+    press(canvas, "ArrowRight");
+    expect(canvas.getFocusedNode()?.id).toBe(3);
+  });
+
+  it("follows links added and removed after setData", () => {
+    const { canvas } = setup();
+    canvas.setFocusedNode(1);
+
+    canvas.removeLinks([10]);
+    press(canvas, "ArrowRight");
+    expect(canvas.getFocusedNode()?.id).toBe(1);
+
+    canvas.addLinks([{ id: 13, relationship: "KNOWS", source: 4, target: 1, visible: true, color: "#888", data: {} }]);
+    press(canvas, "ArrowDown");
+    expect(canvas.getFocusedNode()?.id).toBe(4);
+  });
+
+  it("activates the focused node with Enter like a click", () => {
+    const onNodeClick = vi.fn();
+    const { canvas } = setup({ eventHandlers: { onNodeClick }, selection: { enabled: true } });
+    canvas.setFocusedNode(2);
+
+    press(canvas, "Enter");
+
+    expect(onNodeClick).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }), expect.any(MouseEvent));
+    expect(canvas.getSelection().nodes.map(n => n.id)).toEqual([2]);
+  });
+
+  it("zooms with + and -, and fits with 0", () => {
+    const { canvas, instance } = setup({ interaction: { keyboardZoomStep: 2 } });
+    instance.zoom(1);
+
+    press(canvas, "+");
+    expect(instance.zoom()).toBe(2);
+    press(canvas, "-");
+    press(canvas, "-");
+    expect(instance.zoom()).toBe(0.5);
+
+    const zoomToFit = vi.spyOn(canvas, "zoomToFit");
+    press(canvas, "0");
+    expect(zoomToFit).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores keys combined with ctrl, meta or alt", () => {
+    const { canvas, instance } = setup();
+    instance.zoom(1);
+
+    const event = press(canvas, "+", { ctrlKey: true });
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(instance.zoom()).toBe(1);
+  });
+
+  it("announces the focused node's caption, labels and degree", () => {
+    const { canvas } = setup({ captionsKeys: [["name", true]] });
+
+    canvas.setFocusedNode(3);
+    expect(liveRegion(canvas).textContent).toBe("Carol, Person, Admin, 1 connection");
+
+    canvas.setFocusedNode(2);
+    expect(liveRegion(canvas).textContent).toBe("Bob, Person, 3 connections");
+  });
+
+  it("pans an offscreen focused node into view", () => {
+    const { canvas, instance } = setup();
+    canvas.getGraphData().nodes[2].x = 5000;
+
+    canvas.setFocusedNode(3);
+
+    expect(instance.centerAt()).toEqual({ x: 5000, y: 0 });
+  });
+
+  it("clears the focus when the focused node is removed", () => {
+    const { canvas } = setup();
+    canvas.setFocusedNode(4);
+
+    canvas.removeNodes([4]);
+
+    expect(canvas.getFocusedNode()).toBeUndefined();
+  });
+});
@@ -211,6 +211,166 @@ describe("layout modes", () => {
     }
   });
 
+  it("switches to layered layout and routes long links through bends", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutOptions: { layered: { levelDistance: 100 } } });
+    canvas.setData({
+      ...TREE_DATA,
+      links: [...TREE_DATA.links, { id: 4, relationship: "HAS", source: 1, target: 4, visible: true, color: "#888", data: {} }],
+    });
+
+    canvas.setLayout("layered");
+    const graphData = canvas.getGraphData();
+    for (const node of graphData.nodes) {
+      expect(node.fx).toBeDefined();
+      expect(node.fy).toBeDefined();
+    }
+    const long = graphData.links.find((l) => l.id === 4)!;
+    expect(long.route).toHaveLength(1);
+    expect(long.route![0].y).toBe(100);
+
+    // The link is drawn through its bend
+    const ctx = {
+      beginPath: vi.fn(), moveTo: vi.fn(), lineTo: vi.fn(), quadraticCurveTo: vi.fn(), stroke: vi.fn(), fill: vi.fn(),
+      setLineDash: vi.fn(), save: vi.fn(), restore: vi.fn(), translate: vi.fn(), rotate: vi.fn(), fillRect: vi.fn(),
+      fillText: vi.fn(), measureText: vi.fn(() => ({ width: 10 })),
+    } as unknown as CanvasRenderingContext2D;
+    getLastInstance().callbacks.linkCanvasObject!(long, ctx, 1);
+    expect(ctx.quadraticCurveTo).toHaveBeenCalledWith(long.route![0].x, 100, expect.any(Number), expect.any(Number));
+
+    canvas.setLayout("force");
+    expect(long.route).toBeUndefined();
+  });
+
+  it("keeps link routes out of getData and drops them outside the layered layout", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutMode: "layered" });
+    canvas.setData({
+      ...TREE_DATA,
+      links: [...TREE_DATA.links, { id: 4, relationship: "HAS", source: 1, target: 4, visible: true, color: "#888", data: {} }],
+    });
+    expect(canvas.getGraphData().links.find((l) => l.id === 4)!.route).toHaveLength(1);
+    expect(canvas.getData().links.some((l) => "route" in l)).toBe(false);
+
+    canvas.setConfig({ layoutMode: "grid" });
+    const stale = { ...TREE_DATA.links[0], route: [{ x: 500, y: 500 }] };
+    canvas.setData({ ...TREE_DATA, links: [stale, ...TREE_DATA.links.slice(1)] });
+    expect(canvas.getGraphData().links.every((l) => l.route === undefined)).toBe(true);
+  });
+
+  it("switches to grid layout sorted by a node property", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData({
+      ...TREE_DATA,
+      nodes: TREE_DATA.nodes.map((node, i) => ({ ...node, data: { rank: [3, 10, 1, undefined][i] } })),
+    });
+
+    canvas.setLayoutOptions({ grid: { sortBy: { property: "rank" }, columns: 2, nodeSpacing: 42 } });
+    canvas.setLayout("grid");
+    const position = (id: number) => {
+      const node = canvas.getGraphData().nodes.find((n) => n.id === id)!;
+      return [node.fx, node.fy];
+    };
+
+    // Cells are node diameter (18) + spacing apart, centered on the origin; 10 sorts after 3
+    expect(position(3)).toEqual([-30, -30]);
+    expect(position(1)).toEqual([30, -30]);
+    expect(position(2)).toEqual([-30, 30]);
+    // No rank: last
+    expect(position(4)).toEqual([30, 30]);
+  });
+
+  it("switches to circle layout keeping linked nodes next to each other", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    // A ring 1-3-5-2-4-6 given in scrambled id order
+    const ring = [1, 3, 5, 2, 4, 6];
+    canvas.setData({
+      nodes: [1, 2, 3, 4, 5, 6].map((id) => ({ id, labels: ["N"], visible: true, data: {} })),
+      links: ring.map((id, i) => ({ id, relationship: "R", source: id, target: ring[(i + 1) % ring.length], visible: true, color: "#888", data: {} })),
+    });
+
+    canvas.setLayout("circle");
+    const nodes = canvas.getGraphData().nodes;
+    const radii = nodes.map((n) => Math.hypot(n.fx!, n.fy!));
+    radii.forEach((r) => expect(r).toBeCloseTo(radii[0]));
+
+    // Every link joins neighbors on the circle: 60° apart
+    const angle = (id: number) => {
+      const node = nodes.find((n) => n.id === id)!;
+      return Math.atan2(node.fy!, node.fx!);
+    };
+    ring.forEach((id, i) => {
+      const delta = Math.abs(angle(id) - angle(ring[(i + 1) % ring.length]));
+      expect(Math.min(delta, 2 * Math.PI - delta)).toBeCloseTo(Math.PI / 3);
+    });
+  });
+
+  it("switches to concentric layout with the best-linked nodes in the center", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(TREE_DATA);
+
+    canvas.setLayout("concentric");
+    const distance = (id: number) => {
+      const node = canvas.getGraphData().nodes.find((n) => n.id === id)!;
+      return Math.hypot(node.fx!, node.fy!);
+    };
+    // Degrees: 1 and 2 have two links, 3 and 4 one
+    expect(distance(1)).toBeCloseTo(distance(2));
+    expect(distance(3)).toBeCloseTo(distance(4));
+    expect(distance(3) - distance(1)).toBeGreaterThanOrEqual(80);
+
+    // By a property instead, one node per ring
+    canvas.setLayoutOptions({ concentric: { by: { property: "level" } } });
+    canvas.getGraphData().nodes.forEach((node) => { node.data.level = Number(node.id); });
+    canvas.refresh();
+    expect(distance(4)).toBe(0);
+    expect(distance(3)).toBeLessThan(distance(2));
+    expect(distance(2)).toBeLessThan(distance(1));
+  });
+
+  it("packs disconnected components when the layout mode asks for it", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutOptions: { tree: { packComponents: true } } });
+    canvas.setData({
+      ...TREE_DATA,
+      nodes: [...TREE_DATA.nodes, { id: 5, labels: ["Orphan"], visible: true, color: "#888", data: {} }],
+    });
+
+    canvas.setLayout("tree");
+    const byId = (id: number) => canvas.getGraphData().nodes.find((n) => n.id === id)!;
+    const tree = [1, 2, 3, 4].map(byId);
+    const orphan = byId(5);
+
+    // The orphan is no longer a second root next to node 1 but packed beside the tree
+    expect(tree[1].fy).toBeGreaterThan(tree[0].fy!);
+    const treeRight = Math.max(...tree.map((n) => n.fx! + n.size));
+    const treeBottom = Math.max(...tree.map((n) => n.fy! + n.size));
+    expect(orphan.fx! - orphan.size >= treeRight || orphan.fy! - orphan.size >= treeBottom).toBe(true);
+  });
+
+  it("packs force layout components once the warmup settles", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutOptions: { force: { packComponents: true, componentSpacing: 30 } } });
+    canvas.setData({
+      ...TREE_DATA,
+      nodes: [...TREE_DATA.nodes, { id: 5, labels: ["Orphan"], visible: true, color: "#888", data: {} }],
+    });
+    // Warmup left the orphan on top of the tree
+    canvas.getGraphData().nodes.forEach((node, i) => { node.x = i * 10; node.y = 0; });
+    canvas.getGraphData().nodes[4].x = 15;
+
+    getLastInstance().callbacks.onEngineStop?.();
+
+    // The orphan wraps to a second row, componentSpacing below the tree
+    const nodes = canvas.getGraphData().nodes;
+    const treeBottom = Math.max(...nodes.slice(0, 4).map((n) => n.y! + n.size));
+    expect(nodes[4].y! - nodes[4].size).toBeCloseTo(treeBottom + 30);
+    nodes.forEach((node) => expect(node.fx).toBe(node.x));
+  });
+
   it("triggers onLayoutChange callback", () => {
     const onLayoutChange = vi.fn();
     const canvas = createCanvas();
@@ -271,3 +431,153 @@ describe("setPinOnDragEnd", () => {
     expect(onPinChange).toHaveBeenCalledWith(false);
   });
 });
+
+describe("layout transitions", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("snaps to the new layout when transitions are disabled (default)", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600 });
+    canvas.setData(TREE_DATA);
+
+    canvas.setLayout("radial");
+    const root = canvas.getGraphData().nodes.find((n) => n.id === 1)!;
+    expect(root.x).toBe(0);
+    expect(root.layoutTargetX).toBeUndefined();
+  });
+
+  it("interpolates from current positions to layout targets", () => {
+    vi.useFakeTimers();
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutTransition: { enabled: true, duration: 400, easing: "linear" } });
+    canvas.setData(TREE_DATA);
+
+    const root = canvas.getGraphData().nodes.find((n) => n.id === 1)!;
+    const startX = root.x!;
+    const startY = root.y!;
+
+    canvas.setLayout("radial");
+    // Targets are recorded, node still at its starting point
+    expect(root.layoutTargetX).toBe(0);
+    expect(root.layoutTargetY).toBe(0);
+    expect(root.x).toBe(startX);
+
+    // Roughly halfway through with linear easing → roughly halfway to the target
+    vi.advanceTimersByTime(200);
+    const startDist = Math.hypot(startX, startY);
+    expect(Math.hypot(root.x!, root.y!)).toBeGreaterThan(startDist * 0.4);
+    expect(Math.hypot(root.x!, root.y!)).toBeLessThan(startDist * 0.6);
+    expect(root.fx).toBe(root.x);
+
+    vi.advanceTimersByTime(300);
+    expect(root.x).toBe(0);
+    expect(root.y).toBe(0);
+    expect(root.fx).toBe(0);
+    expect(root.layoutTargetX).toBeUndefined();
+  });
+
+  it("fires onLayoutTransitionEnd once the animation completes", () => {
+    vi.useFakeTimers();
+    const onLayoutTransitionEnd = vi.fn();
+    const canvas = createCanvas();
+    canvas.setConfig({
+      width: 800,
+      height: 600,
+      layoutTransition: { enabled: true, duration: 300 },
+      eventHandlers: { onLayoutTransitionEnd },
+    });
+    canvas.setData(TREE_DATA);
+
+    canvas.setLayout("tree");
+    expect(onLayoutTransitionEnd).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(400);
+    expect(onLayoutTransitionEnd).toHaveBeenCalledTimes(1);
+    expect(onLayoutTransitionEnd).toHaveBeenCalledWith("tree");
+  });
+
+  it("supports a custom easing function", () => {
+    vi.useFakeTimers();
+    const easing = vi.fn((t: number) => t);
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutTransition: { enabled: true, duration: 100, easing } });
+    canvas.setData(TREE_DATA);
+
+    canvas.setLayout("tree");
+    vi.advanceTimersByTime(200);
+    expect(easing).toHaveBeenCalled();
+    expect(easing).toHaveBeenLastCalledWith(1);
+  });
+
+  it("an interrupted transition restarts from the current positions", () => {
+    vi.useFakeTimers();
+    const onLayoutTransitionEnd = vi.fn();
+    const canvas = createCanvas();
+    canvas.setConfig({
+      width: 800,
+      height: 600,
+      layoutTransition: { enabled: true, duration: 400, easing: "linear" },
+      eventHandlers: { onLayoutTransitionEnd },
+    });
+    canvas.setData(TREE_DATA);
+
+    canvas.setLayout("tree");
+    vi.advanceTimersByTime(200);
+    const leaf = canvas.getGraphData().nodes.find((n) => n.id === 4)!;
+    const midX = leaf.x;
+
+    canvas.setLayout("radial");
+    expect(leaf.x).toBe(midX);
+
+    vi.advanceTimersByTime(500);
+    expect(onLayoutTransitionEnd).toHaveBeenCalledTimes(1);
+    expect(onLayoutTransitionEnd).toHaveBeenCalledWith("radial");
+    expect(leaf.x).toBe(leaf.fx);
+    expect(leaf.layoutTargetX).toBeUndefined();
+  });
+
+  it("animates setGraphData relayouts and grows new nodes out of their neighbour", () => {
+    vi.useFakeTimers();
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutMode: "tree", layoutTransition: { enabled: true, duration: 300 } });
+    canvas.setData(TREE_DATA);
+    vi.advanceTimersByTime(100);
+
+    const leaf = canvas.getGraphData().nodes.find((n) => n.id === 4)!;
+    const leafX = leaf.x;
+    const leafY = leaf.y;
+
+    canvas.setGraphData({
+      nodes: [...TREE_DATA.nodes, { id: 5, labels: ["Leaf"], visible: true, color: "#0ff", data: {} }],
+      links: [...TREE_DATA.links, { id: 4, relationship: "HAS", source: 4, target: 5, visible: true, color: "#888", data: {} }],
+    });
+
+    const added = canvas.getGraphData().nodes.find((n) => n.id === 5)!;
+    expect(added.x).toBe(leafX);
+    expect(added.y).toBe(leafY);
+    expect(added.layoutTargetY).toBeGreaterThan(leafY!);
+
+    vi.advanceTimersByTime(400);
+    expect(added.y).toBeGreaterThan(leafY!);
+    expect(added.layoutTargetY).toBeUndefined();
+  });
+
+  it("zoomToFit during a transition fits the target positions", () => {
+    vi.useFakeTimers();
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, layoutTransition: { enabled: true, duration: 1000 } });
+    canvas.setData(TREE_DATA);
+    vi.advanceTimersByTime(100);
+    const instance = getLastInstance();
+
+    canvas.setLayout("tree");
+    canvas.zoomToFit();
+    const nodes = canvas.getGraphData().nodes;
+    const xs = nodes.map((n) => n.layoutTargetX!);
+    expect(instance.center.x).toBeCloseTo((Math.min(...xs) + Math.max(...xs)) / 2);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { forceGraphMockState, resetForceGraphMockState } from "./mocks/force-graph";
+import { createRecordingContext } from "./mocks/canvas-context";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, GraphLink } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Three transfers and a KNOWS link between two accounts; fresh copy per test */
+const data = (): Data => structuredClone({
+  nodes: [
+    { id: 1, labels: ["Account"], visible: true, data: {} },
+    { id: 2, labels: ["Account"], visible: true, data: {} },
+  ],
+  links: [
+    { id: 10, relationship: "TRANSFERRED", source: 1, target: 2, visible: true, data: {} },
+    { id: 11, relationship: "TRANSFERRED", source: 1, target: 2, visible: true, data: {} },
+    { id: 12, relationship: "KNOWS", source: 1, target: 2, visible: true, data: {} },
+    { id: 13, relationship: "TRANSFERRED", source: 1, target: 2, visible: true, data: {} },
+  ],
+});
+
+function createCanvas(aggregateParallelLinks: boolean | string[] = true): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, linkStyle: { aggregateParallelLinks } });
+  canvas.setData(data());
+  return canvas;
+}
+
+function drawnLinkIds(canvas: CanvasElement) {
+  const isDrawn = forceGraphMockState.lastInstance!.callbacks.linkVisibility!;
+  return canvas.getGraphData().links.filter(link => isDrawn(link)).map(link => link.id);
+}
+
+/** Texts drawn for a link, at a zoom that shows labels */
+function drawLinkTexts(link: GraphLink): string[] {
+  const { ctx } = createRecordingContext();
+  link.source.x = -50;
+  link.source.y = 0;
+  link.target.x = 50;
+  link.target.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.onZoom?.({ k: 2, x: 0, y: 0 });
+  forceGraphMockState.lastInstance!.callbacks.linkCanvasObject!(link, ctx, 1);
+  return vi.mocked(ctx.fillText).mock.calls.map(([text]) => text);
+}
+
+describe("parallel link aggregation", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("draws one wider link with a count badge per bundle", () => {
+    const canvas = createCanvas();
+    const [transfers, , knows] = canvas.getGraphData().links;
+
+    expect(drawnLinkIds(canvas)).toEqual([10, 12]);
+    expect(transfers.aggregate?.map(link => link.id)).toEqual([10, 11, 13]);
+    expect(transfers.style?.width).toBe(3);
+    expect(knows.curve).not.toBe(0);
+    expect(drawLinkTexts(transfers)).toEqual(["TRANSFERRED", "3"]);
+    expect(drawLinkTexts(knows)).toEqual(["KNOWS"]);
+  });
+
+  it("passes the underlying links to click and hover events", () => {
+    const onLinkClick = vi.fn();
+    const onLinkHover = vi.fn();
+    const canvas = createCanvas();
+    canvas.setConfig({ eventHandlers: { onLinkClick, onLinkHover } });
+    const onEvent = vi.fn();
+    canvas.addEventListener("link-click", onEvent);
+    const [transfers, underlying] = [canvas.getGraphData().links[0], canvas.getGraphData().links.filter(link => link.relationship === "TRANSFERRED")];
+    const { callbacks } = forceGraphMockState.lastInstance!;
+    const event = new MouseEvent("click");
+
+    callbacks.onLinkClick!(transfers, event);
+    callbacks.onLinkHover!(transfers, null);
+    callbacks.onLinkHover!(null, transfers);
+
+    expect(onLinkClick).toHaveBeenCalledWith(transfers, event, underlying);
+    expect(onEvent.mock.calls[0][0].detail.links).toEqual(underlying);
+    expect(onLinkHover.mock.calls).toEqual([[transfers, underlying], [null, []]]);
+  });
+
+  it("follows config, filter and data changes", async () => {
+    const canvas = createCanvas(["KNOWS"]);
+    expect(drawnLinkIds(canvas)).toEqual([10, 11, 12, 13]);
+
+    canvas.setConfig({ linkStyle: { aggregateParallelLinks: true, aggregateMaxWidth: 2 } });
+    expect(drawnLinkIds(canvas)).toEqual([10, 12]);
+    expect(canvas.getGraphData().links[0].style?.width).toBe(2);
+
+    canvas.setFilter({ linkPredicate: link => link.id !== 10 });
+    expect(canvas.getGraphData().links[1].aggregate?.map(link => link.id)).toEqual([11, 13]);
+
+    canvas.removeLinks([13]);
+    await Promise.resolve();
+    expect(drawnLinkIds(canvas)).toEqual([11, 12]);
+    expect(canvas.getGraphData().links.some(link => link.aggregate)).toBe(false);
+    expect(canvas.getData().links.map(link => link.id)).toEqual([10, 11, 12]);
+    expect("aggregate" in canvas.getData().links[0]).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+import { createRecordingContext } from "./mocks/canvas-context";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, GraphLink, GraphNode } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** A square 1-2-3-4-1 with a 1-3 diagonal, weighted by `km` */
+const data = (): Data => structuredClone({
+  nodes: [1, 2, 3, 4].map(id => ({ id, labels: ["Stop"], visible: true, data: {} })),
+  links: [
+    { id: 10, relationship: "ROAD", source: 1, target: 2, visible: true, data: { km: 1 } },
+    { id: 11, relationship: "ROAD", source: 2, target: 3, visible: true, data: { km: 1 } },
+    { id: 12, relationship: "ROAD", source: 3, target: 4, visible: true, data: { km: 5 } },
+    { id: 13, relationship: "ROAD", source: 4, target: 1, visible: true, data: { km: 5 } },
+    { id: 14, relationship: "ROAD", source: 1, target: 3, visible: true, data: { km: 3 } },
+  ],
+});
+
+function createCanvas(): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600 });
+  canvas.setData(data());
+  return canvas;
+}
+
+function drawNode(node: GraphNode) {
+  const recording = createRecordingContext();
+  node.x = 0;
+  node.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.nodeCanvasObject!(node, recording.ctx);
+  return recording;
+}
+
+function drawLink(link: GraphLink) {
+  const recording = createRecordingContext();
+  link.source.x = -100;
+  link.source.y = 0;
+  link.target.x = 100;
+  link.target.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.linkCanvasObject!(link, recording.ctx, 1);
+  return recording;
+}
+
+describe("paths", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+    vi.restoreAllMocks();
+  });
+
+  it("finds weighted paths between canvas nodes", () => {
+    const canvas = createCanvas();
+
+    expect(canvas.findPath(1, 3)[0].links.map(link => link.id)).toEqual([14]);
+
+    const paths = canvas.findPath(1, 3, { weightKey: "km", k: 3 });
+    expect(paths.map(path => path.nodes.map(node => node.id))).toEqual([[1, 2, 3], [1, 3], [1, 4, 3]]);
+    expect(paths.map(path => path.cost)).toEqual([2, 3, 10]);
+  });
+
+  it("reports unknown nodes", () => {
+    const canvas = createCanvas();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(canvas.findPath(1, 99)).toEqual([]);
+    expect(error).toHaveBeenCalledWith("Node with id 99 does not exist.");
+  });
+
+  it("dims everything off the highlighted path and fits the view to it", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ dimOpacity: 0.2 });
+    const zoomToFit = vi.spyOn(canvas, "zoomToFit");
+    const [path] = canvas.findPath(1, 3, { weightKey: "km" });
+    const { nodes, links } = canvas.getGraphData();
+
+    canvas.highlightPath(path);
+
+    expect(nodes.map(node => drawNode(node).ctx.globalAlpha)).toEqual([1, 1, 1, 0.2]);
+    expect(links.map(link => drawLink(link).ctx.globalAlpha)).toEqual([1, 1, 0.2, 0.2, 0.2]);
+    expect(drawLink(links[0]).sets.lineWidth[0]).toBeGreaterThan(drawLink(links[4]).sets.lineWidth[0] as number);
+
+    const [, filter] = zoomToFit.mock.calls[0];
+    expect(nodes.filter(filter!).map(node => node.id)).toEqual([1, 2, 3]);
+  });
+
+  it("clears the highlight on null and when a path node is removed", () => {
+    const canvas = createCanvas();
+    const [path] = canvas.findPath(1, 3);
+    const { nodes } = canvas.getGraphData();
+
+    canvas.highlightPath(path);
+    expect(drawNode(nodes[1]).ctx.globalAlpha).toBeLessThan(1);
+    canvas.highlightPath(null);
+    expect(drawNode(nodes[1]).ctx.globalAlpha).toBe(1);
+
+    canvas.highlightPath(path);
+    canvas.removeNodes([3]);
+    expect(drawNode(nodes[1]).ctx.globalAlpha).toBe(1);
+  });
+});
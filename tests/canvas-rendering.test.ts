@@ -1,4 +1,4 @@
-import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 import {
   forceGraphMockState,
   resetForceGraphMockState,
@@ -28,6 +28,7 @@ function createCtxSpy() {
     translate: vi.fn(),
     rotate: vi.fn(),
     clip: vi.fn(),
+    drawImage: vi.fn(),
     closePath: vi.fn(),
     fillRect: vi.fn(),
     strokeRect: vi.fn(),
@@ -556,6 +557,268 @@ describe("link rendering", () => {
   });
 });
 
+describe("node shapes", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  function setupShapes(nodeStyle = {}) {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, nodeStyle });
+    canvas.setData({
+      nodes: [
+        { id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "a" } },
+        { id: 2, labels: ["Company"], visible: true, color: "#0f0", data: { name: "b" }, shape: "diamond" },
+      ],
+      links: [
+        { id: 1, relationship: "REL", source: 1, target: 2, visible: true, color: "#888", data: {} },
+      ],
+    });
+    const instance = getLastInstance();
+    instance.callbacks.onZoom?.({ k: 1, x: 0, y: 0 });
+    return { canvas, instance };
+  }
+
+  it("draws polygons instead of circles for non-circular shapes", () => {
+    const { canvas, instance } = setupShapes({ labelShapes: { Person: "square" } });
+    const [square, diamond] = canvas.getGraphData().nodes;
+    square.x = 0;
+    square.y = 0;
+    diamond.x = 50;
+    diamond.y = 0;
+
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(square, ctx);
+    instance.callbacks.nodeCanvasObject!(diamond, ctx);
+
+    expect(ctx.arc).not.toHaveBeenCalled();
+    expect(ctx.closePath).toHaveBeenCalled();
+    // Square corners sit at ±size on both axes
+    expect(ctx.moveTo).toHaveBeenCalledWith(-square.size, -square.size);
+    // Diamond (node.shape) starts at its top vertex
+    expect(ctx.moveTo).toHaveBeenCalledWith(50, -diamond.size);
+  });
+
+  it("uses nodeStyle.shape as the default and node.shape as the override", () => {
+    const { canvas, instance } = setupShapes({ shape: "hexagon", labelShapes: { Company: "square" } });
+    const [hexagon, diamond] = canvas.getGraphData().nodes;
+    hexagon.x = 0;
+    hexagon.y = 0;
+    diamond.x = 0;
+    diamond.y = 0;
+
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(hexagon, ctx);
+    // Flat-top hexagon starts at its rightmost vertex
+    expect(ctx.moveTo).toHaveBeenCalledWith(hexagon.size, 0);
+
+    ctx.moveTo.mockClear();
+    instance.callbacks.nodeCanvasObject!(diamond, ctx);
+    expect(ctx.moveTo).toHaveBeenCalledWith(0, -diamond.size);
+  });
+
+  it("paints the pointer area with the node shape", () => {
+    const { canvas, instance } = setupShapes();
+    const diamond = canvas.getGraphData().nodes[1];
+    diamond.x = 0;
+    diamond.y = 0;
+
+    const ctx = createCtxSpy();
+    instance.callbacks.nodePointerAreaPaint!(diamond, "#00ff00", ctx);
+
+    expect(ctx.arc).not.toHaveBeenCalled();
+    expect(ctx.lineTo).toHaveBeenCalledTimes(3);
+    expect(ctx.fill).toHaveBeenCalled();
+  });
+
+  it("stops link tips at the shape outline", () => {
+    const { canvas, instance } = setupShapes();
+    const [source, target] = canvas.getGraphData().nodes;
+    const link = canvas.getGraphData().links[0];
+    source.x = 0;
+    source.y = 0;
+    target.x = 100;
+    target.y = 100;
+
+    const tipDistance = () => {
+      const ctx = createCtxSpy();
+      instance.callbacks.linkCanvasObject!(link, ctx, 1);
+      const [, , tipX, tipY] = ctx.quadraticCurveTo.mock.calls[0];
+      return Math.hypot(100 - tipX, 100 - tipY);
+    };
+
+    target.shape = "circle";
+    const circleTip = tipDistance();
+    target.shape = "square";
+    const squareTip = tipDistance();
+
+    // Approaching diagonally, a square's outline is at size·√2 instead of size
+    expect(squareTip - circleTip).toBeCloseTo(target.size * (Math.SQRT2 - 1), 5);
+  });
+
+  it("culls wide shapes by their full extent", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ width: 800, height: 600, largeGraph: { enabled: true }, nodeStyle: { shape: "rounded-rect" } });
+    canvas.setData({
+      nodes: [{ id: 1, labels: ["A"], visible: true, color: "#f00", data: {} }],
+      links: [],
+    });
+    const instance = getLastInstance();
+    setupInstanceDimensions(instance);
+    instance.callbacks.onZoom?.({ k: 1, x: 0, y: 0 });
+    const stats = canvas.getCullingStats();
+    const node = canvas.getGraphData().nodes[0];
+
+    // Centre just beyond the circle's reach but within the wider rounded rect
+    node.x = stats.bounds!.maxX + node.size + 4;
+    node.y = 0;
+
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+    expect(ctx.fill).toHaveBeenCalled();
+  });
+});
+
+describe("node images and icons", () => {
+  const loadedImages: FakeImage[] = [];
+
+  class FakeImage {
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    crossOrigin: string | null = null;
+    src = "";
+    naturalWidth = 40;
+    naturalHeight = 20;
+
+    constructor() {
+      loadedImages.push(this);
+    }
+  }
+
+  const originalImage = globalThis.Image;
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, "Image", { value: FakeImage, configurable: true, writable: true });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(globalThis, "Image", { value: originalImage, configurable: true, writable: true });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+    loadedImages.length = 0;
+    resetForceGraphMockState();
+  });
+
+  function setupNode(node: Record<string, unknown>, nodeStyle = {}) {
+    const canvas = createCanvas();
+    canvas.setConfig({
+      width: 800,
+      height: 600,
+      nodeStyle,
+      captionsKeys: [["name", true]],
+      largeGraph: { lowZoomThreshold: 0.5 },
+    });
+    canvas.setData({
+      nodes: [{ id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "Ada" }, ...node }],
+      links: [],
+    });
+    const instance = getLastInstance();
+    instance.callbacks.onZoom?.({ k: 1, x: 0, y: 0 });
+    const graphNode = canvas.getGraphData().nodes[0];
+    graphNode.x = 0;
+    graphNode.y = 0;
+    return { canvas, instance, node: graphNode };
+  }
+
+  it("draws a placeholder while an image loads and the image clipped to the shape afterwards", () => {
+    const { instance, node } = setupNode({ image: "https://example.com/ada.png" });
+    const renderSpy = vi.spyOn(instance, "autoPauseRedraw");
+
+    const loading = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, loading);
+    expect(loading.drawImage).not.toHaveBeenCalled();
+    // Node fill, then the placeholder
+    expect(loading.fill).toHaveBeenCalledTimes(2);
+
+    expect(loadedImages).toHaveLength(1);
+    expect(loadedImages[0].src).toBe("https://example.com/ada.png");
+    expect(loadedImages[0].crossOrigin).toBe("anonymous");
+    loadedImages[0].onload!();
+    expect(renderSpy).toHaveBeenCalledWith(false);
+
+    const loaded = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, loaded);
+    expect(loaded.clip).toHaveBeenCalled();
+    // 40×20 image covering the 2·size square keeps its aspect ratio
+    const [, x, y, width, height] = loaded.drawImage.mock.calls[0];
+    expect(height).toBeCloseTo(2 * node.size);
+    expect(width).toBeCloseTo(4 * node.size);
+    expect(x).toBeCloseTo(-2 * node.size);
+    expect(y).toBeCloseTo(-node.size);
+  });
+
+  it("loads each URL once", () => {
+    const { canvas, instance } = setupNode({ icon: "/icons/person.svg" });
+    canvas.setGraphData({
+      nodes: [
+        { id: 1, labels: ["Person"], visible: true, color: "#f00", data: {}, icon: "/icons/person.svg" },
+        { id: 2, labels: ["Person"], visible: true, color: "#f00", data: {}, icon: "/icons/person.svg" },
+      ],
+      links: [],
+    });
+
+    const ctx = createCtxSpy();
+    for (const node of canvas.getGraphData().nodes) {
+      instance.callbacks.nodeCanvasObject!(node, ctx);
+    }
+    expect(loadedImages).toHaveLength(1);
+  });
+
+  it("fits image icons inside the node", () => {
+    const { instance, node } = setupNode({ icon: "/icons/person.svg" });
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+    loadedImages[0].onload!();
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+
+    const [, , , width, height] = ctx.drawImage.mock.calls[0];
+    expect(width).toBeCloseTo(2 * (node.size / Math.SQRT2) * 0.8);
+    expect(height).toBeCloseTo(width / 2);
+    expect(ctx.clip).not.toHaveBeenCalled();
+  });
+
+  it("draws icon-font glyphs from labelIcons and moves the caption below the node", () => {
+    const { instance, node } = setupNode({}, {
+      labelIcons: { Person: { glyph: "\uf007", fontFamily: "IconFont", color: "#123456" } },
+    });
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+
+    expect(ctx.fillText).toHaveBeenCalledWith("\uf007", 0, 0);
+    const caption = ctx.fillText.mock.calls.find(([text]) => text === "Ada");
+    expect(caption).toBeDefined();
+    expect(caption![2]).toBeGreaterThan(node.size);
+  });
+
+  it("keeps the node without an image when loading fails", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { instance, node } = setupNode({ image: "/missing.png" });
+    const ctx = createCtxSpy();
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+    loadedImages[0].onerror!();
+    ctx.fill.mockClear();
+
+    instance.callbacks.nodeCanvasObject!(node, ctx);
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+    expect(ctx.fill).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
 describe("nodePointerAreaPaint", () => {
   afterEach(() => {
     document.body.innerHTML = "";
@@ -0,0 +1,183 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+import { createRecordingContext } from "./mocks/canvas-context";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, GraphLink, ScalesConfig } from "../src/canvas-types";
+import { NODE_SIZE } from "../src/canvas-utils";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Fresh copy per test: nodes keep a reference to the input `data` */
+const data = (): Data => structuredClone({
+  nodes: [
+    { id: 1, labels: ["Page"], visible: true, data: { pageRank: 0 } },
+    { id: 2, labels: ["Page"], visible: true, data: { pageRank: 5 } },
+    { id: 3, labels: ["Page"], visible: true, data: { pageRank: 10 } },
+    { id: 4, labels: ["Page"], visible: true, data: {} },
+  ],
+  links: [
+    { id: 10, relationship: "LINKS", source: 1, target: 2, visible: true, data: { weight: 1 } },
+    { id: 11, relationship: "LINKS", source: 2, target: 3, visible: true, data: { weight: 3 } },
+  ],
+});
+
+const SCALES: ScalesConfig = {
+  nodeSize: { property: "pageRank", range: [4, 20] },
+  nodeColor: { property: "pageRank", range: ["#000000", "#ffffff"] },
+  linkWidth: { property: "weight", range: [1, 3] },
+};
+
+function createCanvas(scales: ScalesConfig = SCALES): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, scales });
+  return canvas;
+}
+
+function sizes(canvas: CanvasElement) {
+  return canvas.getGraphData().nodes.map(node => node.size);
+}
+
+/** Line width and arrowhead length of a horizontal link as drawn on the 2D canvas */
+function drawLink(link: GraphLink) {
+  const { ctx, sets } = createRecordingContext();
+  link.source.x = -100;
+  link.source.y = 0;
+  link.target.x = 100;
+  link.target.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.linkCanvasObject!(link, ctx, 1);
+  // The arrowhead is the last path: its tip, then three corners
+  const tip = vi.mocked(ctx.moveTo).mock.lastCall!;
+  const back = vi.mocked(ctx.lineTo).mock.calls.at(-3)!;
+  return { lineWidth: sets.lineWidth[0], arrowLength: tip[0] - back[0] };
+}
+
+describe("data scales", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("sizes and colors nodes from a property, leaving nodes without it alone", () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+
+    expect(sizes(canvas)).toEqual([4, 12, 20, NODE_SIZE]);
+    const styles = canvas.getGraphData().nodes.map(node => node.style?.color);
+    expect(styles).toEqual(["rgb(0, 0, 0)", "rgb(128, 128, 128)", "rgb(255, 255, 255)", undefined]);
+  });
+
+  it("lets explicit sizes and style rules win over scales", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ styleRules: [{ selector: { property: "pageRank", value: 10 }, style: { size: 30 } }] });
+    const input = data();
+    input.nodes[0].size = 7;
+    canvas.setData(input);
+
+    expect(sizes(canvas)).toEqual([7, 12, 30, NODE_SIZE]);
+  });
+
+  it("scales link widths and their arrowheads", () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+    forceGraphMockState.lastInstance!.callbacks.onZoom?.({ k: 2, x: 0, y: 0 });
+    const [thin, thick] = canvas.getGraphData().links;
+
+    const thinDrawn = drawLink(thin);
+    const thickDrawn = drawLink(thick);
+
+    expect(thinDrawn.lineWidth).toBe(1);
+    expect(thickDrawn.lineWidth).toBe(3);
+    expect(thickDrawn.arrowLength).toBeCloseTo(thinDrawn.arrowLength * 3);
+  });
+
+  it("re-derives the domain on refresh", () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+    const { nodes } = canvas.getGraphData();
+
+    nodes[2].data.pageRank = 20;
+    nodes[3].data.pageRank = 10;
+    canvas.refresh();
+
+    expect(sizes(canvas)).toEqual([4, 8, 20, 12]);
+  });
+
+  it("respaces deterministic layouts for the new sizes on refresh", () => {
+    const canvas = createCanvas({ nodeSize: { property: "pageRank", domain: [0, 20], range: [4, 44] } });
+    canvas.setLayout("tree");
+    canvas.setData(data());
+    const { nodes } = canvas.getGraphData();
+    const levelGap = () => Math.abs(nodes[1].y! - nodes[0].y!);
+    const before = levelGap();
+
+    nodes[2].data.pageRank = 20;
+    canvas.refresh();
+
+    expect(nodes[2].size).toBe(44);
+    expect(levelGap()).toBeGreaterThan(before);
+  });
+
+  it("follows the data through the mutation API", async () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+
+    canvas.addNodes([{ id: 5, labels: ["Page"], visible: true, data: { pageRank: 20 } }]);
+    await Promise.resolve();
+
+    expect(sizes(canvas)).toEqual([4, 8, 12, NODE_SIZE, 20]);
+  });
+
+  it("restyles when scales change and removes a channel set to undefined", () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+
+    canvas.setConfig({ scales: { nodeSize: { property: "pageRank", type: "ordinal", range: [10, 30] } } });
+    expect(sizes(canvas)).toEqual([10, 20, 30, NODE_SIZE]);
+
+    canvas.setConfig({ scales: { nodeSize: undefined } });
+    expect(sizes(canvas)).toEqual([NODE_SIZE, NODE_SIZE, NODE_SIZE, NODE_SIZE]);
+    expect(canvas.getGraphData().nodes[2].style?.color).toBe("rgb(255, 255, 255)");
+  });
+
+  it("reports legends and draws them when enabled", () => {
+    const canvas = createCanvas();
+    canvas.setData(data());
+
+    const legends = canvas.getScaleLegend();
+    expect(legends.map(legend => [legend.channel, legend.property])).toEqual([
+      ["nodeSize", "pageRank"],
+      ["nodeColor", "pageRank"],
+      ["linkWidth", "weight"],
+    ]);
+    expect(legends[0].entries[0]).toEqual({ value: 0, label: "0", size: 4 });
+    expect(canvas.shadowRoot!.querySelector(".scale-legend")).toBeNull();
+
+    canvas.setConfig({ scales: { legend: true } });
+    const legend = canvas.shadowRoot!.querySelector(".scale-legend")!;
+    const titles = [...legend.querySelectorAll(".scale-legend-title")].map(title => title.textContent);
+    expect(titles).toEqual(["Node size: pageRank", "Node color: pageRank", "Link width: weight"]);
+
+    canvas.setConfig({ scales: { legend: false } });
+    expect(canvas.shadowRoot!.querySelector(".scale-legend")).toBeNull();
+  });
+});
@@ -0,0 +1,370 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, ForceGraphConfig } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+function getLastInstance() {
+  return forceGraphMockState.lastInstance!;
+}
+
+const DATA: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "Alice" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#0f0", data: { name: "Bob" } },
+    { id: 3, labels: ["Person"], visible: true, color: "#00f", data: { name: "Carol" } },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, color: "#888", data: {} },
+    { id: 11, relationship: "KNOWS", source: 2, target: 3, visible: true, color: "#888", data: {} },
+  ],
+};
+
+/** Canvas with nodes at x = 0, 100, 200 on y = 0 and the viewport centred on the origin at zoom 1 */
+function setup(config: Partial<ForceGraphConfig> = {}) {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  const onSelectionChange = vi.fn();
+  canvas.setConfig({ width: 800, height: 600, selection: { enabled: true }, eventHandlers: { onSelectionChange }, ...config });
+  canvas.setData(DATA);
+  canvas.getGraphData().nodes.forEach((node, i) => {
+    node.x = i * 100;
+    node.y = 0;
+  });
+  return { canvas, instance: getLastInstance(), onSelectionChange };
+}
+
+function selectedIds(canvas: CanvasElement) {
+  const { nodes, links } = canvas.getSelection();
+  return { nodes: nodes.map(n => n.id), links: links.map(l => l.id) };
+}
+
+function pointer(type: string, clientX: number, clientY: number, init: MouseEventInit = {}) {
+  return new MouseEvent(type, { clientX, clientY, bubbles: true, composed: true, ...init });
+}
+
+describe("selection API", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("sets, reads and clears the selection, ignoring unknown ids", () => {
+    const { canvas, onSelectionChange } = setup();
+    const events: unknown[] = [];
+    canvas.addEventListener("selection-change", (e) => events.push((e as CustomEvent).detail.selection));
+
+    canvas.setSelection({ nodes: [1, 99], links: [10] });
+    expect(selectedIds(canvas)).toEqual({ nodes: [1], links: [10] });
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+    expect(events).toHaveLength(1);
+
+    // Same selection again: no event
+    canvas.setSelection({ nodes: [1], links: [10] });
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+
+    canvas.clearSelection();
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [] });
+    expect(onSelectionChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops removed elements from the selection", async () => {
+    const { canvas, onSelectionChange } = setup();
+    canvas.setSelection({ nodes: [1, 3], links: [10, 11] });
+
+    canvas.removeNodes([3]);
+    expect(selectedIds(canvas)).toEqual({ nodes: [1], links: [10] });
+    expect(onSelectionChange).toHaveBeenCalledTimes(2);
+
+    canvas.setData({ nodes: DATA.nodes.slice(1), links: [] });
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [] });
+  });
+
+  it("renders selected nodes with the selected font weight", () => {
+    const { canvas, instance } = setup({ captionsKeys: [["name", true]], largeGraph: { enabled: false } });
+    canvas.setSelection({ nodes: [1] });
+
+    const ctx = {
+      beginPath: vi.fn(),
+      arc: vi.fn(),
+      stroke: vi.fn(),
+      fill: vi.fn(),
+      fillText: vi.fn(),
+      save: vi.fn(),
+      restore: vi.fn(),
+      measureText: vi.fn(() => ({
+        width: 1,
+        actualBoundingBoxAscent: 1,
+        actualBoundingBoxDescent: 0,
+        actualBoundingBoxLeft: 0,
+        actualBoundingBoxRight: 1,
+      })),
+      lineWidth: 1,
+      font: "",
+    } as unknown as CanvasRenderingContext2D;
+
+    const [alice, bob] = canvas.getGraphData().nodes;
+    instance.callbacks.nodeCanvasObject!(alice, ctx);
+    expect(ctx.font).toMatch(/^700 /);
+    expect(ctx.lineWidth).toBe(1);
+    instance.callbacks.nodeCanvasObject!(bob, ctx);
+    expect(ctx.font).toMatch(/^400 /);
+    expect(ctx.lineWidth).toBe(0.5);
+  });
+});
+
+describe("click selection", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("replaces on click, toggles on modifier click and clears on background click", () => {
+    const { canvas, instance } = setup();
+    const [alice, bob] = canvas.getGraphData().nodes;
+    const [knows] = canvas.getGraphData().links;
+
+    instance.callbacks.onNodeClick!(alice, new MouseEvent("click"));
+    expect(selectedIds(canvas)).toEqual({ nodes: [1], links: [] });
+
+    instance.callbacks.onNodeClick!(bob, new MouseEvent("click", { shiftKey: true }));
+    instance.callbacks.onLinkClick!(knows, new MouseEvent("click", { shiftKey: true }));
+    expect(selectedIds(canvas)).toEqual({ nodes: [1, 2], links: [10] });
+
+    instance.callbacks.onNodeClick!(alice, new MouseEvent("click", { shiftKey: true }));
+    expect(selectedIds(canvas)).toEqual({ nodes: [2], links: [10] });
+
+    instance.callbacks.onLinkClick!(knows, new MouseEvent("click"));
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [10] });
+
+    instance.callbacks.onBackgroundClick!(new MouseEvent("click", { shiftKey: true }));
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [10] });
+    instance.callbacks.onBackgroundClick!(new MouseEvent("click"));
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [] });
+  });
+
+  it("does not select on click unless enabled", () => {
+    const { canvas, instance } = setup({ selection: { enabled: false } });
+    instance.callbacks.onNodeClick!(canvas.getGraphData().nodes[0], new MouseEvent("click"));
+    expect(selectedIds(canvas)).toEqual({ nodes: [], links: [] });
+  });
+});
+
+describe("box and lasso selection", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  function getContainer(canvas: CanvasElement) {
+    return canvas.shadowRoot!.querySelector("div")!;
+  }
+
+  it("selects nodes inside a modifier-dragged box and the links between them", () => {
+    const { canvas } = setup();
+    const container = getContainer(canvas);
+    // Screen (400, 300) is the world origin
+    container.dispatchEvent(pointer("pointerdown", 350, 250, { shiftKey: true }));
+    expect(container.querySelector(".selection-marquee")).not.toBeNull();
+    window.dispatchEvent(pointer("pointermove", 550, 350));
+    window.dispatchEvent(pointer("pointerup", 550, 350));
+
+    expect(selectedIds(canvas)).toEqual({ nodes: [1, 2], links: [10] });
+    expect(container.querySelector(".selection-marquee")).toBeNull();
+  });
+
+  it("selects nodes inside a freehand lasso", () => {
+    const { canvas } = setup();
+    const container = getContainer(canvas);
+    canvas.setSelection({ nodes: [1] });
+
+    // Triangle around node 3 (world 200, 0) only
+    container.dispatchEvent(pointer("pointerdown", 560, 250, { altKey: true }));
+    window.dispatchEvent(pointer("pointermove", 660, 250));
+    window.dispatchEvent(pointer("pointermove", 610, 350));
+    window.dispatchEvent(pointer("pointerup", 610, 350));
+
+    // Without the multi-select modifier the lasso replaces the selection
+    expect(selectedIds(canvas)).toEqual({ nodes: [3], links: [] });
+  });
+
+  it("keeps the drag from reaching force-graph and leaves plain drags alone", () => {
+    const { canvas, instance } = setup();
+    const container = getContainer(canvas);
+    const inner = document.createElement("div");
+    container.appendChild(inner);
+    const innerDown = vi.fn();
+    inner.addEventListener("pointerdown", innerDown);
+
+    inner.dispatchEvent(pointer("pointerdown", 0, 0));
+    expect(innerDown).toHaveBeenCalledTimes(1);
+
+    inner.dispatchEvent(pointer("pointerdown", 0, 0, { shiftKey: true }));
+    expect(innerDown).toHaveBeenCalledTimes(1);
+    window.dispatchEvent(pointer("pointerup", 0, 0));
+
+    // Pressing on a node lets force-graph drag it
+    instance.callbacks.onNodeHover!(canvas.getGraphData().nodes[0]);
+    inner.dispatchEvent(pointer("pointerdown", 0, 0, { shiftKey: true }));
+    expect(innerDown).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets a shift-click on a link reach force-graph and toggle the link", () => {
+    const { canvas, instance } = setup();
+    const container = getContainer(canvas);
+    const inner = document.createElement("div");
+    container.appendChild(inner);
+    const innerDown = vi.fn();
+    inner.addEventListener("pointerdown", innerDown);
+    const knows = canvas.getGraphData().links[0];
+    canvas.setSelection({ nodes: [1] });
+
+    instance.callbacks.onLinkHover!(knows, null);
+    inner.dispatchEvent(pointer("pointerdown", 0, 0, { shiftKey: true }));
+    expect(innerDown).toHaveBeenCalledTimes(1);
+    expect(container.querySelector(".selection-marquee")).toBeNull();
+
+    instance.callbacks.onLinkClick!(knows, new MouseEvent("click", { shiftKey: true }));
+    expect(selectedIds(canvas)).toEqual({ nodes: [1], links: [knows.id] });
+
+    // Off the link, the modifier starts a box again
+    instance.callbacks.onLinkHover!(null, knows);
+    inner.dispatchEvent(pointer("pointerdown", 0, 0, { shiftKey: true }));
+    expect(container.querySelector(".selection-marquee")).not.toBeNull();
+    window.dispatchEvent(pointer("pointerup", 0, 0));
+  });
+});
+
+describe("group dragging", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  /** Drag a node the way force-graph reports it: position first, then the step since the last event */
+  function drag(instance: ReturnType<typeof getLastInstance>, node: { x?: number; y?: number }, steps: [number, number][]) {
+    const startX = node.x ?? 0;
+    const startY = node.y ?? 0;
+    for (const [dx, dy] of steps) {
+      node.x = (node.x ?? 0) + dx;
+      node.y = (node.y ?? 0) + dy;
+      instance.callbacks.onNodeDrag!(node, { x: dx, y: dy });
+    }
+    instance.callbacks.onNodeDragEnd!(node, { x: (node.x ?? 0) - startX, y: (node.y ?? 0) - startY });
+  }
+
+  it("moves the other selected nodes and reports them in one drag-end event", () => {
+    const onNodeDragEnd = vi.fn();
+    const { canvas, instance } = setup({ eventHandlers: { onNodeDragEnd } });
+    const dragEnd = vi.fn();
+    canvas.addEventListener("node-drag-end", dragEnd);
+    const [alice, bob, carol] = canvas.getGraphData().nodes;
+    canvas.setSelection({ nodes: [1, 2] });
+
+    alice.x = 3;
+    instance.callbacks.onNodeDrag!(alice, { x: 3, y: 0 });
+    // Fixed while dragging
+    expect(bob.fx).toBe(103);
+    alice.x = 10;
+    alice.y = 5;
+    instance.callbacks.onNodeDrag!(alice, { x: 7, y: 5 });
+    instance.callbacks.onNodeDragEnd!(alice, { x: 10, y: 5 });
+
+    expect([bob.x, bob.y]).toEqual([110, 5]);
+    // Unpinned nodes are released again, like the dragged node
+    expect(bob.fx).toBeUndefined();
+    expect([carol.x, carol.y]).toEqual([200, 0]);
+    expect(onNodeDragEnd).toHaveBeenCalledTimes(1);
+    expect(onNodeDragEnd).toHaveBeenCalledWith(alice, [alice, bob]);
+    expect((dragEnd.mock.calls[0][0] as CustomEvent).detail.nodes).toEqual([alice, bob]);
+  });
+
+  it("keeps companions level with the dragged node when the first moves stay within the click tolerance", () => {
+    const { canvas, instance } = setup();
+    const [alice, bob] = canvas.getGraphData().nodes;
+    canvas.setSelection({ nodes: [1, 2] });
+
+    instance.callbacks.onNodeHover!(alice, null);
+    canvas.shadowRoot!.querySelector("div")!.dispatchEvent(pointer("pointerdown", 400, 300));
+    // force-graph moves the node within its 5px click tolerance without an onNodeDrag
+    alice.x = alice.fx = 2;
+    alice.y = alice.fy = 1;
+    alice.x = alice.fx = 4;
+    alice.y = alice.fy = 2;
+    for (const [dx, dy] of [[2, 1], [3, 0], [1, 2]]) {
+      alice.x += dx;
+      alice.y += dy;
+      instance.callbacks.onNodeDrag!(alice, { x: dx, y: dy });
+      expect([bob.x! - alice.x, bob.y! - alice.y]).toEqual([100, 0]);
+    }
+    instance.callbacks.onNodeDragEnd!(alice, { x: alice.x, y: alice.y });
+
+    expect([bob.x, bob.y]).toEqual([110, 5]);
+  });
+
+  it("uses isNodeSelected and leaves the group alone when dragging an unselected node", () => {
+    const onNodeDragEnd = vi.fn();
+    const { canvas, instance } = setup({ isNodeSelected: (n) => n.id !== 3, eventHandlers: { onNodeDragEnd } });
+    const [alice, bob, carol] = canvas.getGraphData().nodes;
+
+    drag(instance, carol, [[10, 0]]);
+    expect(onNodeDragEnd).toHaveBeenLastCalledWith(carol, [carol]);
+    expect(bob.x).toBe(100);
+
+    drag(instance, alice, [[0, 10]]);
+    expect(onNodeDragEnd).toHaveBeenLastCalledWith(alice, [alice, bob]);
+    expect(bob.y).toBe(10);
+  });
+
+  it("keeps pinned companions pinned at their new position in tree layout", () => {
+    const { canvas, instance } = setup({ layoutMode: "tree" });
+    const [alice, bob] = canvas.getGraphData().nodes;
+    canvas.setSelection({ nodes: [1, 2] });
+    const bobStart = { x: bob.x!, y: bob.y! };
+    expect(bob.fx).toBeDefined();
+
+    drag(instance, alice, [[20, 30]]);
+
+    expect([bob.x, bob.y]).toEqual([bobStart.x + 20, bobStart.y + 30]);
+    expect([bob.fx, bob.fy]).toEqual([bob.x, bob.y]);
+  });
+
+  it("returns pinned companions to their start with pinOnDragEnd, like the dragged node", () => {
+    const { canvas, instance } = setup();
+    canvas.setPinOnDragEnd(true);
+    const [alice, bob, carol] = canvas.getGraphData().nodes;
+    canvas.setSelection({ nodes: [1, 2, 3] });
+    // carol starts unpinned and gets pinned where she is dropped
+    carol.fx = undefined;
+    carol.fy = undefined;
+    const aliceStart = { x: alice.x!, y: alice.y! };
+    const bobStart = { x: bob.x!, y: bob.y! };
+    const carolStart = { x: carol.x!, y: carol.y! };
+
+    drag(instance, alice, [[15, 0]]);
+
+    expect([alice.x, alice.y]).toEqual([aliceStart.x, aliceStart.y]);
+    expect([bob.x, bob.fx]).toEqual([bobStart.x, bobStart.x]);
+    expect([carol.x, carol.fx]).toEqual([carolStart.x + 15, carolStart.x + 15]);
+  });
+});
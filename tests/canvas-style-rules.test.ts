@@ -0,0 +1,189 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+import { createRecordingContext } from "./mocks/canvas-context";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, GraphLink, GraphNode, StyleRule } from "../src/canvas-types";
+import { NODE_SIZE } from "../src/canvas-utils";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+const DATA: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, data: { name: "Alice", role: "admin" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#123456", data: { name: "Bob" } },
+    { id: 3, labels: ["Company"], visible: true, data: { name: "Acme" } },
+  ],
+  links: [
+    { id: 10, relationship: "WORKS_AT", source: 1, target: 3, visible: true, data: { since: 2020 } },
+    { id: 11, relationship: "KNOWS", source: 1, target: 2, visible: true, color: "#654321", data: {} },
+  ],
+};
+
+const RULES: StyleRule[] = [
+  { selector: { label: "Person" }, style: { color: "#ff0000", size: 20, borderColor: "#000000" } },
+  { selector: { label: "Company" }, style: { shape: "square", caption: "name" } },
+  { selector: { property: "role", value: "admin" }, style: { color: "#00ff00" } },
+  { selector: { relationship: "WORKS_AT" }, style: { color: "#0000ff", dash: [4, 2], width: 3, caption: "since" } },
+];
+
+function createCanvas(styleRules: StyleRule[] = RULES): CanvasElement {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, styleRules });
+  return canvas;
+}
+
+function drawNode(node: GraphNode) {
+  const recording = createRecordingContext();
+  node.x = 0;
+  node.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.onZoom?.({ k: 2, x: 0, y: 0 });
+  forceGraphMockState.lastInstance!.callbacks.nodeCanvasObject!(node, recording.ctx);
+  return recording;
+}
+
+function drawLink(link: GraphLink) {
+  const recording = createRecordingContext();
+  link.source.x = -50;
+  link.source.y = 0;
+  link.target.x = 50;
+  link.target.y = 0;
+  forceGraphMockState.lastInstance!.callbacks.onZoom?.({ k: 2, x: 0, y: 0 });
+  forceGraphMockState.lastInstance!.callbacks.linkCanvasObject!(link, recording.ctx, 1);
+  return recording;
+}
+
+function getNode(canvas: CanvasElement, id: number) {
+  return canvas.getGraphData().nodes.find(node => node.id === id)!;
+}
+
+function getLink(canvas: CanvasElement, id: number) {
+  return canvas.getGraphData().links.find(link => link.id === id)!;
+}
+
+describe("style rules", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+  });
+
+  it("styles nodes by label and property, with the element's own color winning", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    expect(getNode(canvas, 1).size).toBe(20);
+    expect(drawNode(getNode(canvas, 1)).sets.fillStyle?.[0]).toBe("#00ff00");
+    expect(drawNode(getNode(canvas, 1)).sets.strokeStyle).toContain("#000000");
+    expect(drawNode(getNode(canvas, 2)).sets.fillStyle?.[0]).toBe("#123456");
+    expect(getNode(canvas, 3).size).toBe(NODE_SIZE);
+    expect(getNode(canvas, 3).style?.shape).toBe("square");
+  });
+
+  it("keeps an explicit node size over the rule size", () => {
+    const canvas = createCanvas();
+    canvas.setData({ ...DATA, nodes: [{ ...DATA.nodes[0], size: 7 }, ...DATA.nodes.slice(1)] });
+
+    expect(getNode(canvas, 1).size).toBe(7);
+  });
+
+  it("captions nodes with the rule's property", () => {
+    const canvas = createCanvas();
+    canvas.setConfig({ captionsKeys: ["role"] });
+    canvas.setData(DATA);
+
+    expect(drawNode(getNode(canvas, 3)).ctx.fillText).toHaveBeenCalledWith("Acme", expect.any(Number), expect.any(Number));
+  });
+
+  it("draws links with the rule's color, dash, width and caption", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    const styled = drawLink(getLink(canvas, 10));
+    expect(styled.sets.strokeStyle).toContain("#0000ff");
+    expect(styled.sets.lineWidth).toContain(3);
+    expect(styled.ctx.setLineDash).toHaveBeenCalledWith([4, 2]);
+    expect(styled.ctx.fillText).toHaveBeenCalledWith("2020", expect.any(Number), expect.any(Number));
+
+    const own = drawLink(getLink(canvas, 11));
+    expect(own.sets.strokeStyle).toContain("#654321");
+    expect(own.ctx.fillText).toHaveBeenCalledWith("KNOWS", expect.any(Number), expect.any(Number));
+  });
+
+  it("restyles the current data when the rules change", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+    const node = getNode(canvas, 1);
+
+    canvas.setConfig({ styleRules: [{ selector: { label: "Person" }, style: { color: "#abcdef", size: 30 } }] });
+
+    expect(getNode(canvas, 1)).toBe(node);
+    expect(node.size).toBe(30);
+    expect(drawNode(node).sets.fillStyle?.[0]).toBe("#abcdef");
+    expect(getLink(canvas, 10).style).toBeUndefined();
+
+    canvas.setConfig({ styleRules: [] });
+    expect(node.size).toBe(NODE_SIZE);
+    expect(node.style).toBeUndefined();
+  });
+
+  it("re-evaluates rules when a node's data changes", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    canvas.updateNode(2, { data: { name: "Bob", role: "admin" }, color: undefined });
+
+    expect(getNode(canvas, 2).style?.color).toBe("#00ff00");
+  });
+
+  it("leaves style out of getData", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    const data = canvas.getData();
+    expect(data.nodes.every(node => !("style" in node))).toBe(true);
+    expect(data.links.every(link => !("style" in link))).toBe(true);
+  });
+
+  it("returns only the node's own size from getData, so rule sizes survive a round-trip", () => {
+    const canvas = createCanvas();
+    canvas.setData({ ...DATA, nodes: [...DATA.nodes.slice(0, 2), { ...DATA.nodes[2], size: 7 }] });
+
+    const data = canvas.getData();
+    expect(data.nodes.map(node => node.size)).toEqual([undefined, undefined, 7]);
+    canvas.setData(data);
+    canvas.setConfig({ styleRules: [{ selector: { label: "Person" }, style: { size: 30 } }, { selector: { label: "Company" }, style: { size: 40 } }] });
+
+    expect([1, 2, 3].map(id => getNode(canvas, id).size)).toEqual([30, 30, 7]);
+  });
+
+  it("keeps a size changed in place over the rules on refresh", () => {
+    const canvas = createCanvas();
+    canvas.setData(DATA);
+
+    getNode(canvas, 1).size = 12;
+    canvas.refresh();
+    canvas.setConfig({ styleRules: [] });
+
+    expect(getNode(canvas, 1).size).toBe(12);
+    expect(canvas.getData().nodes[0].size).toBe(12);
+  });
+});
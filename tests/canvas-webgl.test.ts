@@ -0,0 +1,202 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+import { createWebGLMock } from "./mocks/webgl";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, ForceGraphConfig } from "../src/canvas-types";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+function createCtxSpy() {
+  const spy = {
+    beginPath: vi.fn(),
+    arc: vi.fn(),
+    stroke: vi.fn(),
+    fill: vi.fn(),
+    fillText: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    quadraticCurveTo: vi.fn(),
+    bezierCurveTo: vi.fn(),
+    setLineDash: vi.fn(),
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    closePath: vi.fn(),
+    fillRect: vi.fn(),
+    roundRect: vi.fn(),
+    rect: vi.fn(),
+    measureText: vi.fn(() => ({
+      width: 10,
+      actualBoundingBoxAscent: 2,
+      actualBoundingBoxDescent: 1,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: 10,
+    })),
+    getTransform: vi.fn(() => ({ a: 2, b: 0, c: 0, d: 2, e: 800, f: 600 })),
+    canvas: { width: 1600, height: 1200 },
+    lineWidth: 1,
+    strokeStyle: "#000",
+    fillStyle: "#000",
+    font: "12px sans-serif",
+    textAlign: "center" as CanvasTextAlign,
+    textBaseline: "middle" as CanvasTextBaseline,
+    globalAlpha: 1,
+    globalCompositeOperation: "source-over" as GlobalCompositeOperation,
+  };
+  return spy as typeof spy & CanvasRenderingContext2D;
+}
+
+const DATA: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "Alice" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#0f0", data: { name: "Bob" } },
+    { id: 3, labels: ["Person"], visible: true, color: "#00f", shape: "square", data: { name: "Carol" } },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, color: "#888", data: {} },
+    { id: 11, relationship: "KNOWS", source: 2, target: 2, visible: true, color: "#888", data: {} },
+  ],
+};
+
+/** Canvas whose `getContext('webgl2')` returns the mock, or null when `available` is false */
+function setup(config: Partial<ForceGraphConfig> = {}, available = true) {
+  const mock = createWebGLMock();
+  const getContext = HTMLCanvasElement.prototype.getContext;
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (this: HTMLCanvasElement, type: string, ...args: unknown[]) {
+    if (type === "webgl2") return available ? mock.gl : null;
+    return (getContext as (...params: unknown[]) => RenderingContext | null).call(this, type, ...args);
+  } as typeof getContext);
+
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  canvas.setConfig({ width: 800, height: 600, renderer: "webgl", captionsKeys: [["name", true]], ...config });
+  canvas.setData(DATA);
+  const { nodes, links } = canvas.getGraphData();
+  nodes.forEach((node, i) => {
+    node.x = i * 100;
+    node.y = 0;
+  });
+  const instance = forceGraphMockState.lastInstance!;
+  // Zoomed in far enough that arrowheads are drawn
+  instance.callbacks.onZoom?.({ k: 2, x: 100, y: 0 });
+  return { canvas, nodes, links, instance, ...mock };
+}
+
+describe("WebGL renderer", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+    vi.restoreAllMocks();
+  });
+
+  it("draws circles, links and arrowheads on the WebGL layer and leaves labels to 2D", () => {
+    const { canvas, nodes, links, instance, callsTo } = setup();
+    const layer = canvas.shadowRoot!.querySelector<HTMLCanvasElement>("canvas.webgl-layer");
+    expect(layer).not.toBeNull();
+    expect(instance.backgroundColorValue).toBe("rgba(0, 0, 0, 0)");
+
+    const ctx = createCtxSpy();
+    instance.callbacks.onRenderFramePre!(ctx, 2);
+
+    expect([layer!.width, layer!.height]).toEqual([1600, 1200]);
+    expect(callsTo("drawArraysInstanced").map(([, , , count]) => count)).toEqual([1, 1, 2]);
+
+    // Circle nodes: only the caption is drawn in 2D, after clearing the disc's area
+    instance.callbacks.nodeCanvasObject!(nodes[0], ctx);
+    expect(ctx.stroke).not.toHaveBeenCalled();
+    expect(ctx.fill).toHaveBeenCalledTimes(1);
+    expect(ctx.fillText).toHaveBeenCalledWith("Alice", expect.any(Number), expect.any(Number));
+    ctx.fill.mockClear();
+
+    // Other shapes keep the 2D path
+    instance.callbacks.nodeCanvasObject!(nodes[2], ctx);
+    expect(ctx.fill).toHaveBeenCalled();
+
+    // Straight link: label only; self-loop: fully 2D
+    instance.callbacks.linkCanvasObject!(links[0], ctx, 2);
+    expect(ctx.quadraticCurveTo).not.toHaveBeenCalled();
+    expect(ctx.fillText).toHaveBeenCalledWith("KNOWS", expect.any(Number), expect.any(Number));
+    instance.callbacks.linkCanvasObject!(links[1], ctx, 2);
+    expect(ctx.bezierCurveTo).toHaveBeenCalled();
+  });
+
+  it("keeps 2D links and labels underneath WebGL nodes", () => {
+    const { nodes, links, instance } = setup();
+    const ctx = createCtxSpy();
+    const drawn: string[] = [];
+    ctx.fillText.mockImplementation((text: string) => { drawn.push(`text ${text}`); });
+    ctx.bezierCurveTo.mockImplementation(() => { drawn.push("self-loop"); });
+    ctx.fill.mockImplementation(() => { drawn.push(`fill ${ctx.globalCompositeOperation}`); });
+    ctx.save.mockImplementation(() => { drawn.push("save"); });
+    ctx.restore.mockImplementation(() => {
+      ctx.globalCompositeOperation = "source-over";
+      drawn.push("restore");
+    });
+
+    // force-graph's order: links, then nodes
+    instance.callbacks.onRenderFramePre!(ctx, 2);
+    instance.callbacks.linkCanvasObject!(links[1], ctx, 2);
+    instance.callbacks.linkCanvasObject!(links[0], ctx, 2);
+    drawn.length = 0;
+    instance.callbacks.nodeCanvasObject!(nodes[1], ctx);
+
+    expect(drawn.indexOf("fill destination-out")).toBeGreaterThanOrEqual(0);
+    expect(drawn.indexOf("fill destination-out")).toBeLessThan(drawn.indexOf("text Bob"));
+    expect(drawn.indexOf("restore", drawn.indexOf("fill destination-out"))).toBeLessThan(drawn.indexOf("text Bob"));
+    expect(ctx.arc).toHaveBeenLastCalledWith(100, 0, nodes[1].size + ctx.lineWidth, 0, 2 * Math.PI, false);
+  });
+
+  it("draws everything in 2D outside a WebGL frame", () => {
+    const { nodes, instance } = setup();
+    const ctx = createCtxSpy();
+
+    instance.callbacks.onRenderFramePre!(ctx, 2);
+    instance.callbacks.onRenderFramePost!(ctx, 2);
+    instance.callbacks.nodeCanvasObject!(nodes[0], ctx);
+
+    expect(ctx.arc).toHaveBeenCalled();
+    expect(ctx.fill).toHaveBeenCalled();
+  });
+
+  it("falls back to the 2D renderer when WebGL2 is unavailable", () => {
+    const { canvas, nodes, instance } = setup({ backgroundColor: "#123456" }, false);
+    const ctx = createCtxSpy();
+
+    instance.callbacks.onRenderFramePre!(ctx, 2);
+    instance.callbacks.nodeCanvasObject!(nodes[0], ctx);
+
+    expect(canvas.shadowRoot!.querySelector("canvas.webgl-layer")).toBeNull();
+    expect(instance.backgroundColorValue).toBe("#123456");
+    expect(ctx.arc).toHaveBeenCalled();
+  });
+
+  it("removes the WebGL layer when switching back to the canvas renderer", () => {
+    const { canvas, instance, callsTo } = setup({ backgroundColor: "#123456" });
+
+    canvas.setConfig({ renderer: "canvas" });
+
+    expect(canvas.shadowRoot!.querySelector("canvas.webgl-layer")).toBeNull();
+    expect(instance.backgroundColorValue).toBe("#123456");
+    expect(callsTo("deleteProgram")).toHaveLength(3);
+  });
+});
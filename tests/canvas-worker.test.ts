@@ -0,0 +1,206 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  forceGraphMockState,
+  resetForceGraphMockState,
+} from "./mocks/force-graph";
+
+vi.mock("force-graph", async () => import("./mocks/force-graph"));
+
+import "../src/canvas";
+import type { Data, ForceGraphConfig, SimulationProgress } from "../src/canvas-types";
+import {
+  createForceWorkerHandler,
+  type ForceWorkerRequest,
+  type ForceWorkerResponse,
+} from "../src/force-simulation";
+import type { CanvasTestElement } from "./test-types";
+
+type CanvasElement = CanvasTestElement;
+
+beforeAll(() => {
+  class ResizeObserverMock {
+    observe() {}
+    disconnect() {}
+  }
+  Object.defineProperty(globalThis, "ResizeObserver", { value: ResizeObserverMock, configurable: true });
+  Object.defineProperty(document, "fonts", {
+    value: { addEventListener: vi.fn(), removeEventListener: vi.fn() },
+    configurable: true,
+  });
+});
+
+/** Runs the real worker handler in-thread; batches run only when the test asks */
+class MockWorker {
+  static instances: MockWorker[] = [];
+
+  requests: ForceWorkerRequest[] = [];
+
+  terminated = false;
+
+  private batches: (() => void)[] = [];
+
+  private listeners = new Map<string, ((event: unknown) => void)[]>();
+
+  private handle = createForceWorkerHandler(
+    (response) => this.emit("message", { data: response }),
+    (next) => this.batches.push(next)
+  );
+
+  constructor(public url: URL, public options: WorkerOptions) {
+    MockWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  postMessage(request: ForceWorkerRequest) {
+    this.requests.push(request);
+    this.handle(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  runBatch() {
+    this.batches.shift()?.();
+  }
+
+  runAll() {
+    while (this.batches.length > 0) this.runBatch();
+  }
+
+  emit(type: string, event: unknown) {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
+
+const DATA: Data = {
+  nodes: [
+    { id: 1, labels: ["Person"], visible: true, color: "#f00", data: { name: "Alice" } },
+    { id: 2, labels: ["Person"], visible: true, color: "#0f0", data: { name: "Bob" } },
+    { id: 3, labels: ["Person"], visible: true, color: "#00f", data: { name: "Carol" } },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, color: "#888", data: {} },
+    { id: 11, relationship: "KNOWS", source: 2, target: 3, visible: true, color: "#888", data: {} },
+  ],
+};
+
+function setup(config: Partial<ForceGraphConfig> = {}) {
+  const canvas = document.createElement("falkordb-canvas") as CanvasElement;
+  document.body.appendChild(canvas);
+  const onSimulationProgress = vi.fn<(progress: SimulationProgress) => void>();
+  const onEngineStop = vi.fn();
+  canvas.setConfig({
+    width: 800,
+    height: 600,
+    simulation: { useWorker: true, warmupTicks: 30, workerBatchTicks: 10 },
+    eventHandlers: { onSimulationProgress, onEngineStop },
+    ...config,
+  });
+  return { canvas, onSimulationProgress, onEngineStop };
+}
+
+function lastWorker() {
+  return MockWorker.instances[MockWorker.instances.length - 1];
+}
+
+describe("worker force simulation", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    resetForceGraphMockState();
+    vi.unstubAllGlobals();
+    MockWorker.instances = [];
+  });
+
+  it("streams worker positions onto the nodes and pins them when done", () => {
+    vi.stubGlobal("Worker", MockWorker);
+    const { canvas, onSimulationProgress, onEngineStop } = setup();
+    const events: SimulationProgress[] = [];
+    canvas.addEventListener("simulation-progress", (e) => events.push((e as CustomEvent).detail.progress));
+
+    canvas.setData(DATA);
+    const worker = lastWorker();
+    // Vitest serves the TypeScript source for the emitted force-worker.js
+    expect(worker.url.pathname).toMatch(/force-worker\.(js|ts)$/);
+    expect(worker.options).toEqual({ type: "module" });
+    expect(worker.requests[0]).toMatchObject({ type: "start", ticks: 30, batchTicks: 10 });
+    expect(onSimulationProgress).toHaveBeenLastCalledWith({ tick: 10, totalTicks: 30 });
+    expect(canvas.shadowRoot!.querySelector("canvas")!.getAttribute("data-engine-status")).toBe("running");
+
+    // force-graph stopping its own (idle) engine is not the end of the warmup
+    forceGraphMockState.lastInstance!.callbacks.onEngineStop?.();
+    expect(onEngineStop).not.toHaveBeenCalled();
+
+    worker.runAll();
+
+    expect(events.map(p => p.tick)).toEqual([10, 20, 30]);
+    expect(onEngineStop).toHaveBeenCalledTimes(1);
+    const nodes = canvas.getGraphData().nodes;
+    nodes.forEach(node => {
+      expect(node.fx).toBe(node.x);
+      expect(node.fy).toBe(node.y);
+    });
+    // Nodes were spread by the worker, not left at their initial spacing
+    expect(Math.hypot(nodes[2].x! - nodes[0].x!, nodes[2].y! - nodes[0].y!)).toBeGreaterThan(100);
+    expect(canvas.shadowRoot!.querySelector("canvas")!.getAttribute("data-engine-status")).toBe("stopped");
+  });
+
+  it("cancels the running warmup when new data arrives and ignores its late results", () => {
+    vi.stubGlobal("Worker", MockWorker);
+    const { canvas } = setup();
+
+    canvas.setData(DATA);
+    canvas.setData(DATA);
+    const worker = lastWorker();
+    expect(MockWorker.instances).toHaveLength(1);
+    expect(worker.requests.map(r => [r.type, r.jobId])).toEqual([["start", 1], ["cancel", 1], ["start", 2]]);
+
+    const node = canvas.getGraphData().nodes[0];
+    const before = { x: node.x, y: node.y };
+    const stale: ForceWorkerResponse = { type: "done", jobId: 1, tick: 30, totalTicks: 30, positions: new Float32Array(6).fill(999) };
+    worker.emit("message", { data: stale });
+    expect({ x: node.x, y: node.y }).toEqual(before);
+  });
+
+  it("cancels the warmup when switching to a deterministic layout", () => {
+    vi.stubGlobal("Worker", MockWorker);
+    const { canvas } = setup();
+
+    canvas.setData(DATA);
+    canvas.setLayout("tree");
+    const worker = lastWorker();
+    worker.runAll();
+
+    expect(worker.requests.map(r => r.type)).toEqual(["start", "cancel"]);
+  });
+
+  it("warms up on the main thread when workers are unavailable", () => {
+    const { canvas, onSimulationProgress } = setup();
+
+    canvas.setData(DATA);
+
+    expect(MockWorker.instances).toHaveLength(0);
+    expect(onSimulationProgress).not.toHaveBeenCalled();
+    expect(forceGraphMockState.lastInstance!.data.nodes).toHaveLength(3);
+  });
+
+  it("falls back to the main thread for good after a worker error", () => {
+    vi.stubGlobal("Worker", MockWorker);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { canvas } = setup();
+
+    canvas.setData(DATA);
+    const worker = lastWorker();
+    worker.emit("error", { message: "boom", preventDefault() {} });
+    canvas.setData(DATA);
+
+    expect(worker.terminated).toBe(true);
+    expect(MockWorker.instances).toHaveLength(1);
+    expect(worker.requests).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("worker failed"), "boom");
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import * as d3 from "d3";
+import {
+  detectCommunities,
+  forceCommunityAttraction,
+  forceCommunitySeparation,
+} from "../src/communities";
+
+/** Triangles 0-1-2 and 3-4-5 joined by the link 2–3 */
+const TWO_TRIANGLES = [0, 1, 1, 2, 2, 0, 3, 4, 4, 5, 5, 3, 2, 3];
+
+type Node = d3.SimulationNodeDatum & { community: number };
+
+function nodesAt(points: [number, number, number][]): Node[] {
+  return points.map(([x, y, community]) => ({ x, y, vx: 0, vy: 0, community }));
+}
+
+describe("detectCommunities", () => {
+  it("splits loosely joined clusters", () => {
+    expect([...detectCommunities(6, TWO_TRIANGLES)]).toEqual([0, 0, 0, 1, 1, 1]);
+  });
+
+  it("numbers communities by size, largest first", () => {
+    // Triangle 3-4-5 plus a fourth node 6 outweighs the triangle 0-1-2
+    const links = [...TWO_TRIANGLES, 5, 6, 6, 3, 6, 4];
+    expect([...detectCommunities(7, links)]).toEqual([1, 1, 1, 0, 0, 0, 0]);
+  });
+
+  it("keeps isolated nodes in communities of their own", () => {
+    expect([...detectCommunities(3, [])]).toEqual([0, 1, 2]);
+    expect([...detectCommunities(0, [])]).toEqual([]);
+  });
+
+  it("merges clusters at a low resolution", () => {
+    expect(new Set(detectCommunities(6, TWO_TRIANGLES, 0.05)).size).toBe(1);
+  });
+
+  it("is deterministic", () => {
+    const links = d3.range(200).flatMap(i => [i % 40, (i * 7 + 3) % 40]);
+    expect(detectCommunities(40, links)).toEqual(detectCommunities(40, links));
+  });
+});
+
+describe("community forces", () => {
+  it("pulls members towards their community center", () => {
+    const nodes = nodesAt([[0, 0, 0], [10, 0, 0], [50, 50, -1]]);
+    const force = forceCommunityAttraction<Node>(node => node.community, 0.5);
+    force.initialize?.(nodes, Math.random);
+    force(1);
+
+    expect(nodes[0].vx).toBeCloseTo(2.5);
+    expect(nodes[1].vx).toBeCloseTo(-2.5);
+    expect(nodes[2].vx).toBe(0);
+  });
+
+  it("pushes overlapping communities apart, moving the smaller one more", () => {
+    const nodes = nodesAt([[0, 0, 0], [2, 0, 0], [4, 0, 0], [10, 0, 1], [99, 99, -1]]);
+    const force = forceCommunitySeparation<Node>(node => node.community, 20);
+    force.initialize?.(nodes, Math.random);
+    force(1);
+
+    expect(nodes[0].vx).toBeLessThan(0);
+    expect(nodes[0].vx).toBe(nodes[2].vx);
+    // Shares of the push are inverse to community size: 1 member against 3
+    expect(nodes[3].vx).toBeCloseTo(-3 * nodes[0].vx!);
+    expect(nodes[4].vx).toBe(0);
+  });
+
+  it("leaves communities alone once they are far enough apart", () => {
+    const nodes = nodesAt([[0, 0, 0], [2, 0, 0], [100, 0, 1]]);
+    const force = forceCommunitySeparation<Node>(node => node.community, 20);
+    force.initialize?.(nodes, Math.random);
+    force(1);
+
+    expect(nodes.map(node => node.vx)).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { GraphData, GraphLink, GraphNode } from "../src/canvas-types";
+import { findConnectedComponents, packComponentLayouts } from "../src/component-packing";
+
+function node(id: number, x = 0, y = 0): GraphNode {
+  return { id, labels: [], visible: true, expand: [false, new Date(0)], displayName: ["", ""], size: 10, data: {}, x, y };
+}
+
+function link(id: number, source: GraphNode, target: GraphNode): GraphLink {
+  return { id, relationship: "R", source, target, visible: true, color: "#888", curve: 0, data: {} };
+}
+
+/** Node circles of two components overlap if their boxes intersect */
+function boxesOverlap(a: GraphNode[], b: GraphNode[]) {
+  const box = (nodes: GraphNode[]) => ({
+    minX: Math.min(...nodes.map(n => n.x! - n.size)),
+    maxX: Math.max(...nodes.map(n => n.x! + n.size)),
+    minY: Math.min(...nodes.map(n => n.y! - n.size)),
+    maxY: Math.max(...nodes.map(n => n.y! + n.size)),
+  });
+  const ba = box(a);
+  const bb = box(b);
+  return ba.minX < bb.maxX && bb.minX < ba.maxX && ba.minY < bb.maxY && bb.minY < ba.maxY;
+}
+
+describe("findConnectedComponents", () => {
+  it("splits the graph into components, largest first", () => {
+    const nodes = [1, 2, 3, 4, 5, 6].map(id => node(id));
+    const links = [link(1, nodes[0], nodes[4]), link(2, nodes[1], nodes[2]), link(3, nodes[2], nodes[3]), link(4, nodes[3], nodes[1])];
+
+    const components = findConnectedComponents({ nodes, links });
+
+    expect(components.map(c => c.nodes.map(n => n.id))).toEqual([[2, 3, 4], [1, 5], [6]]);
+    expect(components.map(c => c.links.map(l => l.id))).toEqual([[2, 3, 4], [1], []]);
+  });
+});
+
+describe("packComponentLayouts", () => {
+  it("moves overlapping components apart and centers the result", () => {
+    // Three components all laid out around the origin
+    const a = [node(1, -50, 0), node(2, 50, 0)];
+    const b = [node(3, 0, 0), node(4, 0, 40)];
+    const c = [node(5, 0, 0)];
+    const data: GraphData[] = [
+      { nodes: a, links: [link(1, a[0], a[1])] },
+      { nodes: b, links: [] },
+      { nodes: c, links: [] },
+    ];
+    a.forEach(n => { n.fx = n.x; n.fy = n.y; });
+    data[0].links[0].route = [{ x: 0, y: 0 }];
+
+    packComponentLayouts(data, 20);
+
+    expect(boxesOverlap(a, b)).toBe(false);
+    expect(boxesOverlap(a, c)).toBe(false);
+    expect(boxesOverlap(b, c)).toBe(false);
+    // Components keep their shape; pins and bends move along
+    expect(a[1].x! - a[0].x!).toBe(100);
+    expect(b[1].y! - b[0].y!).toBe(40);
+    expect(a[0].fx).toBe(a[0].x);
+    expect(data[0].links[0].route).toEqual([{ x: (a[0].x! + a[1].x!) / 2, y: a[0].y }]);
+
+    const all = [...a, ...b, ...c];
+    const minX = Math.min(...all.map(n => n.x! - n.size));
+    const maxX = Math.max(...all.map(n => n.x! + n.size));
+    expect(minX + maxX).toBeCloseTo(0);
+  });
+
+  it("wraps rows to keep the packing compact", () => {
+    const components: GraphData[] = Array.from({ length: 9 }, (_, i) => ({ nodes: [node(i)], links: [] }));
+
+    packComponentLayouts(components, 10);
+
+    const xs = new Set(components.map(c => c.nodes[0].x));
+    const ys = new Set(components.map(c => c.nodes[0].y));
+    expect(xs.size).toBe(3);
+    expect(ys.size).toBe(3);
+  });
+
+  it("leaves a single component where it is", () => {
+    const nodes = [node(1, 5, 5)];
+    packComponentLayouts([{ nodes, links: [] }]);
+    expect([nodes[0].x, nodes[0].y]).toEqual([5, 5]);
+  });
+});
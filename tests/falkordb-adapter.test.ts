@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_LABEL_PALETTE } from "../src/canvas-utils";
+import {
+  falkorDBResultToData,
+  getLabelColor,
+} from "../src/falkordb-adapter";
+import {
+  clientEdgesOnlyResult,
+  clientResult,
+  compactPathRows,
+  compactRows,
+  compactScalarRows,
+  socialSchema,
+  verboseRows,
+} from "./fixtures/falkordb-results";
+
+describe("falkorDBResultToData", () => {
+  it("converts compact rows using the schema and de-duplicates elements", () => {
+    const data = falkorDBResultToData(compactRows, { schema: socialSchema });
+
+    expect(data.nodes.map((n) => n.id)).toEqual([0, 1, 2]);
+    expect(data.links.map((l) => l.id)).toEqual([0, 1, 2]);
+
+    expect(data.nodes[0]).toMatchObject({
+      labels: ["Person"],
+      visible: true,
+      data: { name: "Alice", age: 32 },
+    });
+    expect(data.nodes[2].labels).toEqual(["City"]);
+    expect(data.links[0]).toMatchObject({
+      relationship: "KNOWS",
+      source: 0,
+      target: 1,
+      data: { since: 2019 },
+    });
+    expect(data.links[2]).toMatchObject({ relationship: "LIVES_IN", source: 0, target: 2 });
+  });
+
+  it("collects nodes and edges from compact path values", () => {
+    const data = falkorDBResultToData(compactPathRows, { schema: socialSchema });
+
+    expect(data.nodes.map((n) => n.id).sort()).toEqual([0, 1, 2]);
+    expect(data.links.map((l) => l.id).sort()).toEqual([0, 1, 2]);
+  });
+
+  it("decodes compact property values and ignores scalar columns", () => {
+    const data = falkorDBResultToData(compactScalarRows, { schema: socialSchema });
+
+    expect(data.nodes).toHaveLength(1);
+    expect(data.links).toHaveLength(0);
+    expect(data.nodes[0].data).toEqual({ name: "Alice", score: 0.75 });
+  });
+
+  it("falls back to raw ids and reports unknown schema ids", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const data = falkorDBResultToData(compactRows, { format: "compact" });
+
+    expect(data.nodes[0].labels).toEqual(["0"]);
+    expect(data.links[0].relationship).toBe("0");
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("skips compact payloads of an unexpected shape", () => {
+    const data = falkorDBResultToData([
+      [[8, "bob"], [8, [1, "Person", []]], [7, [1, "KNOWS"]], [10, 4], [9, null]],
+    ], { format: "compact" });
+
+    expect(data).toEqual({ nodes: [], links: [] });
+  });
+
+  it("keeps compact integer properties beyond the safe range exact", () => {
+    const data = falkorDBResultToData([
+      [[8, [0, [0], [[0, 3, "9007199254740993"], [1, 3, 9007199254740993n], [2, 3, "42"]]]]],
+    ], { schema: { labels: ["Person"], relationshipTypes: [], propertyKeys: ["a", "b", "c"] } });
+
+    expect(data.nodes[0].data).toEqual({ a: "9007199254740993", b: "9007199254740993", c: 42 });
+  });
+
+  it("reads verbose rows mixing scalars and elements", () => {
+    const [node] = verboseRows[0];
+
+    expect(falkorDBResultToData([[node]]).nodes).toHaveLength(1);
+    expect(falkorDBResultToData([[5, node]]).nodes.map((n) => n.id)).toEqual([0]);
+    expect(falkorDBResultToData([[8, "bob"]])).toEqual({ nodes: [], links: [] });
+  });
+
+  it("converts verbose rows", () => {
+    const data = falkorDBResultToData(verboseRows);
+
+    expect(data.nodes).toHaveLength(2);
+    expect(data.nodes[1]).toMatchObject({ id: 1, labels: ["Person"], data: { name: "Bob", age: 27 } });
+    expect(data.links).toEqual([
+      expect.objectContaining({ id: 0, relationship: "KNOWS", source: 0, target: 1, data: { since: 2019 } }),
+    ]);
+  });
+
+  it("converts falkordb client results with paths", () => {
+    const data = falkorDBResultToData(clientResult);
+
+    expect(data.nodes.map((n) => n.id)).toEqual([0, 1, 2]);
+    expect(data.links.map((l) => [l.relationship, l.source, l.target])).toEqual([
+      ["KNOWS", 0, 1],
+      ["LIVES_IN", 1, 2],
+    ]);
+    expect(falkorDBResultToData(clientResult.data)).toEqual(data);
+  });
+
+  it("creates placeholder nodes for missing endpoints unless disabled", () => {
+    const data = falkorDBResultToData(clientEdgesOnlyResult, { defaultNodeColor: "#000000" });
+
+    expect(data.nodes.map((n) => n.id)).toEqual([1, 2, 0]);
+    expect(data.nodes.every((n) => n.labels.length === 0 && n.color === "#000000")).toBe(true);
+    expect(data.links).toHaveLength(2);
+
+    const dropped = falkorDBResultToData(clientEdgesOnlyResult, { includeMissingEndpoints: false });
+    expect(dropped.nodes).toHaveLength(0);
+    expect(dropped.links).toHaveLength(0);
+  });
+
+  it("keeps ids beyond the safe integer range exact", () => {
+    const data = falkorDBResultToData([
+      [
+        { id: 9007199254740993n, labels: ["Person"], properties: {} },
+        { id: 12, labels: ["Person"], properties: {} },
+        { id: 3n, relationshipType: "KNOWS", sourceId: 9007199254740993n, destinationId: 12, properties: {} },
+      ],
+    ]);
+
+    expect(data.nodes.map((n) => n.id)).toEqual(["9007199254740993", 12]);
+    expect(data.links[0]).toMatchObject({ id: 3, source: "9007199254740993", target: 12 });
+  });
+});
+
+describe("label colors", () => {
+  it("assigns palette colors per label in first-seen order", () => {
+    const data = falkorDBResultToData(compactRows, { schema: socialSchema, linkColor: "#123456" });
+
+    expect(data.nodes[0].color).toBe(DEFAULT_LABEL_PALETTE[0]);
+    expect(data.nodes[1].color).toBe(DEFAULT_LABEL_PALETTE[0]);
+    expect(data.nodes[2].color).toBe(DEFAULT_LABEL_PALETTE[1]);
+    expect(data.links.every((l) => l.color === "#123456")).toBe(true);
+  });
+
+  it("keeps colors consistent across results sharing a color map", () => {
+    const labelColors = new Map([["City", "#ff0000"]]);
+
+    const first = falkorDBResultToData(clientResult, { labelColors });
+    const second = falkorDBResultToData(compactRows, { schema: socialSchema, labelColors });
+
+    expect(first.nodes.find((n) => n.id === 2)?.color).toBe("#ff0000");
+    expect(second.nodes.find((n) => n.id === 2)?.color).toBe("#ff0000");
+    expect(second.nodes[0].color).toBe(first.nodes[0].color);
+    expect(labelColors.get("Person")).toBe(first.nodes[0].color);
+  });
+
+  it("wraps around the palette", () => {
+    const labelColors = new Map<string, string>();
+    const palette = ["#111111", "#222222"];
+
+    expect(getLabelColor("A", labelColors, palette)).toBe("#111111");
+    expect(getLabelColor("B", labelColors, palette)).toBe("#222222");
+    expect(getLabelColor("C", labelColors, palette)).toBe("#111111");
+    expect(getLabelColor("A", labelColors, palette)).toBe("#111111");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Recorded FalkorDB GRAPH.QUERY responses for a small social graph:
+ *
+ *   (0:Person {name:'Alice', age:32})-[0:KNOWS {since:2019}]->(1:Person {name:'Bob', age:27})
+ *   (1)-[1:LIVES_IN]->(2:City {name:'Lisbon'})
+ *   (0)-[2:LIVES_IN]->(2)
+ */
+
+/** `CALL db.labels()`, `CALL db.relationshipTypes()`, `CALL db.propertyKeys()` */
+export const socialSchema = {
+  labels: ["Person", "City"],
+  relationshipTypes: ["KNOWS", "LIVES_IN"],
+  propertyKeys: ["name", "age", "since", "score"],
+};
+
+/**
+ * `GRAPH.QUERY social "MATCH (a:Person)-[r]->(b) RETURN a, r, b" --compact`
+ * reply[1] (rows). Cells are [valueType, value].
+ */
+export const compactRows = [
+  [
+    [8, [0, [0], [[0, 2, "Alice"], [1, 3, 32]]]],
+    [7, [0, 0, 0, 1, [[2, 3, 2019]]]],
+    [8, [1, [0], [[0, 2, "Bob"], [1, 3, 27]]]],
+  ],
+  [
+    [8, [1, [0], [[0, 2, "Bob"], [1, 3, 27]]]],
+    [7, [1, 1, 1, 2, []]],
+    [8, [2, [1], [[0, 2, "Lisbon"]]]],
+  ],
+  [
+    [8, [0, [0], [[0, 2, "Alice"], [1, 3, 32]]]],
+    [7, [2, 1, 0, 2, []]],
+    [8, [2, [1], [[0, 2, "Lisbon"]]]],
+  ],
+];
+
+/**
+ * `GRAPH.QUERY social "MATCH p=(:Person {name:'Alice'})-[*1..2]->(:City) RETURN p, length(p)" --compact`
+ * reply[1] (rows). A path is [[ARRAY, nodes], [ARRAY, edges]].
+ */
+export const compactPathRows = [
+  [
+    [9, [
+      [6, [
+        [8, [0, [0], [[0, 2, "Alice"], [1, 3, 32]]]],
+        [8, [2, [1], [[0, 2, "Lisbon"]]]],
+      ]],
+      [6, [
+        [7, [2, 1, 0, 2, []]],
+      ]],
+    ]],
+    [3, 1],
+  ],
+  [
+    [9, [
+      [6, [
+        [8, [0, [0], [[0, 2, "Alice"], [1, 3, 32]]]],
+        [8, [1, [0], [[0, 2, "Bob"], [1, 3, 27]]]],
+        [8, [2, [1], [[0, 2, "Lisbon"]]]],
+      ]],
+      [6, [
+        [7, [0, 0, 0, 1, [[2, 3, 2019]]]],
+        [7, [1, 1, 1, 2, []]],
+      ]],
+    ]],
+    [3, 2],
+  ],
+];
+
+/**
+ * `GRAPH.QUERY social "MATCH (a {name:'Alice'}) RETURN a, a.score, [a.name, true], {tags: ['x']}" --compact`
+ * reply[1] (rows). Doubles and booleans arrive as strings.
+ */
+export const compactScalarRows = [
+  [
+    [8, [0, [0], [[0, 2, "Alice"], [3, 5, "0.75"]]]],
+    [5, "0.75"],
+    [6, [[2, "Alice"], [4, "true"]]],
+    [10, ["tags", [6, [[2, "x"]]]]],
+  ],
+];
+
+/**
+ * `GRAPH.QUERY social "MATCH (a:Person)-[r:KNOWS]->(b) RETURN a, r, b"` (verbose).
+ * Nodes and edges are lists of [key, value] pairs.
+ */
+export const verboseRows = [
+  [
+    [["id", 0], ["labels", ["Person"]], ["properties", [["name", "Alice"], ["age", 32]]]],
+    [["id", 0], ["type", "KNOWS"], ["src_node", 0], ["dest_node", 1], ["properties", [["since", 2019]]]],
+    [["id", 1], ["labels", ["Person"]], ["properties", [["name", "Bob"], ["age", 27]]]],
+  ],
+];
+
+/**
+ * `graph.query("MATCH p=(a:Person)-[:KNOWS]->(b)-[:LIVES_IN]->(c) RETURN a, p")`
+ * as returned by the `falkordb` JS client.
+ */
+export const clientResult = {
+  headers: ["a", "p"],
+  data: [
+    {
+      a: { id: 0, labels: ["Person"], properties: { name: "Alice", age: 32 } },
+      p: {
+        nodes: [
+          { id: 0, labels: ["Person"], properties: { name: "Alice", age: 32 } },
+          { id: 1, labels: ["Person"], properties: { name: "Bob", age: 27 } },
+          { id: 2, labels: ["City"], properties: { name: "Lisbon" } },
+        ],
+        edges: [
+          { id: 0, relationshipType: "KNOWS", sourceId: 0, destinationId: 1, properties: { since: 2019 } },
+          { id: 1, relationshipType: "LIVES_IN", sourceId: 1, destinationId: 2, properties: {} },
+        ],
+      },
+    },
+  ],
+};
+
+/** `graph.query("MATCH ()-[r:LIVES_IN]->() RETURN r")` — edges only, endpoints absent. */
+export const clientEdgesOnlyResult = {
+  headers: ["r"],
+  data: [
+    { r: { id: 1, relationshipType: "LIVES_IN", sourceId: 1, destinationId: 2, properties: {} } },
+    { r: { id: 2, relationshipType: "LIVES_IN", sourceId: 0, destinationId: 2, properties: {} } },
+  ],
+};
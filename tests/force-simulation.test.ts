@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  createForceWorkerHandler,
+  type ForceParams,
+  type ForceWorkerRequest,
+  type ForceWorkerResponse,
+} from "../src/force-simulation";
+
+const PARAMS: ForceParams = {
+  linkDistance: 45,
+  collisionPadding: 25,
+  centerStrength: 0.03,
+  chargeStrength: -400,
+  chargeDistanceMax: Infinity,
+  velocityDecay: 0.4,
+  communityStrength: null,
+  communitySeparation: 60,
+};
+
+/** Three nodes in a row, linked 0–1 and 1–2 */
+function startRequest(overrides: Partial<Extract<ForceWorkerRequest, { type: 'start' }>> = {}): ForceWorkerRequest {
+  return {
+    type: 'start',
+    jobId: 1,
+    positions: new Float64Array([0, 0, 1, 0, 2, 0]),
+    fixed: new Float64Array(6).fill(NaN),
+    sizes: new Float64Array([6, 6, 6]),
+    links: new Uint32Array([0, 1, 1, 2]),
+    params: PARAMS,
+    ticks: 25,
+    batchTicks: 10,
+    ...overrides,
+  };
+}
+
+/** Handler whose batches run only when `next()` is called */
+function createHandler() {
+  const responses: ForceWorkerResponse[] = [];
+  const queue: (() => void)[] = [];
+  const handle = createForceWorkerHandler((response) => responses.push(response), (next) => queue.push(next));
+  const next = () => queue.shift()?.();
+  return { handle, responses, next };
+}
+
+describe("createForceWorkerHandler", () => {
+  it("streams positions after every batch and finishes after all ticks", () => {
+    const { handle, responses, next } = createHandler();
+
+    handle(startRequest());
+    next();
+    next();
+    next();
+
+    expect(responses.map(r => [r.type, r.tick, r.totalTicks])).toEqual([
+      ['progress', 10, 25],
+      ['progress', 20, 25],
+      ['done', 25, 25],
+    ]);
+    const { positions } = responses[2];
+    expect(positions).toBeInstanceOf(Float32Array);
+    expect(positions).toHaveLength(6);
+    // Repulsion spreads the nodes well beyond their 1-unit start spacing
+    expect(Math.abs(positions[4] - positions[0])).toBeGreaterThan(50);
+  });
+
+  it("keeps fixed nodes in place", () => {
+    const { handle, responses, next } = createHandler();
+    const fixed = new Float64Array(6).fill(NaN);
+    fixed[0] = 0;
+    fixed[1] = 0;
+
+    handle(startRequest({ ticks: 10, fixed }));
+    next();
+
+    const { positions } = responses[responses.length - 1];
+    expect(positions[0]).toBe(0);
+    expect(positions[1]).toBe(0);
+  });
+
+  it("stops a job when it is cancelled or replaced", () => {
+    const { handle, responses, next } = createHandler();
+
+    handle(startRequest());
+    handle({ type: 'cancel', jobId: 1 });
+    next();
+    expect(responses).toHaveLength(1);
+
+    handle(startRequest({ jobId: 2 }));
+    handle(startRequest({ jobId: 3, ticks: 5 }));
+    next();
+    next();
+    expect(responses.map(r => [r.jobId, r.type])).toEqual([
+      [1, 'progress'],
+      [2, 'progress'],
+      [3, 'done'],
+    ]);
+  });
+
+  it("pulls communities apart when community forces are enabled", () => {
+    // Two triangles joined by a single link, starting interleaved
+    const positions = new Float64Array([0, 0, 2, 0, 4, 0, 1, 1, 3, 1, 5, 1]);
+    const links = new Uint32Array([0, 1, 1, 2, 2, 0, 3, 4, 4, 5, 5, 3, 2, 3]);
+    const communities = new Int32Array([0, 0, 0, 1, 1, 1]);
+    const centroidGap = (p: Float32Array) => Math.hypot(
+      (p[0] + p[2] + p[4] - p[6] - p[8] - p[10]) / 3,
+      (p[1] + p[3] + p[5] - p[7] - p[9] - p[11]) / 3
+    );
+
+    const run = (params: ForceParams) => {
+      const { handle, responses, next } = createHandler();
+      handle(startRequest({ positions, fixed: new Float64Array(12).fill(NaN), sizes: new Float64Array(6).fill(6), links, communities, params, ticks: 100, batchTicks: 100 }));
+      next();
+      return responses[responses.length - 1].positions;
+    };
+
+    const plain = run(PARAMS);
+    const clustered = run({ ...PARAMS, communityStrength: 0.3, communitySeparation: 400 });
+    expect(centroidGap(clustered)).toBeGreaterThan(centroidGap(plain) + 200);
+  });
+});
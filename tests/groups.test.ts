@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { collapseGroups, describeGroupSelector } from "../src/groups";
+import { NODE_SIZE } from "../src/canvas-utils";
+import type { Data } from "../src/canvas-types";
+
+/** 1, 2 and 3 know each other; 1 and 2 work at 4 */
+const data = (): Data => ({
+  nodes: [
+    { id: 1, labels: ["Person"], color: "#f00", visible: true, data: {} },
+    { id: 2, labels: ["Person"], color: "#f00", visible: true, data: {} },
+    { id: 3, labels: ["Person", "Admin"], color: "#0f0", visible: false, data: {} },
+    { id: 4, labels: ["Company"], visible: true, data: {} },
+  ],
+  links: [
+    { id: 10, relationship: "KNOWS", source: 1, target: 2, visible: true, data: {} },
+    { id: 11, relationship: "WORKS_AT", source: 1, target: 4, visible: true, data: {} },
+    { id: 12, relationship: "WORKS_AT", source: 2, target: 4, visible: false, data: {} },
+    { id: 13, relationship: "OWNS", source: 4, target: 2, visible: false, data: {} },
+    { id: 14, relationship: "EMPLOYS", source: 4, target: 1, visible: true, data: {} },
+  ],
+});
+
+describe("collapseGroups", () => {
+  it("replaces members with a meta-node and merges their links per direction", () => {
+    const { data: collapsed, hiddenNodes, hiddenLinks, aggregates } = collapseGroups(data(), [
+      { id: "g", memberIds: [1, 2], caption: "People" },
+    ]);
+
+    expect(collapsed.nodes.map(node => node.id)).toEqual([3, 4, "g"]);
+    expect(hiddenNodes.map(node => node.id)).toEqual([1, 2]);
+    expect(hiddenLinks.map(link => link.id)).toEqual([10, 11, 12, 13, 14]);
+    expect(collapsed.links).toEqual([
+      { id: "group-link:g->4", relationship: "WORKS_AT", source: "g", target: 4, visible: true, data: { weight: 2 } },
+      { id: "group-link:4->g", relationship: "EMPLOYS, OWNS", source: 4, target: "g", visible: true, data: { weight: 2 } },
+    ]);
+    expect(aggregates).toEqual(new Map([["group-link:g->4", [11, 12]], ["group-link:4->g", [13, 14]]]));
+  });
+
+  it("derives the meta-node from its members", () => {
+    const { data: collapsed } = collapseGroups(data(), [
+      { id: "same", memberIds: [1, 2], caption: "Same" },
+      { id: "mixed", memberIds: [3], caption: "Mixed" },
+    ]);
+    const [same, mixed] = collapsed.nodes.slice(1);
+
+    expect(same).toEqual({
+      id: "same", labels: ["Person"], color: "#f00", visible: true, size: NODE_SIZE * (1 + Math.log10(2)),
+      data: { caption: "Same", memberCount: 2 },
+    });
+    expect(mixed).toMatchObject({ labels: ["Person", "Admin"], color: "#0f0", visible: false, size: NODE_SIZE });
+  });
+
+  it("keeps links between ungrouped nodes", () => {
+    const input = data();
+    const { data: collapsed, hiddenLinks } = collapseGroups(input, []);
+
+    expect(collapsed.links).toEqual(input.links);
+    expect(hiddenLinks).toEqual([]);
+  });
+});
+
+describe("describeGroupSelector", () => {
+  it("names the selector", () => {
+    expect(describeGroupSelector({ label: "Person" })).toBe("Person");
+    expect(describeGroupSelector({ community: 2 })).toBe("community 2");
+    expect(describeGroupSelector({ label: "Person", property: "city", value: "Paris" })).toBe("Person city=Paris");
+    expect(describeGroupSelector({ property: "city" })).toBe("city");
+  });
+});
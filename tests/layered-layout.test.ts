@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { Data, GraphData, GraphNode } from "../src/canvas-types";
+import { dataToGraphData } from "../src/canvas-utils";
+import { computeLayeredPositions } from "../src/layered-layout";
+
+/** Graph from `source>target` pairs of node ids */
+function graph(...pairs: string[]): GraphData {
+  const ids = [...new Set(pairs.flatMap(pair => pair.split(">")))];
+  const data: Data = {
+    nodes: ids.map(id => ({ id, labels: ["N"], visible: true, color: "#888", data: {} })),
+    links: pairs.map((pair, i) => {
+      const [source, target] = pair.split(">");
+      return { id: i, relationship: "R", source, target, visible: true, color: "#888", data: {} };
+    }),
+  };
+  return dataToGraphData(data);
+}
+
+function nodeById(data: GraphData, id: string): GraphNode {
+  return data.nodes.find(n => n.id === id)!;
+}
+
+/** Crossings between links joining adjacent layers (by y), from the final positions */
+function countCrossings(data: GraphData): number {
+  const spans = data.links
+    .filter(l => !l.route)
+    .map(l => ({ top: l.source.y!, x0: l.source.x!, x1: l.target.x! }));
+  let crossings = 0;
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      const a = spans[i];
+      const b = spans[j];
+      if (a.top === b.top && (a.x0 - b.x0) * (a.x1 - b.x1) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+describe("computeLayeredPositions", () => {
+  it("places every link target on a lower layer and pins the nodes", () => {
+    const data = graph("a>b", "a>c", "b>d", "c>d", "d>e");
+
+    expect(computeLayeredPositions(data, { layered: { levelDistance: 100 } })).toBe(true);
+
+    for (const link of data.links) {
+      expect(link.target.y! - link.source.y!).toBeGreaterThanOrEqual(100);
+    }
+    expect(nodeById(data, "a").y).toBe(0);
+    for (const node of data.nodes) {
+      expect(node.fx).toBe(node.x);
+      expect(node.fy).toBe(node.y);
+    }
+  });
+
+  it("keeps nodes in a layer at least nodeSpacing apart", () => {
+    const data = graph("r>a", "r>b", "r>c", "r>d");
+
+    computeLayeredPositions(data, { layered: { nodeSpacing: 70 } });
+
+    const xs = ["a", "b", "c", "d"].map(id => nodeById(data, id).x!).sort((p, q) => p - q);
+    for (let i = 1; i < xs.length; i++) expect(xs[i] - xs[i - 1]).toBeGreaterThanOrEqual(70 - 1e-9);
+    // The parent is centered over its children
+    expect(nodeById(data, "r").x).toBeCloseTo((xs[0] + xs[3]) / 2);
+  });
+
+  it("routes long links through one bend per crossed layer", () => {
+    const data = graph("a>b", "b>c", "c>d", "a>d");
+
+    computeLayeredPositions(data, { layered: { levelDistance: 100 } });
+
+    const long = data.links.find(l => l.source.id === "a" && l.target.id === "d")!;
+    expect(long.route?.map(p => p.y)).toEqual([100, 200]);
+    // The bends keep clear of the nodes on those layers
+    expect(Math.abs(long.route![0].x - nodeById(data, "b").x!)).toBeGreaterThanOrEqual(30);
+    expect(data.links.filter(l => l !== long).every(l => l.route === undefined)).toBe(true);
+  });
+
+  it("reverses cycle links and routes them from source to target", () => {
+    const data = graph("a>b", "b>c", "c>a");
+
+    computeLayeredPositions(data);
+
+    const ys = ["a", "b", "c"].map(id => nodeById(data, id).y!);
+    expect(new Set(ys).size).toBe(3);
+    const back = data.links.find(l => l.source.id === "c")!;
+    // c is the bottom layer; the bend sits on b's layer
+    expect(back.route).toHaveLength(1);
+    expect(back.route![0].y).toBe(nodeById(data, "b").y);
+  });
+
+  it("removes crossings that the input order would produce", () => {
+    // Children listed in the opposite order of their parents
+    const data = graph("r>a", "r>b", "a>y", "b>x", "a>q", "b>p", "x>z", "q>z");
+
+    computeLayeredPositions(data);
+
+    expect(countCrossings(data)).toBe(0);
+  });
+
+  it("honors the hierarchy direction", () => {
+    const data = graph("a>b", "b>c");
+
+    computeLayeredPositions(data, { layered: { direction: "lr" } });
+    expect(nodeById(data, "a").x!).toBeLessThan(nodeById(data, "b").x!);
+    expect(nodeById(data, "a").y).toBe(nodeById(data, "b").y);
+
+    computeLayeredPositions(data, { layered: { direction: "bu" } });
+    expect(nodeById(data, "a").y!).toBeGreaterThan(nodeById(data, "b").y!);
+  });
+
+  it("pulls sources down next to their successors", () => {
+    // s only feeds d, which sits three layers down
+    const data = graph("a>b", "b>c", "c>d", "s>d");
+
+    computeLayeredPositions(data, { layered: { levelDistance: 100 } });
+
+    expect(nodeById(data, "s").y).toBe(200);
+    expect(data.links.find(l => l.source.id === "s")!.route).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { aggregateParallelLinks } from "../src/link-aggregation";
+import { calculateLinkCurve } from "../src/canvas-utils";
+import type { GraphLink, GraphNode } from "../src/canvas-types";
+
+function node(id: number): GraphNode {
+  return { id, labels: [], visible: true, expand: [false, new Date(0)], displayName: ["", ""], size: 10, data: {} };
+}
+
+const [a, b] = [node(1), node(2)];
+
+/** Parallel links between 1 and 2, numbered from 100, curved by index like `dataToGraphData` */
+function pair(links: [relationship: string, source: GraphNode, target: GraphNode][]): GraphLink[] {
+  return links.map(([relationship, source, target], i) => ({
+    id: 100 + i, relationship, source, target, visible: true, curve: calculateLinkCurve(i, false), data: {},
+  }));
+}
+
+describe("aggregateParallelLinks", () => {
+  it("bundles links with the same direction and type behind the first one", () => {
+    const links = pair([["PAID", a, b], ["PAID", a, b], ["PAID", b, a], ["KNOWS", a, b], ["PAID", a, b]]);
+
+    const merged = aggregateParallelLinks([links], true);
+
+    expect([...merged]).toEqual([101, 104]);
+    expect(links[0].aggregate?.map(link => link.id)).toEqual([100, 101, 104]);
+    expect(links.slice(1).some(link => link.aggregate)).toBe(false);
+    // The three links still drawn fan out as if they were the only ones
+    expect([links[0], links[2], links[3]].map(link => link.curve)).toEqual([0, 1, 2].map(i => calculateLinkCurve(i, false)));
+  });
+
+  it("merges only the listed types and visible links", () => {
+    const links = pair([["PAID", a, b], ["KNOWS", a, b], ["KNOWS", a, b], ["PAID", a, b], ["PAID", a, b]]);
+    links[3].visible = false;
+
+    expect([...aggregateParallelLinks([links], ["PAID"])]).toEqual([104]);
+    expect(links[0].aggregate?.map(link => link.id)).toEqual([100, 104]);
+    expect(links[1].aggregate).toBeUndefined();
+  });
+
+  it("undoes earlier bundles", () => {
+    const links = pair([["PAID", a, b], ["PAID", a, b]]);
+    const curves = links.map(link => link.curve);
+    aggregateParallelLinks([links], true);
+
+    expect(aggregateParallelLinks([links], false).size).toBe(0);
+    expect(links[0].aggregate).toBeUndefined();
+    expect(links.map(link => link.curve)).toEqual(curves);
+  });
+});
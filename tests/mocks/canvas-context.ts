@@ -0,0 +1,38 @@
+import { vi } from "vitest";
+
+/**
+ * Stand-in for a 2D canvas context. Every method is a `vi.fn` spy, created on
+ * first use; every property assignment is kept in order in `sets`, e.g. each
+ * `fillStyle` an element was painted with.
+ */
+export function createRecordingContext() {
+  const sets: Record<string, unknown[]> = {};
+  const state: Record<string, unknown> = {
+    measureText: vi.fn(() => ({ width: 10 })),
+    getLineDash: vi.fn(() => []),
+    fillStyle: "#000",
+    strokeStyle: "#000",
+    lineWidth: 1,
+    globalAlpha: 1,
+    globalCompositeOperation: "source-over",
+    font: "10px sans-serif",
+    textAlign: "start",
+    textBaseline: "alphabetic",
+  };
+
+  const ctx = new Proxy(state, {
+    get(target, property) {
+      if (typeof property !== "string") return undefined;
+      if (!(property in target)) target[property] = vi.fn();
+      return target[property];
+    },
+    set(target, property, value) {
+      if (typeof property !== "string") return false;
+      (sets[property] ??= []).push(value);
+      target[property] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+
+  return { ctx, sets };
+}
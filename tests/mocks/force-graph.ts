@@ -13,10 +13,13 @@ type CallbackMap = {
   onBackgroundRightClick?: (event: MouseEvent) => void;
   onZoom?: (transform: { k: number; x: number; y: number }) => void;
   onEngineStop?: () => void;
+  onRenderFramePre?: (ctx: CanvasRenderingContext2D, globalScale: number) => void;
+  onRenderFramePost?: (ctx: CanvasRenderingContext2D, globalScale: number) => void;
   nodeCanvasObject?: (node: unknown, ctx: CanvasRenderingContext2D) => void;
   linkCanvasObject?: (link: unknown, ctx: CanvasRenderingContext2D, globalScale: number) => void;
   nodePointerAreaPaint?: (node: unknown, color: string, ctx: CanvasRenderingContext2D) => void;
   linkPointerAreaPaint?: (link: unknown, color: string, ctx: CanvasRenderingContext2D) => void;
+  linkVisibility?: (link: unknown) => boolean;
 };
 
 class MockLinkForce {
@@ -166,7 +169,10 @@ export class MockForceGraphInstance {
 
   linkCurvature(_value?: unknown) { return this; }
 
-  linkVisibility(_value?: unknown) { return this; }
+  linkVisibility(value?: unknown) {
+    if (typeof value === "function") this.callbacks.linkVisibility = value as (link: unknown) => boolean;
+    return this;
+  }
 
   nodeVisibility(_value?: unknown) { return this; }
 
@@ -256,6 +262,16 @@ export class MockForceGraphInstance {
     return this;
   }
 
+  onRenderFramePre(callback: (ctx: CanvasRenderingContext2D, globalScale: number) => void) {
+    this.callbacks.onRenderFramePre = callback;
+    return this;
+  }
+
+  onRenderFramePost(callback: (ctx: CanvasRenderingContext2D, globalScale: number) => void) {
+    this.callbacks.onRenderFramePost = callback;
+    return this;
+  }
+
   nodeCanvasObject(callback?: unknown) {
     if (callback) this.callbacks.nodeCanvasObject = callback as (node: unknown, ctx: CanvasRenderingContext2D) => void;
     return this;
@@ -319,7 +335,14 @@ export class MockForceGraphInstance {
     return this;
   }
 
-  zoom(value?: number, _durationMs?: number) {
+  screen2GraphCoords(x: number, y: number) {
+    return {
+      x: this.center.x + (x - this.widthValue / 2) / this.zoomValue,
+      y: this.center.y + (y - this.heightValue / 2) / this.zoomValue,
+    };
+  }
+
+    zoom(value?: number, _durationMs?: number) {
     if (value === undefined) return this.zoomValue;
     this.zoomValue = value;
     return this;
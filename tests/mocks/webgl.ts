@@ -0,0 +1,40 @@
+/** A recorded WebGL call: method name and arguments */
+export type WebGLCall = [string, ...unknown[]];
+
+/**
+ * Minimal stand-in for a WebGL2 context. Every method records its call and
+ * succeeds; constants (GL_ENUM style names) evaluate to their own name.
+ */
+export function createWebGLMock() {
+  const calls: WebGLCall[] = [];
+  const results: Record<string, (...args: unknown[]) => unknown> = {
+    createProgram: () => ({ kind: "program" }),
+    createShader: () => ({ kind: "shader" }),
+    createBuffer: () => ({ kind: "buffer" }),
+    createVertexArray: () => ({ kind: "vertexArray" }),
+    getUniformLocation: (_program, name) => ({ kind: "uniform", name }),
+    getAttribLocation: () => 0,
+    getShaderParameter: () => true,
+    getProgramParameter: () => true,
+    getShaderInfoLog: () => "",
+    getProgramInfoLog: () => "",
+  };
+
+  const gl = new Proxy({} as Record<string, unknown>, {
+    get(_target, property) {
+      if (typeof property !== "string") return undefined;
+      if (/^[A-Z0-9_]+$/.test(property)) return property;
+      return (...args: unknown[]) => {
+        calls.push([property, ...args]);
+        return results[property]?.(...args);
+      };
+    },
+  }) as unknown as WebGL2RenderingContext;
+
+  return {
+    gl,
+    calls,
+    /** Calls to one method, without the method name */
+    callsTo: (name: string) => calls.filter(([method]) => method === name).map(([, ...args]) => args),
+  };
+}
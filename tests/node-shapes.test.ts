@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  NODE_SHAPES,
+  getNodeShapeBoundaryDistance,
+  getNodeShapeExtent,
+  getNodeShapeTextBox,
+  isNodeShape,
+} from "../src/node-shapes";
+
+describe("getNodeShapeBoundaryDistance", () => {
+  it("returns the radius for circles in every direction", () => {
+    expect(getNodeShapeBoundaryDistance("circle", 9, 1, 0)).toBe(9);
+    expect(getNodeShapeBoundaryDistance("circle", 9, 3, -4)).toBe(9);
+  });
+
+  it("intersects polygon outlines", () => {
+    expect(getNodeShapeBoundaryDistance("square", 10, 1, 0)).toBeCloseTo(10);
+    expect(getNodeShapeBoundaryDistance("square", 10, 1, 1)).toBeCloseTo(10 * Math.SQRT2);
+    expect(getNodeShapeBoundaryDistance("diamond", 10, 0, 1)).toBeCloseTo(10);
+    expect(getNodeShapeBoundaryDistance("diamond", 10, 1, 1)).toBeCloseTo(10 / Math.SQRT2);
+    // Flat-top hexagon: vertex to the right, flat edge below
+    expect(getNodeShapeBoundaryDistance("hexagon", 10, 1, 0)).toBeCloseTo(10);
+    expect(getNodeShapeBoundaryDistance("hexagon", 10, 0, 1)).toBeCloseTo(10 * Math.sqrt(3) / 2);
+    // Triangle: apex above, flat base below at half the circumradius
+    expect(getNodeShapeBoundaryDistance("triangle", 10, 0, -1)).toBeCloseTo(10);
+    expect(getNodeShapeBoundaryDistance("triangle", 10, 0, 1)).toBeCloseTo(5);
+  });
+
+  it("uses the bounding rectangle for rounded rectangles", () => {
+    const { halfWidth, halfHeight } = getNodeShapeExtent("rounded-rect", 10);
+    expect(getNodeShapeBoundaryDistance("rounded-rect", 10, -1, 0)).toBeCloseTo(halfWidth);
+    expect(getNodeShapeBoundaryDistance("rounded-rect", 10, 0, 1)).toBeCloseTo(halfHeight);
+  });
+});
+
+describe("getNodeShapeTextBox", () => {
+  it("keeps the caption box inside every shape", () => {
+    for (const shape of NODE_SHAPES) {
+      const box = getNodeShapeTextBox(shape, 10);
+      if (shape === "circle") {
+        expect(box).toBeNull();
+        continue;
+      }
+      for (const [sx, sy] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+        const cornerX = sx * box!.halfWidth;
+        const cornerY = sy * box!.halfHeight;
+        expect(Math.hypot(cornerX, cornerY)).toBeLessThanOrEqual(
+          getNodeShapeBoundaryDistance(shape, 10, cornerX, cornerY) + 1e-9
+        );
+      }
+    }
+  });
+});
+
+describe("isNodeShape", () => {
+  it("accepts only supported shapes", () => {
+    expect(isNodeShape("hexagon")).toBe(true);
+    expect(isNodeShape("star")).toBe(false);
+    expect(isNodeShape(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { GraphData, GraphLink, GraphNode } from "../src/canvas-types";
+import { findShortestPaths } from "../src/paths";
+
+function node(id: number): GraphNode {
+  return { id, labels: [], visible: true, expand: [false, new Date(0)], displayName: ["", ""], size: 10, data: {} };
+}
+
+/**
+ * 1 → 2 → 4 (weights 1, 1), 1 → 3 → 4 (weights 2, 2), 2 → 3 (weight 1),
+ * and node 5 on its own
+ */
+function graph(): GraphData {
+  const nodes = [1, 2, 3, 4, 5].map(node);
+  const link = (id: number, source: number, target: number, weight: number): GraphLink => ({
+    id, relationship: "R", source: nodes[source - 1], target: nodes[target - 1], visible: true, curve: 0, data: { weight },
+  });
+  return {
+    nodes,
+    links: [link(10, 1, 2, 1), link(11, 2, 4, 1), link(12, 1, 3, 2), link(13, 3, 4, 2), link(14, 2, 3, 1)],
+  };
+}
+
+const ids = (path: { nodes: GraphNode[] }) => path.nodes.map(n => n.id);
+
+describe("findShortestPaths", () => {
+  it("finds the path with the fewest links", () => {
+    const [path] = findShortestPaths(graph(), 1, 4);
+
+    expect(ids(path)).toEqual([1, 2, 4]);
+    expect(path.links.map(l => l.id)).toEqual([10, 11]);
+    expect(path.cost).toBe(2);
+  });
+
+  it("returns the k shortest loopless paths ordered by cost, then link count", () => {
+    const paths = findShortestPaths(graph(), 1, 4, { weightKey: "weight", k: 10 });
+
+    expect(paths.map(ids)).toEqual([[1, 2, 4], [1, 3, 4], [1, 2, 3, 4], [1, 3, 2, 4]]);
+    expect(paths.map(p => p.cost)).toEqual([2, 4, 4, 4]);
+  });
+
+  it("follows link direction when directed", () => {
+    const data = graph();
+
+    expect(findShortestPaths(data, 4, 1, { directed: true })).toEqual([]);
+    expect(findShortestPaths(data, 4, 1).map(ids)).toEqual([[4, 2, 1]]);
+    expect(findShortestPaths(data, 1, 4, { directed: true, k: 5 }).map(ids)).toEqual([[1, 2, 4], [1, 3, 4], [1, 2, 3, 4]]);
+  });
+
+  it("counts missing and negative weights as 1", () => {
+    const data = graph();
+    data.links[0].data = {};
+    data.links[1].data.weight = -5;
+
+    expect(findShortestPaths(data, 1, 4, { weightKey: "weight" })[0].cost).toBe(2);
+  });
+
+  it("skips hidden nodes and links", () => {
+    const data = graph();
+    data.nodes[1].visible = false;
+
+    expect(findShortestPaths(data, 1, 4).map(ids)).toEqual([[1, 3, 4]]);
+
+    data.links[2].visible = false;
+    expect(findShortestPaths(data, 1, 4)).toEqual([]);
+  });
+
+  it("handles unconnected, unknown and identical endpoints", () => {
+    const data = graph();
+
+    expect(findShortestPaths(data, 1, 5)).toEqual([]);
+    expect(findShortestPaths(data, 1, 99)).toEqual([]);
+    expect(findShortestPaths(data, 1, 1)).toEqual([{ nodes: [data.nodes[0]], links: [], cost: 0 }]);
+  });
+
+  it("treats parallel links as separate paths", () => {
+    const data = graph();
+    data.links.push({ ...data.links[0], id: 15 });
+
+    const paths = findShortestPaths(data, 1, 2, { k: 3 });
+    expect(paths.map(p => p.links.map(l => l.id))).toEqual([[10], [15], [12, 14]]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LABEL_PALETTE } from "../src/canvas-utils";
+import {
+  createColorScale,
+  createSizeScale,
+  DEFAULT_NODE_SIZE_RANGE,
+} from "../src/scales";
+
+describe("createSizeScale", () => {
+  it("derives a linear domain from the numeric values and clamps outside it", () => {
+    const scale = createSizeScale({ property: "rank" }, [0, 5, 10, "n/a", null], [4, 20])!;
+
+    expect(scale.map(0)).toBe(4);
+    expect(scale.map(5)).toBe(12);
+    expect(scale.map(10)).toBe(20);
+    expect(scale.map(100)).toBe(20);
+    expect(scale.map("n/a")).toBeUndefined();
+    expect(scale.map(undefined)).toBeUndefined();
+  });
+
+  it("uses an explicit domain and range", () => {
+    const scale = createSizeScale({ property: "rank", domain: [0, 100], range: [1, 3] }, [50], [4, 20])!;
+
+    expect(scale.map(50)).toBe(2);
+  });
+
+  it("maps sqrt and log scales", () => {
+    const sqrt = createSizeScale({ property: "p", type: "sqrt" }, [0, 100], [0, 10])!;
+    expect(sqrt.map(25)).toBeCloseTo(5);
+
+    const log = createSizeScale({ property: "p", type: "log" }, [0, 1, 10, 100], [0, 10])!;
+    expect(log.map(10)).toBeCloseTo(5);
+    // Non-positive values have no logarithm
+    expect(log.map(0)).toBeUndefined();
+  });
+
+  it("spreads ordinal values evenly over the range in natural order", () => {
+    const scale = createSizeScale({ property: "tier", type: "ordinal" }, ["gold", "bronze", "silver", "gold"], [0, 10])!;
+
+    expect(scale.map("bronze")).toBe(0);
+    expect(scale.map("gold")).toBe(5);
+    expect(scale.map("silver")).toBe(10);
+    expect(scale.map("platinum")).toBeUndefined();
+  });
+
+  it("returns undefined when no value fits", () => {
+    expect(createSizeScale({ property: "rank" }, ["a", null], DEFAULT_NODE_SIZE_RANGE)).toBeUndefined();
+  });
+
+  it("samples nice ticks for the legend", () => {
+    const scale = createSizeScale({ property: "rank" }, [0, 100], [0, 10])!;
+
+    expect(scale.legend().map(entry => entry.label)).toEqual(["0", "50", "100"]);
+    expect(scale.legend()[0]).toEqual({ value: 0, label: "0", size: 0 });
+  });
+});
+
+describe("createColorScale", () => {
+  it("interpolates continuous values across the range", () => {
+    const scale = createColorScale({ property: "rank", range: ["#000000", "#ffffff"] }, [0, 10])!;
+
+    expect(scale.map(0)).toBe("rgb(0, 0, 0)");
+    expect(scale.map(5)).toBe("rgb(128, 128, 128)");
+    expect(scale.map(10)).toBe("rgb(255, 255, 255)");
+  });
+
+  it("defaults to the blue range", () => {
+    const scale = createColorScale({ property: "rank" }, [1, 2])!;
+
+    expect(scale.map(1)).toBe("rgb(198, 219, 239)");
+    expect(scale.map(2)).toBe("rgb(8, 81, 156)");
+  });
+
+  it("cycles the label palette for ordinal values", () => {
+    const scale = createColorScale({ property: "team", type: "ordinal" }, ["red", "blue", "red"])!;
+
+    expect(scale.map("blue")).toBe(DEFAULT_LABEL_PALETTE[0]);
+    expect(scale.map("red")).toBe(DEFAULT_LABEL_PALETTE[1]);
+    expect(scale.legend()).toEqual([
+      { value: "blue", label: "blue", color: DEFAULT_LABEL_PALETTE[0] },
+      { value: "red", label: "red", color: DEFAULT_LABEL_PALETTE[1] },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { StyleRule } from "../src/canvas-types";
+import { resolveLinkStyle, resolveNodeStyle } from "../src/style-rules";
+
+const person = { labels: ["Person"], data: { name: "Alice", age: 42, vip: false } };
+const company = { labels: ["Company"], data: { name: "Acme" } };
+const worksAt = { relationship: "WORKS_AT", data: { since: 2020 } };
+
+describe("resolveNodeStyle", () => {
+  it("returns undefined when no rule matches", () => {
+    expect(resolveNodeStyle(company, [{ selector: { label: "Person" }, style: { color: "#f00" } }])).toBeUndefined();
+    expect(resolveNodeStyle(person, undefined)).toBeUndefined();
+  });
+
+  it("merges matching rules in order, later rules winning", () => {
+    const rules: StyleRule[] = [
+      { selector: { label: "Person" }, style: { color: "#f00", size: 20 } },
+      { selector: { property: "age" }, style: { color: "#0f0", caption: "age" } },
+    ];
+    expect(resolveNodeStyle(person, rules)).toEqual({ color: "#0f0", size: 20, caption: "age" });
+  });
+
+  it("matches properties by presence, exact value and predicate", () => {
+    expect(resolveNodeStyle(person, [{ selector: { property: "vip", value: false }, style: { shape: "square" } }]))
+      .toEqual({ shape: "square" });
+    expect(resolveNodeStyle(person, [{ selector: { property: "vip", value: true }, style: { shape: "square" } }]))
+      .toBeUndefined();
+    expect(resolveNodeStyle(company, [{ selector: { property: "age" }, style: { size: 5 } }])).toBeUndefined();
+    expect(resolveNodeStyle(person, [{ selector: { where: data => data.age > 40 }, style: { size: 30 } }]))
+      .toEqual({ size: 30 });
+  });
+
+  it("ignores relationship and link-only selectors", () => {
+    const rules: StyleRule[] = [
+      { selector: { relationship: "WORKS_AT" }, style: { color: "#f00" } },
+      { selector: { element: "link", property: "name" }, style: { color: "#0f0" } },
+    ];
+    expect(resolveNodeStyle(person, rules)).toBeUndefined();
+  });
+});
+
+describe("resolveLinkStyle", () => {
+  it("matches by relationship type and properties", () => {
+    const rules: StyleRule[] = [
+      { selector: { relationship: "WORKS_AT" }, style: { dash: [4, 2] } },
+      { selector: { relationship: "KNOWS" }, style: { color: "#f00" } },
+      { selector: { element: "link", property: "since", value: 2020 }, style: { width: 3 } },
+    ];
+    expect(resolveLinkStyle(worksAt, rules)).toEqual({ dash: [4, 2], width: 3 });
+  });
+
+  it("ignores label selectors", () => {
+    expect(resolveLinkStyle(worksAt, [{ selector: { label: "Person" }, style: { color: "#f00" } }])).toBeUndefined();
+  });
+
+  it("applies element-less property selectors to nodes and links alike", () => {
+    const rules: StyleRule[] = [{ selector: { property: "since" }, style: { color: "#00f" } }];
+    expect(resolveLinkStyle(worksAt, rules)).toEqual({ color: "#00f" });
+    expect(resolveNodeStyle({ labels: [], data: { since: 1999 } }, rules)).toEqual({ color: "#00f" });
+  });
+});
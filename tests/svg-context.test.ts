@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { SvgRenderingContext } from "../src/svg-context";
+
+describe("SvgRenderingContext", () => {
+  it("serializes fills and strokes with the current transform applied", () => {
+    const ctx = new SvgRenderingContext(100, 50);
+    ctx.translate(10, 20);
+    ctx.scale(2, 2);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(5, 0);
+    ctx.fillStyle = "#ff0000";
+    ctx.fill();
+    ctx.strokeStyle = "#00ff00";
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([2, 1]);
+    ctx.stroke();
+
+    const svg = ctx.toSvg(200, 100);
+    expect(svg).toContain('width="200" height="100" viewBox="0 0 100 50"');
+    expect(svg).toContain('<path d="M10 20L20 20" fill="#ff0000"/>');
+    expect(svg).toContain('stroke="#00ff00" stroke-width="3" stroke-dasharray="4 2"');
+  });
+
+  it("splits full circles into two arcs", () => {
+    const ctx = new SvgRenderingContext(10, 10);
+    ctx.beginPath();
+    ctx.arc(5, 5, 2, 0, 2 * Math.PI);
+    ctx.fill();
+
+    expect(ctx.toSvg()).toContain('d="M7 5A2 2 0 0 1 3 5A2 2 0 0 1 7 5"');
+  });
+
+  it("wraps drawing after clip() in a group closed by restore()", () => {
+    const ctx = new SvgRenderingContext(10, 10);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, 5, 5);
+    ctx.clip();
+    ctx.fillRect(1, 1, 2, 2);
+    ctx.restore();
+    ctx.fillRect(6, 6, 2, 2);
+
+    const svg = ctx.toSvg();
+    expect(svg).toContain('<clipPath id="clip0">');
+    expect(svg).toMatch(/<g clip-path="url\(#clip0\)"><path[^>]*\/><\/g><path/);
+  });
+
+  it("escapes text and keeps its transform, alignment and opacity", () => {
+    const ctx = new SvgRenderingContext(10, 10);
+    ctx.font = "400 2px SofiaSans";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.globalAlpha = 0.5;
+    ctx.fillText("a < b & c", 3, 4);
+
+    const svg = ctx.toSvg();
+    expect(svg).toContain('transform="matrix(1 0 0 1 3 4)"');
+    expect(svg).toContain('text-anchor="middle" dominant-baseline="central" opacity="0.5">a &lt; b &amp; c</text>');
+  });
+});
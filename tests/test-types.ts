@@ -2,8 +2,9 @@
  * Shared test type definitions that use the actual source types
  * so TypeScript catches type mismatches at compile time.
  */
-import type { ForceGraphConfig, Data, GraphData, GraphNode, GraphLink, ViewportState, LayoutMode, LayoutOptions } from "../src/canvas-types";
+import type { ForceGraphConfig, Data, Node, Link, ElementId, ExportImageOptions, GraphData, GraphSelection, GraphSelectionIds, GraphNode, GraphLink, ViewportState, LayoutMode, LayoutOptions, CanvasRenderMode, Community, ScaleLegend, FindPathOptions, GraphPath, AnalyticsOptions, GraphFilter, GroupSelector, CollapseGroupOptions } from "../src/canvas-types";
 import type { WorldBounds } from "../src/canvas";
+import type { GraphAnalytics } from "../src/analytics";
 
 /**
  * Base canvas element type matching the public API of FalkorDBCanvas.
@@ -15,6 +16,22 @@ export type CanvasTestElement = HTMLElement & {
   setGraphData: (data: Data) => void;
   getData: () => Data;
   getGraphData: () => GraphData;
+  getCommunities: () => Community[];
+  getNodeCommunity: (id: ElementId) => Community | undefined;
+  getScaleLegend: () => ScaleLegend[];
+  findPath: (sourceId: ElementId, targetId: ElementId, options?: FindPathOptions) => GraphPath[];
+  highlightPath: (path: GraphPath | null) => void;
+  getAnalytics: (options?: AnalyticsOptions) => GraphAnalytics;
+  setFilter: (filter: GraphFilter | null) => void;
+  getFilter: () => GraphFilter | null;
+  collapseGroup: (selector: GroupSelector, options?: CollapseGroupOptions) => ElementId | undefined;
+  expandGroup: (id: ElementId) => void;
+  getGroupMembers: (id: ElementId) => ElementId[] | undefined;
+  addNodes: (nodes: Node[]) => void;
+  removeNodes: (ids: ElementId[]) => void;
+  updateNode: (id: ElementId, changes: Partial<Omit<Node, "id">>) => void;
+  addLinks: (links: Link[]) => void;
+  removeLinks: (ids: ElementId[]) => void;
   setWidth: (w: number) => void;
   setHeight: (h: number) => void;
   setBackgroundColor: (color: string) => void;
@@ -32,6 +49,25 @@ export type CanvasTestElement = HTMLElement & {
   getViewport: () => ViewportState;
   setViewport: (viewport: ViewportState) => void;
   getCullingStats: () => CullingStats;
+  exportImage: (options?: ExportImageOptions) => Promise<Blob>;
+  getSelection: () => GraphSelection;
+  setSelection: (ids: GraphSelectionIds) => void;
+  clearSelection: () => void;
+  getFocusedNode: () => GraphNode | undefined;
+  setFocusedNode: (id: ElementId | null) => void;
+  width: number | undefined;
+  height: number | undefined;
+  backgroundColor: string;
+  foregroundColor: string;
+  layoutMode: LayoutMode;
+  animation: boolean;
+  pinOnDragEnd: boolean;
+  captionsKeys: [string, boolean][];
+  showPropertyKeyPrefix: boolean;
+  dimmed: boolean;
+  dimOpacity: number | undefined;
+  nodeMode: CanvasRenderMode;
+  linkMode: CanvasRenderMode;
 };
 
 export interface CullingStats {
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseColor, WebGLBatch, WebGLGraphRenderer, type WebGLView } from "../src/webgl-renderer";
+import { createWebGLMock } from "./mocks/webgl";
+
+const VIEW: WebGLView = {
+  transform: { a: 2, b: 0, c: 0, d: 2, e: 400, f: 300 },
+  pixelRatio: 2,
+  background: "#FFFFFF",
+  arrowNotchRatio: 0.3,
+};
+
+function createRenderer() {
+  const mock = createWebGLMock();
+  const canvas = document.createElement("canvas");
+  vi.spyOn(canvas, "getContext").mockImplementation(((type: string) => (type === "webgl2" ? mock.gl : null)) as typeof canvas.getContext);
+  const renderer = WebGLGraphRenderer.create(canvas)!;
+  return { renderer, canvas, ...mock };
+}
+
+describe("parseColor", () => {
+  it("parses CSS colors to 0–1 RGBA and falls back to black", () => {
+    expect(parseColor("#ff0000")).toEqual([1, 0, 0, 1]);
+    expect(parseColor("rgba(0, 0, 255, 0.5)")).toEqual([0, 0, 1, 0.5]);
+    expect(parseColor("not-a-color")).toEqual([0, 0, 0, 1]);
+  });
+});
+
+describe("WebGLBatch", () => {
+  it("packs instances and grows past its initial capacity", () => {
+    const batch = new WebGLBatch();
+    for (let i = 0; i < 300; i++) batch.addDisc(i, 0, 6, 1, "#f00", "#000");
+    batch.addCurve(0, 0, 5, 5, 10, 0, 1, "#00f", 0.5);
+
+    expect(batch.discs.count).toBe(300);
+    expect(batch.discs.view()[batch.discs.stride * 299]).toBe(299);
+    // Alpha multiplies into the color's own opacity
+    expect(Array.from(batch.curves.view().slice(-4))).toEqual([0, 0, 1, 0.5]);
+
+    batch.clear();
+    expect(batch.discs.count).toBe(0);
+    expect(batch.curves.view()).toHaveLength(0);
+  });
+});
+
+describe("WebGLGraphRenderer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns null when WebGL2 is unavailable", () => {
+    const canvas = document.createElement("canvas");
+    vi.spyOn(canvas, "getContext").mockReturnValue(null);
+
+    expect(WebGLGraphRenderer.create(canvas)).toBeNull();
+  });
+
+  it("returns null and logs when a shader fails to compile", () => {
+    const mock = createWebGLMock();
+    const canvas = document.createElement("canvas");
+    vi.spyOn(canvas, "getContext").mockReturnValue(new Proxy(mock.gl, {
+      get: (target, property) => (property === "getShaderParameter" ? () => false : Reflect.get(target, property)),
+    }) as unknown as RenderingContext);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(WebGLGraphRenderer.create(canvas)).toBeNull();
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("WebGL renderer"), expect.any(Error));
+  });
+
+  it("sizes the drawing buffer in device pixels", () => {
+    const { renderer, canvas } = createRenderer();
+
+    renderer.setSize(1600, 1200, 2);
+
+    expect([canvas.width, canvas.height]).toEqual([1600, 1200]);
+    expect([canvas.style.width, canvas.style.height]).toEqual(["800px", "600px"]);
+  });
+
+  it("draws each primitive type with one instanced call", () => {
+    const { renderer, callsTo } = createRenderer();
+    renderer.batch.addCurve(0, 0, 5, 5, 10, 0, 1, "#00f");
+    renderer.batch.addCurve(0, 0, 0, 5, 0, 10, 1, "#00f");
+    renderer.batch.addArrow(10, 0, 1, 0, 4, 1, "#00f");
+    renderer.batch.addDisc(0, 0, 6, 1, "#f00", "#000");
+    renderer.batch.addDisc(10, 0, 6, 1, "#f00", "#000");
+    renderer.batch.addDisc(0, 10, 6, 1, "#f00", "#000");
+
+    renderer.render(VIEW);
+
+    expect(callsTo("clearColor")).toEqual([[1, 1, 1, 1]]);
+    expect(callsTo("drawArraysInstanced").map(([mode, , , count]) => [mode, count])).toEqual([
+      ["TRIANGLE_STRIP", 2],
+      ["TRIANGLES", 1],
+      ["TRIANGLE_STRIP", 3],
+    ]);
+    const [[, , transform]] = callsTo("uniformMatrix3fv");
+    expect(Array.from(transform as Float32Array)).toEqual([2, 0, 0, 0, 2, 0, 400, 300, 1]);
+  });
+
+  it("skips empty primitive types and releases resources on dispose", () => {
+    const { renderer, callsTo } = createRenderer();
+
+    renderer.render(VIEW);
+    renderer.dispose();
+
+    expect(callsTo("drawArraysInstanced")).toHaveLength(0);
+    expect(callsTo("deleteProgram")).toHaveLength(3);
+  });
+});